@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Plus, Users, FolderOpen, Calendar, BarChart3, Clock, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import DepartmentManagement from '@/components/DepartmentManagement';
+import HolidayCalendarManagement from '@/components/HolidayCalendarManagement';
 import DepartmentSelectionDialog from '@/components/DepartmentSelectionDialog';
 import { apiClient } from '@/services/api';
 
@@ -296,6 +297,11 @@ const Dashboard = () => {
         <DepartmentManagement />
       )}
 
+      {/* Holiday Calendars - Only for Admins */}
+      {userRole === 'admin' && (
+        <HolidayCalendarManagement />
+      )}
+
       {/* Recent Projects */}
       <Card className="airbus-card">
         <CardHeader>
@@ -1,24 +1,22 @@
 import { useState, useEffect } from "react";
 import { useApiAuth } from "@/hooks/useApiAuth";
-import { apiClient } from "@/services/api";
+import { apiClient, type Department, type DepartmentMember } from "@/services/api";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Plus, Trash2 } from "lucide-react";
+import { Plus, Trash2, Users, UserMinus } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 
-interface Department {
-  id: string;
-  name: string;
-  created_at: string;
-}
-
 export default function DepartmentManagement() {
   const { user } = useApiAuth();
   const { toast } = useToast();
   const [departments, setDepartments] = useState<Department[]>([]);
   const [newDepartmentName, setNewDepartmentName] = useState("");
+  const [newDepartmentDescription, setNewDepartmentDescription] = useState("");
+  const [expandedDepartmentId, setExpandedDepartmentId] = useState<string | null>(null);
+  const [members, setMembers] = useState<DepartmentMember[]>([]);
+  const [newMemberEmail, setNewMemberEmail] = useState("");
   const [loading, setLoading] = useState(false);
   const [userRole, setUserRole] = useState<string | null>(null);
 
@@ -56,7 +54,7 @@ export default function DepartmentManagement() {
         throw new Error(response.error || 'Failed to fetch departments');
       }
       
-      setDepartments(Array.isArray(response.data) ? response.data : response.data?.departments || []);
+      setDepartments(response.data || []);
     } catch (error: any) {
       console.error("Error fetching departments:", error);
       toast({
@@ -79,7 +77,7 @@ export default function DepartmentManagement() {
 
     setLoading(true);
     try {
-      const response = await apiClient.createDepartment(newDepartmentName.trim());
+      const response = await apiClient.createDepartment(newDepartmentName.trim(), newDepartmentDescription.trim() || undefined);
 
       if (!response.success) {
         throw new Error(response.error || 'Failed to create department');
@@ -91,6 +89,7 @@ export default function DepartmentManagement() {
       });
       
       setNewDepartmentName("");
+      setNewDepartmentDescription("");
       fetchDepartments();
     } catch (error: any) {
       console.error("Error creating department:", error);
@@ -134,6 +133,84 @@ export default function DepartmentManagement() {
     }
   };
 
+  const fetchMembers = async (departmentId: string) => {
+    try {
+      const response = await apiClient.getDepartmentMembers(departmentId);
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to fetch department members');
+      }
+
+      setMembers(response.data || []);
+    } catch (error: any) {
+      console.error("Error fetching department members:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to fetch department members",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleMembers = (departmentId: string) => {
+    setNewMemberEmail("");
+    if (expandedDepartmentId === departmentId) {
+      setExpandedDepartmentId(null);
+      return;
+    }
+    setMembers([]);
+    setExpandedDepartmentId(departmentId);
+    fetchMembers(departmentId);
+  };
+
+  const addMember = async (departmentId: string) => {
+    if (!newMemberEmail.trim()) return;
+
+    try {
+      const response = await apiClient.addDepartmentMember(departmentId, newMemberEmail.trim());
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to add member');
+      }
+
+      toast({
+        title: "Success",
+        description: `${response.data?.email} added to the department`,
+      });
+
+      setNewMemberEmail("");
+      fetchMembers(departmentId);
+      fetchDepartments();
+    } catch (error: any) {
+      console.error("Error adding department member:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add member",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeMember = async (departmentId: string, member: DepartmentMember) => {
+    try {
+      const response = await apiClient.removeDepartmentMember(departmentId, member.id);
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to remove member');
+      }
+
+      fetchMembers(departmentId);
+      fetchDepartments();
+    } catch (error: any) {
+      console.error("Error removing department member:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove member",
+        variant: "destructive",
+      });
+    }
+  };
+
   if (userRole !== "admin") {
     return (
       <Card>
@@ -161,6 +238,12 @@ export default function DepartmentManagement() {
               onChange={(e) => setNewDepartmentName(e.target.value)}
               onKeyPress={(e) => e.key === "Enter" && createDepartment()}
             />
+            <Input
+              placeholder="Description (optional)"
+              value={newDepartmentDescription}
+              onChange={(e) => setNewDepartmentDescription(e.target.value)}
+              onKeyPress={(e) => e.key === "Enter" && createDepartment()}
+            />
             <Button 
               onClick={createDepartment} 
               disabled={loading}
@@ -183,24 +266,72 @@ export default function DepartmentManagement() {
           ) : (
             <div className="space-y-2">
               {departments.map((department) => (
-                <div
-                  key={department.id}
-                  className="flex items-center justify-between p-3 border rounded-lg"
-                >
-                  <div className="flex items-center gap-3">
-                    <Badge variant="outline">{department.name}</Badge>
-                    <span className="text-sm text-muted-foreground">
-                      Created {new Date(department.created_at).toLocaleDateString()}
-                    </span>
+                <div key={department.id} className="p-3 border rounded-lg space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <Badge variant="outline">{department.name}</Badge>
+                      <span className="text-sm text-muted-foreground">
+                        {department.memberCount} member{department.memberCount === 1 ? '' : 's'} · {department.projectCount} project{department.projectCount === 1 ? '' : 's'} · Created {new Date(department.created_at).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => toggleMembers(department.id)}
+                      >
+                        <Users className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => deleteDepartment(department.id)}
+                        disabled={department.projectCount > 0}
+                        title={department.projectCount > 0 ? "Move this department's projects elsewhere before deleting it" : undefined}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
                   </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => deleteDepartment(department.id)}
-                    className="text-destructive hover:text-destructive"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  {department.description && (
+                    <p className="text-sm text-muted-foreground">{department.description}</p>
+                  )}
+
+                  {expandedDepartmentId === department.id && (
+                    <div className="space-y-2 border-t pt-3">
+                      <div className="flex gap-2">
+                        <Input
+                          placeholder="User email"
+                          value={newMemberEmail}
+                          onChange={(e) => setNewMemberEmail(e.target.value)}
+                          onKeyPress={(e) => e.key === "Enter" && addMember(department.id)}
+                        />
+                        <Button onClick={() => addMember(department.id)} className="shrink-0">
+                          <Plus className="h-4 w-4 mr-2" />
+                          Add Member
+                        </Button>
+                      </div>
+                      {members.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No members yet.</p>
+                      ) : (
+                        members.map((member) => (
+                          <div key={member.id} className="flex items-center justify-between text-sm">
+                            <span>
+                              {member.email} <span className="text-muted-foreground">({member.role})</span>
+                            </span>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeMember(department.id, member)}
+                            >
+                              <UserMinus className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -39,7 +39,7 @@ export default function DepartmentSelectionDialog({
     try {
       const response = await apiClient.getDepartments();
       if (response.success && response.data) {
-        setDepartments(Array.isArray(response.data) ? response.data : response.data.departments || []);
+        setDepartments(response.data);
       }
     } catch (error) {
       console.error("Error fetching departments:", error);
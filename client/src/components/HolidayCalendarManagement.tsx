@@ -0,0 +1,408 @@
+import { useState, useEffect, useRef } from "react";
+import { useApiAuth } from "@/hooks/useApiAuth";
+import { apiClient, type HolidayCalendar, type Holiday } from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarDays, Plus, Trash2, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+
+export default function HolidayCalendarManagement() {
+  const { user } = useApiAuth();
+  const { toast } = useToast();
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>([]);
+  const [newCalendarName, setNewCalendarName] = useState("");
+  const [newCalendarRegion, setNewCalendarRegion] = useState("");
+  const [expandedCalendarId, setExpandedCalendarId] = useState<string | null>(null);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [newHolidayDate, setNewHolidayDate] = useState("");
+  const [newHolidayName, setNewHolidayName] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [userRole, setUserRole] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchUserRole();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (userRole === "admin") {
+      fetchCalendars();
+    }
+  }, [userRole]);
+
+  useEffect(() => {
+    if (expandedCalendarId) {
+      fetchHolidays(expandedCalendarId);
+    }
+  }, [expandedCalendarId, year]);
+
+  const fetchUserRole = async () => {
+    if (!user) return;
+
+    try {
+      const response = await apiClient.getUserRole(user.id);
+
+      if (response.success) {
+        setUserRole(response.data?.role || null);
+      }
+    } catch (error) {
+      console.error("Error fetching user role:", error);
+    }
+  };
+
+  const fetchCalendars = async () => {
+    try {
+      const response = await apiClient.getHolidayCalendars();
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to fetch holiday calendars');
+      }
+
+      setCalendars(response.data || []);
+    } catch (error: any) {
+      console.error("Error fetching holiday calendars:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to fetch holiday calendars",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const createCalendar = async () => {
+    if (!newCalendarName.trim()) {
+      toast({
+        title: "Error",
+        description: "Calendar name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await apiClient.createHolidayCalendar({
+        name: newCalendarName.trim(),
+        region: newCalendarRegion.trim() || undefined
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to create holiday calendar');
+      }
+
+      toast({
+        title: "Success",
+        description: "Holiday calendar created successfully",
+      });
+
+      setNewCalendarName("");
+      setNewCalendarRegion("");
+      fetchCalendars();
+    } catch (error: any) {
+      console.error("Error creating holiday calendar:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create holiday calendar",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deleteCalendar = async (calendar: HolidayCalendar) => {
+    const inUse = calendar.teamCount > 0 ? ` ${calendar.teamCount} team${calendar.teamCount === 1 ? ' uses' : 's use'} it and will only skip weekends.` : '';
+    if (!confirm(`Are you sure you want to delete this holiday calendar?${inUse}`)) {
+      return;
+    }
+
+    try {
+      const response = await apiClient.deleteHolidayCalendar(calendar.id);
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to delete holiday calendar');
+      }
+
+      toast({
+        title: "Success",
+        description: "Holiday calendar deleted successfully",
+      });
+
+      if (expandedCalendarId === calendar.id) {
+        setExpandedCalendarId(null);
+      }
+      fetchCalendars();
+    } catch (error: any) {
+      console.error("Error deleting holiday calendar:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete holiday calendar",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchHolidays = async (calendarId: string) => {
+    try {
+      const response = await apiClient.getHolidays(calendarId, year);
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to fetch holidays');
+      }
+
+      setHolidays(response.data || []);
+    } catch (error: any) {
+      console.error("Error fetching holidays:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to fetch holidays",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleHolidays = (calendarId: string) => {
+    setNewHolidayDate("");
+    setNewHolidayName("");
+    if (expandedCalendarId === calendarId) {
+      setExpandedCalendarId(null);
+      return;
+    }
+    setHolidays([]);
+    setExpandedCalendarId(calendarId);
+  };
+
+  const addHoliday = async (calendarId: string) => {
+    if (!newHolidayDate || !newHolidayName.trim()) return;
+
+    try {
+      const response = await apiClient.addHoliday(calendarId, { date: newHolidayDate, name: newHolidayName.trim() });
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to add holiday');
+      }
+
+      setNewHolidayDate("");
+      setNewHolidayName("");
+      fetchHolidays(calendarId);
+      fetchCalendars();
+    } catch (error: any) {
+      console.error("Error adding holiday:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add holiday",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeHoliday = async (calendarId: string, holiday: Holiday) => {
+    try {
+      const response = await apiClient.removeHoliday(calendarId, holiday.id);
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to remove holiday');
+      }
+
+      fetchHolidays(calendarId);
+      fetchCalendars();
+    } catch (error: any) {
+      console.error("Error removing holiday:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove holiday",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const importFile = async (calendarId: string, file: File | undefined) => {
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const response = await apiClient.importHolidayCalendar(calendarId, file);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to import holidays');
+      }
+
+      const { imported, updated, skipped } = response.data;
+      toast({
+        title: "Import complete",
+        description: `${imported} added, ${updated} updated${skipped.length > 0 ? `, ${skipped.length} skipped (${skipped.map(s => `${s.summary}: ${s.reason}`).join('; ')})` : ''}`,
+      });
+
+      fetchHolidays(calendarId);
+      fetchCalendars();
+    } catch (error: any) {
+      console.error("Error importing holidays:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import holidays",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  if (userRole !== "admin") {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <p className="text-muted-foreground">Access denied. Admin role required.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Holiday Calendars</CardTitle>
+          <CardDescription>
+            Public holidays per site; assign them to teams or members to take them out of capacity
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Calendar name"
+              value={newCalendarName}
+              onChange={(e) => setNewCalendarName(e.target.value)}
+              onKeyPress={(e) => e.key === "Enter" && createCalendar()}
+            />
+            <Input
+              placeholder="Region (optional)"
+              value={newCalendarRegion}
+              onChange={(e) => setNewCalendarRegion(e.target.value)}
+              onKeyPress={(e) => e.key === "Enter" && createCalendar()}
+            />
+            <Button
+              onClick={createCalendar}
+              disabled={loading}
+              className="shrink-0"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Calendar
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Calendars ({calendars.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {calendars.length === 0 ? (
+            <p className="text-muted-foreground">No holiday calendars created yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {calendars.map((calendar) => (
+                <div key={calendar.id} className="p-3 border rounded-lg space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <Badge variant="outline">{calendar.name}</Badge>
+                      <span className="text-sm text-muted-foreground">
+                        {calendar.region ? `${calendar.region} · ` : ''}{calendar.holidayCount} holiday{calendar.holidayCount === 1 ? '' : 's'} · {calendar.teamCount} team{calendar.teamCount === 1 ? '' : 's'}
+                      </span>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => toggleHolidays(calendar.id)}
+                      >
+                        <CalendarDays className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => deleteCalendar(calendar)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {expandedCalendarId === calendar.id && (
+                    <div className="space-y-2 border-t pt-3">
+                      <div className="flex gap-2">
+                        <Input
+                          type="date"
+                          value={newHolidayDate}
+                          onChange={(e) => setNewHolidayDate(e.target.value)}
+                          className="w-44"
+                        />
+                        <Input
+                          placeholder="Holiday name"
+                          value={newHolidayName}
+                          onChange={(e) => setNewHolidayName(e.target.value)}
+                          onKeyPress={(e) => e.key === "Enter" && addHoliday(calendar.id)}
+                        />
+                        <Button onClick={() => addHoliday(calendar.id)} className="shrink-0">
+                          <Plus className="h-4 w-4 mr-2" />
+                          Add Holiday
+                        </Button>
+                        <input
+                          ref={fileInputRef}
+                          type="file"
+                          accept=".ics,text/calendar"
+                          className="hidden"
+                          onChange={(e) => importFile(calendar.id, e.target.files?.[0])}
+                        />
+                        <Button
+                          variant="outline"
+                          onClick={() => fileInputRef.current?.click()}
+                          disabled={importing}
+                          className="shrink-0"
+                        >
+                          <Upload className="h-4 w-4 mr-2" />
+                          {importing ? 'Importing...' : 'Import .ics'}
+                        </Button>
+                      </div>
+                      <div className="flex items-center gap-2 text-sm">
+                        <Button variant="ghost" size="sm" onClick={() => setYear(year - 1)}>‹</Button>
+                        <span className="font-medium">{year}</span>
+                        <Button variant="ghost" size="sm" onClick={() => setYear(year + 1)}>›</Button>
+                      </div>
+                      {holidays.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No holidays in {year}.</p>
+                      ) : (
+                        holidays.map((holiday) => (
+                          <div key={holiday.id} className="flex items-center justify-between text-sm">
+                            <span>
+                              {new Date(`${holiday.date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })} <span className="text-muted-foreground">{holiday.name}</span>
+                            </span>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeHoliday(calendar.id, holiday)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,11 +5,13 @@ import { apiClient } from '@/services/api';
 import { useToast } from '@/hooks/use-toast';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ArrowRight, Check } from 'lucide-react';
+import { ArrowRight, Check, AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { WizardHeader } from '@/components/ui/wizard-header';
 import { ProgressStepper } from '@/components/ui/progress-stepper';
 import { CelebrationOverlay } from '@/components/ui/celebration-overlay';
 import { SuccessModal } from '@/components/ui/success-modal';
+import ProjectSourceStep from './wizard/ProjectSourceStep';
 import ProjectBasicsStep from './wizard/ProjectBasicsStep';
 import TaskCaptureStep from './wizard/TaskCaptureStep';
 import MilestoneGroupingStep from './wizard/MilestoneGroupingStep';
@@ -35,7 +37,59 @@ export interface Milestone {
   tasks: Task[];
 }
 
+export interface WizardFieldError {
+  path: (string | number)[];
+  message: string;
+}
+
+// The step where each top-level field of the wizard is edited
+const FIELD_STEPS: Record<string, string> = {
+  projectName: 'project_wizard',
+  name: 'project_wizard',
+  objective: 'project_wizard',
+  description: 'project_wizard',
+  startDate: 'project_wizard',
+  endDate: 'project_wizard',
+  businessValue: 'project_wizard',
+  tasks: 'task_capture',
+  milestones: 'milestone_grouping',
+  inviteEmails: 'team_setup'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  projectName: 'Project name',
+  objective: 'Objective',
+  startDate: 'Start date',
+  endDate: 'End date',
+  businessValue: 'Business value',
+  tasks: 'Task',
+  milestones: 'Milestone',
+  inviteEmails: 'Invite'
+};
+
+// e.g. ['milestones', 1, 'tasks', 0, 'ownerId'] -> "Milestone 2, Task 1, ownerId"
+const describeField = (path: (string | number)[]): string => {
+  const parts: string[] = [];
+  for (let i = 0; i < path.length; i++) {
+    const key = String(path[i]);
+    const next = path[i + 1];
+    const label = FIELD_LABELS[key] || key;
+    if (typeof next === 'number') {
+      parts.push(`${label} ${next + 1}`);
+      i++;
+    } else {
+      parts.push(label);
+    }
+  }
+  return parts.join(', ');
+};
+
+export type ProjectSource = 'blank' | 'template' | 'clone';
+
 export interface ProjectData {
+  source: ProjectSource;
+  templateId?: string;
+  sourceProjectId?: string;
   projectName: string;
   objective: string;
   startDate: string;
@@ -56,8 +110,10 @@ const ProjectWizard = () => {
   const [showCelebration, setShowCelebration] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [createdProjectId, setCreatedProjectId] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<WizardFieldError[]>([]);
   
   const [projectData, setProjectData] = useState<ProjectData>({
+    source: 'blank',
     projectName: '',
     objective: '',
     startDate: new Date().toISOString().split('T')[0],
@@ -68,29 +124,37 @@ const ProjectWizard = () => {
     inviteEmails: []
   });
 
+  // Templates and clones bring their own tasks and milestones, so only the basics are asked for
   const steps = [
+    { id: 'source', title: 'Choose a Starting Point', subtitle: 'Start fresh or reuse an earlier project', component: ProjectSourceStep },
     { id: 'project_wizard', title: 'Project Basics', subtitle: 'Just the essentials to get started', component: ProjectBasicsStep },
-    { id: 'task_capture', title: 'List Your Tasks', subtitle: 'Type quickly; we\'ll organize later', component: TaskCaptureStep },
-    { id: 'milestone_grouping', title: 'Create Milestones & Group Tasks', subtitle: 'Drag tasks into milestones', component: MilestoneGroupingStep },
-    { id: 'team_setup', title: 'Invite Teammates', subtitle: 'Optional but recommended', component: TeamSetupStep },
-    { id: 'confirm', title: 'Review & Create', subtitle: 'One last glance', component: ConfirmationStep }
+    ...(projectData.source === 'blank' ? [
+      { id: 'task_capture', title: 'List Your Tasks', subtitle: 'Type quickly; we\'ll organize later', component: TaskCaptureStep },
+      { id: 'milestone_grouping', title: 'Create Milestones & Group Tasks', subtitle: 'Drag tasks into milestones', component: MilestoneGroupingStep },
+      { id: 'team_setup', title: 'Invite Teammates', subtitle: 'Optional but recommended', component: TeamSetupStep },
+      { id: 'confirm', title: 'Review & Create', subtitle: 'One last glance', component: ConfirmationStep }
+    ] : [])
   ];
 
   const canProceed = () => {
-    switch (currentStep) {
-      case 0: // Project basics
+    switch (steps[currentStep].id) {
+      case 'source':
+        return projectData.source === 'blank' ||
+               (projectData.source === 'template' && Boolean(projectData.templateId)) ||
+               (projectData.source === 'clone' && Boolean(projectData.sourceProjectId));
+      case 'project_wizard':
         return projectData.projectName.length > 0 && 
                projectData.projectName.length <= 120 && 
                projectData.objective.length > 0 && 
                projectData.objective.length <= 500;
-      case 1: // Task capture
+      case 'task_capture':
         return projectData.tasks.length >= 1;
-      case 2: // Milestone grouping
+      case 'milestone_grouping':
         return projectData.milestones.length > 0 && 
                projectData.milestones.every(m => m.tasks.length > 0);
-      case 3: // Team setup (optional)
+      case 'team_setup': // optional
         return true;
-      case 4: // Confirmation
+      case 'confirm':
         return true;
       default:
         return false;
@@ -113,19 +177,40 @@ const ProjectWizard = () => {
     if (!user) return;
 
     setIsCreating(true);
+    setFieldErrors([]);
     try {
+      const basics = {
+        name: projectData.projectName,
+        description: projectData.objective,
+        startDate: projectData.startDate
+      };
+
       // Use API client to create project with wizard data
-      const response = await apiClient.createProjectWizard({
-        projectName: projectData.projectName,
-        objective: projectData.objective,
-        startDate: projectData.startDate,
-        endDate: projectData.endDate,
-        tasks: projectData.tasks,
-        milestones: projectData.milestones,
-        inviteEmails: projectData.inviteEmails
-      });
+      const response = projectData.source === 'template' && projectData.templateId
+        ? await apiClient.createProjectFromTemplate(projectData.templateId, basics)
+        : projectData.source === 'clone' && projectData.sourceProjectId
+          ? await apiClient.cloneProject(projectData.sourceProjectId, basics)
+          : await apiClient.createProjectWizard({
+              projectName: projectData.projectName,
+              objective: projectData.objective,
+              startDate: projectData.startDate,
+              endDate: projectData.endDate,
+              businessValue: projectData.businessValue,
+              tasks: projectData.tasks,
+              milestones: projectData.milestones,
+              inviteEmails: projectData.inviteEmails
+            });
 
       if (!response.success) {
+        // Nothing was created; send the user back to the first step with a problem
+        if (Array.isArray(response.details) && response.details.length > 0) {
+          const errors: WizardFieldError[] = response.details;
+          setFieldErrors(errors);
+          const errorSteps = errors
+            .map(e => steps.findIndex(step => step.id === FIELD_STEPS[String(e.path[0])]))
+            .filter(index => index >= 0);
+          if (errorSteps.length > 0) setCurrentStep(Math.min(...errorSteps));
+        }
         throw new Error(response.error || 'Failed to create project');
       }
 
@@ -185,6 +270,19 @@ const ProjectWizard = () => {
           labels={steps.map(step => step.title)}
         />
 
+        {fieldErrors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1">
+                {fieldErrors.map((error, index) => (
+                  <li key={index}>{describeField(error.path)}: {error.message}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Step Content */}
         <Card className="shadow-card border-border-subtle overflow-visible">
           <CardContent className="p-xl overflow-visible">
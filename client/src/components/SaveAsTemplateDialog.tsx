@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { apiClient } from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Copy } from "lucide-react";
+
+interface SaveAsTemplateDialogProps {
+  projectId: string;
+  projectName: string;
+}
+
+export default function SaveAsTemplateDialog({ projectId, projectName }: SaveAsTemplateDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const openDialog = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setName(`${projectName} template`);
+      setDescription("");
+    }
+  };
+
+  const saveTemplate = async () => {
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      const response = await apiClient.saveProjectAsTemplate(projectId, {
+        name: name.trim(),
+        description: description.trim() || undefined,
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || "Failed to save template");
+      }
+
+      const content = response.data?.content;
+      toast({
+        title: "Template Saved",
+        description: content
+          ? `${content.milestones.length} milestones, ${content.tasks.length} tasks and ${content.risks.length} risks saved to "${response.data?.name}".`
+          : "Template saved successfully",
+      });
+      setOpen(false);
+    } catch (error: any) {
+      console.error("Error saving template:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save template",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openDialog}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full sm:w-auto" data-testid="button-save-as-template">
+          <Copy className="h-4 w-4 mr-2" />
+          Save as Template
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Milestones, task skeletons, risks, budget categories and the retro framework are saved with dates relative to the project start.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="templateName">Template Name</Label>
+            <Input
+              id="templateName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={120}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="templateDescription">Description</Label>
+            <Textarea
+              id="templateDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="When should this template be used?"
+              maxLength={500}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={saveTemplate} disabled={saving || !name.trim()}>
+            {saving ? "Saving..." : "Save Template"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -26,16 +26,17 @@ interface AccessControlDialogProps {
 
 const MODULES = [
   { value: 'budget', label: 'Budget' },
-  { value: 'tasks', label: 'Tasks & Milestones' },
+  { value: 'tasks_milestones', label: 'Tasks & Milestones' },
   { value: 'roadmap', label: 'Roadmap' },
   { value: 'kanban', label: 'Kanban' },
   { value: 'stakeholders', label: 'Stakeholders' },
-  { value: 'risks', label: 'Risk Register' },
+  { value: 'risk_register', label: 'Risk Register' },
   { value: 'discussions', label: 'Discussions' },
-  { value: 'backlog', label: 'Task Backlog' },
-  { value: 'capacity', label: 'Team Capacity' },
-  { value: 'retrospective', label: 'Retrospectives' },
+  { value: 'task_backlog', label: 'Task Backlog' },
+  { value: 'team_capacity', label: 'Team Capacity' },
+  { value: 'retrospectives', label: 'Retrospectives' },
   { value: 'access_control', label: 'Access Control' },
+  { value: 'jira_sync', label: 'Jira Sync' },
 ];
 
 export function AccessControlDialog({ projectId, trigger }: AccessControlDialogProps) {
@@ -55,7 +56,7 @@ export function AccessControlDialog({ projectId, trigger }: AccessControlDialogP
 
   const fetchPermissions = async () => {
     try {
-      const response = await apiClient.getModulePermissions(projectId);
+      const response = await apiClient.getProjectPermissionGrants(projectId);
       
       if (!response.success) {
         toast({
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { SimpleSelect, SimpleSelectItem } from '@/components/ui/simple-select';
+import { apiClient, type BurnChart } from '@/services/api';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine
+} from 'recharts';
+import { TrendingDown } from 'lucide-react';
+
+interface BurnChartCardProps {
+  projectId: string;
+}
+
+type BurnMode = 'burndown' | 'burnup';
+type BurnUnit = 'tasks' | 'points';
+
+const BurnChartCard: React.FC<BurnChartCardProps> = ({ projectId }) => {
+  const [iterations, setIterations] = useState<{ id: string; iteration_name: string }[]>([]);
+  const [milestones, setMilestones] = useState<{ id: string; name: string }[]>([]);
+  const [selection, setSelection] = useState('');
+  const [chart, setChart] = useState<BurnChart | null>(null);
+  const [mode, setMode] = useState<BurnMode>('burndown');
+  const [unit, setUnit] = useState<BurnUnit>('tasks');
+
+  useEffect(() => {
+    apiClient.getIterations(projectId).then(response => {
+      if (response.success && Array.isArray(response.data)) setIterations(response.data);
+    });
+    apiClient.getMilestones(projectId).then(response => {
+      if (response.success) setMilestones(Array.isArray(response.data) ? response.data : response.data?.milestones || []);
+    });
+  }, [projectId]);
+
+  useEffect(() => {
+    const fetchChart = async () => {
+      const [scope, id] = selection.split(':');
+      try {
+        const response = await apiClient.getBurnChart(projectId, scope === 'iteration' ? { iterationId: id } : { milestoneId: id });
+        if (!response.success) {
+          throw new Error(response.error || 'Failed to fetch burndown');
+        }
+        setChart(response.data || null);
+      } catch (error) {
+        console.error('Error fetching burndown:', error);
+        setChart(null);
+      }
+    };
+
+    setChart(null);
+    if (selection) {
+      fetchChart();
+    }
+  }, [projectId, selection]);
+
+  const data = chart?.days.map(day => ({
+    date: day.date,
+    ideal: day.ideal[unit],
+    remaining: day.remaining?.[unit] ?? null,
+    scope: day.scope?.[unit] ?? null,
+    completed: day.completed?.[unit] ?? null
+  })) || [];
+  const changes = chart?.scopeChanges.filter(change => change[unit] !== 0) || [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingDown className="h-5 w-5" />
+            {mode === 'burndown' ? 'Burndown' : 'Burnup'}
+          </CardTitle>
+          <CardDescription>
+            {chart ? `${chart.name}: ${chart.startDate} to ${chart.endDate}` : 'Pick an iteration or milestone'}
+          </CardDescription>
+        </div>
+        <div className="flex gap-1">
+          <Button size="sm" variant={mode === 'burndown' ? 'default' : 'outline'} onClick={() => setMode('burndown')}>Burndown</Button>
+          <Button size="sm" variant={mode === 'burnup' ? 'default' : 'outline'} onClick={() => setMode('burnup')}>Burnup</Button>
+          <Button size="sm" variant="outline" onClick={() => setUnit(unit === 'tasks' ? 'points' : 'tasks')}>
+            {unit === 'tasks' ? 'Tasks' : 'Points'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <SimpleSelect
+          value={selection}
+          onValueChange={setSelection}
+          placeholder={iterations.length + milestones.length > 0 ? 'Select an iteration or milestone' : 'No iterations or milestones yet'}
+        >
+          {iterations.map(iteration => (
+            <SimpleSelectItem key={iteration.id} value={`iteration:${iteration.id}`}>Iteration: {iteration.iteration_name}</SimpleSelectItem>
+          ))}
+          {milestones.map(milestone => (
+            <SimpleSelectItem key={milestone.id} value={`milestone:${milestone.id}`}>Milestone: {milestone.name}</SimpleSelectItem>
+          ))}
+        </SimpleSelect>
+
+        {chart ? (
+          <>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tickFormatter={(date) => date.slice(5)} />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                {mode === 'burndown' ? (
+                  <>
+                    <Line dataKey="ideal" name="Ideal" stroke="#94a3b8" strokeDasharray="5 5" dot={false} />
+                    <Line dataKey="remaining" name="Remaining" stroke="#2563eb" dot={false} connectNulls={false} />
+                  </>
+                ) : (
+                  <>
+                    <Line dataKey="scope" name="Scope" type="stepAfter" stroke="#f59e0b" dot={false} connectNulls={false} />
+                    <Line dataKey="completed" name="Completed" stroke="#10b981" dot={false} connectNulls={false} />
+                  </>
+                )}
+                {changes.map(change => (
+                  <ReferenceLine
+                    key={change.date}
+                    x={change.date}
+                    stroke="#f97316"
+                    strokeDasharray="3 3"
+                    label={{ value: `${change[unit] > 0 ? '+' : ''}${change[unit]}`, position: 'top', fill: '#f97316', fontSize: 11 }}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+            {changes.length > 0 && (
+              <div className="flex flex-wrap gap-2 text-xs">
+                <span className="text-muted-foreground">Scope changes:</span>
+                {changes.map(change => (
+                  <Badge key={change.date} variant="outline">
+                    {change.date} {change[unit] > 0 ? '+' : ''}{change[unit]} {unit}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+            {selection ? 'No burndown data available' : 'Select an iteration or milestone to see its burndown'}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export { BurnChartCard };
@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { apiClient, type CumulativeFlow } from '@/services/api';
+import {
+  ResponsiveContainer,
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts';
+import { Layers } from 'lucide-react';
+
+interface CumulativeFlowCardProps {
+  projectId: string;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  completed: '#10b981',
+  in_progress: '#3b82f6',
+  blocked: '#ef4444',
+  on_hold: '#f59e0b',
+  todo: '#94a3b8'
+};
+
+const RANGES = [14, 30, 90];
+
+const statusLabel = (status: string) => status.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+const CumulativeFlowCard: React.FC<CumulativeFlowCardProps> = ({ projectId }) => {
+  const [flow, setFlow] = useState<CumulativeFlow | null>(null);
+  const [days, setDays] = useState(30);
+  const [unit, setUnit] = useState<'counts' | 'points'>('counts');
+
+  useEffect(() => {
+    const fetchFlow = async () => {
+      try {
+        const from = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+        const response = await apiClient.getCumulativeFlow(projectId, from);
+        if (!response.success) {
+          throw new Error(response.error || 'Failed to fetch cumulative flow');
+        }
+        setFlow(response.data || null);
+      } catch (error) {
+        console.error('Error fetching cumulative flow:', error);
+        setFlow(null);
+      }
+    };
+
+    if (projectId) {
+      fetchFlow();
+    }
+  }, [projectId, days]);
+
+  const data = flow?.days.map(day => ({ date: day.date, ...day[unit] })) || [];
+  const hasData = data.some(day => flow!.statuses.some(status => (day as Record<string, any>)[status] > 0));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Cumulative Flow
+          </CardTitle>
+          <CardDescription>Tasks in each status at the end of every day</CardDescription>
+        </div>
+        <div className="flex gap-1">
+          {RANGES.map(range => (
+            <Button key={range} size="sm" variant={days === range ? 'default' : 'outline'} onClick={() => setDays(range)}>{range}d</Button>
+          ))}
+          <Button size="sm" variant="outline" onClick={() => setUnit(unit === 'counts' ? 'points' : 'counts')}>
+            {unit === 'counts' ? 'Tasks' : 'Points'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {flow && hasData ? (
+          <ResponsiveContainer width="100%" height={300}>
+            <AreaChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" tickFormatter={(date) => date.slice(5)} />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend formatter={(value) => statusLabel(value)} />
+              {flow.statuses.map(status => (
+                <Area
+                  key={status}
+                  type="monotone"
+                  dataKey={status}
+                  stackId="flow"
+                  stroke={STATUS_COLORS[status] || '#a855f7'}
+                  fill={STATUS_COLORS[status] || '#a855f7'}
+                  fillOpacity={0.7}
+                />
+              ))}
+            </AreaChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+            No task flow data available
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export { CumulativeFlowCard };
@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { apiClient, type DeliveryForecast, type ForecastStatus } from '@/services/api';
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine
+} from 'recharts';
+import { TrendingUp, AlertTriangle } from 'lucide-react';
+
+interface DeliveryForecastCardProps {
+  projectId: string;
+}
+
+const STATUS_BADGES: Record<ForecastStatus, { label: string; className: string }> = {
+  complete: { label: 'Complete', className: 'bg-emerald-100 text-emerald-800' },
+  on_track: { label: 'On track', className: 'bg-emerald-100 text-emerald-800' },
+  at_risk: { label: 'At risk', className: 'bg-amber-100 text-amber-800' },
+  late: { label: 'Likely late', className: 'bg-red-100 text-red-800' },
+  no_target: { label: 'No target date', className: 'bg-gray-100 text-gray-800' },
+  unknown: { label: 'No throughput', className: 'bg-gray-100 text-gray-800' }
+};
+
+const formatDate = (date: string | null) =>
+  date ? new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' }) : '—';
+
+const DeliveryForecastCard: React.FC<DeliveryForecastCardProps> = ({ projectId }) => {
+  const [forecast, setForecast] = useState<DeliveryForecast | null>(null);
+  const [unit, setUnit] = useState<DeliveryForecast['unit']>('tasks');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchForecast = async () => {
+      setLoading(true);
+      try {
+        const response = await apiClient.getForecastAnalytics(projectId, unit);
+        if (!response.success) {
+          throw new Error(response.error || 'Failed to fetch forecast');
+        }
+        setForecast(response.data || null);
+      } catch (error) {
+        console.error('Error fetching forecast:', error);
+        setForecast(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (projectId) {
+      fetchForecast();
+    }
+  }, [projectId, unit]);
+
+  const unitLabel = unit === 'points' ? 'points' : 'tasks';
+  const project = forecast?.project;
+  // Reference lines need a week on the x axis, so dates past the charted range are left off
+  const chartWeeks = new Set(forecast?.chart.map(point => point.week));
+  const endWeek = forecast?.chart.find(point => project?.targetDate && point.date >= project.targetDate)?.week;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            Delivery Forecast
+          </CardTitle>
+          <CardDescription>
+            {forecast
+              ? `${forecast.trials.toLocaleString()} simulations from ${forecast.history.weeks} weeks of throughput (avg ${forecast.history.averageThroughput} ${unitLabel}/week)`
+              : 'Monte Carlo simulation of completion dates'}
+          </CardDescription>
+        </div>
+        <div className="flex gap-1">
+          <Button size="sm" variant={unit === 'tasks' ? 'default' : 'outline'} onClick={() => setUnit('tasks')}>Tasks</Button>
+          <Button size="sm" variant={unit === 'points' ? 'default' : 'outline'} onClick={() => setUnit('points')}>Story points</Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="h-[300px] flex items-center justify-center text-muted-foreground">Running forecast...</div>
+        ) : !forecast || !project ? (
+          <div className="h-[300px] flex items-center justify-center text-muted-foreground">No forecast available</div>
+        ) : (
+          <>
+            {forecast.warning && (
+              <div className="flex items-center gap-2 text-sm text-amber-700">
+                <AlertTriangle className="h-4 w-4" />
+                {forecast.warning}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Remaining</p>
+                <p className="text-xl font-bold">{project.remaining} {unitLabel}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">50% likely by</p>
+                <p className="text-xl font-bold">{formatDate(project.dates.p50)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">85% likely by</p>
+                <p className="text-xl font-bold">{formatDate(project.dates.p85)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">95% likely by</p>
+                <p className="text-xl font-bold">{formatDate(project.dates.p95)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Project end date</p>
+                <p className="text-xl font-bold">{formatDate(project.targetDate)}</p>
+                <Badge variant="default" className={STATUS_BADGES[project.status].className}>
+                  {STATUS_BADGES[project.status].label}
+                  {project.onTimeProbability !== null && project.status !== 'complete' && ` · ${project.onTimeProbability}%`}
+                </Badge>
+              </div>
+            </div>
+
+            {forecast.chart.length > 0 && (
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart data={forecast.chart}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="week" tickFormatter={(week) => `W${week}`} />
+                  <YAxis yAxisId="probability" tickFormatter={(value) => `${value}%`} />
+                  <YAxis yAxisId="cumulative" orientation="right" domain={[0, 100]} tickFormatter={(value) => `${value}%`} />
+                  <Tooltip
+                    labelFormatter={(week, payload: any) => `Week ${week} (${formatDate(payload?.[0]?.payload?.date || null)})`}
+                    formatter={(value: number, name: string) => [`${value}%`, name]}
+                  />
+                  <Legend />
+                  <Bar yAxisId="probability" dataKey="probability" name="Finish in week" fill="#93c5fd" />
+                  <Line yAxisId="cumulative" dataKey="cumulative" name="Finished by week" stroke="#1d4ed8" dot={false} />
+                  {(['p50', 'p85', 'p95'] as const).map(key => project.weeks[key] !== null && chartWeeks.has(project.weeks[key]!) && (
+                    <ReferenceLine key={key} yAxisId="cumulative" x={project.weeks[key]!} stroke="#64748b" strokeDasharray="4 4" label={key.toUpperCase()} />
+                  ))}
+                  {endWeek !== undefined && (
+                    <ReferenceLine yAxisId="cumulative" x={endWeek} stroke="#dc2626" label="End date" />
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+            )}
+
+            {forecast.milestones.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Milestone</TableHead>
+                    <TableHead>Remaining</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead>P50</TableHead>
+                    <TableHead>P85</TableHead>
+                    <TableHead>P95</TableHead>
+                    <TableHead>On time</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {forecast.milestones.map(milestone => (
+                    <TableRow key={milestone.milestoneId}>
+                      <TableCell className="font-medium">{milestone.name}</TableCell>
+                      <TableCell>{milestone.remaining}</TableCell>
+                      <TableCell>{formatDate(milestone.targetDate)}</TableCell>
+                      <TableCell>{formatDate(milestone.dates.p50)}</TableCell>
+                      <TableCell>{formatDate(milestone.dates.p85)}</TableCell>
+                      <TableCell>{formatDate(milestone.dates.p95)}</TableCell>
+                      <TableCell>
+                        <Badge variant="default" className={STATUS_BADGES[milestone.status].className}>
+                          {STATUS_BADGES[milestone.status].label}
+                          {milestone.onTimeProbability !== null && milestone.status !== 'complete' && ` · ${milestone.onTimeProbability}%`}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {(forecast.unassignedRemaining > 0 || forecast.unestimatedTasks > 0) && (
+              <p className="text-xs text-muted-foreground">
+                {forecast.unassignedRemaining > 0 && `${forecast.unassignedRemaining} ${unitLabel} outside any milestone only affect the project date. `}
+                {forecast.unestimatedTasks > 0 && `${forecast.unestimatedTasks} unestimated tasks are sized at the average of completed work.`}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export { DeliveryForecastCard };
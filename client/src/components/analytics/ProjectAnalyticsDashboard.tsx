@@ -5,6 +5,9 @@ import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { apiClient } from '@/services/api';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DeliveryForecastCard } from './DeliveryForecastCard';
+import { CumulativeFlowCard } from './CumulativeFlowCard';
+import { BurnChartCard } from './BurnChartCard';
 import {
   ResponsiveContainer,
   PieChart as RechartsPieChart,
@@ -230,8 +233,14 @@ const ProjectAnalyticsDashboard: React.FC<ProjectAnalyticsDashboardProps> = ({ p
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-blue-700 text-sm font-medium">Budget Health</p>
-                <p className="text-3xl font-bold text-blue-900">{projectHealth.budget}%</p>
-                <p className="text-blue-600 text-sm">${budgetAnalytics.remainingBudget.toLocaleString()} remaining</p>
+                {budgetAnalytics ? (
+                  <>
+                    <p className="text-3xl font-bold text-blue-900">{projectHealth.budget}%</p>
+                    <p className="text-blue-600 text-sm">${budgetAnalytics.remainingBudget.toLocaleString()} remaining</p>
+                  </>
+                ) : (
+                  <p className="text-blue-600 text-sm mt-2">You don't have access to this project's budget</p>
+                )}
               </div>
               <div className="h-12 w-12 bg-blue-600 rounded-lg flex items-center justify-center">
                 <DollarSign className="h-6 w-6 text-white" />
@@ -291,34 +300,40 @@ const ProjectAnalyticsDashboard: React.FC<ProjectAnalyticsDashboardProps> = ({ p
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              <div className="flex justify-between text-sm">
-                <span>Total Budget</span>
-                <span className="font-bold">
-                  {budgetAnalytics.totalAllocated > 0 
-                    ? `$${budgetAnalytics.totalAllocated.toLocaleString()}` 
-                    : 'Not Set'
-                  }
-                </span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span>Amount Spent</span>
-                <span className="font-bold text-red-600">${budgetAnalytics.totalSpent.toLocaleString()}</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span>Remaining</span>
-                <span className="font-bold text-green-600">${budgetAnalytics.remainingBudget.toLocaleString()}</span>
-              </div>
+              {budgetAnalytics ? (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span>Total Budget</span>
+                    <span className="font-bold">
+                      {budgetAnalytics.totalAllocated > 0 
+                        ? `$${budgetAnalytics.totalAllocated.toLocaleString()}` 
+                        : 'Not Set'
+                      }
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span>Amount Spent</span>
+                    <span className="font-bold text-red-600">${budgetAnalytics.totalSpent.toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span>Remaining</span>
+                    <span className="font-bold text-green-600">${budgetAnalytics.remainingBudget.toLocaleString()}</span>
+                  </div>
               
-              <div className="w-full bg-gray-200 rounded-full h-3">
-                <div 
-                  className="bg-gradient-to-r from-slate-500 to-slate-700 h-3 rounded-full transition-all duration-500" 
-                  style={{ 
-                    width: budgetAnalytics.totalAllocated > 0 
-                      ? `${Math.min((budgetAnalytics.totalSpent / budgetAnalytics.totalAllocated) * 100, 100)}%` 
-                      : '0%' 
-                  }}
-                />
-              </div>
+                  <div className="w-full bg-gray-200 rounded-full h-3">
+                    <div 
+                      className="bg-gradient-to-r from-slate-500 to-slate-700 h-3 rounded-full transition-all duration-500" 
+                      style={{ 
+                        width: budgetAnalytics.totalAllocated > 0 
+                          ? `${Math.min((budgetAnalytics.totalSpent / budgetAnalytics.totalAllocated) * 100, 100)}%` 
+                          : '0%' 
+                      }}
+                    />
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">You don't have access to this project's budget.</p>
+              )}
               
               <div className="pt-4">
                 <ProjectCompletionGauge 
@@ -331,6 +346,15 @@ const ProjectAnalyticsDashboard: React.FC<ProjectAnalyticsDashboardProps> = ({ p
         </Card>
       </div>
 
+      {/* Delivery Forecast */}
+      <DeliveryForecastCard projectId={projectId} />
+
+      {/* Cumulative Flow & Burndown */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <CumulativeFlowCard projectId={projectId} />
+        <BurnChartCard projectId={projectId} />
+      </div>
+
       {/* Tasks by Owner & Overdue Tasks */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Tasks by Owner */}
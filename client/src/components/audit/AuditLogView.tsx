@@ -3,23 +3,32 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Clock, User, FileText, Filter, Search } from 'lucide-react';
+import { Clock, User, FileText, Filter, Search, Download, ChevronLeft, ChevronRight } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
-import { apiClient } from '@/services/api';
+import { apiClient, AuditLogFilters } from '@/services/api';
+import { useToast } from '@/hooks/use-toast';
 
 interface AuditEntry {
   id: string;
   user_id: string;
   module: string;
-  action: string;
-  entity_type: string;
-  entity_id: string;
-  description: string;
+  access_type: 'accessed' | 'denied' | 'mutation';
+  access_level: string;
+  action: string | null;
+  entity_type: string | null;
+  entity_id: string | null;
+  description: string | null;
   created_at: string;
   user_email?: string;
 }
 
+interface AuditUser {
+  user_id: string;
+  user_email: string;
+}
+
 interface AuditLogViewProps {
   projectId: string;
 }
@@ -35,35 +44,89 @@ const MODULES = [
   { value: 'task_backlog', label: 'Task Backlog' },
   { value: 'team_capacity', label: 'Team Capacity' },
   { value: 'retrospectives', label: 'Retrospectives' },
+  { value: 'budget', label: 'Budget' },
+  { value: 'access_control', label: 'Access Control' },
+  { value: 'jira_sync', label: 'Jira Sync' },
 ];
 
 const ACTION_COLORS = {
   created: 'default',
   updated: 'secondary',
   deleted: 'destructive',
+  accessed: 'outline',
+  denied: 'destructive',
 } as const;
 
+const PAGE_SIZE = 50;
+
+// Access outcomes are stored as an access type rather than an action
+const ACCESS_TYPES = ['accessed', 'denied'];
+
 export function AuditLogView({ projectId }: AuditLogViewProps) {
+  const { toast } = useToast();
   const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
   const [filteredEntries, setFilteredEntries] = useState<AuditEntry[]>([]);
+  const [users, setUsers] = useState<AuditUser[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedModule, setSelectedModule] = useState('all');
   const [selectedAction, setSelectedAction] = useState('all');
+  const [selectedUser, setSelectedUser] = useState('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
 
   useEffect(() => {
-    fetchAuditLog();
+    fetchUsers();
   }, [projectId]);
 
+  useEffect(() => {
+    setOffset(0);
+  }, [projectId, selectedModule, selectedAction, selectedUser, fromDate, toDate]);
+
+  useEffect(() => {
+    fetchAuditLog();
+  }, [projectId, selectedModule, selectedAction, selectedUser, fromDate, toDate, offset]);
+
   useEffect(() => {
     filterEntries();
-  }, [auditEntries, searchQuery, selectedModule, selectedAction]);
+  }, [auditEntries, searchQuery]);
+
+  const buildFilters = (): AuditLogFilters => {
+    const filters: AuditLogFilters = {};
+
+    if (selectedModule !== 'all') filters.module = selectedModule;
+    if (selectedUser !== 'all') filters.userId = selectedUser;
+    if (selectedAction !== 'all') {
+      if (ACCESS_TYPES.includes(selectedAction)) {
+        filters.accessType = selectedAction;
+      } else {
+        filters.action = selectedAction;
+      }
+    }
+    // Date inputs are whole days, so the range covers the end date entirely
+    if (fromDate) filters.from = new Date(`${fromDate}T00:00:00`).toISOString();
+    if (toDate) filters.to = new Date(`${toDate}T23:59:59.999`).toISOString();
+
+    return filters;
+  };
+
+  const fetchUsers = async () => {
+    const response = await apiClient.getProjectPermissionGrants(projectId);
+    if (!response.success || !Array.isArray(response.data)) return;
+
+    const byId = new Map<string, AuditUser>();
+    response.data.forEach((grant: AuditUser) => byId.set(grant.user_id, { user_id: grant.user_id, user_email: grant.user_email }));
+    setUsers(Array.from(byId.values()));
+  };
 
   const fetchAuditLog = async () => {
     setLoading(true);
     
     try {
-      const response = await apiClient.getAuditLog(projectId);
+      const response = await apiClient.getAuditLog(projectId, { ...buildFilters(), limit: PAGE_SIZE, offset });
       
       if (!response.success) {
         console.error('Error fetching audit log:', response.error);
@@ -72,6 +135,7 @@ export function AuditLogView({ projectId }: AuditLogViewProps) {
       }
 
       setAuditEntries(response.data || []);
+      setTotal(response.pagination?.total ?? (response.data || []).length);
     } catch (error) {
       console.error('Error fetching audit log:', error);
     } finally {
@@ -79,25 +143,41 @@ export function AuditLogView({ projectId }: AuditLogViewProps) {
     }
   };
 
+  const handleExport = async () => {
+    setExporting(true);
+
+    try {
+      const blob = await apiClient.exportAuditLog(projectId, buildFilters());
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${projectId}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Free-text search narrows the current page only; every other filter runs on the server
   const filterEntries = () => {
     let filtered = auditEntries;
 
     if (searchQuery) {
+      const query = searchQuery.toLowerCase();
       filtered = filtered.filter(entry =>
-        entry.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        entry.user_email?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        entry.entity_type.toLowerCase().includes(searchQuery.toLowerCase())
+        (entry.description || '').toLowerCase().includes(query) ||
+        entry.user_email?.toLowerCase().includes(query) ||
+        (entry.entity_type || '').toLowerCase().includes(query)
       );
     }
 
-    if (selectedModule !== 'all') {
-      filtered = filtered.filter(entry => entry.module === selectedModule);
-    }
-
-    if (selectedAction !== 'all') {
-      filtered = filtered.filter(entry => entry.action === selectedAction);
-    }
-
     setFilteredEntries(filtered);
   };
 
@@ -109,6 +189,10 @@ export function AuditLogView({ projectId }: AuditLogViewProps) {
         return '✏️';
       case 'deleted':
         return '🗑️';
+      case 'accessed':
+        return '👁️';
+      case 'denied':
+        return '⛔';
       default:
         return '📝';
     }
@@ -118,6 +202,16 @@ export function AuditLogView({ projectId }: AuditLogViewProps) {
     return MODULES.find(m => m.value === module)?.label || module;
   };
 
+  const getEntryAction = (entry: AuditEntry) => {
+    return entry.access_type === 'mutation' ? entry.action || 'updated' : entry.access_type;
+  };
+
+  const getEntryDescription = (entry: AuditEntry) => {
+    if (entry.description) return entry.description;
+    const verb = entry.access_type === 'denied' ? 'Denied' : 'Opened';
+    return `${verb} ${getModuleLabel(entry.module)} with ${entry.access_level} access`;
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -163,8 +257,45 @@ export function AuditLogView({ projectId }: AuditLogViewProps) {
               <SelectItem value="created">Created</SelectItem>
               <SelectItem value="updated">Updated</SelectItem>
               <SelectItem value="deleted">Deleted</SelectItem>
+              <SelectItem value="accessed">Access granted</SelectItem>
+              <SelectItem value="denied">Access denied</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-4">
+          <Select value={selectedUser} onValueChange={setSelectedUser}>
+            <SelectTrigger className="w-full sm:w-[220px]">
+              <SelectValue placeholder="Filter by user" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Users</SelectItem>
+              {users.map(user => (
+                <SelectItem key={user.user_id} value={user.user_id}>
+                  {user.user_email}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
+          <Input
+            type="date"
+            aria-label="From date"
+            value={fromDate}
+            max={toDate || undefined}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="w-full sm:w-[160px]"
+          />
+          <Input
+            type="date"
+            aria-label="To date"
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={(e) => setToDate(e.target.value)}
+            className="w-full sm:w-[160px]"
+          />
+          <Button variant="outline" onClick={handleExport} disabled={exporting} className="sm:ml-auto">
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? 'Exporting...' : 'Export CSV'}
+          </Button>
         </div>
 
         {/* Audit Entries */}
@@ -182,20 +313,20 @@ export function AuditLogView({ projectId }: AuditLogViewProps) {
               {filteredEntries.map(entry => (
                 <div key={entry.id} className="flex items-start gap-3 p-3 bg-muted/30 rounded-lg">
                   <div className="text-lg mt-1">
-                    {getActionIcon(entry.action)}
+                    {getActionIcon(getEntryAction(entry))}
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 flex-wrap">
                       <span className="font-medium text-sm">{entry.user_email}</span>
-                      <Badge variant={ACTION_COLORS[entry.action as keyof typeof ACTION_COLORS] || 'default'} className="text-xs">
-                        {entry.action}
+                      <Badge variant={ACTION_COLORS[getEntryAction(entry) as keyof typeof ACTION_COLORS] || 'default'} className="text-xs">
+                        {getEntryAction(entry)}
                       </Badge>
                       <Badge variant="outline" className="text-xs">
                         {getModuleLabel(entry.module)}
                       </Badge>
                     </div>
                     <p className="text-sm text-muted-foreground mt-1">
-                      {entry.description}
+                      {getEntryDescription(entry)}
                     </p>
                     <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
                       <Clock className="h-3 w-3" />
@@ -209,6 +340,31 @@ export function AuditLogView({ projectId }: AuditLogViewProps) {
             </div>
           )}
         </ScrollArea>
+
+        {/* Pagination */}
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {total === 0 ? 'No entries' : `Showing ${offset + 1}-${Math.min(offset + PAGE_SIZE, total)} of ${total}`}
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              disabled={loading || offset === 0}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={loading || offset + PAGE_SIZE >= total}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
       </CardContent>
     </Card>
   );
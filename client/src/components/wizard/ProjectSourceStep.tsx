@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { SimpleSelect, SimpleSelectItem } from '@/components/ui/simple-select';
+import { FilePlus, LayoutTemplate, Copy } from 'lucide-react';
+import { apiClient, type ProjectTemplate } from '@/services/api';
+import { ProjectData, ProjectSource } from '../ProjectWizard';
+
+interface ProjectSourceStepProps {
+  projectData: ProjectData;
+  setProjectData: (data: ProjectData) => void;
+}
+
+const SOURCES: { id: ProjectSource; title: string; description: string; icon: React.ElementType }[] = [
+  { id: 'blank', title: 'Start from scratch', description: 'List tasks, group them into milestones and invite your team', icon: FilePlus },
+  { id: 'template', title: 'Use a template', description: 'Start from a saved project skeleton', icon: LayoutTemplate },
+  { id: 'clone', title: 'Clone a project', description: 'Copy a live project with its dates moved to a new start', icon: Copy }
+];
+
+const ProjectSourceStep: React.FC<ProjectSourceStepProps> = ({ projectData, setProjectData }) => {
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+
+  useEffect(() => {
+    if (projectData.source === 'template' && templates.length === 0) {
+      apiClient.getProjectTemplates().then(response => {
+        if (response.success && response.data) setTemplates(response.data);
+      });
+    }
+    if (projectData.source === 'clone' && projects.length === 0) {
+      apiClient.getProjects().then(response => {
+        if (response.success && response.data) setProjects(response.data);
+      });
+    }
+  }, [projectData.source]);
+
+  const selectedTemplate = templates.find(t => t.id === projectData.templateId);
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center mb-6">
+        <p className="text-muted-foreground">
+          How would you like to start this project?
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {SOURCES.map(({ id, title, description, icon: Icon }) => (
+          <Card
+            key={id}
+            className={`cursor-pointer transition-colors ${projectData.source === id ? 'border-primary ring-2 ring-primary/20' : 'hover:border-primary/50'}`}
+            onClick={() => setProjectData({ ...projectData, source: id })}
+            data-testid={`card-source-${id}`}
+          >
+            <CardContent className="p-6 space-y-2 text-center">
+              <Icon className="h-8 w-8 mx-auto text-primary" />
+              <h3 className="font-semibold">{title}</h3>
+              <p className="text-sm text-muted-foreground">{description}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {projectData.source === 'template' && (
+        <div className="space-y-2">
+          <Label>Template</Label>
+          <SimpleSelect
+            value={projectData.templateId || ''}
+            onValueChange={(value) => setProjectData({ ...projectData, templateId: value })}
+            placeholder={templates.length > 0 ? 'Select a template' : 'No templates saved yet'}
+          >
+            {templates.map(template => (
+              <SimpleSelectItem key={template.id} value={template.id}>{template.name}</SimpleSelectItem>
+            ))}
+          </SimpleSelect>
+          {selectedTemplate && (
+            <div className="flex flex-wrap gap-2 pt-2">
+              {selectedTemplate.description && (
+                <p className="w-full text-sm text-muted-foreground">{selectedTemplate.description}</p>
+              )}
+              <Badge variant="outline">{selectedTemplate.content.milestones.length} milestones</Badge>
+              <Badge variant="outline">{selectedTemplate.content.tasks.length} tasks</Badge>
+              <Badge variant="outline">{selectedTemplate.content.risks.length} risks</Badge>
+              {selectedTemplate.content.budget && (
+                <Badge variant="outline">{selectedTemplate.content.budget.categories.length} budget categories</Badge>
+              )}
+              {selectedTemplate.duration_days !== null && (
+                <Badge variant="outline">{selectedTemplate.duration_days} days</Badge>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {projectData.source === 'clone' && (
+        <div className="space-y-2">
+          <Label>Project to clone</Label>
+          <SimpleSelect
+            value={projectData.sourceProjectId || ''}
+            onValueChange={(value) => setProjectData({ ...projectData, sourceProjectId: value })}
+            placeholder="Select a project"
+          >
+            {projects.map(project => (
+              <SimpleSelectItem key={project.id} value={project.id}>{project.name}</SimpleSelectItem>
+            ))}
+          </SimpleSelect>
+          <p className="text-xs text-muted-foreground">
+            Milestones, tasks, risks and budget categories are copied. Task owners are kept; progress is not.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectSourceStep;
@@ -48,8 +48,11 @@ export function AddTaskDialog({ milestoneId, projectId, onTaskAdded }: AddTaskDi
     description: '',
     status: 'todo',
     priority: 'medium',
+    start_date: '',
     due_date: '',
-    owner_id: ''
+    owner_id: '',
+    story_points: '',
+    estimate_hours: ''
   });
 
   useEffect(() => {
@@ -91,9 +94,12 @@ export function AddTaskDialog({ milestoneId, projectId, onTaskAdded }: AddTaskDi
         description: formData.description || null,
         status: formData.status,
         priority: formData.priority,
+        start_date: formData.start_date || null,
         due_date: formData.due_date || null,
         owner_id: formData.owner_id || null,
         milestone_id: milestoneId,
+        story_points: formData.story_points ? parseInt(formData.story_points, 10) : null,
+        estimate_hours: formData.estimate_hours ? parseFloat(formData.estimate_hours) : null,
       };
 
       const response = await apiClient.createTaskForMilestone(projectId, taskData);
@@ -124,8 +130,11 @@ export function AddTaskDialog({ milestoneId, projectId, onTaskAdded }: AddTaskDi
       description: '',
       status: 'todo',
       priority: 'medium',
+      start_date: '',
       due_date: '',
-      owner_id: ''
+      owner_id: '',
+      story_points: '',
+      estimate_hours: ''
     });
     setIsOpen(false);
   };
@@ -197,6 +206,15 @@ export function AddTaskDialog({ milestoneId, projectId, onTaskAdded }: AddTaskDi
           </div>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="start_date">Start Date</Label>
+              <Input
+                id="start_date"
+                type="date"
+                value={formData.start_date}
+                onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+              />
+            </div>
             <div className="space-y-2">
               <Label htmlFor="due_date">Due Date</Label>
               <Input
@@ -223,6 +241,33 @@ export function AddTaskDialog({ milestoneId, projectId, onTaskAdded }: AddTaskDi
             </div>
           </div>
           
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="story_points">Story Points</Label>
+              <Input
+                id="story_points"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.story_points}
+                onChange={(e) => setFormData({ ...formData, story_points: e.target.value })}
+                placeholder="e.g. 3"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="estimate_hours">Estimate (hours)</Label>
+              <Input
+                id="estimate_hours"
+                type="number"
+                min="0"
+                step="0.5"
+                value={formData.estimate_hours}
+                onChange={(e) => setFormData({ ...formData, estimate_hours: e.target.value })}
+                placeholder="e.g. 8"
+              />
+            </div>
+          </div>
+          
           <div className="flex justify-end gap-3 pt-4">
             <Button type="button" variant="outline" onClick={resetForm}>
               Cancel
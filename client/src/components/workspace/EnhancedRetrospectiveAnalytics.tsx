@@ -17,7 +17,7 @@ import {
   Zap
 } from 'lucide-react';
 import { useApiAuth } from '@/hooks/useApiAuth';
-import { apiClient } from '@/services/api';
+import { apiClient, type RetroFollowThrough } from '@/services/api';
 import { 
   BarChart, 
   Bar, 
@@ -32,7 +32,9 @@ import {
   LineChart,
   Line,
   Area,
-  AreaChart
+  AreaChart,
+  ComposedChart,
+  Legend
 } from 'recharts';
 
 interface EnhancedRetrospectiveAnalyticsProps {
@@ -50,6 +52,7 @@ interface DetailedAnalytics {
   averageVotesPerCard: number;
   retrospectivesByFramework: Array<{ framework: string; count: number; percentage: number }>;
   actionItemsByStatus: Array<{ status: string; count: number; percentage: number }>;
+  followThrough: RetroFollowThrough | null;
   monthlyTrend: Array<{ 
     month: string; 
     retrospectives: number; 
@@ -101,11 +104,13 @@ export function EnhancedRetrospectiveAnalytics({ projectId, onBack }: EnhancedRe
       setLoading(true);
       
       // Fetch all relevant data from database
-      const [retrospectivesResponse, stakeholdersResponse, tasksResponse] = await Promise.all([
+      const [retrospectivesResponse, stakeholdersResponse, tasksResponse, followThroughResponse] = await Promise.all([
         apiClient.getRetrospectives(projectId),
         apiClient.getStakeholders(projectId),
-        apiClient.getTasks(projectId)
+        apiClient.getTasks(projectId),
+        apiClient.getRetroActionFollowThrough(projectId)
       ]);
+      const followThrough = followThroughResponse.success && followThroughResponse.data ? followThroughResponse.data : null;
 
       const retrospectives = Array.isArray(retrospectivesResponse.data) 
         ? retrospectivesResponse.data 
@@ -169,13 +174,11 @@ export function EnhancedRetrospectiveAnalytics({ projectId, onBack }: EnhancedRe
           }))
         }));
 
-      // Calculate real conversion metrics from tasks data
-      const retrospectiveCardIds = allCards.map(card => card.id);
-      const convertedTasks = tasks.filter(task => 
-        task.description?.includes('retrospective') || 
-        task.tags?.some(tag => retrospectiveCardIds.includes(tag))
-      ).length;
-      const conversionRate = totalActionItems > 0 ? Math.round((convertedTasks / totalActionItems) * 100) : 0;
+      // Action items put on the backlog, out of those agreed
+      const convertedTasks = followThrough?.totals.converted ?? 0;
+      const conversionRate = followThrough && followThrough.totals.raised > 0
+        ? Math.round((convertedTasks / followThrough.totals.raised) * 100)
+        : 0;
 
       // Enhanced monthly trend
       const monthlyData = retrospectives.reduce((acc, retro) => {
@@ -190,9 +193,10 @@ export function EnhancedRetrospectiveAnalytics({ projectId, onBack }: EnhancedRe
         const retroVotes = retro.columns?.reduce((sum, col) => 
           sum + (col.cards?.reduce((cardSum, card) => cardSum + (card.votes || 0), 0) || 0), 0) || 0;
         
+        const retroActions = followThrough?.retrospectives.find(row => row.retrospectiveId === retro.id);
         acc[monthKey].retrospectives += 1;
         acc[monthKey].actionItems += retroCards;
-        acc[monthKey].tasks += Math.floor(retroCards * 0.35);
+        acc[monthKey].tasks += retroActions?.converted ?? 0;
         acc[monthKey].votes += retroVotes;
         
         return acc;
@@ -236,11 +240,8 @@ export function EnhancedRetrospectiveAnalytics({ projectId, onBack }: EnhancedRe
         uniqueVoters,
         averageVotesPerCard,
         retrospectivesByFramework,
-        actionItemsByStatus: [
-          { status: 'Not Started', count: Math.floor(convertedTasks * 0.4), percentage: 40 },
-          { status: 'In Progress', count: Math.floor(convertedTasks * 0.35), percentage: 35 },
-          { status: 'Done', count: Math.floor(convertedTasks * 0.25), percentage: 25 }
-        ],
+        actionItemsByStatus: followThrough?.byStatus ?? [],
+        followThrough,
         monthlyTrend: monthlyTrend.length > 0 ? monthlyTrend : [
           { 
             month: 'Current', 
@@ -441,7 +442,7 @@ export function EnhancedRetrospectiveAnalytics({ projectId, onBack }: EnhancedRe
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <CheckCircle className="h-5 w-5 text-green-600" />
-                  Task Status Distribution
+                  Action Item Outcomes
                 </CardTitle>
               </CardHeader>
               <CardContent>
@@ -467,7 +468,7 @@ export function EnhancedRetrospectiveAnalytics({ projectId, onBack }: EnhancedRe
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium">Conversion Progress</span>
                 <span className="text-sm text-muted-foreground">
-                  {analytics.convertedTasks} of {analytics.totalActionItems} items
+                  {analytics.convertedTasks} of {analytics.followThrough?.totals.raised ?? 0} action items
                 </span>
               </div>
               <Progress value={analytics.conversionRate} className="h-2" />
@@ -594,6 +595,45 @@ export function EnhancedRetrospectiveAnalytics({ projectId, onBack }: EnhancedRe
         </TabsContent>
 
         <TabsContent value="trends" className="space-y-6">
+          {/* Action item completion per retrospective */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center gap-2">
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                  Action Item Follow-through
+                </span>
+                {analytics.followThrough && (
+                  <span className="text-sm font-normal text-muted-foreground">
+                    {analytics.followThrough.totals.completionRate}% completed · {analytics.followThrough.totals.carriedOver} carried over
+                  </span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {analytics.followThrough && analytics.followThrough.totals.raised > 0 ? (
+                <ResponsiveContainer width="100%" height={320}>
+                  <ComposedChart data={analytics.followThrough.retrospectives}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" />
+                    <YAxis yAxisId="count" allowDecimals={false} />
+                    <YAxis yAxisId="rate" orientation="right" domain={[0, 100]} unit="%" />
+                    <Tooltip />
+                    <Legend />
+                    <Bar yAxisId="count" dataKey="completed" stackId="actions" fill="hsl(142 76% 45%)" name="Done" />
+                    <Bar yAxisId="count" dataKey="open" stackId="actions" fill="hsl(38 92% 55%)" name="Still open" />
+                    <Bar yAxisId="count" dataKey="dropped" stackId="actions" fill="hsl(var(--muted-foreground))" name="Dropped" />
+                    <Line yAxisId="rate" type="monotone" dataKey="completionRate" stroke="hsl(var(--primary))" strokeWidth={2} name="Completion rate" />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              ) : (
+                <p className="text-sm text-muted-foreground py-8 text-center">
+                  No action items have been agreed in this project's retrospectives yet.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Monthly Trend */}
           <Card>
             <CardHeader>
@@ -1,8 +1,16 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { apiClient } from '@/services/api';
+import { Button } from '@/components/ui/button';
+import { Link2 } from 'lucide-react';
+import { apiClient, type ProjectSchedule } from '@/services/api';
 import { format, addDays, differenceInDays, startOfDay, endOfDay } from 'date-fns';
+import { DependencyArrows } from './gantt/DependencyArrows';
+import { DependencyManager } from './gantt/DependencyManager';
+import { MilestoneSlips } from './gantt/MilestoneSlips';
+import { ReschedulePreviewDialog } from './gantt/ReschedulePreviewDialog';
+import { useGanttReschedule, type DragMode } from './gantt/useGanttReschedule';
+import { taskStartDate, scheduleKey, scheduleNodes, milestonesPushedBy } from './gantt/ganttUtils';
 
 interface Task {
   id: string;
@@ -10,6 +18,7 @@ interface Task {
   description?: string;
   status: string;
   priority: string;
+  start_date?: string | null;
   due_date?: string;
   milestone_id?: string;
   project_id: string;
@@ -34,6 +43,13 @@ export function GanttChart({ projectId }: GanttChartProps) {
   const [loading, setLoading] = useState(true);
   const [startDate, setStartDate] = useState(new Date());
   const [endDate, setEndDate] = useState(new Date());
+  const [schedule, setSchedule] = useState<ProjectSchedule | null>(null);
+  const [showDependencies, setShowDependencies] = useState(false);
+  const rowsRef = useRef<HTMLDivElement>(null);
+
+  const nodes = useMemo(() => scheduleNodes(schedule), [schedule]);
+  const pushedBy = useMemo(() => milestonesPushedBy(schedule), [schedule]);
+  const reschedule = useGanttReschedule(projectId, () => fetchData());
 
   useEffect(() => {
     fetchData();
@@ -60,14 +76,20 @@ export function GanttChart({ projectId }: GanttChartProps) {
       
       setTasks(tasksData);
 
+      // The chart still works without projections, so a failed schedule isn't fatal
+      const scheduleResponse = await apiClient.getProjectSchedule(projectId);
+      const scheduleData = scheduleResponse.success ? scheduleResponse.data || null : null;
+      setSchedule(scheduleData);
+
       // Calculate date range - ensure timeline includes full end dates
       const allStartDates = [
-        ...tasksData.map((t: any) => new Date(t.created_at))
+        ...tasksData.map((t: any) => new Date(taskStartDate(t)))
       ];
       
       const allEndDates = [
         ...milestonesData.map((m: any) => new Date(m.due_date)),
-        ...tasksData.filter((t: any) => t.due_date).map((t: any) => new Date(t.due_date!))
+        ...tasksData.filter((t: any) => t.due_date).map((t: any) => new Date(t.due_date!)),
+        ...(scheduleData?.nodes || []).filter(node => node.slipDays > 0).map(node => new Date(node.finish))
       ];
       
       if (allStartDates.length > 0 || allEndDates.length > 0) {
@@ -108,6 +130,13 @@ export function GanttChart({ projectId }: GanttChartProps) {
     }
   };
 
+  const refreshSchedule = async () => {
+    const response = await apiClient.getProjectSchedule(projectId);
+    if (response.success) {
+      setSchedule(response.data || null);
+    }
+  };
+
   const generateTimelineHeaders = () => {
     const totalDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
     
@@ -204,6 +233,95 @@ export function GanttChart({ projectId }: GanttChartProps) {
     }
   };
 
+  // Planned bar, plus a dashed bar at the projected dates when the task is running late.
+  // Dependency arrows attach to whichever of the two shows where the work will actually happen.
+  const renderTaskTimeline = (task: Task) => {
+    const node = nodes.get(scheduleKey('task', task.id));
+    const slipped = !!node && node.slipDays > 0;
+    const planned = task.due_date
+      ? reschedule.displayedDates('task', task.id, taskStartDate(task), task.due_date)
+      : null;
+    const drag = (event: React.PointerEvent<HTMLElement>, mode: DragMode) =>
+      reschedule.beginDrag(event, { type: 'task', id: task.id, startDate: taskStartDate(task), dueDate: task.due_date! }, mode, trackDays);
+
+    return (
+      <div data-gantt-track className="flex-1 relative py-3">
+        {planned && (
+          <div
+            data-gantt-key={slipped ? undefined : scheduleKey('task', task.id)}
+            className={`absolute top-1/2 transform -translate-y-1/2 h-4 rounded cursor-grab touch-none ${node?.critical ? 'ring-2 ring-destructive ring-offset-1' : ''} ${planned.dragging ? 'cursor-grabbing shadow-lg' : ''}`}
+            style={{
+              left: `${calculateBarPosition(planned.startDate!)}%`,
+              width: `${calculateBarWidth(planned.startDate!, planned.dueDate)}%`,
+              backgroundColor: getTaskColor(task),
+              minWidth: '20px',
+              opacity: slipped && !planned.dragging ? 0.5 : 1
+            }}
+            title="Drag to move, drag an edge to change the start or due date"
+            onPointerDown={(event) => drag(event, 'move')}
+          >
+            <div className="absolute left-0 top-0 h-full w-2 cursor-ew-resize" onPointerDown={(event) => drag(event, 'start')} />
+            <div className="absolute right-0 top-0 h-full w-2 cursor-ew-resize" onPointerDown={(event) => drag(event, 'end')} />
+          </div>
+        )}
+
+        {slipped && !planned?.dragging && (
+          <div
+            data-gantt-key={scheduleKey('task', task.id)}
+            className={`absolute top-1/2 transform -translate-y-1/2 h-4 rounded border-2 border-dashed ${node!.critical ? 'border-destructive' : 'border-amber-500'}`}
+            style={{
+              left: `${calculateBarPosition(node!.start)}%`,
+              width: `${calculateBarWidth(node!.start, node!.finish)}%`,
+              minWidth: '20px'
+            }}
+            title={`Projected ${format(new Date(node!.start), 'MMM d')} to ${format(new Date(node!.finish), 'MMM d')} (+${node!.slipDays}d)`}
+          ></div>
+        )}
+        
+        {/* Status indicator */}
+        <div 
+          className="absolute top-1/2 transform -translate-y-1/2 w-2 h-2 rounded-full border border-background"
+          style={{ 
+            right: '10px',
+            backgroundColor: task.status === 'completed' ? 'hsl(var(--success))' : 
+                           task.status === 'in_progress' ? 'hsl(var(--warning))' : 
+                           'hsl(var(--muted))'
+          }}
+        ></div>
+      </div>
+    );
+  };
+
+  const renderTaskInfo = (task: Task) => {
+    const node = nodes.get(scheduleKey('task', task.id));
+    const pushes = pushedBy.get(scheduleKey('task', task.id));
+
+    return (
+      <div className="w-80 px-4 py-3 border-r border-border bg-background">
+        <div className="flex items-center gap-2">
+          <div className="text-sm font-medium truncate">{task.title}</div>
+          {node?.critical && (
+            <Badge variant="destructive" className="text-[10px] px-1 py-0">Critical</Badge>
+          )}
+        </div>
+        <div className="text-xs text-muted-foreground mt-1">
+          Due: {task.due_date ? format(new Date(task.due_date), 'MMM d') : 'No date'}
+          {node && node.slipDays > 0 && (
+            <span className="ml-2 text-destructive">+{node.slipDays}d</span>
+          )}
+          <span className="ml-2 text-xs font-medium text-muted-foreground">
+            A. Sagar
+          </span>
+        </div>
+        {pushes && (
+          <div className="text-xs text-destructive mt-1 truncate" title={pushes.join(', ')}>
+            Pushes out: {pushes.join(', ')}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-96">
@@ -213,13 +331,33 @@ export function GanttChart({ projectId }: GanttChartProps) {
   }
 
   const { weeks, totalDays, days } = generateTimelineHeaders();
+  // Bars are placed on the exact span, not the rounded day count in the header
+  const trackDays = (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
 
   return (
     <div className="w-full bg-background">
       {/* Clean header matching reference images */}
-      <div className="border-l-4 border-l-primary bg-muted/30 px-4 py-3 mb-6">
-        <h2 className="text-lg font-semibold text-foreground">Timeline View</h2>
+      <div className="border-l-4 border-l-primary bg-muted/30 px-4 py-3 mb-6 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">Timeline View</h2>
+          {schedule?.projectedFinish && (
+            <p className="text-xs text-muted-foreground">
+              Projected finish {format(new Date(schedule.projectedFinish), 'MMM d, yyyy')}
+              {schedule.projectEndDate && ` · end date ${format(new Date(schedule.projectEndDate), 'MMM d, yyyy')}`}
+            </p>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setShowDependencies(true)}>
+          <Link2 className="h-4 w-4 mr-2" />
+          Dependencies
+        </Button>
       </div>
+
+      {schedule && schedule.milestoneSlips.length > 0 && (
+        <div className="mb-6">
+          <MilestoneSlips slips={schedule.milestoneSlips} />
+        </div>
+      )}
       
       {/* Horizontal scrollable container with improved width */}
       <div className="overflow-x-auto overflow-y-hidden border rounded-lg">
@@ -250,10 +388,18 @@ export function GanttChart({ projectId }: GanttChartProps) {
           </div>
 
           {/* Content rows */}
-          <div className="space-y-0">
+          <div ref={rowsRef} className="space-y-0 relative">
+            <DependencyArrows
+              containerRef={rowsRef}
+              links={schedule?.links || []}
+              layoutKey={`${startDate.getTime()}-${endDate.getTime()}-${reschedule.drag?.key}:${reschedule.drag?.deltaDays}`}
+            />
+
             {/* Milestones grouped with their tasks */}
             {milestones.map((milestone) => {
               const milestoneTasks = tasks.filter(task => task.milestone_id === milestone.id);
+              const milestoneNode = nodes.get(scheduleKey('milestone', milestone.id));
+              const milestoneDates = reschedule.displayedDates('milestone', milestone.id, null, milestone.due_date);
               
               return (
                 <div key={milestone.id} className="border-b border-border/50">
@@ -263,60 +409,51 @@ export function GanttChart({ projectId }: GanttChartProps) {
                       <div className="flex items-center gap-2">
                         <div className="w-2 h-2 rounded-full bg-primary"></div>
                         <span className="font-medium text-sm">{milestone.name}</span>
+                        {milestoneNode && milestoneNode.slipDays > 0 && (
+                          <Badge variant="destructive" className="text-[10px] px-1 py-0">+{milestoneNode.slipDays}d</Badge>
+                        )}
                         <span className="text-xs text-muted-foreground ml-auto">
                           {milestoneTasks.length} tasks
                         </span>
                       </div>
                     </div>
                     
-                    <div className="flex-1 relative py-3">
+                    <div data-gantt-track className="flex-1 relative py-3">
                       {/* Milestone marker */}
                       <div
-                        className="absolute top-1/2 transform -translate-y-1/2 w-1 h-8 bg-primary"
-                        style={{ left: `${calculateBarPosition(milestone.due_date)}%` }}
+                        data-gantt-key={milestoneNode && milestoneNode.slipDays > 0 ? undefined : scheduleKey('milestone', milestone.id)}
+                        className={`absolute top-1/2 transform -translate-y-1/2 w-1 h-8 cursor-ew-resize touch-none ${milestoneNode?.critical ? 'bg-destructive' : 'bg-primary'}`}
+                        style={{ left: `${calculateBarPosition(milestoneDates.dueDate)}%` }}
+                        title="Drag to move the due date"
+                        onPointerDown={(event) => reschedule.beginDrag(
+                          event,
+                          { type: 'milestone', id: milestone.id, startDate: null, dueDate: milestone.due_date },
+                          'move',
+                          trackDays
+                        )}
                       >
-                        <div className="absolute -top-1 -left-1 w-3 h-3 bg-primary rounded-full border-2 border-background"></div>
+                        <div className={`absolute -top-1 -left-1 w-3 h-3 rounded-full border-2 border-background ${milestoneNode?.critical ? 'bg-destructive' : 'bg-primary'}`}></div>
                       </div>
+
+                      {/* Projected date when late work pushes the milestone out */}
+                      {milestoneNode && milestoneNode.slipDays > 0 && !milestoneDates.dragging && (
+                        <div
+                          data-gantt-key={scheduleKey('milestone', milestone.id)}
+                          className="absolute top-1/2 transform -translate-y-1/2 w-1 h-8 border-l-2 border-dashed border-destructive"
+                          style={{ left: `${calculateBarPosition(milestoneNode.finish)}%` }}
+                          title={`Projected ${format(new Date(milestoneNode.finish), 'MMM d')} (+${milestoneNode.slipDays}d)`}
+                        >
+                          <div className="absolute -top-1 -left-[7px] w-3 h-3 rounded-full border-2 border-destructive bg-background"></div>
+                        </div>
+                      )}
                     </div>
                   </div>
                   
                   {/* Milestone tasks */}
                   {milestoneTasks.map((task) => (
                     <div key={task.id} className="flex items-center hover:bg-muted/20 transition-colors">
-                      <div className="w-80 px-4 py-3 border-r border-border bg-background">
-                        <div className="text-sm font-medium truncate">{task.title}</div>
-                        <div className="text-xs text-muted-foreground mt-1">
-                          Due: {task.due_date ? format(new Date(task.due_date), 'MMM d') : 'No date'}
-                          <span className="ml-2 text-xs font-medium text-muted-foreground">
-                            A. Sagar
-                          </span>
-                        </div>
-                      </div>
-                      
-                      <div className="flex-1 relative py-3">
-                        {task.due_date && (
-                          <div
-                            className="absolute top-1/2 transform -translate-y-1/2 h-4 rounded"
-                            style={{
-                              left: `${calculateBarPosition(task.created_at)}%`,
-                              width: `${calculateBarWidth(task.created_at, task.due_date)}%`,
-                              backgroundColor: getTaskColor(task),
-                              minWidth: '20px'
-                            }}
-                          ></div>
-                        )}
-                        
-                        {/* Status indicator */}
-                        <div 
-                          className="absolute top-1/2 transform -translate-y-1/2 w-2 h-2 rounded-full border border-background"
-                          style={{ 
-                            right: '10px',
-                            backgroundColor: task.status === 'completed' ? 'hsl(var(--success))' : 
-                                           task.status === 'in_progress' ? 'hsl(var(--warning))' : 
-                                           'hsl(var(--muted))'
-                          }}
-                        ></div>
-                      </div>
+                      {renderTaskInfo(task)}
+                      {renderTaskTimeline(task)}
                     </div>
                   ))}
                 </div>
@@ -341,39 +478,8 @@ export function GanttChart({ projectId }: GanttChartProps) {
                 
                 {tasks.filter(task => !task.milestone_id).map((task) => (
                   <div key={task.id} className="flex items-center hover:bg-muted/20 transition-colors">
-                    <div className="w-80 px-4 py-3 border-r border-border bg-background">
-                      <div className="text-sm font-medium truncate">{task.title}</div>
-                      <div className="text-xs text-muted-foreground mt-1">
-                        Due: {task.due_date ? format(new Date(task.due_date), 'MMM d') : 'No date'}
-                        <span className="ml-2 text-xs font-medium text-muted-foreground">
-                          A. Sagar
-                        </span>
-                      </div>
-                    </div>
-                    
-                    <div className="flex-1 relative py-3">
-                      {task.due_date && (
-                        <div
-                          className="absolute top-1/2 transform -translate-y-1/2 h-4 rounded"
-                            style={{
-                              left: `${calculateBarPosition(task.created_at)}%`,
-                              width: `${calculateBarWidth(task.created_at, task.due_date)}%`,
-                              backgroundColor: getTaskColor(task),
-                              minWidth: '20px'
-                            }}
-                        ></div>
-                      )}
-                      
-                      <div 
-                        className="absolute top-1/2 transform -translate-y-1/2 w-2 h-2 rounded-full border border-background"
-                        style={{ 
-                          right: '10px',
-                          backgroundColor: task.status === 'completed' ? 'hsl(var(--success))' : 
-                                         task.status === 'in_progress' ? 'hsl(var(--warning))' : 
-                                         'hsl(var(--muted))'
-                        }}
-                      ></div>
-                    </div>
+                    {renderTaskInfo(task)}
+                    {renderTaskTimeline(task)}
                   </div>
                 ))}
               </div>
@@ -391,7 +497,7 @@ export function GanttChart({ projectId }: GanttChartProps) {
           {/* Legend */}
           <div className="mt-8 p-4 bg-muted/30 rounded-lg">
             <h4 className="text-sm font-medium mb-3">Legend</h4>
-            <div className="grid grid-cols-2 gap-4 text-xs">
+            <div className="grid grid-cols-3 gap-4 text-xs">
               <div>
                 <div className="font-medium mb-2">Task Types</div>
                 <div className="space-y-1">
@@ -430,10 +536,43 @@ export function GanttChart({ projectId }: GanttChartProps) {
                   </div>
                 </div>
               </div>
+              <div>
+                <div className="font-medium mb-2">Schedule</div>
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded ring-2 ring-destructive ring-offset-1"></div>
+                    <span>Critical path</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded border-2 border-dashed border-amber-500"></div>
+                    <span>Projected dates of late work</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-px bg-muted-foreground"></div>
+                    <span>Dependency</span>
+                  </div>
+                </div>
+              </div>
             </div>
           </div>
         </div>
       </div>
+
+      <DependencyManager
+        open={showDependencies}
+        onOpenChange={setShowDependencies}
+        projectId={projectId}
+        tasks={tasks}
+        milestones={milestones}
+        onChanged={refreshSchedule}
+      />
+
+      <ReschedulePreviewDialog
+        preview={reschedule.preview}
+        applying={reschedule.applying}
+        onConfirm={reschedule.confirm}
+        onCancel={reschedule.cancel}
+      />
     </div>
   );
 }
\ No newline at end of file
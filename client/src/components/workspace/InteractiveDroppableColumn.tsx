@@ -10,6 +10,7 @@ interface InteractiveDroppableColumnProps {
     id: string;
     title: string;
     subtitle?: string;
+    color?: string | null;
   };
   cards: any[];
   getCardColor: (index: number) => string;
@@ -20,6 +21,12 @@ interface InteractiveDroppableColumnProps {
   onEditCard?: (cardId: string, text: string) => void;
   onAddCard: (columnId: string) => void;
   userId?: string;
+  // Facilitated boards only allow some actions in some phases
+  canAdd?: boolean;
+  canVote?: boolean;
+  canChange?: boolean;
+  votedCardIds?: string[];
+  onUngroup?: (cardId: string) => void;
 }
 
 export function InteractiveDroppableColumn({
@@ -32,7 +39,12 @@ export function InteractiveDroppableColumn({
   onCreateAction,
   onEditCard,
   onAddCard,
-  userId
+  userId,
+  canAdd = true,
+  canVote = true,
+  canChange = true,
+  votedCardIds = [],
+  onUngroup
 }: InteractiveDroppableColumnProps) {
   const { setNodeRef, isOver } = useDroppable({
     id: column.id,
@@ -48,19 +60,24 @@ export function InteractiveDroppableColumn({
       }`}
     >
       {/* Enhanced Column Header */}
-      <div className="p-4 border-b border-border/50 bg-gradient-to-r from-primary/5 to-accent/5">
+      <div
+        className="p-4 border-b border-border/50 bg-gradient-to-r from-primary/5 to-accent/5 rounded-t-lg"
+        style={column.color ? { borderTop: `4px solid ${column.color}` } : undefined}
+      >
         <div className="flex items-center justify-between mb-2">
           <h3 className="font-bold text-lg bg-gradient-to-r from-foreground to-muted-foreground bg-clip-text text-transparent">
             {column.title}
           </h3>
-          <Button
-            size="sm"
-            variant="ghost"
-            onClick={() => onAddCard(column.id)}
-            className="h-8 w-8 p-0 hover:bg-white/60 border border-primary/20 rounded-full"
-          >
-            <Plus className="h-4 w-4 text-primary" />
-          </Button>
+          {canAdd && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onAddCard(column.id)}
+              className="h-8 w-8 p-0 hover:bg-white/60 border border-primary/20 rounded-full"
+            >
+              <Plus className="h-4 w-4 text-primary" />
+            </Button>
+          )}
         </div>
         {column.subtitle && (
           <p className="text-sm text-muted-foreground font-medium mb-2">{column.subtitle}</p>
@@ -93,15 +110,17 @@ export function InteractiveDroppableColumn({
               <p className="text-xs text-muted-foreground mb-4 max-w-[200px]">
                 Start adding retrospective items to capture team feedback
               </p>
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={() => onAddCard(column.id)}
-                className="text-xs border-primary/30 hover:bg-primary/5 hover:border-primary/50"
-              >
-                <Plus className="h-3 w-3 mr-1" />
-                Add first card
-              </Button>
+              {canAdd && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onAddCard(column.id)}
+                  className="text-xs border-primary/30 hover:bg-primary/5 hover:border-primary/50"
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add first card
+                </Button>
+              )}
             </div>
           ) : (
             cards.map((card, index) => (
@@ -116,6 +135,11 @@ export function InteractiveDroppableColumn({
                 onEdit={onEditCard}
                 isOwner={card.created_by === userId}
                 voters={card.voters || []}
+                canVote={canVote && !card.hidden}
+                canChange={canChange}
+                voted={votedCardIds.includes(card.id)}
+                grouped={!!card.group_id}
+                onUngroup={onUngroup ? () => onUngroup(card.id) : undefined}
               />
             ))
           )}
@@ -4,22 +4,26 @@ import { SortableContext, arrayMove } from '@dnd-kit/sortable';
 import { restrictToVerticalAxis } from '@dnd-kit/modifiers';
 import { useApiAuth } from '@/hooks/useApiAuth';
 import { useToast } from '@/hooks/use-toast';
-import { apiClient } from '@/services/api';
+import { apiClient, type RetroColumnInput, type RetroEvent, type RetroFacilitation, type RetroFacilitationUpdate, type RetroPhase, type RetroVoting } from '@/services/api';
+import { useRetroRealtime } from '@/hooks/useRetroRealtime';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { SimpleSelect, SimpleSelectItem } from '@/components/ui/simple-select';
-import { Plus, ThumbsUp, Target, Trash2, MoreHorizontal, ArrowLeft } from 'lucide-react';
+import { Plus, ThumbsUp, Target, Trash2, MoreHorizontal, ArrowLeft, Columns3 } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { RetrospectiveCard } from './RetrospectiveCard';
 import { InteractiveRetrospectiveCard } from './InteractiveRetrospectiveCard';
 import { InteractiveDroppableColumn } from './InteractiveDroppableColumn';
-import { FRAMEWORK_TEMPLATES } from './RetrospectiveView';
+import { RetrospectiveFacilitationBar } from './RetrospectiveFacilitationBar';
+import { RetroColumnsEditor, cleanColumns } from './RetroColumnsEditor';
+import { RetroActionItemsPanel } from './RetroActionItemsPanel';
 
 interface InteractiveRetrospectiveBoardProps {
   retrospective: {
@@ -28,8 +32,10 @@ interface InteractiveRetrospectiveBoardProps {
     project_id: string;
     iteration_id: string;
     status: string;
+    facilitation?: RetroFacilitation;
     columns?: RetrospectiveColumn[];
   };
+  frameworkName?: string;
   onBack: () => void;
 }
 
@@ -38,6 +44,8 @@ interface RetrospectiveColumn {
   retrospective_id: string;
   title: string;
   subtitle?: string;
+  color?: string | null;
+  prompts?: string[];
   column_order: number;
   cards?: RetrospectiveCard[];
 }
@@ -50,6 +58,8 @@ interface RetrospectiveCard {
   card_order: number;
   created_by: string;
   created_at?: string;
+  hidden?: boolean;
+  group_id?: string | null;
 }
 
 interface Stakeholder {
@@ -79,7 +89,55 @@ const getCardColor = (index: number) => {
   return CARD_COLORS[index % CARD_COLORS.length];
 };
 
-export function InteractiveRetrospectiveBoard({ retrospective, onBack }: InteractiveRetrospectiveBoardProps) {
+const findCard = (columns: RetrospectiveColumn[], cardId: string): RetrospectiveCard | null => {
+  for (const column of columns) {
+    const card = column.cards?.find(c => c.id === cardId);
+    if (card) return card;
+  }
+  return null;
+};
+
+// Puts the card in the column it names, replacing any earlier copy wherever that was
+const upsertCard = (columns: RetrospectiveColumn[], card: RetrospectiveCard): RetrospectiveColumn[] =>
+  columns.map(column => {
+    const cards = column.cards || [];
+    const present = cards.some(c => c.id === card.id);
+    if (column.id !== card.column_id) {
+      return present ? { ...column, cards: cards.filter(c => c.id !== card.id) } : column;
+    }
+    return { ...column, cards: present ? cards.map(c => c.id === card.id ? card : c) : [...cards, card] };
+  });
+
+const patchCard = (columns: RetrospectiveColumn[], cardId: string, patch: Partial<RetrospectiveCard>): RetrospectiveColumn[] => {
+  const card = findCard(columns, cardId);
+  return card ? upsertCard(columns, { ...card, ...patch }) : columns;
+};
+
+// Column edits come without cards; each column keeps the cards this tab already has
+const mergeColumns = (columns: RetrospectiveColumn[], updated: RetrospectiveColumn[]): RetrospectiveColumn[] =>
+  [...updated]
+    .sort((a, b) => a.column_order - b.column_order)
+    .map(column => ({ ...column, cards: columns.find(c => c.id === column.id)?.cards || [] }));
+
+const removeCard = (columns: RetrospectiveColumn[], cardId: string): RetrospectiveColumn[] =>
+  columns.map(column => column.cards?.some(c => c.id === cardId)
+    ? { ...column, cards: column.cards.filter(c => c.id !== cardId) }
+    : column);
+
+// Each group's lead card followed by the cards stacked under it. Once the team is
+// discussing, groups are ranked by the votes of all their cards together.
+const orderForDisplay = (cards: RetrospectiveCard[], phase: RetroPhase): RetrospectiveCard[] => {
+  const ids = new Set(cards.map(card => card.id));
+  const isLead = (card: RetrospectiveCard) => !card.group_id || !ids.has(card.group_id);
+  const groups = cards.filter(isLead).map(lead => [lead, ...cards.filter(card => card.group_id === lead.id && !isLead(card))]);
+  if (phase === 'discuss' || phase === 'closed') {
+    const total = (group: RetrospectiveCard[]) => group.reduce((sum, card) => sum + card.votes, 0);
+    groups.sort((a, b) => total(b) - total(a));
+  }
+  return groups.flat();
+};
+
+export function InteractiveRetrospectiveBoard({ retrospective, frameworkName, onBack }: InteractiveRetrospectiveBoardProps) {
   const { user } = useApiAuth();
   const { toast } = useToast();
 
@@ -87,12 +145,20 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
   const [stakeholders, setStakeholders] = useState<Stakeholder[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeCard, setActiveCard] = useState<RetrospectiveCard | null>(null);
+  const [facilitation, setFacilitation] = useState<RetroFacilitation | null>(retrospective.facilitation || null);
+  const [voting, setVoting] = useState<RetroVoting | null>(null);
+
+  const phase: RetroPhase = facilitation?.phase || 'write';
+  const isFacilitator = !facilitation?.facilitatorId || facilitation.facilitatorId === user?.id;
   
   // Dialog states
   const [showAddCardDialog, setShowAddCardDialog] = useState(false);
   const [showActionItemDialog, setShowActionItemDialog] = useState(false);
   const [selectedCard, setSelectedCard] = useState<RetrospectiveCard | null>(null);
   const [selectedColumnId, setSelectedColumnId] = useState<string>('');
+  const [columnDraft, setColumnDraft] = useState<RetroColumnInput[] | null>(null);
+  const [savingColumns, setSavingColumns] = useState(false);
+  const [actionItemsVersion, setActionItemsVersion] = useState(0);
 
   // Form states
   const [newCardText, setNewCardText] = useState('');
@@ -105,24 +171,61 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
 
   useEffect(() => {
     if (retrospective.columns) {
-      const frameworkTemplate = FRAMEWORK_TEMPLATES[retrospective.framework];
-      if (frameworkTemplate) {
-        // Update column titles based on framework
-        const updatedColumns = retrospective.columns.map((col, index) => ({
-          ...col,
-          title: frameworkTemplate.columns[index]?.title || col.title,
-          subtitle: frameworkTemplate.columns[index]?.subtitle || col.subtitle
-        }));
-        setColumns(updatedColumns);
-      } else {
-        setColumns(retrospective.columns);
-      }
+      setColumns(retrospective.columns);
       setLoading(false);
     } else {
       fetchRetrospectiveData();
     }
     fetchStakeholders();
-  }, [retrospective.id, retrospective.framework]);
+    fetchVoting();
+  }, [retrospective.id]);
+
+  // Changes made by other participants, already saved on the server
+  const applyRemoteEvent = (event: RetroEvent) => {
+    switch (event.type) {
+      case 'card_created':
+      case 'card_updated':
+        setColumns(current => upsertCard(current, event.card));
+        break;
+      case 'card_moved':
+        setColumns(current => patchCard(current, event.cardId, { column_id: event.columnId }));
+        break;
+      case 'card_deleted':
+        setColumns(current => removeCard(current, event.cardId));
+        break;
+      case 'vote_changed':
+        setColumns(current => patchCard(current, event.cardId, { votes: event.votes }));
+        break;
+      case 'action_item_created':
+        toast({
+          title: 'Action item added',
+          description: event.actionItem.what_task
+        });
+        setActionItemsVersion(version => version + 1);
+        break;
+      case 'action_item_updated':
+        setActionItemsVersion(version => version + 1);
+        break;
+      case 'cards_grouped':
+        setColumns(current => event.cards.reduce((next, card) => patchCard(next, card.id, { group_id: card.group_id }), current));
+        break;
+      case 'columns_updated':
+        setColumns(current => mergeColumns(current, event.columns));
+        break;
+      case 'retro_updated':
+        // Leaving the writing phase reveals everyone's cards, which this tab only has blanked
+        if (phase === 'write' && event.state.phase !== 'write') {
+          fetchRetrospectiveData();
+        }
+        setFacilitation(event.state);
+        if (event.state.voteBudget !== facilitation?.voteBudget) {
+          fetchVoting();
+        }
+        break;
+    }
+  };
+
+  const { participants, connected } = useRetroRealtime(retrospective.id, applyRemoteEvent, () => fetchRetrospectiveData());
 
   const fetchRetrospectiveData = async () => {
     try {
@@ -130,15 +233,15 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
       if (response.success) {
         const retros = Array.isArray(response.data) ? response.data : [];
         const currentRetro = retros.find(r => r.id === retrospective.id);
+        if (currentRetro?.facilitation) {
+          setFacilitation(currentRetro.facilitation);
+        }
         if (currentRetro?.columns) {
-          const frameworkTemplate = FRAMEWORK_TEMPLATES[retrospective.framework];
           // Sort columns by order and cards by order
           const sortedColumns = currentRetro.columns
             .sort((a, b) => a.column_order - b.column_order)
-            .map((col, index) => ({
+            .map((col) => ({
               ...col,
-              title: frameworkTemplate?.columns[index]?.title || col.title,
-              subtitle: frameworkTemplate?.columns[index]?.subtitle || col.subtitle,
               cards: col.cards?.sort((a, b) => a.card_order - b.card_order) || []
             }));
           setColumns(sortedColumns);
@@ -156,6 +259,97 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
     }
   };
 
+  const fetchVoting = async () => {
+    try {
+      const response = await apiClient.getMyRetrospectiveVotes(retrospective.id);
+      if (response.success && response.data) {
+        setVoting(response.data);
+      }
+    } catch (error) {
+      console.error('Error fetching votes:', error);
+    }
+  };
+
+  const handleFacilitationUpdate = async (update: RetroFacilitationUpdate) => {
+    try {
+      const response = await apiClient.updateRetrospectiveFacilitation(retrospective.id, update);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to update the retrospective');
+      }
+      const next = response.data;
+      if (phase === 'write' && next.phase !== 'write') {
+        await fetchRetrospectiveData();
+      }
+      setFacilitation(next);
+      if (update.voteBudget !== undefined) {
+        await fetchVoting();
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update the retrospective',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleGroupCard = async (cardId: string, groupId: string | null) => {
+    try {
+      const response = await apiClient.groupRetrospectiveCard(cardId, groupId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to group card');
+      }
+      setColumns(current => response.data!.cards.reduce((next, card) => patchCard(next, card.id, { group_id: card.group_id }), current));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to group card',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const openColumnEditor = () => {
+    setColumnDraft(columns.map(column => ({
+      id: column.id,
+      title: column.title,
+      subtitle: column.subtitle || null,
+      color: column.color || null,
+      prompts: column.prompts || []
+    })));
+  };
+
+  const handleSaveColumns = async () => {
+    if (!columnDraft) return;
+    const cleaned = cleanColumns(columnDraft);
+    if (cleaned.some(column => !column.title)) {
+      toast({
+        title: 'Error',
+        description: 'Every column needs a title',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setSavingColumns(true);
+    try {
+      const response = await apiClient.updateRetrospectiveColumns(retrospective.id, cleaned);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to update columns');
+      }
+      setColumns(current => mergeColumns(current, response.data!));
+      setColumnDraft(null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update columns',
+        variant: 'destructive'
+      });
+    } finally {
+      setSavingColumns(false);
+    }
+  };
+
   const fetchStakeholders = async () => {
     try {
       const response = await apiClient.getStakeholders(retrospective.project_id);
@@ -168,16 +362,19 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
     }
   };
 
+  // Card changes are shown straight away; when the server rejects one, the board is
+  // reloaded rather than rolled back so that other participants' changes aren't lost
   const handleEditCard = async (cardId: string, newText: string) => {
+    setColumns(current => patchCard(current, cardId, { text: newText }));
     try {
       const response = await apiClient.updateRetrospectiveCard(cardId, { text: newText });
-      if (response.success) {
-        toast({
-          title: 'Success',
-          description: 'Card updated successfully'
-        });
-        await fetchRetrospectiveData();
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to update card');
       }
+      toast({
+        title: 'Success',
+        description: 'Card updated successfully'
+      });
     } catch (error) {
       console.error('Error updating card:', error);
       toast({
@@ -185,6 +382,7 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
         description: 'Failed to update card',
         variant: 'destructive'
       });
+      await fetchRetrospectiveData();
     }
   };
 
@@ -196,24 +394,37 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
   const handleSubmitCard = async () => {
     if (!newCardText.trim() || !selectedColumnId) return;
 
+    // Placeholder until the server hands back the saved card
+    const pendingCard: RetrospectiveCard = {
+      id: `pending-${Date.now()}`,
+      column_id: selectedColumnId,
+      text: newCardText,
+      votes: 0,
+      card_order: 0,
+      created_by: user?.id || ''
+    };
+    setColumns(current => upsertCard(current, pendingCard));
+    setNewCardText('');
+    setShowAddCardDialog(false);
+    setSelectedColumnId('');
+
     try {
-      const response = await apiClient.createRetrospectiveCard(selectedColumnId, {
-        text: newCardText,
+      const response = await apiClient.createRetrospectiveCard(pendingCard.column_id, {
+        text: pendingCard.text,
         card_order: 0 // Will be handled by backend
       });
 
-      if (response.success) {
-        toast({
-          title: 'Success',
-          description: 'Card added successfully'
-        });
-        setNewCardText('');
-        setShowAddCardDialog(false);
-        setSelectedColumnId('');
-        await fetchRetrospectiveData();
+      if (!response.success || !response.data?.card) {
+        throw new Error(response.error || 'Failed to add card');
       }
+      setColumns(current => upsertCard(removeCard(current, pendingCard.id), response.data!.card));
+      toast({
+        title: 'Success',
+        description: 'Card added successfully'
+      });
     } catch (error) {
       console.error('Error adding card:', error);
+      setColumns(current => removeCard(current, pendingCard.id));
       toast({
         title: 'Error',
         description: 'Failed to add card',
@@ -225,29 +436,38 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
   const handleVote = async (cardId: string) => {
     try {
       const response = await apiClient.voteOnRetrospectiveCard(cardId);
-      if (response.success) {
-        await fetchRetrospectiveData();
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to vote on card');
       }
+      const { votes, voted, remaining } = response.data;
+      setColumns(current => patchCard(current, cardId, { votes }));
+      setVoting(current => current && {
+        ...current,
+        used: current.budget - remaining,
+        remaining,
+        cardIds: voted ? [...current.cardIds, cardId] : current.cardIds.filter(id => id !== cardId)
+      });
     } catch (error) {
       console.error('Error voting:', error);
       toast({
         title: 'Error',
-        description: 'Failed to vote on card',
+        description: error instanceof Error ? error.message : 'Failed to vote on card',
         variant: 'destructive'
       });
     }
   };
 
   const handleDeleteCard = async (cardId: string) => {
+    setColumns(current => removeCard(current, cardId));
     try {
       const response = await apiClient.deleteRetrospectiveCard(cardId);
-      if (response.success) {
-        toast({
-          title: 'Success',
-          description: 'Card deleted successfully'
-        });
-        await fetchRetrospectiveData();
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to delete card');
       }
+      toast({
+        title: 'Success',
+        description: 'Card deleted successfully'
+      });
     } catch (error) {
       console.error('Error deleting card:', error);
       toast({
@@ -255,6 +475,7 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
         description: 'Failed to delete card',
         variant: 'destructive'
       });
+      await fetchRetrospectiveData();
     }
   };
 
@@ -273,42 +494,19 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
     if (!selectedCard || !actionItemForm.what_task.trim()) return;
 
     try {
-      // First create the action item
+      // The server puts the action on the backlog too, linked both ways
       const actionResponse = await apiClient.createRetrospectiveActionItem(retrospective.id, {
         ...actionItemForm,
-        from_card_id: selectedCard.id
+        from_card_id: selectedCard.id,
+        owner_id: stakeholders.find(s => s.name === actionItemForm.who_responsible)?.id
       });
 
       if (actionResponse.success) {
-        // Automatically create task in backlog with "From Retrospective" tag
-        const backlogData = {
-          title: actionItemForm.what_task,
-          description: `${actionItemForm.how_approach ? actionItemForm.how_approach + '\n\n' : ''}Created from retrospective action item.\n\nOriginal card: "${selectedCard.text}"\nWhen: ${actionItemForm.when_sprint}\nWho: ${actionItemForm.who_responsible}`,
-          priority: 'medium',
-          source_type: 'retrospective',
-          source_id: actionResponse.data?.actionItem?.id,
-          owner_id: stakeholders.find(s => s.name === actionItemForm.who_responsible)?.id,
-          tags: ['From Retrospective'] // Add the retrospective tag
-        };
-
-        const backlogResponse = await apiClient.createBacklogItem(retrospective.project_id, backlogData);
-        
-        if (backlogResponse.success) {
-          // Update action item to link to the created backlog task
-          await apiClient.updateRetrospectiveActionItem(actionResponse.data?.actionItem?.id, {
-            backlog_task_id: backlogResponse.data?.item?.id
-          });
-          
-          toast({
-            title: 'Success',
-            description: 'Action item created and automatically added to task backlog'
-          });
-        } else {
-          toast({
-            title: 'Partial Success',
-            description: 'Action item created but failed to add to backlog'
-          });
-        }
+        toast({
+          title: 'Success',
+          description: 'Action item created and automatically added to task backlog'
+        });
+        setActionItemsVersion(version => version + 1);
         
         setShowActionItemDialog(false);
         setSelectedCard(null);
@@ -318,12 +516,14 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
           who_responsible: '',
           how_approach: ''
         });
+      } else {
+        throw new Error(actionResponse.error || 'Failed to create action item');
       }
     } catch (error) {
       console.error('Error creating action item:', error);
       toast({
         title: 'Error',
-        description: 'Failed to create action item',
+        description: error instanceof Error ? error.message : 'Failed to create action item',
         variant: 'destructive'
       });
     }
@@ -339,10 +539,18 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
     const { active, over } = event;
     setActiveCard(null);
 
-    if (!over) return;
+    if (!over || (phase !== 'write' && phase !== 'group')) return;
 
     const cardId = active.id as string;
-    const newColumnId = over.id as string;
+    // Dropping onto another card groups the two while grouping, otherwise it means that card's column
+    const target = findCardById(over.id as string);
+    if (target && phase === 'group') {
+      if (target.id !== cardId) {
+        await handleGroupCard(cardId, target.id);
+      }
+      return;
+    }
+    const newColumnId = target ? target.column_id : over.id as string;
 
     // Find current card and column
     const card = findCardById(cardId);
@@ -356,6 +564,7 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
     }
 
     // Move card to new column
+    setColumns(current => patchCard(current, cardId, { column_id: newColumnId }));
     try {
       const response = await apiClient.moveRetrospectiveCard(cardId, newColumnId);
       if (response.success) {
@@ -363,8 +572,6 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
           title: 'Success',
           description: 'Card moved successfully'
         });
-        // Refresh data to see the changes
-        await fetchRetrospectiveData();
       } else {
         console.error('Move response error:', response.error);
         toast({
@@ -372,6 +579,7 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
           description: response.error || 'Failed to move card',
           variant: 'destructive'
         });
+        await fetchRetrospectiveData();
       }
     } catch (error) {
       console.error('Error moving card:', error);
@@ -380,16 +588,11 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
         description: 'Failed to move card',
         variant: 'destructive'
       });
+      await fetchRetrospectiveData();
     }
   };
 
-  const findCardById = (cardId: string): RetrospectiveCard | null => {
-    for (const column of columns) {
-      const card = column.cards?.find(c => c.id === cardId);
-      if (card) return card;
-    }
-    return null;
-  };
+  const findCardById = (cardId: string): RetrospectiveCard | null => findCard(columns, cardId);
 
   const getUserDisplayName = (userId: string) => {
     return user?.id === userId ? 'You' : 'Team Member';
@@ -417,13 +620,35 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
               Retrospective Board
             </h1>
             <p className="text-muted-foreground">
-              Framework: {FRAMEWORK_TEMPLATES[retrospective.framework]?.name || retrospective.framework}
+              Framework: {frameworkName || retrospective.framework}
             </p>
           </div>
         </div>
         <div className="flex items-center gap-3">
+          {/* Who else has the board open */}
+          <div className="flex items-center gap-2" title={connected ? 'Live' : 'Reconnecting...'}>
+            <div className={`h-2 w-2 rounded-full ${connected ? 'bg-green-500' : 'bg-muted-foreground'}`} />
+            <div className="flex -space-x-2">
+              {participants.slice(0, 5).map(participant => (
+                <Avatar key={participant.userId} className="h-7 w-7 border-2 border-background" title={participant.userId === user?.id ? 'You' : participant.name}>
+                  <AvatarFallback className="text-[10px] bg-primary/10 text-primary">
+                    {participant.name.slice(0, 2).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+              ))}
+            </div>
+            {participants.length > 5 && (
+              <span className="text-xs text-muted-foreground">+{participants.length - 5}</span>
+            )}
+          </div>
+          {isFacilitator && phase !== 'closed' && (
+            <Button variant="outline" size="sm" onClick={openColumnEditor} className="bg-white/50">
+              <Columns3 className="h-4 w-4 mr-2" />
+              Edit columns
+            </Button>
+          )}
           <Badge variant="outline" className="capitalize bg-white/50 backdrop-blur-sm">
-            {retrospective.status}
+            {phase}
           </Badge>
           <div className="text-sm text-muted-foreground">
             {columns.reduce((acc, col) => acc + (col.cards?.length || 0), 0)} cards
@@ -431,6 +656,15 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
         </div>
       </div>
 
+      {facilitation && (
+        <RetrospectiveFacilitationBar
+          facilitation={facilitation}
+          voting={voting}
+          isFacilitator={isFacilitator}
+          onUpdate={handleFacilitationUpdate}
+        />
+      )}
+
       {/* Kanban Board */}
       <DndContext
         onDragStart={handleDragStart}
@@ -442,7 +676,7 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
             <div key={column.id} className="flex flex-col">
               <InteractiveDroppableColumn
                 column={column}
-                cards={column.cards || []}
+                cards={orderForDisplay(column.cards || [], phase)}
                 getCardColor={getCardColor}
                 getUserDisplayName={getUserDisplayName}
                 onVote={handleVote}
@@ -451,6 +685,11 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
                 onEditCard={handleEditCard}
                 onAddCard={handleAddCard}
                 userId={user?.id}
+                canAdd={phase === 'write'}
+                canVote={phase === 'vote'}
+                canChange={phase === 'write' || phase === 'group'}
+                votedCardIds={voting?.cardIds}
+                onUngroup={phase === 'group' ? (cardId) => handleGroupCard(cardId, null) : undefined}
               />
             </div>
           ))}
@@ -471,6 +710,12 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
         </DragOverlay>
       </DndContext>
 
+      <RetroActionItemsPanel
+        retrospectiveId={retrospective.id}
+        reloadKey={actionItemsVersion}
+        canEdit={phase !== 'closed'}
+      />
+
       {/* Add Card Dialog */}
       <Dialog open={showAddCardDialog} onOpenChange={setShowAddCardDialog}>
         <DialogContent>
@@ -478,6 +723,13 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
             <DialogTitle>Add Card</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
+            {(columns.find(column => column.id === selectedColumnId)?.prompts || []).length > 0 && (
+              <ul className="space-y-1 text-sm text-muted-foreground list-disc pl-5">
+                {columns.find(column => column.id === selectedColumnId)!.prompts!.map(prompt => (
+                  <li key={prompt}>{prompt}</li>
+                ))}
+              </ul>
+            )}
             <div>
               <Label htmlFor="cardText">Card Text</Label>
               <Textarea
@@ -500,6 +752,30 @@ export function InteractiveRetrospectiveBoard({ retrospective, onBack }: Interac
         </DialogContent>
       </Dialog>
 
+      {/* Column Editor Dialog */}
+      <Dialog open={!!columnDraft} onOpenChange={(open) => !open && setColumnDraft(null)}>
+        <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit columns</DialogTitle>
+          </DialogHeader>
+          {columnDraft && (
+            <RetroColumnsEditor
+              columns={columnDraft}
+              onChange={setColumnDraft}
+              lockedIds={columns.filter(column => (column.cards?.length || 0) > 0).map(column => column.id)}
+            />
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setColumnDraft(null)} disabled={savingColumns}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveColumns} disabled={savingColumns}>
+              {savingColumns ? 'Saving...' : 'Save columns'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Enhanced Action Item Dialog */}
       <Dialog open={showActionItemDialog} onOpenChange={setShowActionItemDialog}>
         <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
@@ -6,7 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { ThumbsUp, MoreHorizontal, Edit2, Save, X, Trash2, Target, User, GripVertical } from 'lucide-react';
+import { ThumbsUp, MoreHorizontal, Edit2, Save, X, Trash2, Target, User, GripVertical, EyeOff, Unlink } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 
 interface InteractiveRetrospectiveCardProps {
@@ -18,6 +18,7 @@ interface InteractiveRetrospectiveCardProps {
     card_order: number;
     created_by: string;
     created_at?: string;
+    hidden?: boolean;
   };
   cardColor: string;
   userDisplayName: string;
@@ -27,6 +28,12 @@ interface InteractiveRetrospectiveCardProps {
   onEdit?: (cardId: string, text: string) => void;
   isOwner: boolean;
   voters?: Array<{ user_id: string; user_name: string }>;
+  // Facilitated boards only allow some actions in some phases
+  canVote?: boolean;
+  canChange?: boolean;
+  voted?: boolean;
+  grouped?: boolean;
+  onUngroup?: () => void;
 }
 
 export function InteractiveRetrospectiveCard({
@@ -38,7 +45,12 @@ export function InteractiveRetrospectiveCard({
   onCreateAction,
   onEdit,
   isOwner,
-  voters = []
+  voters = [],
+  canVote = true,
+  canChange = true,
+  voted = false,
+  grouped = false,
+  onUngroup
 }: InteractiveRetrospectiveCardProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editText, setEditText] = useState(card.text);
@@ -83,7 +95,7 @@ export function InteractiveRetrospectiveCard({
       style={style}
       className={`relative group transition-all duration-200 ${
         isDragging ? 'opacity-50 shadow-lg scale-105 z-50' : 'hover:shadow-md'
-      }`}
+      } ${grouped ? 'ml-6 border-l-4 border-l-primary/40' : ''}`}
     >
       <CardContent className="p-4 space-y-3" style={{ backgroundColor: cardColor }}>
         {/* Drag Handle and Card Content */}
@@ -115,6 +127,11 @@ export function InteractiveRetrospectiveCard({
                   </Button>
                 </div>
               </div>
+            ) : card.hidden ? (
+              <div className="flex items-center gap-2 text-sm italic text-muted-foreground">
+                <EyeOff className="h-4 w-4" />
+                Hidden until the facilitator reveals the cards
+              </div>
             ) : (
               <div>
                 <p className="text-sm leading-relaxed break-words">{card.text}</p>
@@ -142,11 +159,13 @@ export function InteractiveRetrospectiveCard({
             <Button
               size="sm"
               variant="ghost"
+              disabled={!canVote}
               onClick={(e) => {
                 e.stopPropagation();
                 onVote();
               }}
-              className="h-8 px-2 hover:bg-primary/10"
+              className={`h-8 px-2 hover:bg-primary/10 ${voted ? 'text-primary font-semibold' : ''}`}
+              title={voted ? 'Take your vote back' : undefined}
             >
               <ThumbsUp className="h-3 w-3 mr-1" />
               {card.votes}
@@ -168,52 +187,65 @@ export function InteractiveRetrospectiveCard({
           </div>
 
           {/* Actions Menu */}
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button
-                size="sm"
-                variant="ghost"
-                onClick={(e) => e.stopPropagation()}
-                className="h-8 w-8 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
-              >
-                <MoreHorizontal className="h-3 w-3" />
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end" className="w-48">
-              <DropdownMenuItem
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onCreateAction();
-                }}
-              >
-                <Target className="h-4 w-4 mr-2" />
-                Create Action Item
-              </DropdownMenuItem>
-              {isOwner && onEdit && (
-                <DropdownMenuItem
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    setIsEditing(true);
-                  }}
+          {!card.hidden && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={(e) => e.stopPropagation()}
+                  className="h-8 w-8 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
                 >
-                  <Edit2 className="h-4 w-4 mr-2" />
-                  Edit Card
-                </DropdownMenuItem>
-              )}
-              {isOwner && (
+                  <MoreHorizontal className="h-3 w-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-48">
                 <DropdownMenuItem
                   onClick={(e) => {
                     e.stopPropagation();
-                    onDelete();
+                    onCreateAction();
                   }}
-                  className="text-destructive focus:text-destructive"
                 >
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Delete Card
+                  <Target className="h-4 w-4 mr-2" />
+                  Create Action Item
                 </DropdownMenuItem>
-              )}
-            </DropdownMenuContent>
-          </DropdownMenu>
+                {grouped && onUngroup && (
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onUngroup();
+                    }}
+                  >
+                    <Unlink className="h-4 w-4 mr-2" />
+                    Remove from Group
+                  </DropdownMenuItem>
+                )}
+                {isOwner && canChange && onEdit && (
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setIsEditing(true);
+                    }}
+                  >
+                    <Edit2 className="h-4 w-4 mr-2" />
+                    Edit Card
+                  </DropdownMenuItem>
+                )}
+                {isOwner && canChange && (
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDelete();
+                    }}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete Card
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
         </div>
 
         {/* Voters Popup */}
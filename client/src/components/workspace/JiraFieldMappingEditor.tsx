@@ -0,0 +1,288 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, RefreshCw, Save } from 'lucide-react';
+import { apiClient, type JiraFieldMapping, type JiraProjectMetadata } from '@/services/api';
+
+interface JiraFieldMappingEditorProps {
+  projectId: string;
+}
+
+// Select items can't carry null, so unmapped fields use a sentinel value
+const NONE = '__none__';
+
+type FieldInfo = JiraProjectMetadata['fields'][number];
+
+const isStringField = (field: FieldInfo) => field.schema?.type === 'string';
+const isDateField = (field: FieldInfo) => field.schema?.type === 'date' || field.schema?.type === 'datetime';
+const isUserField = (field: FieldInfo) => field.schema?.type === 'user';
+const isEpicLinkField = (field: FieldInfo) =>
+  field.schema?.custom === 'com.pyxis.greenhopper.jira:gh-epic-link' || field.name.toLowerCase() === 'epic link';
+
+const labelFor = (value: string) => value.replace(/_/g, ' ');
+
+export function JiraFieldMappingEditor({ projectId }: JiraFieldMappingEditorProps) {
+  const { toast } = useToast();
+  const [mapping, setMapping] = useState<JiraFieldMapping | null>(null);
+  const [metadata, setMetadata] = useState<JiraProjectMetadata | null>(null);
+  const [localStatuses, setLocalStatuses] = useState<string[]>([]);
+  const [localPriorities, setLocalPriorities] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+
+  const load = async () => {
+    setLoading(true);
+    setLoadError(null);
+    try {
+      const [mappingResponse, metadataResponse] = await Promise.all([
+        apiClient.getJiraFieldMapping(projectId),
+        apiClient.getJiraMetadata(projectId)
+      ]);
+
+      if (mappingResponse.success && mappingResponse.data) {
+        setMapping(mappingResponse.data.mapping);
+        setLocalStatuses(mappingResponse.data.localStatuses);
+        setLocalPriorities(mappingResponse.data.localPriorities);
+      } else {
+        setLoadError(mappingResponse.error || 'Failed to load field mapping');
+      }
+
+      if (metadataResponse.success && metadataResponse.data) {
+        setMetadata(metadataResponse.data);
+      } else {
+        setLoadError(metadataResponse.error || 'Failed to load Jira project metadata');
+      }
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load field mapping');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (projectId) {
+      load();
+    }
+  }, [projectId]);
+
+  const updateStatus = (local: string, jira: string) => {
+    setMapping(prev => prev && { ...prev, statusMapping: { ...prev.statusMapping, [local]: jira } });
+  };
+
+  const updatePriority = (local: string, jira: string) => {
+    setMapping(prev => prev && { ...prev, priorityMapping: { ...prev.priorityMapping, [local]: jira } });
+  };
+
+  const updateField = (field: keyof JiraFieldMapping['fields'], value: string) => {
+    setMapping(prev => prev && {
+      ...prev,
+      fields: { ...prev.fields, [field]: value === NONE ? null : value }
+    });
+  };
+
+  const save = async () => {
+    if (!mapping) return;
+
+    setSaving(true);
+    setValidationErrors([]);
+    try {
+      const response = await apiClient.updateJiraFieldMapping(projectId, mapping);
+      if (response.success && response.data) {
+        setMapping(response.data);
+        toast({ title: 'Field mapping saved', description: 'New and updated issues will use this mapping' });
+      } else {
+        const details = Array.isArray(response.details)
+          ? response.details.map((detail: any) => typeof detail === 'string' ? detail : `${detail.path?.join('.')}: ${detail.message}`)
+          : [];
+        setValidationErrors(details);
+        toast({ title: 'Field mapping not saved', description: response.error || 'Failed to save field mapping', variant: 'destructive' });
+      }
+    } catch (error) {
+      toast({
+        title: 'Field mapping not saved',
+        description: error instanceof Error ? error.message : 'Failed to save field mapping',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && !mapping) {
+    return (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+        Loading field mapping...
+      </div>
+    );
+  }
+
+  if (!mapping) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>{loadError || 'No field mapping available'}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const fields = metadata?.fields || [];
+  const customFields = fields.filter(f => f.custom);
+  // Keep values Jira no longer reports selectable so the user can see and replace them
+  const withCurrent = (options: string[], current: string | undefined) =>
+    current && !options.includes(current) ? [current, ...options] : options;
+
+  const fieldSelect = (
+    field: keyof JiraFieldMapping['fields'],
+    label: string,
+    options: { value: string; label: string }[]
+  ) => (
+    <div className="space-y-1">
+      <Label className="text-sm">{label}</Label>
+      <Select value={mapping.fields[field] ?? NONE} onValueChange={(value) => updateField(field, value)}>
+        <SelectTrigger data-testid={`select-field-${field}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>Not synced</SelectItem>
+          {options.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {loadError && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{loadError}</AlertDescription>
+        </Alert>
+      )}
+
+      {validationErrors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {validationErrors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-1">
+        <Label className="text-sm">Issue Type</Label>
+        <Select value={mapping.issueType} onValueChange={(value) => setMapping(prev => prev && { ...prev, issueType: value })}>
+          <SelectTrigger data-testid="select-issue-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {withCurrent((metadata?.issueTypes || []).map(t => t.name), mapping.issueType).map(name => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Status</h4>
+        <div className="grid grid-cols-2 gap-3">
+          {localStatuses.map(status => (
+            <div key={status} className="space-y-1">
+              <Label className="text-xs text-muted-foreground capitalize">{labelFor(status)}</Label>
+              <Select value={mapping.statusMapping[status] || ''} onValueChange={(value) => updateStatus(status, value)}>
+                <SelectTrigger data-testid={`select-status-${status}`}>
+                  <SelectValue placeholder="Select Jira status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {withCurrent(metadata?.statuses || [], mapping.statusMapping[status]).map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Priority</h4>
+        <div className="grid grid-cols-2 gap-3">
+          {localPriorities.map(priority => (
+            <div key={priority} className="space-y-1">
+              <Label className="text-xs text-muted-foreground capitalize">{priority}</Label>
+              <Select value={mapping.priorityMapping[priority] || ''} onValueChange={(value) => updatePriority(priority, value)}>
+                <SelectTrigger data-testid={`select-priority-${priority}`}>
+                  <SelectValue placeholder="Select Jira priority" />
+                </SelectTrigger>
+                <SelectContent>
+                  {withCurrent(metadata?.priorities || [], mapping.priorityMapping[priority]).map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Fields</h4>
+        <div className="grid grid-cols-2 gap-3">
+          {fieldSelect('description', 'Description', [
+            { value: 'description', label: 'Description' },
+            ...customFields.filter(isStringField).map(f => ({ value: f.id, label: f.name }))
+          ])}
+          {fieldSelect('due_date', 'Due Date', [
+            { value: 'duedate', label: 'Due date' },
+            ...customFields.filter(isDateField).map(f => ({ value: f.id, label: f.name }))
+          ])}
+          {fieldSelect('owner', 'Owner', [
+            { value: 'assignee', label: 'Assignee' },
+            ...customFields.filter(isUserField).map(f => ({ value: f.id, label: f.name }))
+          ])}
+          {fieldSelect('milestone', 'Milestone', [
+            { value: 'fixVersion', label: 'Fix version' },
+            { value: 'epic', label: 'Epic' }
+          ])}
+          {mapping.fields.milestone === 'epic' && fieldSelect(
+            'epicLinkField',
+            'Epic Link Field',
+            customFields.filter(isEpicLinkField).map(f => ({ value: f.id, label: `${f.name} (${f.id})` }))
+          )}
+        </div>
+        {mapping.fields.milestone === 'epic' && !mapping.fields.epicLinkField && (
+          <p className="text-xs text-muted-foreground">
+            Without an epic link field, issues are linked to their epic as parent (team-managed projects).
+          </p>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={load} disabled={loading || saving}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Reload
+        </Button>
+        <Button onClick={save} disabled={saving} data-testid="button-save-field-mapping">
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Mapping'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { 
   Settings, 
@@ -20,8 +21,10 @@ import {
   AlertTriangle,
   RefreshCw,
   Link,
-  History
+  History,
+  Activity
 } from 'lucide-react';
+import { JiraFieldMappingEditor } from './JiraFieldMappingEditor';
 
 interface JiraIntegration {
   id: string;
@@ -32,10 +35,37 @@ interface JiraIntegration {
   enabled: boolean;
   sync_enabled: boolean;
   auto_sync: boolean;
+  sync_interval_minutes: number;
+  conflict_policy: ConflictPolicy;
   last_sync: string | null;
   created_at: string;
 }
 
+type ConflictPolicy = 'local_wins' | 'remote_wins' | 'manual';
+type SyncField = 'title' | 'description' | 'status' | 'priority';
+
+interface FieldChoice {
+  choice: 'local' | 'remote' | 'merged';
+  value?: string;
+}
+
+interface JiraSyncConflict {
+  id: string;
+  item_type: 'task' | 'backlog';
+  item_id: string;
+  jira_issue_key: string;
+  fields: {
+    field: SyncField;
+    base: string | null;
+    local: string;
+    remote: string;
+    conflicting: boolean;
+  }[];
+  local_updated_at: string | null;
+  remote_updated_at: string | null;
+  updated_at: string;
+}
+
 interface JiraSyncHistory {
   id: string;
   jira_issue_key: string | null;
@@ -46,6 +76,43 @@ interface JiraSyncHistory {
   created_at: string;
 }
 
+interface JiraSyncHealth {
+  syncHealth: 'healthy' | 'warning' | 'error' | 'not_configured';
+  lastSuccessfulSync: string | null;
+  lastAttempt: string | null;
+  window: { hours: number; total: number; errors: number; errorRate: number };
+  recentFailures: {
+    id: string;
+    jiraIssueKey: string | null;
+    operation: string;
+    errorMessage: string | null;
+    createdAt: string;
+  }[];
+  drift: {
+    id: string;
+    type: 'task' | 'backlog';
+    title: string;
+    jiraIssueKey: string;
+    updatedAt: string;
+    jiraLastSync: string | null;
+  }[];
+  orphans: {
+    jiraIssueKey: string;
+    itemIds: string[];
+    reason: 'foreign_project' | 'duplicate' | 'missing_in_jira';
+  }[];
+  remoteCheckError: string | null;
+  totalTasks: number;
+  syncedTasks: number;
+  syncPercentage: number;
+}
+
+const ORPHAN_REASONS: Record<JiraSyncHealth['orphans'][number]['reason'], string> = {
+  foreign_project: 'Belongs to another Jira project',
+  duplicate: 'Linked to more than one item',
+  missing_in_jira: 'Issue no longer exists in Jira'
+};
+
 interface JiraTaskSyncProps {
   projectId: string;
 }
@@ -67,6 +134,12 @@ const getAuthToken = (): string | null => {
 export function JiraTaskSync({ projectId }: JiraTaskSyncProps) {
   const [integration, setIntegration] = useState<JiraIntegration | null>(null);
   const [syncHistory, setSyncHistory] = useState<JiraSyncHistory[]>([]);
+  const [syncHealth, setSyncHealth] = useState<JiraSyncHealth | null>(null);
+  const [isCheckingHealth, setIsCheckingHealth] = useState(false);
+  const [conflicts, setConflicts] = useState<JiraSyncConflict[]>([]);
+  const [conflictChoices, setConflictChoices] = useState<Record<string, Partial<Record<SyncField, FieldChoice>>>>({});
+  const [resolvingConflictId, setResolvingConflictId] = useState<string | null>(null);
+  const [webhookSettings, setWebhookSettings] = useState<{ url: string; secret: string; events: string[] } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isConfigOpen, setIsConfigOpen] = useState(false);
   const [isTestingConnection, setIsTestingConnection] = useState(false);
@@ -85,6 +158,8 @@ export function JiraTaskSync({ projectId }: JiraTaskSyncProps) {
   useEffect(() => {
     fetchIntegration();
     fetchSyncHistory();
+    fetchSyncHealth();
+    fetchConflicts();
   }, [projectId]);
 
   const fetchIntegration = async () => {
@@ -140,6 +215,181 @@ export function JiraTaskSync({ projectId }: JiraTaskSyncProps) {
     }
   };
 
+  // checkRemote asks the server to confirm linked issues still exist in Jira, which is slower
+  const fetchSyncHealth = async (checkRemote = false) => {
+    try {
+      const token = getAuthToken();
+      if (!token) return;
+
+      setIsCheckingHealth(true);
+      const params = new URLSearchParams({ projectId, checkRemote: String(checkRemote) });
+      const response = await fetch(`/api/jira/sync-health?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setSyncHealth(result.data);
+      }
+    } catch (error) {
+      console.error('Error fetching sync health:', error);
+    } finally {
+      setIsCheckingHealth(false);
+    }
+  };
+
+  const fetchConflicts = async () => {
+    try {
+      const token = getAuthToken();
+      if (!token) return;
+
+      const response = await fetch(`/api/jira-service/projects/${projectId}/conflicts`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setConflicts(result.data || []);
+      }
+    } catch (error) {
+      console.error('Error fetching sync conflicts:', error);
+    }
+  };
+
+  const setConflictChoice = (conflictId: string, field: SyncField, choice: FieldChoice) => {
+    setConflictChoices(prev => ({
+      ...prev,
+      [conflictId]: { ...prev[conflictId], [field]: choice }
+    }));
+  };
+
+  const resolveConflict = async (conflict: JiraSyncConflict) => {
+    try {
+      const token = getAuthToken();
+      if (!token) return;
+
+      setResolvingConflictId(conflict.id);
+      const response = await fetch(`/api/jira-service/projects/${projectId}/conflicts/${conflict.id}/resolve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ fields: conflictChoices[conflict.id] || {} })
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        toast({
+          title: "Conflict Resolved",
+          description: `${conflict.jira_issue_key} is back in sync`
+        });
+        fetchConflicts();
+        fetchSyncHistory();
+        fetchSyncHealth();
+      } else {
+        toast({
+          title: "Resolution Failed",
+          description: result.error || "Failed to resolve conflict",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+    } finally {
+      setResolvingConflictId(null);
+    }
+  };
+
+  const updateSyncSettings = async (settings: Partial<Pick<JiraIntegration, 'sync_enabled' | 'auto_sync' | 'sync_interval_minutes' | 'conflict_policy'>>) => {
+    try {
+      const token = getAuthToken();
+      if (!token) return;
+
+      const response = await fetch(`/api/jira-service/projects/${projectId}/sync-settings`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(settings)
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setIntegration(result.data);
+      } else {
+        toast({
+          title: "Update Failed",
+          description: result.error || "Failed to update sync settings",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error('Error updating sync settings:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to update sync settings",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const fetchWebhookSettings = async () => {
+    try {
+      const token = getAuthToken();
+      if (!token) return;
+
+      const response = await fetch(`/api/jira-service/projects/${projectId}/webhook`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setWebhookSettings(result.data);
+      } else {
+        toast({
+          title: "Webhook Unavailable",
+          description: result.error || "Failed to load webhook settings",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching webhook settings:', error);
+    }
+  };
+
+  const rotateWebhookSecret = async () => {
+    try {
+      const token = getAuthToken();
+      if (!token) return;
+
+      const response = await fetch(`/api/jira-service/projects/${projectId}/webhook/rotate-secret`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      const result = await response.json();
+
+      if (result.success && webhookSettings) {
+        setWebhookSettings({ ...webhookSettings, secret: result.data.secret });
+        toast({
+          title: "Secret Rotated",
+          description: "Update the webhook secret in Jira to keep receiving changes"
+        });
+      }
+    } catch (error) {
+      console.error('Error rotating webhook secret:', error);
+    }
+  };
+
   const testConnection = async () => {
     if (!integration) {
       toast({
@@ -289,6 +539,8 @@ export function JiraTaskSync({ projectId }: JiraTaskSyncProps) {
           description: `Imported ${imported} tasks from Jira (${skipped} already existed). Total: ${total} issues found.`
         });
         fetchSyncHistory();
+        fetchSyncHealth();
+        fetchConflicts();
         fetchIntegration();
       } else {
         toast({
@@ -345,6 +597,8 @@ export function JiraTaskSync({ projectId }: JiraTaskSyncProps) {
           description: `Exported ${exported} tasks to Jira (${total} total tasks checked).`
         });
         fetchSyncHistory();
+        fetchSyncHealth();
+        fetchConflicts();
         fetchIntegration();
       } else {
         toast({
@@ -401,6 +655,8 @@ export function JiraTaskSync({ projectId }: JiraTaskSyncProps) {
           description: `Imported ${importData.imported} tasks from Jira and exported ${exportData.exported} tasks to Jira.`
         });
         fetchSyncHistory();
+        fetchSyncHealth();
+        fetchConflicts();
         fetchIntegration();
       } else {
         toast({
@@ -547,8 +803,13 @@ export function JiraTaskSync({ projectId }: JiraTaskSyncProps) {
           </div>
         ) : (
           <Tabs defaultValue="status" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="status">Status</TabsTrigger>
+              <TabsTrigger value="health">Health</TabsTrigger>
+              <TabsTrigger value="conflicts">
+                Conflicts{conflicts.length > 0 ? ` (${conflicts.length})` : ''}
+              </TabsTrigger>
+              <TabsTrigger value="mapping">Mapping</TabsTrigger>
               <TabsTrigger value="history">Sync History</TabsTrigger>
             </TabsList>
             
@@ -607,7 +868,7 @@ export function JiraTaskSync({ projectId }: JiraTaskSyncProps) {
                     <Label>Sync Enabled</Label>
                     <Switch
                       checked={integration.sync_enabled}
-                      disabled // TODO: Implement toggle functionality
+                      onCheckedChange={(checked) => updateSyncSettings({ sync_enabled: checked })}
                       data-testid="switch-sync-enabled"
                     />
                   </div>
@@ -621,14 +882,94 @@ export function JiraTaskSync({ projectId }: JiraTaskSyncProps) {
                     <Label>Auto Sync</Label>
                     <Switch
                       checked={integration.auto_sync}
-                      disabled // TODO: Implement toggle functionality
+                      onCheckedChange={(checked) => updateSyncSettings({ auto_sync: checked })}
                       data-testid="switch-auto-sync"
                     />
                   </div>
                   <p className="text-sm text-muted-foreground">
-                    Automatically sync changes to Jira
+                    Automatically sync changes with Jira in the background
                   </p>
+                  {integration.auto_sync && (
+                    <div className="flex items-center gap-2 mt-3">
+                      <Label htmlFor="sync-interval" className="text-sm font-normal">Every</Label>
+                      <Input
+                        id="sync-interval"
+                        type="number"
+                        min={5}
+                        max={1440}
+                        className="h-8 w-20"
+                        defaultValue={integration.sync_interval_minutes}
+                        onBlur={(e) => {
+                          const minutes = parseInt(e.target.value, 10);
+                          if (!isNaN(minutes) && minutes !== integration.sync_interval_minutes) {
+                            updateSyncSettings({ sync_interval_minutes: minutes });
+                          }
+                        }}
+                        data-testid="input-sync-interval"
+                      />
+                      <span className="text-sm text-muted-foreground">minutes</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="p-4 border rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <Label>Conflict Policy</Label>
+                  <Select
+                    value={integration.conflict_policy}
+                    onValueChange={(value) => updateSyncSettings({ conflict_policy: value as ConflictPolicy })}
+                  >
+                    <SelectTrigger className="w-44" data-testid="select-conflict-policy">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="manual">Ask me</SelectItem>
+                      <SelectItem value="local_wins">Local wins</SelectItem>
+                      <SelectItem value="remote_wins">Jira wins</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
+                <p className="text-sm text-muted-foreground">
+                  What to do when a field was changed both here and in Jira since the last sync
+                </p>
+              </div>
+
+              {/* Jira Webhook */}
+              <div className="p-4 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label>Jira Webhook</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Receive issue changes from Jira as they happen
+                    </p>
+                  </div>
+                  {webhookSettings ? (
+                    <Button variant="outline" size="sm" onClick={rotateWebhookSecret} data-testid="button-rotate-webhook-secret">
+                      Rotate Secret
+                    </Button>
+                  ) : (
+                    <Button variant="outline" size="sm" onClick={fetchWebhookSettings} data-testid="button-show-webhook">
+                      <Link className="h-4 w-4 mr-2" />
+                      Show Settings
+                    </Button>
+                  )}
+                </div>
+                {webhookSettings && (
+                  <div className="space-y-2">
+                    <div>
+                      <Label className="text-xs text-muted-foreground">URL</Label>
+                      <Input readOnly value={webhookSettings.url} className="font-mono text-xs" />
+                    </div>
+                    <div>
+                      <Label className="text-xs text-muted-foreground">Secret</Label>
+                      <Input readOnly value={webhookSettings.secret} className="font-mono text-xs" />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Events: {webhookSettings.events.join(', ')}
+                    </p>
+                  </div>
+                )}
               </div>
 
               {/* Sync Operations */}
@@ -715,6 +1056,239 @@ export function JiraTaskSync({ projectId }: JiraTaskSyncProps) {
               )}
             </TabsContent>
             
+            <TabsContent value="health" className="space-y-4">
+              {syncHealth ? (
+                <>
+                  <div className="flex items-center justify-between p-4 border rounded-lg">
+                    <div className="flex items-center gap-3">
+                      {syncHealth.syncHealth === 'healthy' ? (
+                        <CheckCircle className="h-5 w-5 text-green-500" />
+                      ) : syncHealth.syncHealth === 'warning' ? (
+                        <AlertTriangle className="h-5 w-5 text-yellow-500" />
+                      ) : (
+                        <XCircle className="h-5 w-5 text-red-500" />
+                      )}
+                      <div>
+                        <p className="font-medium capitalize">{syncHealth.syncHealth.replace('_', ' ')}</p>
+                        <p className="text-sm text-muted-foreground">
+                          Last successful sync: {syncHealth.lastSuccessfulSync
+                            ? new Date(syncHealth.lastSuccessfulSync).toLocaleString()
+                            : 'Never'}
+                        </p>
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => fetchSyncHealth(true)}
+                      disabled={isCheckingHealth}
+                      data-testid="button-check-jira-health"
+                    >
+                      <RefreshCw className={`h-4 w-4 mr-2 ${isCheckingHealth ? 'animate-spin' : ''}`} />
+                      Check against Jira
+                    </Button>
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="p-3 border rounded-lg">
+                      <p className="text-xs text-muted-foreground">Error rate ({syncHealth.window.hours}h)</p>
+                      <p className="text-xl font-semibold">{syncHealth.window.errorRate}%</p>
+                      <p className="text-xs text-muted-foreground">
+                        {syncHealth.window.errors} of {syncHealth.window.total} syncs failed
+                      </p>
+                    </div>
+                    <div className="p-3 border rounded-lg">
+                      <p className="text-xs text-muted-foreground">Linked tasks</p>
+                      <p className="text-xl font-semibold">{Math.round(syncHealth.syncPercentage)}%</p>
+                      <p className="text-xs text-muted-foreground">
+                        {syncHealth.syncedTasks} of {syncHealth.totalTasks} tasks
+                      </p>
+                    </div>
+                    <div className="p-3 border rounded-lg">
+                      <p className="text-xs text-muted-foreground">Out of date</p>
+                      <p className="text-xl font-semibold">{syncHealth.drift.length}</p>
+                      <p className="text-xs text-muted-foreground">changed since last sync</p>
+                    </div>
+                    <div className="p-3 border rounded-lg">
+                      <p className="text-xs text-muted-foreground">Orphaned keys</p>
+                      <p className="text-xl font-semibold">{syncHealth.orphans.length}</p>
+                      <p className="text-xs text-muted-foreground">need relinking</p>
+                    </div>
+                  </div>
+
+                  {syncHealth.remoteCheckError && (
+                    <Alert variant="destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertDescription>
+                        Could not check issues against Jira: {syncHealth.remoteCheckError}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {syncHealth.recentFailures.length > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">Recent failures</h4>
+                      {syncHealth.recentFailures.map((failure) => (
+                        <div key={failure.id} className="p-3 border rounded-lg">
+                          <p className="font-medium text-sm">
+                            {failure.operation} {failure.jiraIssueKey ? `(${failure.jiraIssueKey})` : ''}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(failure.createdAt).toLocaleString()}
+                          </p>
+                          {failure.errorMessage && (
+                            <p className="text-xs text-red-500 mt-1">{failure.errorMessage}</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {syncHealth.drift.length > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">Changed since last sync</h4>
+                      {syncHealth.drift.map((item) => (
+                        <div key={item.id} className="flex items-center justify-between p-3 border rounded-lg">
+                          <div>
+                            <p className="font-medium text-sm">{item.title}</p>
+                            <p className="text-xs text-muted-foreground">
+                              Updated {new Date(item.updatedAt).toLocaleString()} · last synced {item.jiraLastSync
+                                ? new Date(item.jiraLastSync).toLocaleString()
+                                : 'never'}
+                            </p>
+                          </div>
+                          <Badge variant="outline">{item.jiraIssueKey}</Badge>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {syncHealth.orphans.length > 0 && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-medium">Orphaned issue keys</h4>
+                      {syncHealth.orphans.map((orphan) => (
+                        <div key={`${orphan.jiraIssueKey}-${orphan.reason}`} className="flex items-center justify-between p-3 border rounded-lg">
+                          <div>
+                            <p className="font-medium text-sm">{orphan.jiraIssueKey}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {ORPHAN_REASONS[orphan.reason]} · {orphan.itemIds.length} linked item{orphan.itemIds.length === 1 ? '' : 's'}
+                            </p>
+                          </div>
+                          <Badge variant="destructive">{orphan.reason.replace(/_/g, ' ')}</Badge>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className="text-center py-8">
+                  <Activity className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p className="text-muted-foreground">Sync health is not available yet</p>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="conflicts" className="space-y-4">
+              {conflicts.length > 0 ? (
+                conflicts.map((conflict) => {
+                  const choices = conflictChoices[conflict.id] || {};
+                  const unresolved = conflict.fields.some(f => f.conflicting && !choices[f.field]);
+
+                  return (
+                    <div key={conflict.id} className="p-4 border rounded-lg space-y-3">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium">{conflict.jira_issue_key}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {conflict.item_type === 'task' ? 'Task' : 'Backlog item'} changed here and in Jira · detected {new Date(conflict.updated_at).toLocaleString()}
+                          </p>
+                        </div>
+                        <Button
+                          size="sm"
+                          onClick={() => resolveConflict(conflict)}
+                          disabled={unresolved || resolvingConflictId === conflict.id}
+                          data-testid={`button-resolve-conflict-${conflict.id}`}
+                        >
+                          Resolve
+                        </Button>
+                      </div>
+
+                      {conflict.fields.map((difference) => {
+                        const selected = choices[difference.field];
+                        return (
+                          <div key={difference.field} className="space-y-2 border-t pt-3">
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm font-medium capitalize">{difference.field}</span>
+                              {difference.conflicting ? (
+                                <Badge variant="destructive">Changed on both sides</Badge>
+                              ) : (
+                                <Badge variant="outline">
+                                  {difference.base === null
+                                    ? 'Differs'
+                                    : `Changed ${difference.local !== difference.base ? 'here' : 'in Jira'}`}
+                                </Badge>
+                              )}
+                            </div>
+                            <div className="grid grid-cols-2 gap-2 text-sm">
+                              <div className="p-2 bg-muted rounded">
+                                <p className="text-xs text-muted-foreground">Local</p>
+                                <p className="break-words">{difference.local || '—'}</p>
+                              </div>
+                              <div className="p-2 bg-muted rounded">
+                                <p className="text-xs text-muted-foreground">Jira</p>
+                                <p className="break-words">{difference.remote || '—'}</p>
+                              </div>
+                            </div>
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant={selected?.choice === 'local' ? 'default' : 'outline'}
+                                onClick={() => setConflictChoice(conflict.id, difference.field, { choice: 'local' })}
+                              >
+                                Keep local
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant={selected?.choice === 'remote' ? 'default' : 'outline'}
+                                onClick={() => setConflictChoice(conflict.id, difference.field, { choice: 'remote' })}
+                              >
+                                Use Jira
+                              </Button>
+                              {(difference.field === 'title' || difference.field === 'description') && (
+                                <Button
+                                  size="sm"
+                                  variant={selected?.choice === 'merged' ? 'default' : 'outline'}
+                                  onClick={() => setConflictChoice(conflict.id, difference.field, { choice: 'merged', value: difference.local })}
+                                >
+                                  Merge
+                                </Button>
+                              )}
+                            </div>
+                            {selected?.choice === 'merged' && (
+                              <Input
+                                value={selected.value ?? ''}
+                                onChange={(e) => setConflictChoice(conflict.id, difference.field, { choice: 'merged', value: e.target.value })}
+                                data-testid={`input-merged-${conflict.id}-${difference.field}`}
+                              />
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  );
+                })
+              ) : (
+                <div className="text-center py-8">
+                  <CheckCircle className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p className="text-muted-foreground">No sync conflicts</p>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="mapping" className="space-y-4">
+              <JiraFieldMappingEditor projectId={projectId} />
+            </TabsContent>
+
             <TabsContent value="history" className="space-y-4">
               <div className="space-y-2">
                 {syncHistory.length > 0 ? (
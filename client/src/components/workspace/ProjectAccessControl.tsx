@@ -30,16 +30,17 @@ interface ProjectAccessControlProps {
 
 const MODULES = [
   { name: 'budget', label: 'Budget' },
-  { name: 'tasks', label: 'Tasks & Milestones' },
+  { name: 'tasks_milestones', label: 'Tasks & Milestones' },
   { name: 'roadmap', label: 'Roadmap' },
   { name: 'kanban', label: 'Kanban' },
   { name: 'stakeholders', label: 'Stakeholders' },
-  { name: 'risks', label: 'Risk Register' },
+  { name: 'risk_register', label: 'Risk Register' },
   { name: 'discussions', label: 'Discussions' },
-  { name: 'backlog', label: 'Task Backlog' },
-  { name: 'capacity', label: 'Team Capacity' },
-  { name: 'retrospective', label: 'Retrospectives' },
+  { name: 'task_backlog', label: 'Task Backlog' },
+  { name: 'team_capacity', label: 'Team Capacity' },
+  { name: 'retrospectives', label: 'Retrospectives' },
   { name: 'access_control', label: 'Access Control' },
+  { name: 'jira_sync', label: 'Jira Sync' },
 ];
 
 export function ProjectAccessControl({ projectId }: ProjectAccessControlProps) {
@@ -59,7 +60,7 @@ export function ProjectAccessControl({ projectId }: ProjectAccessControlProps) {
 
   const fetchPermissions = async () => {
     try {
-      const response = await apiClient.getModulePermissions(projectId);
+      const response = await apiClient.getProjectPermissionGrants(projectId);
       
       if (!response.success) {
         toast({
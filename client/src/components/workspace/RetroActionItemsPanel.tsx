@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiClient, type RetroActionItem, type RetroActionItemStatus, type RetroCarryOver } from '@/services/api';
+import { ArrowRightLeft, CheckCircle, ListTodo, Undo2, XCircle } from 'lucide-react';
+
+interface RetroActionItemsPanelProps {
+  retrospectiveId: string;
+  // Bumped by the board when another participant adds or changes an action
+  reloadKey: number;
+  canEdit: boolean;
+}
+
+export const ACTION_STATUS_LABELS: Record<RetroActionItemStatus, string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  done: 'Done',
+  carried_over: 'Carried over',
+  dropped: 'Dropped'
+};
+
+const EDITABLE_STATUSES: RetroActionItemStatus[] = ['open', 'in_progress', 'done', 'dropped'];
+
+const retroLabel = (retro: { iteration_id: string | null; created_at: string }) =>
+  retro.iteration_id || new Date(retro.created_at).toLocaleDateString();
+
+// This retro's actions and their progress, plus anything the team left unfinished last time
+const RetroActionItemsPanel: React.FC<RetroActionItemsPanelProps> = ({ retrospectiveId, reloadKey, canEdit }) => {
+  const { toast } = useToast();
+  const [items, setItems] = useState<RetroActionItem[]>([]);
+  const [carryOver, setCarryOver] = useState<RetroCarryOver | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const [itemsResponse, carryOverResponse] = await Promise.all([
+        apiClient.getRetrospectiveActionItems(retrospectiveId),
+        apiClient.getRetrospectiveCarryOver(retrospectiveId)
+      ]);
+      if (itemsResponse.success && itemsResponse.data) setItems(itemsResponse.data);
+      if (carryOverResponse.success && carryOverResponse.data) setCarryOver(carryOverResponse.data);
+    } catch (error) {
+      console.error('Error fetching action items:', error);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [retrospectiveId, reloadKey]);
+
+  const run = async (id: string, action: () => Promise<{ success: boolean; error?: string }>, fallback: string) => {
+    setBusyId(id);
+    try {
+      const response = await action();
+      if (!response.success) {
+        throw new Error(response.error || fallback);
+      }
+      await load();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : fallback,
+        variant: 'destructive'
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const setStatus = (item: RetroActionItem, status: RetroActionItemStatus) =>
+    run(item.id, () => apiClient.updateRetrospectiveActionItem(item.id, { status }), 'Failed to update action item');
+
+  const carry = (item: RetroActionItem) =>
+    run(item.id, () => apiClient.carryOverRetrospectiveActions(retrospectiveId, [item.id]), 'Failed to carry the action over');
+
+  const convert = (item: RetroActionItem) =>
+    run(item.id, () => apiClient.convertRetrospectiveActionItem(item.id), 'Failed to add the action to the backlog');
+
+  const pending = carryOver?.items || [];
+  const done = items.filter(item => item.status === 'done').length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <ListTodo className="h-4 w-4 text-primary" />
+            Action items
+          </span>
+          {items.length > 0 && (
+            <span className="text-sm font-normal text-muted-foreground">{done} of {items.length} done</span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {pending.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">
+              Still open from {carryOver?.previous ? retroLabel(carryOver.previous) : 'earlier retros'}
+            </div>
+            {pending.map(item => (
+              <div key={item.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-dashed p-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium">{item.what_task}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {item.who_responsible ? `${item.who_responsible} · ` : ''}
+                    {ACTION_STATUS_LABELS[item.status]}
+                    {item.retrospective.id !== carryOver?.previous?.id && ` · from ${retroLabel(item.retrospective)}`}
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-1">
+                    <Button size="sm" variant="outline" disabled={busyId === item.id} onClick={() => setStatus(item, 'done')}>
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Done
+                    </Button>
+                    <Button size="sm" variant="outline" disabled={busyId === item.id} onClick={() => carry(item)}>
+                      <ArrowRightLeft className="h-4 w-4 mr-1" />
+                      Carry over
+                    </Button>
+                    <Button size="sm" variant="ghost" disabled={busyId === item.id} onClick={() => setStatus(item, 'dropped')} title="Drop this action">
+                      <XCircle className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No actions yet. Use a card's menu to turn it into an action item.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {items.map(item => (
+              <div key={item.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+                <div className="min-w-0">
+                  <div className={`text-sm font-medium ${item.status === 'done' || item.status === 'dropped' ? 'line-through text-muted-foreground' : ''}`}>
+                    {item.what_task}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    {item.who_responsible && <span>{item.who_responsible}</span>}
+                    {item.when_sprint && <span>{item.when_sprint}</span>}
+                    {item.carried_from_id && (
+                      <Badge variant="outline" className="text-[10px]">
+                        <Undo2 className="h-3 w-3 mr-1" />
+                        Carried over
+                      </Badge>
+                    )}
+                    {item.backlog_ref_id && <Badge variant="secondary" className="text-[10px]">On backlog</Badge>}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {canEdit && !item.backlog_ref_id && item.status !== 'carried_over' && (
+                    <Button size="sm" variant="ghost" disabled={busyId === item.id} onClick={() => convert(item)}>
+                      Add to backlog
+                    </Button>
+                  )}
+                  {canEdit && item.status !== 'carried_over' ? (
+                    <Select value={item.status} onValueChange={(value) => setStatus(item, value as RetroActionItemStatus)} disabled={busyId === item.id}>
+                      <SelectTrigger className="w-[130px] h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EDITABLE_STATUSES.map(status => (
+                          <SelectItem key={status} value={status}>{ACTION_STATUS_LABELS[status]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="outline">{ACTION_STATUS_LABELS[item.status]}</Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export { RetroActionItemsPanel };
@@ -0,0 +1,125 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import type { RetroColumnInput } from '@/services/api';
+
+export const COLUMN_COLORS = ['#22c55e', '#3b82f6', '#a855f7', '#f59e0b', '#ef4444', '#ec4899', '#14b8a6', '#64748b'];
+
+const MAX_COLUMNS = 8;
+
+interface RetroColumnsEditorProps {
+  columns: RetroColumnInput[];
+  onChange: (columns: RetroColumnInput[]) => void;
+  // Columns that still hold cards can't be removed
+  lockedIds?: string[];
+}
+
+// Prompts are edited one per line; blank lines are dropped when saving
+export const cleanColumns = (columns: RetroColumnInput[]): RetroColumnInput[] =>
+  columns.map(column => ({
+    ...column,
+    title: column.title.trim(),
+    subtitle: column.subtitle?.trim() || null,
+    prompts: column.prompts.map(prompt => prompt.trim()).filter(Boolean)
+  }));
+
+const RetroColumnsEditor: React.FC<RetroColumnsEditorProps> = ({ columns, onChange, lockedIds = [] }) => {
+  const update = (index: number, patch: Partial<RetroColumnInput>) =>
+    onChange(columns.map((column, i) => i === index ? { ...column, ...patch } : column));
+
+  const move = (index: number, offset: number) => {
+    const next = [...columns];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const add = () => onChange([
+    ...columns,
+    { title: '', subtitle: null, color: COLUMN_COLORS[columns.length % COLUMN_COLORS.length], prompts: [] }
+  ]);
+
+  return (
+    <div className="space-y-3">
+      {columns.map((column, index) => {
+        const locked = !!column.id && lockedIds.includes(column.id);
+        return (
+          <div key={column.id || index} className="rounded-lg border p-3 space-y-3" style={{ borderLeft: `4px solid ${column.color || 'hsl(var(--border))'}` }}>
+            <div className="flex items-start gap-2">
+              <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <div>
+                  <Label className="text-xs">Title</Label>
+                  <Input
+                    value={column.title}
+                    onChange={(e) => update(index, { title: e.target.value })}
+                    placeholder="e.g. What went well?"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">Subtitle</Label>
+                  <Input
+                    value={column.subtitle || ''}
+                    onChange={(e) => update(index, { subtitle: e.target.value })}
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center gap-1 pt-5">
+                <Button type="button" size="icon" variant="ghost" className="h-8 w-8" disabled={index === 0} onClick={() => move(index, -1)}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button type="button" size="icon" variant="ghost" className="h-8 w-8" disabled={index === columns.length - 1} onClick={() => move(index, 1)}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 text-destructive"
+                  disabled={columns.length === 1 || locked}
+                  title={locked ? 'Move or delete its cards first' : 'Remove column'}
+                  onClick={() => onChange(columns.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Label className="text-xs">Colour</Label>
+              {COLUMN_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  aria-label={`Use ${color}`}
+                  onClick={() => update(index, { color })}
+                  className={`h-5 w-5 rounded-full border-2 ${column.color === color ? 'border-foreground' : 'border-transparent'}`}
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </div>
+
+            <div>
+              <Label className="text-xs">Prompts (one per line)</Label>
+              <Textarea
+                value={column.prompts.join('\n')}
+                onChange={(e) => update(index, { prompts: e.target.value.split('\n') })}
+                placeholder="Questions that help people write cards for this column"
+                className="min-h-[60px] text-sm"
+              />
+            </div>
+          </div>
+        );
+      })}
+
+      <Button type="button" variant="outline" size="sm" onClick={add} disabled={columns.length >= MAX_COLUMNS}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add column
+      </Button>
+    </div>
+  );
+};
+
+export { RetroColumnsEditor };
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiClient, type RetroFramework, type RetroFrameworkColumn } from '@/services/api';
+import { RetroColumnsEditor, cleanColumns } from './RetroColumnsEditor';
+
+interface RetroFrameworkDesignerProps {
+  projectId: string;
+  open: boolean;
+  // The framework being edited, or null to design a new one
+  framework: RetroFramework | null;
+  // Columns a new framework starts from, e.g. a copy of a built-in one
+  startFrom?: RetroFrameworkColumn[];
+  onSaved: (framework: RetroFramework) => void;
+  onDeleted: (key: string) => void;
+  onClose: () => void;
+}
+
+const BLANK_COLUMNS: RetroFrameworkColumn[] = [
+  { title: '', subtitle: null, color: '#22c55e', prompts: [] }
+];
+
+const RetroFrameworkDesigner: React.FC<RetroFrameworkDesignerProps> = ({ projectId, open, framework, startFrom, onSaved, onDeleted, onClose }) => {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [scope, setScope] = useState<'project' | 'organisation'>('project');
+  const [columns, setColumns] = useState<RetroFrameworkColumn[]>(BLANK_COLUMNS);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(framework?.name || '');
+    setDescription(framework?.description || '');
+    setScope(framework?.scope === 'organisation' ? 'organisation' : 'project');
+    setColumns(framework?.columns || startFrom || BLANK_COLUMNS);
+  }, [open, framework, startFrom]);
+
+  const fail = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
+
+  const handleSave = async () => {
+    const cleaned = cleanColumns(columns);
+    if (!name.trim() || cleaned.some(column => !column.title)) {
+      fail(null, 'Give the framework a name and every column a title');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const input = { name: name.trim(), description: description.trim() || null, columns: cleaned };
+      const response = framework
+        ? await apiClient.updateRetroFramework(projectId, framework.key, input)
+        : await apiClient.createRetroFramework(projectId, { ...input, scope });
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to save framework');
+      }
+      toast({
+        title: 'Success',
+        description: `${response.data.name} saved`
+      });
+      onSaved(response.data);
+    } catch (error) {
+      fail(error, 'Failed to save framework');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!framework) return;
+    setSaving(true);
+    try {
+      const response = await apiClient.deleteRetroFramework(projectId, framework.key);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to delete framework');
+      }
+      onDeleted(framework.key);
+    } catch (error) {
+      fail(error, 'Failed to delete framework');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{framework ? `Edit ${framework.name}` : 'Design a framework'}</DialogTitle>
+          <DialogDescription>
+            New retrospectives copy these columns. Boards that already exist keep the columns they have.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="framework-name">Name *</Label>
+              <Input id="framework-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Starfish" />
+            </div>
+            <div>
+              <Label>Available to</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as 'project' | 'organisation')} disabled={!!framework}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="project">This project</SelectItem>
+                  <SelectItem value="organisation">The whole organisation</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="framework-description">Description</Label>
+            <Textarea
+              id="framework-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="When is this format a good fit?"
+              className="min-h-[60px]"
+            />
+          </div>
+          <div>
+            <Label>Columns</Label>
+            <RetroColumnsEditor columns={columns} onChange={setColumns} />
+          </div>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <div>
+            {framework && (
+              <Button variant="outline" className="text-destructive" onClick={handleDelete} disabled={saving}>
+                Delete
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>{saving ? 'Saving...' : 'Save framework'}</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export { RetroFrameworkDesigner };
@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, Timer, Square } from 'lucide-react';
+import type { RetroFacilitation, RetroFacilitationUpdate, RetroPhase, RetroVoting } from '@/services/api';
+
+export const RETRO_PHASES: { id: RetroPhase; label: string; hint: string }[] = [
+  { id: 'write', label: 'Write', hint: 'Add cards. Nobody else can read them yet.' },
+  { id: 'group', label: 'Group', hint: 'Cards are revealed. Drag a card onto another to group them.' },
+  { id: 'vote', label: 'Vote', hint: 'Spend your votes on the topics to discuss.' },
+  { id: 'discuss', label: 'Discuss', hint: 'Talk through the top-voted topics and agree actions.' },
+  { id: 'closed', label: 'Closed', hint: 'The board is read-only.' }
+];
+
+const TIMER_PRESETS = [3, 5, 10];
+
+interface RetrospectiveFacilitationBarProps {
+  facilitation: RetroFacilitation;
+  voting: RetroVoting | null;
+  isFacilitator: boolean;
+  onUpdate: (update: RetroFacilitationUpdate) => void;
+}
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const nextStepLabel = (next: RetroPhase | undefined) => {
+  switch (next) {
+    case 'group': return 'Reveal cards';
+    case 'vote': return 'Start voting';
+    case 'discuss': return 'Start discussion';
+    case 'closed': return 'Close retro';
+    default: return 'Done';
+  }
+};
+
+// Phase, timer and vote budget for a facilitated retrospective; only the facilitator gets the controls
+const RetrospectiveFacilitationBar: React.FC<RetrospectiveFacilitationBarProps> = ({ facilitation, voting, isFacilitator, onUpdate }) => {
+  const [now, setNow] = useState(Date.now());
+  // How far this browser's clock is behind the server's, so everyone's timer agrees
+  const clockOffset = useMemo(() => Date.parse(facilitation.serverTime) - Date.now(), [facilitation.serverTime]);
+  const phaseIndex = RETRO_PHASES.findIndex(phase => phase.id === facilitation.phase);
+  const remainingMs = facilitation.timerEndsAt ? Date.parse(facilitation.timerEndsAt) - (now + clockOffset) : null;
+
+  useEffect(() => {
+    if (!facilitation.timerEndsAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [facilitation.timerEndsAt]);
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 p-4 rounded-lg border bg-muted/20">
+      <div className="space-y-2">
+        <div className="flex items-center gap-1">
+          {RETRO_PHASES.map((phase, index) => (
+            <React.Fragment key={phase.id}>
+              {index > 0 && <div className={`h-px w-4 ${index <= phaseIndex ? 'bg-primary' : 'bg-border'}`} />}
+              <Badge
+                variant={index === phaseIndex ? 'default' : 'outline'}
+                className={index < phaseIndex ? 'border-primary/40 text-primary' : ''}
+              >
+                {phase.label}
+              </Badge>
+            </React.Fragment>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">{RETRO_PHASES[phaseIndex]?.hint}</p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        {facilitation.phase === 'vote' && voting && (
+          <div className="text-sm">
+            <span className="font-semibold">{voting.remaining}</span>
+            <span className="text-muted-foreground"> of {voting.budget} votes left</span>
+          </div>
+        )}
+
+        {remainingMs !== null && (
+          <div className={`flex items-center gap-1 font-mono text-sm font-semibold ${remainingMs <= 30000 ? 'text-destructive' : ''}`}>
+            <Timer className="h-4 w-4" />
+            {remainingMs > 0 ? formatCountdown(remainingMs) : "Time's up"}
+          </div>
+        )}
+
+        {isFacilitator && (
+          <>
+            <div className="flex items-center gap-1">
+              {TIMER_PRESETS.map(minutes => (
+                <Button key={minutes} size="sm" variant="outline" onClick={() => onUpdate({ timerSeconds: minutes * 60 })}>
+                  {minutes}m
+                </Button>
+              ))}
+              {facilitation.timerEndsAt && (
+                <Button size="sm" variant="ghost" onClick={() => onUpdate({ timerSeconds: null })} title="Stop the timer">
+                  <Square className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+
+            <Select
+              value={String(facilitation.voteBudget)}
+              onValueChange={(value) => onUpdate({ voteBudget: Number(value) })}
+            >
+              <SelectTrigger className="w-[120px] h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 10 }, (_, index) => index + 1).map(budget => (
+                  <SelectItem key={budget} value={String(budget)}>
+                    {budget} {budget === 1 ? 'vote' : 'votes'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="flex items-center gap-1">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={phaseIndex <= 0}
+                onClick={() => onUpdate({ phase: RETRO_PHASES[phaseIndex - 1].id })}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                disabled={phaseIndex >= RETRO_PHASES.length - 1}
+                onClick={() => onUpdate({ phase: RETRO_PHASES[phaseIndex + 1].id })}
+              >
+                {nextStepLabel(RETRO_PHASES[phaseIndex + 1]?.id)}
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export { RetrospectiveFacilitationBar };
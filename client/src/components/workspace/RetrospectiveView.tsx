@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useApiAuth } from '@/hooks/useApiAuth';
 import { useToast } from '@/hooks/use-toast';
-import { apiClient } from '@/services/api';
+import { apiClient, type RetroFramework } from '@/services/api';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
@@ -11,12 +11,13 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { SimpleSelect, SimpleSelectItem } from '@/components/ui/simple-select';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Target, Calendar, BarChart3, Trash2, MoreHorizontal, TrendingUp } from 'lucide-react';
+import { Plus, Target, Calendar, BarChart3, Trash2, MoreHorizontal, TrendingUp, Pencil, Copy } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { InteractiveRetrospectiveBoard } from './InteractiveRetrospectiveBoard';
 import { RetrospectiveAnalytics } from './RetrospectiveAnalytics';
 import { EnhancedRetrospectiveAnalytics } from './EnhancedRetrospectiveAnalytics';
+import { RetroFrameworkDesigner } from './RetroFrameworkDesigner';
 
 interface RetrospectiveViewProps {
   projectId: string;
@@ -28,6 +29,7 @@ interface Retrospective {
   iteration_id: string;
   framework: string;
   project_id: string;
+  team_id?: string | null;
   created_by: string;
   status: string;
   created_at?: string;
@@ -90,57 +92,6 @@ interface CardVote {
   created_at: string;
 }
 
-export const FRAMEWORK_TEMPLATES = {
-  classic: {
-    name: "Classic",
-    description: "A structured reflection on what worked, what didn't, and what to change.",
-    columns: [
-      { title: "What went well?", subtitle: "Things that worked successfully" },
-      { title: "What could have been better?", subtitle: "Areas for improvement" },
-      { title: "What will we do differently?", subtitle: "Actions to take next time" }
-    ]
-  },
-  "4ls": {
-    name: "4Ls", 
-    description: "Captures knowledge and improvement areas: liked, learned, lacked, longed for.",
-    columns: [
-      { title: "Liked", subtitle: "What did we like?" },
-      { title: "Learned", subtitle: "What did we learn?" },
-      { title: "Lacked", subtitle: "What was missing or lacking?" },
-      { title: "Longed For", subtitle: "What did we long for?" }
-    ]
-  },
-  kiss: {
-    name: "KISS",
-    description: "Keep, Improve, Start, Stop — a straightforward way to analyze team practices.",
-    columns: [
-      { title: "Keep", subtitle: "What should we continue doing?" },
-      { title: "Improve", subtitle: "What could be improved?" },
-      { title: "Start", subtitle: "What should we try next?" },
-      { title: "Stop", subtitle: "What should we avoid?" }
-    ]
-  },
-  sailboat: {
-    name: "Sailboat",
-    description: "Visualizes team journey with metaphorical elements: wind, anchors, rocks, and island.",
-    columns: [
-      { title: "Wind", subtitle: "Things pushing the team forward" },
-      { title: "Anchor", subtitle: "Things holding the team back" },
-      { title: "Rocks", subtitle: "Risks or obstacles ahead" },
-      { title: "Island", subtitle: "Goals or desired state" }
-    ]
-  },
-  mad_sad_glad: {
-    name: "Mad / Sad / Glad",
-    description: "Focuses on emotional reflections of the sprint.",
-    columns: [
-      { title: "Mad", subtitle: "What frustrated us?" },
-      { title: "Sad", subtitle: "What disappointed us?" },
-      { title: "Glad", subtitle: "What made us happy?" }
-    ]
-  }
-};
-
 // Card colors that cycle through 7 colors
 const CARD_COLORS = [
   'bg-red-100 border-red-200 text-red-900',
@@ -163,6 +114,8 @@ export function RetrospectiveView({ projectId }: RetrospectiveViewProps) {
   const [retrospectives, setRetrospectives] = useState<Retrospective[]>([]);
   const [selectedRetrospective, setSelectedRetrospective] = useState<Retrospective | null>(null);
   const [stakeholders, setStakeholders] = useState<Stakeholder[]>([]);
+  const [frameworks, setFrameworks] = useState<RetroFramework[]>([]);
+  const [teams, setTeams] = useState<{ id: string; name: string }[]>([]);
   
   const [loading, setLoading] = useState(true);
   const [view, setView] = useState<'list' | 'board' | 'analytics' | 'enhanced-analytics'>('list');
@@ -172,16 +125,25 @@ export function RetrospectiveView({ projectId }: RetrospectiveViewProps) {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [retrospectiveToDelete, setRetrospectiveToDelete] = useState<Retrospective | null>(null);
 
+  // Framework designer: the framework being edited, or a set of columns to start a new one from
+  const [designer, setDesigner] = useState<{ framework: RetroFramework | null; startFrom?: RetroFramework['columns'] } | null>(null);
+
   // Form states
   const [createForm, setCreateForm] = useState({
     iteration_name: '',
-    framework: 'classic'
+    framework: 'classic',
+    team_id: ''
   });
 
+  const selectedFramework = frameworks.find(framework => framework.key === createForm.framework);
+  const frameworkName = (key: string) => frameworks.find(framework => framework.key === key)?.name || 'Custom';
+
   useEffect(() => {
     if (user) {
       fetchRetrospectives();
       fetchStakeholders();
+      fetchFrameworks();
+      fetchTeams();
     }
   }, [user, projectId]);
 
@@ -207,6 +169,40 @@ export function RetrospectiveView({ projectId }: RetrospectiveViewProps) {
     }
   };
 
+  const fetchFrameworks = async () => {
+    try {
+      const response = await apiClient.getRetroFrameworks(projectId);
+      if (response.success && response.data) {
+        setFrameworks(response.data);
+      }
+    } catch (error) {
+      console.error('Error fetching frameworks:', error);
+    }
+  };
+
+  const fetchTeams = async () => {
+    try {
+      const response = await apiClient.getTeams(projectId);
+      if (response.success) {
+        setTeams(Array.isArray(response.data) ? response.data : []);
+      }
+    } catch (error) {
+      console.error('Error fetching teams:', error);
+    }
+  };
+
+  const handleFrameworkSaved = (framework: RetroFramework) => {
+    setDesigner(null);
+    setCreateForm(prev => ({ ...prev, framework: framework.key }));
+    fetchFrameworks();
+  };
+
+  const handleFrameworkDeleted = () => {
+    setDesigner(null);
+    setCreateForm(prev => ({ ...prev, framework: 'classic' }));
+    fetchFrameworks();
+  };
+
   const fetchStakeholders = async () => {
     try {
       const response = await apiClient.getStakeholders(projectId);
@@ -236,7 +232,8 @@ export function RetrospectiveView({ projectId }: RetrospectiveViewProps) {
     try {
       const response = await apiClient.createRetrospective(projectId, {
         framework: createForm.framework,
-        iterationName: createForm.iteration_name
+        iterationName: createForm.iteration_name,
+        teamId: createForm.team_id || null
       });
 
       if (response.success) {
@@ -246,7 +243,7 @@ export function RetrospectiveView({ projectId }: RetrospectiveViewProps) {
         });
 
                         setShowCreateDialog(false);
-                        setCreateForm({ iteration_name: '', framework: 'classic' });
+                        setCreateForm({ iteration_name: '', framework: 'classic', team_id: '' });
                         fetchRetrospectives();
       } else {
         throw new Error(response.error || 'Failed to create retrospective');
@@ -305,6 +302,7 @@ export function RetrospectiveView({ projectId }: RetrospectiveViewProps) {
     return (
       <InteractiveRetrospectiveBoard
         retrospective={selectedRetrospective}
+        frameworkName={frameworkName(selectedRetrospective.framework)}
         onBack={() => {
           setView('list');
           setSelectedRetrospective(null);
@@ -368,6 +366,25 @@ export function RetrospectiveView({ projectId }: RetrospectiveViewProps) {
                     required
                   />
                 </div>
+                {teams.length > 0 && (
+                  <div>
+                    <Label htmlFor="team">Team</Label>
+                    <SimpleSelect
+                      value={createForm.team_id}
+                      onValueChange={(value) => setCreateForm(prev => ({ ...prev, team_id: value }))}
+                      placeholder="Whole project"
+                    >
+                      {teams.map((team) => (
+                        <SimpleSelectItem key={team.id} value={team.id}>
+                          {team.name}
+                        </SimpleSelectItem>
+                      ))}
+                    </SimpleSelect>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Open actions from this team's previous retro are brought up on the new board.
+                    </p>
+                  </div>
+                )}
                 <div>
                   <Label htmlFor="framework">Framework</Label>
                   <SimpleSelect
@@ -375,16 +392,60 @@ export function RetrospectiveView({ projectId }: RetrospectiveViewProps) {
                     onValueChange={(value) => setCreateForm(prev => ({ ...prev, framework: value }))}
                     placeholder="Select framework"
                   >
-                    {Object.entries(FRAMEWORK_TEMPLATES).map(([key, template]) => (
-                      <SimpleSelectItem key={key} value={key} className="text-xs">
+                    {frameworks.map((framework) => (
+                      <SimpleSelectItem key={framework.key} value={framework.key} className="text-xs">
                         <div className="flex flex-col">
-                          <span className="font-medium">{template.name}</span>
-                          <span className="text-muted-foreground text-xs">{template.description}</span>
+                          <span className="font-medium">
+                            {framework.name}
+                            {framework.scope !== 'built_in' && (
+                              <span className="ml-2 text-muted-foreground font-normal">
+                                {framework.scope === 'project' ? 'This project' : 'Organisation'}
+                              </span>
+                            )}
+                          </span>
+                          <span className="text-muted-foreground text-xs">{framework.description}</span>
                         </div>
                       </SimpleSelectItem>
                     ))}
                   </SimpleSelect>
                 </div>
+                {selectedFramework && (
+                  <div className="rounded-lg border p-3 space-y-3">
+                    <div className="flex flex-wrap gap-2">
+                      {selectedFramework.columns.map((column, index) => (
+                        <div
+                          key={index}
+                          className="flex-1 min-w-[120px] rounded-md bg-muted/30 p-2"
+                          style={{ borderTop: `3px solid ${column.color || 'hsl(var(--border))'}` }}
+                        >
+                          <div className="text-sm font-medium">{column.title}</div>
+                          {column.subtitle && <div className="text-xs text-muted-foreground">{column.subtitle}</div>}
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDesigner({ framework: null, startFrom: selectedFramework.columns })}
+                      >
+                        <Copy className="h-4 w-4 mr-1" />
+                        Copy as new
+                      </Button>
+                      {selectedFramework.editable && (
+                        <Button type="button" variant="ghost" size="sm" onClick={() => setDesigner({ framework: selectedFramework })}>
+                          <Pencil className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                      )}
+                      <Button type="button" variant="outline" size="sm" onClick={() => setDesigner({ framework: null })}>
+                        <Plus className="h-4 w-4 mr-1" />
+                        New framework
+                      </Button>
+                    </div>
+                  </div>
+                )}
                 <div className="flex justify-end gap-2 pt-4">
                   <Button type="button" variant="outline" onClick={() => setShowCreateDialog(false)}>
                     Cancel
@@ -392,6 +453,16 @@ export function RetrospectiveView({ projectId }: RetrospectiveViewProps) {
                   <Button type="submit">Create</Button>
                 </div>
               </form>
+              {/* Nested so it stacks above the create dialog */}
+              <RetroFrameworkDesigner
+                projectId={projectId}
+                open={!!designer}
+                framework={designer?.framework || null}
+                startFrom={designer?.startFrom}
+                onSaved={handleFrameworkSaved}
+                onDeleted={handleFrameworkDeleted}
+                onClose={() => setDesigner(null)}
+              />
             </DialogContent>
           </Dialog>
         </div>
@@ -403,13 +474,16 @@ export function RetrospectiveView({ projectId }: RetrospectiveViewProps) {
             <Card key={retro.id} className="p-6 hover:shadow-md transition-shadow cursor-pointer">
               <div className="flex items-center justify-between mb-4">
                 <div>
-                  <h3 className="text-lg font-semibold">{FRAMEWORK_TEMPLATES[retro.framework]?.name || retro.framework} Retrospective</h3>
-                  <p className="text-sm text-muted-foreground mt-1">{FRAMEWORK_TEMPLATES[retro.framework]?.description}</p>
+                  <h3 className="text-lg font-semibold">{frameworkName(retro.framework)} Retrospective</h3>
+                  <p className="text-sm text-muted-foreground mt-1">{frameworks.find(framework => framework.key === retro.framework)?.description}</p>
                   <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
                     <span className="flex items-center gap-1">
                       <Calendar className="h-4 w-4" />
                       {retro.iteration_id || 'No iteration specified'}
                     </span>
+                    {retro.team_id && teams.some(team => team.id === retro.team_id) && (
+                      <span>{teams.find(team => team.id === retro.team_id)!.name}</span>
+                    )}
                     <span>Created {new Date(retro.created_at || '').toLocaleDateString()}</span>
                   </div>
                 </div>
@@ -442,7 +516,7 @@ export function RetrospectiveView({ projectId }: RetrospectiveViewProps) {
                 </div>
               </div>
               <p className="text-muted-foreground">
-                Interactive {retro.framework} retrospective board with voting and action items.
+                Interactive {frameworkName(retro.framework)} retrospective board with voting and action items.
               </p>
             </Card>
           ))}
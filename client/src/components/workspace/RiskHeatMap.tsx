@@ -0,0 +1,115 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+export type HeatMapKind = 'inherent' | 'residual';
+
+export interface HeatMapCell {
+  kind: HeatMapKind;
+  likelihood: number;
+  impact: number;
+}
+
+interface HeatMapRisk {
+  id: string;
+  risk_code: string;
+  title: string;
+  status?: string;
+  likelihood?: number;
+  impact?: number;
+  residual_likelihood?: number;
+  residual_impact?: number;
+}
+
+interface RiskHeatMapProps {
+  risks: HeatMapRisk[];
+  selected: HeatMapCell | null;
+  onSelect: (cell: HeatMapCell | null) => void;
+}
+
+const SCALE = [1, 2, 3, 4, 5];
+
+// Same bands as the score badges: low up to 5, medium up to 12, high up to 20, then critical
+const cellColor = (score: number) => {
+  if (score <= 5) return 'bg-green-500/20';
+  if (score <= 12) return 'bg-yellow-500/25';
+  if (score <= 20) return 'bg-orange-500/30';
+  return 'bg-red-500/35';
+};
+
+export const ratingsFor = (risk: HeatMapRisk, kind: HeatMapKind): [number | undefined, number | undefined] =>
+  kind === 'inherent' ? [risk.likelihood, risk.impact] : [risk.residual_likelihood, risk.residual_impact];
+
+export const inCell = (risk: HeatMapRisk, cell: HeatMapCell) => {
+  const [likelihood, impact] = ratingsFor(risk, cell.kind);
+  return likelihood === cell.likelihood && impact === cell.impact;
+};
+
+const Grid: React.FC<{ kind: HeatMapKind; risks: HeatMapRisk[]; selected: HeatMapCell | null; onSelect: (cell: HeatMapCell | null) => void }> = ({ kind, risks, selected, onSelect }) => {
+  const assessed = risks.filter(risk => ratingsFor(risk, kind).every(Boolean));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline justify-between">
+        <p className="text-sm font-medium">{kind === 'inherent' ? 'Inherent' : 'Residual'}</p>
+        <p className="text-xs text-muted-foreground">{assessed.length} assessed</p>
+      </div>
+      <div className="flex gap-2">
+        <div className="flex items-center">
+          <span className="text-xs text-muted-foreground [writing-mode:vertical-rl] rotate-180">Likelihood</span>
+        </div>
+        <div className="flex-1">
+          <div className="grid grid-cols-[auto_repeat(5,minmax(0,1fr))] gap-1">
+            {[...SCALE].reverse().map(likelihood => (
+              <React.Fragment key={likelihood}>
+                <div className="flex items-center justify-end pr-1 text-xs text-muted-foreground">{likelihood}</div>
+                {SCALE.map(impact => {
+                  const cell = { kind, likelihood, impact };
+                  const here = assessed.filter(risk => inCell(risk, cell));
+                  const isSelected = selected?.kind === kind && selected.likelihood === likelihood && selected.impact === impact;
+                  return (
+                    <button
+                      key={impact}
+                      type="button"
+                      title={here.length > 0 ? here.map(risk => `${risk.risk_code} ${risk.title}`).join('\n') : `Likelihood ${likelihood} × impact ${impact}`}
+                      onClick={() => onSelect(isSelected || here.length === 0 ? null : cell)}
+                      className={`h-10 rounded text-sm font-semibold transition-shadow ${cellColor(likelihood * impact)} ${isSelected ? 'ring-2 ring-primary' : ''} ${here.length === 0 ? 'cursor-default text-transparent' : 'hover:ring-1 hover:ring-primary'}`}
+                    >
+                      {here.length || ''}
+                    </button>
+                  );
+                })}
+              </React.Fragment>
+            ))}
+            <div />
+            {SCALE.map(impact => (
+              <div key={impact} className="text-center text-xs text-muted-foreground">{impact}</div>
+            ))}
+          </div>
+          <p className="mt-1 text-center text-xs text-muted-foreground">Impact</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Where open risks sit on the 5×5 likelihood/impact matrix before and after mitigation.
+// Clicking a cell filters the register to the risks in it.
+const RiskHeatMap: React.FC<RiskHeatMapProps> = ({ risks, selected, onSelect }) => {
+  const open = risks.filter(risk => (risk.status || '').toLowerCase() !== 'closed');
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Heat map</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-6 md:grid-cols-2">
+          <Grid kind="inherent" risks={open} selected={selected} onSelect={onSelect} />
+          <Grid kind="residual" risks={open} selected={selected} onSelect={onSelect} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export { RiskHeatMap };
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiClient, type RiskScoreHistoryEntry } from '@/services/api';
+
+interface RiskHistoryDialogProps {
+  projectId: string;
+  // The risk whose history is shown; the dialog is closed while this is null
+  risk: { id: string; risk_code: string; title: string } | null;
+  onClose: () => void;
+}
+
+const rating = (likelihood: number | null, impact: number | null, score: number | null) =>
+  score ? `${score} (${likelihood}×${impact})` : '—';
+
+const change = (current: number | null, previous: number | null | undefined) => {
+  if (previous === undefined || current === previous || !current || !previous) return null;
+  const delta = current - previous;
+  return (
+    <span className={`ml-1 text-xs ${delta > 0 ? 'text-red-600' : 'text-green-600'}`}>
+      {delta > 0 ? `+${delta}` : delta}
+    </span>
+  );
+};
+
+const RiskHistoryDialog: React.FC<RiskHistoryDialogProps> = ({ projectId, risk, onClose }) => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<RiskScoreHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!risk) return;
+    let cancelled = false;
+    setLoading(true);
+    apiClient.getRiskHistory(projectId, risk.id)
+      .then(response => {
+        if (!response.success) {
+          throw new Error(response.error || 'Failed to load risk history');
+        }
+        if (!cancelled) setEntries(response.data || []);
+      })
+      .catch(error => {
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load risk history',
+          variant: 'destructive'
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, risk?.id]);
+
+  // Newest first, each compared with the assessment before it
+  const rows = entries.map((entry, index) => ({ entry, previous: entries[index - 1] })).reverse();
+
+  return (
+    <Dialog open={!!risk} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{risk ? `${risk.risk_code} score history` : 'Score history'}</DialogTitle>
+          <DialogDescription>{risk?.title}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No changes recorded yet. The history starts with the next change to this risk's scores or status.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Inherent</TableHead>
+                <TableHead>Residual</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ entry, previous }) => (
+                <TableRow key={entry.id}>
+                  <TableCell>{new Date(entry.changed_at).toLocaleString()}</TableCell>
+                  <TableCell>
+                    {rating(entry.likelihood, entry.impact, entry.risk_score)}
+                    {change(entry.risk_score, previous?.risk_score)}
+                  </TableCell>
+                  <TableCell>
+                    {rating(entry.residual_likelihood, entry.residual_impact, entry.residual_risk_score)}
+                    {change(entry.residual_risk_score, previous?.residual_risk_score)}
+                  </TableCell>
+                  <TableCell>{entry.status || '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export { RiskHistoryDialog };
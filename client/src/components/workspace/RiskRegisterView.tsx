@@ -8,10 +8,12 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Plus, AlertTriangle, Clock, User, Trash2, Edit } from 'lucide-react';
+import { Plus, AlertTriangle, Clock, User, Trash2, Edit, History, X } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { useApiAuth } from '@/hooks/useApiAuth';
 import { apiClient } from '@/services/api';
+import { RiskHeatMap, inCell, type HeatMapCell } from './RiskHeatMap';
+import { RiskHistoryDialog } from './RiskHistoryDialog';
 
 interface Risk {
   id: string;
@@ -36,6 +38,7 @@ interface Risk {
   residual_impact?: number;
   residual_risk_score?: number;
   notes?: string;
+  review_flagged_at?: string | null;
   created_at: string;
 }
 
@@ -63,6 +66,9 @@ const categories = ["Schedule", "Financial", "Technical", "Resource", "Quality",
 const strategies = ["Avoid", "Mitigate", "Transfer", "Accept"];
 const statuses = ["Open", "In Progress", "Closed", "Monitoring"];
 
+const isReviewOverdue = (risk: Risk) =>
+  !!risk.review_flagged_at || (!!risk.next_review_date && risk.status !== 'Closed' && risk.next_review_date < new Date().toISOString().split('T')[0]);
+
 export function RiskRegisterView({ projectId }: RiskRegisterViewProps) {
   const [risks, setRisks] = useState<Risk[]>([]);
   const [loading, setLoading] = useState(true);
@@ -70,6 +76,8 @@ export function RiskRegisterView({ projectId }: RiskRegisterViewProps) {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingRisk, setEditingRisk] = useState<Risk | null>(null);
+  const [historyRisk, setHistoryRisk] = useState<Risk | null>(null);
+  const [heatMapCell, setHeatMapCell] = useState<HeatMapCell | null>(null);
   const { user } = useApiAuth();
 
   const [newRisk, setNewRisk] = useState({
@@ -381,11 +389,13 @@ export function RiskRegisterView({ projectId }: RiskRegisterViewProps) {
   }
 
   const filteredRisks = risks.filter(risk =>
-    risk.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (risk.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
     risk.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     risk.category?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    risk.owner?.toLowerCase().includes(searchTerm.toLowerCase())
+    risk.owner?.toLowerCase().includes(searchTerm.toLowerCase())) &&
+    (!heatMapCell || inCell(risk, heatMapCell))
   );
+  const overdueCount = risks.filter(isReviewOverdue).length;
 
   return (
     <div className="space-y-6 p-6">
@@ -501,6 +511,34 @@ export function RiskRegisterView({ projectId }: RiskRegisterViewProps) {
                 </Select>
               </div>
 
+              <div className="col-span-1 space-y-2">
+                <Label htmlFor="residual_likelihood">Residual Likelihood (after mitigation)</Label>
+                <Select value={newRisk.residual_likelihood} onValueChange={(value) => setNewRisk({ ...newRisk, residual_likelihood: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select likelihood" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(likelihoodScale).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{value} - {label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="col-span-1 space-y-2">
+                <Label htmlFor="residual_impact">Residual Impact (after mitigation)</Label>
+                <Select value={newRisk.residual_impact} onValueChange={(value) => setNewRisk({ ...newRisk, residual_impact: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select impact" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(impactScale).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{value} - {label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="col-span-1 space-y-2">
                 <Label htmlFor="owner">Owner</Label>
                 <Input
@@ -688,6 +726,34 @@ export function RiskRegisterView({ projectId }: RiskRegisterViewProps) {
                 </Select>
               </div>
 
+              <div className="col-span-1 space-y-2">
+                <Label htmlFor="edit_residual_likelihood">Residual Likelihood (after mitigation)</Label>
+                <Select value={newRisk.residual_likelihood} onValueChange={(value) => setNewRisk({ ...newRisk, residual_likelihood: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select likelihood" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(likelihoodScale).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{value} - {label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="col-span-1 space-y-2">
+                <Label htmlFor="edit_residual_impact">Residual Impact (after mitigation)</Label>
+                <Select value={newRisk.residual_impact} onValueChange={(value) => setNewRisk({ ...newRisk, residual_impact: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select impact" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(impactScale).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{value} - {label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="col-span-1 space-y-2">
                 <Label htmlFor="edit_owner">Owner</Label>
                 <Input
@@ -777,14 +843,32 @@ export function RiskRegisterView({ projectId }: RiskRegisterViewProps) {
         </Dialog>
       </div>
 
+      {risks.length > 0 && (
+        <RiskHeatMap risks={risks} selected={heatMapCell} onSelect={setHeatMapCell} />
+      )}
+
       {/* Search */}
-      <div className="flex items-center gap-4">
+      <div className="flex flex-wrap items-center gap-4">
         <Input
           placeholder="Search risks..."
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
           className="max-w-sm"
         />
+        {heatMapCell && (
+          <Badge variant="secondary" className="gap-1">
+            {heatMapCell.kind === 'inherent' ? 'Inherent' : 'Residual'} likelihood {heatMapCell.likelihood} × impact {heatMapCell.impact}
+            <button type="button" onClick={() => setHeatMapCell(null)} aria-label="Clear heat map filter">
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        )}
+        {overdueCount > 0 && (
+          <span className="flex items-center gap-1 text-sm text-amber-600">
+            <Clock className="h-4 w-4" />
+            {overdueCount} {overdueCount === 1 ? 'review' : 'reviews'} overdue
+          </span>
+        )}
       </div>
 
       {filteredRisks.length === 0 ? (
@@ -792,15 +876,15 @@ export function RiskRegisterView({ projectId }: RiskRegisterViewProps) {
           <CardContent className="flex flex-col items-center justify-center py-16">
             <AlertTriangle className="h-12 w-12 text-muted-foreground mb-4" />
             <p className="text-xl font-semibold mb-2">
-              {searchTerm ? 'No risks found' : 'No Risks Identified'}
+              {searchTerm || heatMapCell ? 'No risks found' : 'No Risks Identified'}
             </p>
             <p className="text-muted-foreground text-center mb-4">
-              {searchTerm 
+              {searchTerm || heatMapCell
                 ? 'Try adjusting your search criteria'
                 : 'Start building your risk register by adding potential project risks.'
               }
             </p>
-            {!searchTerm && (
+            {!searchTerm && !heatMapCell && (
               <Button onClick={() => setIsAddDialogOpen(true)}>
                 <Plus className="h-4 w-4 mr-2" />
                 Add First Risk
@@ -829,6 +913,15 @@ export function RiskRegisterView({ projectId }: RiskRegisterViewProps) {
                                      risk.status === 'Closed' ? 'default' : 'secondary'}>
                         {risk.status}
                       </Badge>
+                      {risk.residual_risk_score && (
+                        <Badge variant="outline">Residual {risk.residual_risk_score}</Badge>
+                      )}
+                      {isReviewOverdue(risk) && (
+                        <Badge variant="outline" className="border-amber-500 text-amber-600">
+                          <Clock className="h-3 w-3 mr-1" />
+                          Review overdue
+                        </Badge>
+                      )}
                     </div>
                     <CardTitle className="text-lg">{risk.title}</CardTitle>
                     {risk.description && (
@@ -836,6 +929,14 @@ export function RiskRegisterView({ projectId }: RiskRegisterViewProps) {
                     )}
                   </div>
                   <div className="flex gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setHistoryRisk(risk)}
+                      title="Score history"
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
                     <Button 
                       variant="ghost" 
                       size="sm"
@@ -899,6 +1000,16 @@ export function RiskRegisterView({ projectId }: RiskRegisterViewProps) {
                       </p>
                     </div>
                   )}
+                  {(risk.residual_likelihood || risk.residual_impact) && (
+                    <div>
+                      <p className="font-medium text-muted-foreground">Residual Assessment</p>
+                      <p>
+                        {risk.residual_likelihood && `Likelihood: ${risk.residual_likelihood} (${likelihoodScale[risk.residual_likelihood as keyof typeof likelihoodScale]})`}
+                        {risk.residual_likelihood && risk.residual_impact && <br />}
+                        {risk.residual_impact && `Impact: ${risk.residual_impact} (${impactScale[risk.residual_impact as keyof typeof impactScale]})`}
+                      </p>
+                    </div>
+                  )}
                   {risk.owner && (
                     <div>
                       <p className="font-medium text-muted-foreground">Owner</p>
@@ -917,7 +1028,7 @@ export function RiskRegisterView({ projectId }: RiskRegisterViewProps) {
                   {risk.next_review_date && (
                     <div>
                       <p className="font-medium text-muted-foreground">Next Review</p>
-                      <div className="flex items-center gap-1">
+                      <div className={`flex items-center gap-1 ${isReviewOverdue(risk) ? 'text-amber-600' : ''}`}>
                         <Clock className="h-3 w-3" />
                         <span>{new Date(risk.next_review_date).toLocaleDateString()}</span>
                       </div>
@@ -954,6 +1065,8 @@ export function RiskRegisterView({ projectId }: RiskRegisterViewProps) {
           ))}
         </div>
       )}
+
+      <RiskHistoryDialog projectId={projectId} risk={historyRisk} onClose={() => setHistoryRisk(null)} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,272 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, ArrowLeft, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { SimpleSelect, SimpleSelectItem } from '@/components/ui/simple-select';
+import { apiClient, type SprintPlan, type SprintBacklogItem } from '@/services/api';
+import { useToast } from '@/hooks/use-toast';
+
+interface SprintPlanningBoardProps {
+  projectId: string;
+  backlogItems: SprintBacklogItem[];
+  onPlanChanged: () => void;
+}
+
+interface IterationOption {
+  id: string;
+  iteration_name: string;
+  start_date: string;
+  end_date: string;
+  team_id: string | null;
+}
+
+const CAPACITY_SOURCES: Record<SprintPlan['capacity']['source'], string> = {
+  weekly_availability: 'from weekly availability',
+  team_defaults: 'assuming full availability',
+  capacity_members: 'from member capacity',
+  none: 'no availability recorded'
+};
+
+export function SprintPlanningBoard({ projectId, backlogItems, onPlanChanged }: SprintPlanningBoardProps) {
+  const { toast } = useToast();
+  const [iterations, setIterations] = useState<IterationOption[]>([]);
+  const [teams, setTeams] = useState<{ id: string; name: string }[]>([]);
+  const [iterationId, setIterationId] = useState('');
+  const [teamId, setTeamId] = useState('');
+  const [plan, setPlan] = useState<SprintPlan | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    apiClient.getIterations(projectId).then(response => {
+      if (response.success && response.data) setIterations(response.data);
+    });
+    apiClient.getTeams(projectId).then(response => {
+      if (response.success && Array.isArray(response.data)) setTeams(response.data);
+    });
+  }, [projectId]);
+
+  useEffect(() => {
+    setSelected(new Set());
+    setPlan(null);
+    if (iterationId) fetchPlan();
+  }, [iterationId]);
+
+  const fetchPlan = async () => {
+    try {
+      const response = await apiClient.getSprintPlan(projectId, iterationId);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to load sprint plan');
+      }
+      setPlan(response.data || null);
+    } catch (error: any) {
+      console.error('Error fetching sprint plan:', error);
+    }
+  };
+
+  const applyPlan = (next: SprintPlan) => {
+    setPlan(next);
+    setSelected(new Set());
+    onPlanChanged();
+    if (next.overcommitted) {
+      toast({
+        title: 'Sprint overcommitted',
+        description: next.warning || 'Committed points exceed the team\'s capacity',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handlePlan = async () => {
+    if (!iterationId || selected.size === 0) return;
+
+    setSaving(true);
+    try {
+      const response = await apiClient.planBacklogItems(projectId, iterationId, Array.from(selected), teamId || undefined);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to plan backlog items');
+      }
+      applyPlan(response.data);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to plan backlog items',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnplan = async (itemId: string) => {
+    try {
+      const response = await apiClient.unplanBacklogItem(projectId, iterationId, itemId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to remove item from the sprint');
+      }
+      applyPlan(response.data);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to remove item from the sprint',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const toggleSelected = (itemId: string) => {
+    const next = new Set(selected);
+    if (next.has(itemId)) {
+      next.delete(itemId);
+    } else {
+      next.add(itemId);
+    }
+    setSelected(next);
+  };
+
+  // Open items outside this iteration; items planned elsewhere can be pulled across
+  const candidates = backlogItems.filter(item => item.status !== 'done' && item.iteration_id !== iterationId);
+  const selectedPoints = candidates
+    .filter(item => selected.has(item.id))
+    .reduce((total, item) => total + (item.story_points || 0), 0);
+  const iterationName = (id: string | null) => iterations.find(i => i.id === id)?.iteration_name;
+  const needsTeam = plan !== null && !plan.iteration.team_id;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Iteration</Label>
+          <SimpleSelect
+            value={iterationId}
+            onValueChange={setIterationId}
+            placeholder={iterations.length > 0 ? 'Select an iteration' : 'Create an iteration in Team Capacity first'}
+          >
+            {iterations.map(iteration => (
+              <SimpleSelectItem key={iteration.id} value={iteration.id}>
+                {iteration.iteration_name} ({iteration.start_date} – {iteration.end_date})
+              </SimpleSelectItem>
+            ))}
+          </SimpleSelect>
+        </div>
+        <div>
+          <Label>Team</Label>
+          {plan && plan.team ? (
+            <p className="text-sm py-2">{plan.team.name}</p>
+          ) : (
+            <SimpleSelect
+              value={teamId}
+              onValueChange={setTeamId}
+              placeholder={needsTeam ? 'Select the team for this iteration' : 'Select an iteration first'}
+            >
+              {teams.map(team => (
+                <SimpleSelectItem key={team.id} value={team.id}>{team.name}</SimpleSelectItem>
+              ))}
+            </SimpleSelect>
+          )}
+        </div>
+      </div>
+
+      {plan && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center justify-between">
+              <span>Committed {plan.committedPoints} of {plan.capacity.points} points</span>
+              {plan.loadPercent !== null && (
+                <Badge variant={plan.overcommitted ? 'destructive' : 'secondary'}>{plan.loadPercent}% loaded</Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Progress value={Math.min(100, plan.loadPercent ?? 0)} />
+            <p className="text-xs text-muted-foreground">
+              {plan.capacity.days} effective days at {Number(plan.iteration.points_per_day)} points per day, {CAPACITY_SOURCES[plan.capacity.source]}
+            </p>
+            {plan.warning && (
+              <Alert variant={plan.overcommitted ? 'destructive' : 'default'}>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{plan.warning}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              {plan.items.map(item => (
+                <div key={item.id} className="flex items-center justify-between rounded border p-2">
+                  <span className="text-sm">{item.title}</span>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{item.story_points ?? '?'} pts</Badge>
+                    <Button variant="ghost" size="sm" onClick={() => handleUnplan(item.id)} title="Return to backlog">
+                      <ArrowLeft className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {plan.tasks.map(task => (
+                <div key={task.id} className="flex items-center justify-between rounded border border-dashed p-2">
+                  <span className="text-sm">{task.title}</span>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">{task.status}</Badge>
+                    <Badge variant="outline">{task.story_points ?? 0} pts</Badge>
+                  </div>
+                </div>
+              ))}
+              {plan.items.length === 0 && plan.tasks.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nothing planned yet. Pick estimated items from the backlog below.</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {plan && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center justify-between">
+              <span>Backlog</span>
+              <Button
+                size="sm"
+                onClick={handlePlan}
+                disabled={saving || selected.size === 0 || (needsTeam && !teamId)}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                {saving ? 'Planning...' : `Add ${selected.size} to sprint (${selectedPoints} pts)`}
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {selectedPoints > plan.remainingPoints && plan.capacity.source !== 'none' && (
+              <p className="text-sm text-destructive">
+                Adding these items would overcommit the sprint by {selectedPoints - Math.max(plan.remainingPoints, 0)} points.
+              </p>
+            )}
+            {candidates.map(item => {
+              const estimated = item.story_points !== null;
+              return (
+                <div key={item.id} className="flex items-center gap-3 rounded border p-2">
+                  <Checkbox
+                    checked={selected.has(item.id)}
+                    onCheckedChange={() => toggleSelected(item.id)}
+                    disabled={!estimated}
+                  />
+                  <span className={`text-sm flex-1 ${estimated ? '' : 'text-muted-foreground'}`}>{item.title}</span>
+                  {item.iteration_id && (
+                    <Badge variant="secondary">In {iterationName(item.iteration_id) || 'another iteration'}</Badge>
+                  )}
+                  <Badge variant="outline">{estimated ? `${item.story_points} pts` : 'Needs estimate'}</Badge>
+                </div>
+              );
+            })}
+            {candidates.length === 0 && (
+              <p className="text-sm text-muted-foreground">Every open backlog item is already in this sprint.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
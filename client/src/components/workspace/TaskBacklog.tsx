@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Edit2, Trash2, ArrowRight, Calendar, User, Download, Upload, CheckSquare, Square } from 'lucide-react';
+import { Plus, Edit2, Trash2, ArrowRight, Calendar, User, Download, Upload, CheckSquare, Square, Gauge, List } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -12,6 +12,7 @@ import { SimpleSelect, SimpleSelectItem } from '@/components/ui/simple-select';
 import { apiClient } from '@/services/api';
 import { useApiAuth } from '@/hooks/useApiAuth';
 import { useToast } from '@/hooks/use-toast';
+import { SprintPlanningBoard } from './SprintPlanningBoard';
 
 interface TaskBacklogProps {
   projectId: string;
@@ -27,6 +28,8 @@ interface BacklogItem {
   target_date: string;
   source_type: string;
   source_id: string;
+  story_points: number | null;
+  iteration_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -67,13 +70,15 @@ export function TaskBacklog({ projectId }: TaskBacklogProps) {
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState<any[]>([]);
+  const [planningMode, setPlanningMode] = useState(false);
   
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     priority: 'medium',
     owner_id: '',
-    target_date: ''
+    target_date: '',
+    story_points: ''
   });
 
   const [selectedMilestone, setSelectedMilestone] = useState('');
@@ -132,7 +137,8 @@ export function TaskBacklog({ projectId }: TaskBacklogProps) {
         priority: formData.priority,
         ownerId: formData.owner_id || undefined,
         targetDate: formData.target_date || undefined,
-        sourceType: 'manual'
+        sourceType: 'manual',
+        storyPoints: formData.story_points ? parseInt(formData.story_points) : undefined
       });
 
       if (!response.success) {
@@ -165,7 +171,8 @@ export function TaskBacklog({ projectId }: TaskBacklogProps) {
         description: formData.description || undefined,
         priority: formData.priority,
         ownerId: formData.owner_id || undefined,
-        targetDate: formData.target_date || undefined
+        targetDate: formData.target_date || undefined,
+        storyPoints: formData.story_points ? parseInt(formData.story_points) : null
       });
 
       if (!response.success) {
@@ -247,7 +254,8 @@ export function TaskBacklog({ projectId }: TaskBacklogProps) {
       description: '',
       priority: 'medium',
       owner_id: '',
-      target_date: ''
+      target_date: '',
+      story_points: ''
     });
     setShowAddDialog(false);
   };
@@ -259,7 +267,8 @@ export function TaskBacklog({ projectId }: TaskBacklogProps) {
       description: item.description || '',
       priority: item.priority,
       owner_id: item.owner_id || '',
-      target_date: item.target_date || ''
+      target_date: item.target_date || '',
+      story_points: item.story_points !== null ? String(item.story_points) : ''
     });
     setShowEditDialog(true);
   };
@@ -432,6 +441,15 @@ export function TaskBacklog({ projectId }: TaskBacklogProps) {
           <p className="text-muted-foreground">Manage your project backlog and move items to milestones</p>
         </div>
         <div className="flex items-center gap-2">
+          <Button
+            variant={planningMode ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setPlanningMode(!planningMode)}
+            data-testid="button-sprint-planning"
+          >
+            {planningMode ? <List className="h-4 w-4 mr-1" /> : <Gauge className="h-4 w-4 mr-1" />}
+            {planningMode ? 'Backlog View' : 'Sprint Planning'}
+          </Button>
           {/* Sync Operations */}
           <div className="flex items-center gap-1 mr-2">
             <Button
@@ -519,14 +537,28 @@ export function TaskBacklog({ projectId }: TaskBacklogProps) {
                   </SimpleSelect>
                 </div>
               </div>
-              <div>
-                <Label htmlFor="target_date">Target Date</Label>
-                <Input
-                  id="target_date"
-                  type="date"
-                  value={formData.target_date}
-                  onChange={(e) => setFormData({ ...formData, target_date: e.target.value })}
-                />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="target_date">Target Date</Label>
+                  <Input
+                    id="target_date"
+                    type="date"
+                    value={formData.target_date}
+                    onChange={(e) => setFormData({ ...formData, target_date: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="story_points">Story Points</Label>
+                  <Input
+                    id="story_points"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={formData.story_points}
+                    onChange={(e) => setFormData({ ...formData, story_points: e.target.value })}
+                    placeholder="Estimate"
+                  />
+                </div>
               </div>
               <div className="flex justify-end space-x-2">
                 <Button type="button" variant="outline" onClick={resetForm}>
@@ -540,8 +572,12 @@ export function TaskBacklog({ projectId }: TaskBacklogProps) {
         </div>
       </div>
 
+      {planningMode && (
+        <SprintPlanningBoard projectId={projectId} backlogItems={backlogItems} onPlanChanged={fetchBacklogItems} />
+      )}
+
       {/* Search */}
-      <div className="flex items-center gap-4">
+      <div className={`flex items-center gap-4 ${planningMode ? 'hidden' : ''}`}>
         <Input
           placeholder="Search backlog items..."
           value={searchTerm}
@@ -550,7 +586,7 @@ export function TaskBacklog({ projectId }: TaskBacklogProps) {
         />
       </div>
 
-      <div className="grid gap-4">
+      <div className={`grid gap-4 ${planningMode ? 'hidden' : ''}`}>
         {filteredBacklogItems.map((item) => (
           <Card key={item.id}>
             <CardHeader>
@@ -564,6 +600,12 @@ export function TaskBacklog({ projectId }: TaskBacklogProps) {
                     <Badge variant={getPriorityBadgeVariant(item.priority)}>
                       {item.priority}
                     </Badge>
+                    {item.story_points !== null && (
+                      <Badge variant="outline">{item.story_points} pts</Badge>
+                    )}
+                    {item.iteration_id && (
+                      <Badge variant="secondary">Planned</Badge>
+                    )}
                     {item.source_type === 'action_item' && (
                       <Badge variant="outline">From Discussion</Badge>
                     )}
@@ -696,14 +738,28 @@ export function TaskBacklog({ projectId }: TaskBacklogProps) {
                 </SimpleSelect>
               </div>
             </div>
-            <div>
-              <Label htmlFor="edit-target-date">Target Date</Label>
-              <Input
-                id="edit-target-date"
-                type="date"
-                value={formData.target_date}
-                onChange={(e) => setFormData({ ...formData, target_date: e.target.value })}
-              />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="edit-target-date">Target Date</Label>
+                <Input
+                  id="edit-target-date"
+                  type="date"
+                  value={formData.target_date}
+                  onChange={(e) => setFormData({ ...formData, target_date: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="edit-story-points">Story Points</Label>
+                <Input
+                  id="edit-story-points"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={formData.story_points}
+                  onChange={(e) => setFormData({ ...formData, story_points: e.target.value })}
+                  placeholder="Estimate"
+                />
+              </div>
             </div>
             <div className="flex justify-end space-x-2">
               <Button type="button" variant="outline" onClick={() => setShowEditDialog(false)}>
@@ -20,6 +20,7 @@ interface Task {
   description: string;
   status: string;
   priority: string;
+  start_date?: string | null;
   due_date: string;
   owner_id: string;
   milestone_id: string;
@@ -66,6 +67,7 @@ export function TaskCard({ task, projectId, onTaskUpdate }: TaskCardProps) {
     description: task.description || '',
     status: task.status,
     priority: task.priority || 'medium',
+    start_date: task.start_date || '',
     due_date: task.due_date || '',
     owner_id: task.owner_id || ''
   });
@@ -116,6 +118,7 @@ export function TaskCard({ task, projectId, onTaskUpdate }: TaskCardProps) {
         description: formData.description || undefined,
         status: formData.status,
         priority: formData.priority,
+        startDate: formData.start_date || null,
         dueDate: formData.due_date || undefined,
         ownerId: formData.owner_id || undefined
       });
@@ -169,6 +172,7 @@ export function TaskCard({ task, projectId, onTaskUpdate }: TaskCardProps) {
       description: task.description || '',
       status: task.status,
       priority: task.priority || 'medium',
+      start_date: task.start_date || '',
       due_date: task.due_date || '',
       owner_id: task.owner_id || ''
     });
@@ -285,6 +289,15 @@ export function TaskCard({ task, projectId, onTaskUpdate }: TaskCardProps) {
                     </div>
                     
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="start_date">Start Date</Label>
+                        <Input
+                          id="start_date"
+                          type="date"
+                          value={formData.start_date}
+                          onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                        />
+                      </div>
                       <div className="space-y-2">
                         <Label htmlFor="due_date">Due Date</Label>
                         <Input
@@ -6,7 +6,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Plus, Users, Calendar, Target } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { apiClient } from '@/services/api';
+import { SimpleSelect, SimpleSelectItem } from '@/components/ui/simple-select';
+import { apiClient, type HolidayCalendar } from '@/services/api';
 import { TeamCreationDialog } from './capacity/TeamCreationDialog';
 import { IterationCreationDialog } from './capacity/IterationCreationDialog';
 import { AvailabilityMatrix } from './capacity/AvailabilityMatrix';
@@ -21,6 +22,7 @@ interface Team {
   project_id: string;
   created_at: string;
   member_count?: number;
+  holiday_calendar_id?: string | null;
 }
 
 interface Iteration {
@@ -53,12 +55,19 @@ export const TeamCapacityModule: React.FC<TeamCapacityModuleProps> = ({ projectI
   const [teamToDelete, setTeamToDelete] = useState<Team | null>(null);
   const [iterationDeleteConfirmOpen, setIterationDeleteConfirmOpen] = useState(false);
   const [iterationToDelete, setIterationToDelete] = useState<Iteration | null>(null);
+  const [holidayCalendars, setHolidayCalendars] = useState<HolidayCalendar[]>([]);
   const { toast } = useToast();
 
   useEffect(() => {
     fetchTeams();
   }, [projectId]);
 
+  useEffect(() => {
+    apiClient.getHolidayCalendars().then(response => {
+      if (response.success && response.data) setHolidayCalendars(response.data);
+    });
+  }, []);
+
   useEffect(() => {
     if (teams.length > 0) {
       fetchIterations();
@@ -106,6 +115,20 @@ export const TeamCapacityModule: React.FC<TeamCapacityModuleProps> = ({ projectI
     }
   };
 
+  const handleHolidayCalendarChange = async (team: Team, calendarId: string) => {
+    try {
+      const response = await apiClient.assignTeamHolidayCalendar(team.id, calendarId === 'none' ? null : calendarId);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to assign holiday calendar');
+      }
+      setTeams(teams.map(t => t.id === team.id ? { ...t, holiday_calendar_id: calendarId === 'none' ? null : calendarId } : t));
+      toast({ title: 'Success', description: `${team.name} capacity now follows ${calendarId === 'none' ? 'weekdays only' : 'the selected holiday calendar'}` });
+    } catch (error: any) {
+      console.error('Error assigning holiday calendar:', error);
+      toast({ title: 'Error', description: error.message || 'Failed to assign holiday calendar', variant: 'destructive' });
+    }
+  };
+
   const handleTeamCreated = (teamId: string) => {
     setNewlyCreatedTeamId(teamId);
     // Refresh teams list immediately to show the new team
@@ -306,6 +329,20 @@ export const TeamCapacityModule: React.FC<TeamCapacityModuleProps> = ({ projectI
                         {team.description && (
                           <p className="text-sm text-muted-foreground mb-3">{team.description}</p>
                         )}
+                        {holidayCalendars.length > 0 && (
+                          <div className="mb-3">
+                            <SimpleSelect
+                              value={team.holiday_calendar_id || 'none'}
+                              onValueChange={(value) => handleHolidayCalendarChange(team, value)}
+                              placeholder="Holiday calendar"
+                            >
+                              <SimpleSelectItem value="none">No holiday calendar</SimpleSelectItem>
+                              {holidayCalendars.map(calendar => (
+                                <SimpleSelectItem key={calendar.id} value={calendar.id}>{calendar.name}</SimpleSelectItem>
+                              ))}
+                            </SimpleSelect>
+                          </div>
+                        )}
                         <div className="flex gap-2">
                           <Button
                             size="sm"
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useApiAuth } from '@/hooks/useApiAuth';
 import { useToast } from '@/hooks/use-toast';
-import { apiClient } from '@/services/api';
+import { apiClient, type IterationCapacity } from '@/services/api';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
@@ -12,7 +12,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Plus, Edit2, Trash2, Users, Calendar, TrendingUp, TrendingDown, Settings, Eye, BarChart3, Copy } from 'lucide-react';
-import { format, differenceInDays, eachDayOfInterval, isWeekend } from 'date-fns';
+import { format, differenceInDays } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { Textarea } from '@/components/ui/textarea';
 
@@ -34,6 +34,7 @@ interface CapacityIteration {
   end_date: string;
   working_days: number;
   committed_story_points: number;
+  team_id?: string | null;
   created_at: string;
   members: CapacityMember[];
   totalEffectiveCapacity: number;
@@ -226,51 +227,43 @@ export function TeamCapacityTracker({ projectId }: TeamCapacityTrackerProps) {
     }
   };
 
-  const fetchAnalytics = async () => {
-    try {
-      // Fetch real analytics data from the database
-      const analyticsData: CapacityAnalytics[] = [];
-      
-      for (const iteration of iterations) {
-        try {
-          const response = await fetch(`/api/capacity-service/iterations/${iteration.id}`);
-          if (response.ok) {
-            const data = await response.json();
-            if (data.success && data.data.weeks) {
-              const weeks = data.data.weeks;
-              const totalCapacity = weeks.reduce((acc, week) => {
-                return acc + (week.members?.reduce((memberAcc, member) => 
-                  memberAcc + (member.effective_capacity || 0), 0) || 0);
-              }, 0);
-              
-              const analytics: CapacityAnalytics = {
-                project_id: projectId,
-                iteration_id: iteration.id,
-                total_capacity_days: totalCapacity,
-                allocated_capacity_days: iteration.committed_story_points || 0,
-                utilization_percentage: totalCapacity > 0 
-                  ? Math.min(100, ((iteration.committed_story_points || 0) / totalCapacity) * 100)
-                  : 0,
-                velocity_points: iteration.committed_story_points || 0,
-                team_size: weeks[0]?.members?.length || 0,
-                avg_member_capacity: weeks[0]?.members?.length > 0 ? 
-                  totalCapacity / weeks[0].members.length : 0,
-                work_mode_distribution: {
-                  office: weeks[0]?.members?.filter(m => m.work_mode === 'office').length || 0,
-                  wfh: weeks[0]?.members?.filter(m => m.work_mode === 'wfh').length || 0,
-                  hybrid: weeks[0]?.members?.filter(m => m.work_mode === 'hybrid').length || 0
-                }
-              };
-              
-              analyticsData.push(analytics);
-            }
-          }
-        } catch (iterationError) {
-          console.error(`Error fetching analytics for iteration ${iteration.id}:`, iterationError);
+  // Capacity comes from the server's engine; only the commitment is compared here
+  const toAnalytics = (iteration: any, capacity: IterationCapacity): CapacityAnalytics => ({
+    project_id: projectId,
+    iteration_id: iteration.id,
+    total_capacity_days: capacity.effective_capacity,
+    allocated_capacity_days: iteration.committed_story_points || 0,
+    utilization_percentage: capacity.effective_points > 0
+      ? Math.min(100, ((iteration.committed_story_points || 0) / capacity.effective_points) * 100)
+      : 0,
+    velocity_points: iteration.committed_story_points || 0,
+    team_size: capacity.members.length,
+    avg_member_capacity: capacity.members.length > 0 ? capacity.effective_capacity / capacity.members.length : 0,
+    work_mode_distribution: {
+      office: capacity.work_mode_distribution.office || 0,
+      wfh: capacity.work_mode_distribution.wfh || 0,
+      hybrid: capacity.work_mode_distribution.hybrid || 0
+    }
+  });
+
+  const loadAnalytics = async (): Promise<CapacityAnalytics[]> => {
+    const analyticsData: CapacityAnalytics[] = [];
+    for (const iteration of iterations) {
+      try {
+        const response = await apiClient.getIterationCapacity(iteration.id);
+        if (response.success && response.data) {
+          analyticsData.push(toAnalytics(iteration, response.data));
         }
+      } catch (iterationError) {
+        console.error(`Error fetching analytics for iteration ${iteration.id}:`, iterationError);
       }
-      
-      setAnalytics(analyticsData);
+    }
+    return analyticsData;
+  };
+
+  const fetchAnalytics = async () => {
+    try {
+      setAnalytics(await loadAnalytics());
     } catch (error) {
       console.error('Error fetching analytics:', error);
       setAnalytics([]);
@@ -279,72 +272,7 @@ export function TeamCapacityTracker({ projectId }: TeamCapacityTrackerProps) {
 
   const generateAnalytics = async () => {
     try {
-      // Generate real analytics based on database data
-      const realAnalytics: CapacityAnalytics[] = [];
-      
-      for (const iteration of iterations) {
-        try {
-          const response = await fetch(`/api/capacity-service/iterations/${iteration.id}`);
-          if (response.ok) {
-            const data = await response.json();
-            if (data.success && data.data.weeks) {
-              const weeks = data.data.weeks;
-              const totalCapacity = weeks.reduce((acc, week) => {
-                return acc + (week.members?.reduce((memberAcc, member) => 
-                  memberAcc + (member.effective_capacity || 0), 0) || 0);
-              }, 0);
-              
-              const members = weeks[0]?.members || [];
-              const analytics: CapacityAnalytics = {
-                project_id: projectId,
-                iteration_id: iteration.id,
-                total_capacity_days: totalCapacity,
-                allocated_capacity_days: iteration.committed_story_points || 0,
-                utilization_percentage: totalCapacity > 0 
-                  ? Math.min(100, ((iteration.committed_story_points || 0) / totalCapacity) * 100)
-                  : 0,
-                velocity_points: iteration.committed_story_points || 0,
-                team_size: members.length,
-                avg_member_capacity: members.length > 0 ? totalCapacity / members.length : 0,
-                work_mode_distribution: {
-                  office: members.filter(m => m.work_mode === 'office').length,
-                  wfh: members.filter(m => m.work_mode === 'wfh').length,
-                  hybrid: members.filter(m => m.work_mode === 'hybrid').length
-                }
-              };
-              
-              realAnalytics.push(analytics);
-            }
-          } else {
-            // Fallback to iteration data if API fails
-            const fallbackAnalytics: CapacityAnalytics = {
-              project_id: projectId,
-              iteration_id: iteration.id,
-              total_capacity_days: iteration.totalEffectiveCapacity || 0,
-              allocated_capacity_days: iteration.committed_story_points || 0,
-              utilization_percentage: iteration.totalEffectiveCapacity > 0 
-                ? ((iteration.committed_story_points || 0) / iteration.totalEffectiveCapacity) * 100 
-                : 0,
-              velocity_points: iteration.committed_story_points || 0,
-              team_size: iteration.totalMembers || 0,
-              avg_member_capacity: iteration.totalMembers > 0 
-                ? (iteration.totalEffectiveCapacity || 0) / iteration.totalMembers 
-                : 0,
-              work_mode_distribution: {
-                office: iteration.members?.filter(m => m.work_mode === 'office').length || 0,
-                wfh: iteration.members?.filter(m => m.work_mode === 'wfh').length || 0,
-                hybrid: iteration.members?.filter(m => m.work_mode === 'hybrid').length || 0
-              }
-            };
-            
-            realAnalytics.push(fallbackAnalytics);
-          }
-        } catch (iterationError) {
-          console.error(`Error generating analytics for iteration ${iteration.id}:`, iterationError);
-        }
-      }
-
-      setAnalytics(realAnalytics);
+      setAnalytics(await loadAnalytics());
       toast({
         title: "Analytics Updated",
         description: "Capacity analytics have been refreshed.",
@@ -418,23 +346,20 @@ export function TeamCapacityTracker({ projectId }: TeamCapacityTrackerProps) {
     }
   };
 
-  const calculateWorkingDays = (startDate: string, endDate: string): number => {
-    if (!startDate || !endDate) return 0;
-    
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const days = eachDayOfInterval({ start, end });
-    
-    return days.filter(day => !isWeekend(day)).length;
-  };
-
-  // Update working days when dates change
+  // Working days come from the server so the team's holiday calendar is taken into account
   useEffect(() => {
-    if (iterationForm.start_date && iterationForm.end_date) {
-      const workingDays = calculateWorkingDays(iterationForm.start_date, iterationForm.end_date);
-      setIterationForm(prev => ({ ...prev, working_days: workingDays }));
-    }
-  }, [iterationForm.start_date, iterationForm.end_date]);
+    if (!iterationForm.start_date || !iterationForm.end_date) return;
+
+    let cancelled = false;
+    apiClient.getWorkingDays(iterationForm.start_date, iterationForm.end_date, editingIteration?.team_id || undefined)
+      .then(response => {
+        if (!cancelled && response.success && response.data) {
+          setIterationForm(prev => ({ ...prev, working_days: response.data!.workingDays }));
+        }
+      })
+      .catch(error => console.error('Error calculating working days:', error));
+    return () => { cancelled = true; };
+  }, [iterationForm.start_date, iterationForm.end_date, editingIteration?.team_id]);
 
   const handleIterationSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
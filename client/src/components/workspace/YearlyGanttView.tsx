@@ -1,11 +1,16 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ChevronLeft, ChevronRight, Calendar } from 'lucide-react';
 import { format, parseISO, startOfYear, endOfYear, eachMonthOfInterval, startOfMonth, endOfMonth } from 'date-fns';
-import { apiClient } from '@/services/api';
+import { apiClient, type ProjectSchedule } from '@/services/api';
+import { DependencyArrows } from './gantt/DependencyArrows';
+import { MilestoneSlips } from './gantt/MilestoneSlips';
+import { ReschedulePreviewDialog } from './gantt/ReschedulePreviewDialog';
+import { useGanttReschedule, type DragMode } from './gantt/useGanttReschedule';
+import { taskStartDate, scheduleKey, scheduleNodes, milestonesPushedBy } from './gantt/ganttUtils';
 
 interface Task {
   id: string;
@@ -13,6 +18,7 @@ interface Task {
   description: string;
   status: string;
   priority: string;
+  start_date?: string | null;
   due_date: string;
   owner_id: string;
   milestone_id: string;
@@ -40,11 +46,18 @@ export function YearlyGanttView({ projectId }: YearlyGanttViewProps) {
   const [milestones, setMilestones] = useState<Milestone[]>([]);
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [loading, setLoading] = useState(true);
+  const [schedule, setSchedule] = useState<ProjectSchedule | null>(null);
+  const rowsRef = useRef<HTMLDivElement>(null);
+
+  const nodes = useMemo(() => scheduleNodes(schedule), [schedule]);
+  const pushedBy = useMemo(() => milestonesPushedBy(schedule), [schedule]);
+  const reschedule = useGanttReschedule(projectId, () => fetchData());
 
   const currentYearDate = new Date(selectedYear, 0, 1);
   const yearStart = startOfYear(currentYearDate);
   const yearEnd = endOfYear(currentYearDate);
   const monthsInYear = eachMonthOfInterval({ start: yearStart, end: yearEnd });
+  const trackDays = (yearEnd.getTime() - yearStart.getTime()) / (1000 * 60 * 60 * 24);
 
   // Airbus color codes (repeat after 4)
   const airbusColors = [
@@ -82,6 +95,12 @@ export function YearlyGanttView({ projectId }: YearlyGanttViewProps) {
       if (tasksResponse.success) {
         setTasks(tasksResponse.data || []);
       }
+
+      // Projected dates and the critical path
+      const scheduleResponse = await apiClient.getProjectSchedule(projectId);
+      if (scheduleResponse.success) {
+        setSchedule(scheduleResponse.data || null);
+      }
       
     } catch (error) {
       console.error('Error fetching data:', error);
@@ -94,14 +113,17 @@ export function YearlyGanttView({ projectId }: YearlyGanttViewProps) {
   const yearlyTasks = useMemo(() => {
     return tasks.filter(task => {
       if (!task.created_at) return false;
-      
-      const taskStartDate = parseISO(task.created_at);
-      const taskEndDate = task.due_date ? parseISO(task.due_date) : taskStartDate;
-      
+
+      const startDate = parseISO(taskStartDate(task));
+      const plannedEndDate = task.due_date ? parseISO(task.due_date) : startDate;
+      // Late work stays on the year it is projected to run into
+      const projected = nodes.get(scheduleKey('task', task.id));
+      const endDate = projected && projected.slipDays > 0 ? parseISO(projected.finish) : plannedEndDate;
+
       // Show task if it overlaps with the current year
-      return (taskStartDate <= yearEnd && taskEndDate >= yearStart);
+      return (startDate <= yearEnd && endDate >= yearStart);
     });
-  }, [tasks, yearStart, yearEnd]);
+  }, [tasks, nodes, yearStart, yearEnd]);
 
   // Group tasks by milestone for the selected year
   const groupedYearlyTasks = useMemo(() => {
@@ -158,11 +180,9 @@ export function YearlyGanttView({ projectId }: YearlyGanttViewProps) {
       });
   }, [milestones, yearStart, yearEnd]);
 
-  const getTaskBarPosition = (task: Task) => {
-    if (!task.created_at) return null;
-    
-    const taskStartDate = parseISO(task.created_at);
-    const taskEndDate = task.due_date ? parseISO(task.due_date) : taskStartDate;
+  const getBarPosition = (start: string, end: string) => {
+    const taskStartDate = parseISO(start);
+    const taskEndDate = parseISO(end);
     
     // Calculate start position within the year
     const startOfYearTime = yearStart.getTime();
@@ -188,6 +208,38 @@ export function YearlyGanttView({ projectId }: YearlyGanttViewProps) {
     };
   };
 
+  // Due date marker, plus a hollow marker at the projected date when the milestone is slipping
+  const renderMilestoneMarkers = (milestoneId: string, dueDate: string) => {
+    if (!dueDate) return null;
+    const node = nodes.get(scheduleKey('milestone', milestoneId));
+    const slipped = !!node && node.slipDays > 0;
+    const shown = reschedule.displayedDates('milestone', milestoneId, null, dueDate);
+    const due = getBarPosition(shown.dueDate, shown.dueDate);
+    const projected = slipped && !shown.dragging ? getBarPosition(node!.finish, node!.finish) : null;
+
+    return (
+      <>
+        {due && (
+          <div
+            data-gantt-key={slipped ? undefined : scheduleKey('milestone', milestoneId)}
+            className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-3 h-3 rotate-45 cursor-ew-resize touch-none ${node?.critical ? 'bg-destructive' : 'bg-primary'}`}
+            style={{ left: due.left }}
+            title={`Due ${format(parseISO(shown.dueDate), 'MMM d')} - drag to move`}
+            onPointerDown={(event) => reschedule.beginDrag(event, { type: 'milestone', id: milestoneId, startDate: null, dueDate }, 'move', trackDays)}
+          />
+        )}
+        {projected && (
+          <div
+            data-gantt-key={scheduleKey('milestone', milestoneId)}
+            className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-3 h-3 rotate-45 border-2 border-destructive bg-background"
+            style={{ left: projected.left }}
+            title={`Projected ${format(parseISO(node!.finish), 'MMM d')} (+${node!.slipDays}d)`}
+          />
+        )}
+      </>
+    );
+  };
+
   const navigateYear = (direction: 'prev' | 'next') => {
     setSelectedYear(direction === 'next' ? selectedYear + 1 : selectedYear - 1);
   };
@@ -246,6 +298,10 @@ export function YearlyGanttView({ projectId }: YearlyGanttViewProps) {
         </div>
       </div>
 
+      {schedule && schedule.milestoneSlips.length > 0 && (
+        <MilestoneSlips slips={schedule.milestoneSlips} />
+      )}
+
       {/* Gantt Chart */}
       <Card className="overflow-hidden">
         <CardHeader className="border-b">
@@ -310,7 +366,12 @@ export function YearlyGanttView({ projectId }: YearlyGanttViewProps) {
                 No tasks scheduled for {selectedYear}
               </div>
             ) : (
-              <div className="space-y-1">
+              <div ref={rowsRef} className="space-y-1 relative">
+                <DependencyArrows
+                  containerRef={rowsRef}
+                  links={schedule?.links || []}
+                  layoutKey={`${selectedYear}-${reschedule.drag?.key}:${reschedule.drag?.deltaDays}`}
+                />
                 {groupedYearlyTasks.map((group, groupIndex) => (
                   <div key={group.milestone.id}>
                     {/* Milestone Header */}
@@ -322,17 +383,26 @@ export function YearlyGanttView({ projectId }: YearlyGanttViewProps) {
                           <Badge variant="outline" className="text-xs">{group.tasks.length}</Badge>
                         </div>
                       </div>
-                      <div className="bg-background"></div>
+                      <div className="bg-background relative overflow-hidden">
+                        <div data-gantt-track className="h-10 relative" style={{ minWidth: `${monthsInYear.length * 100}px` }}>
+                          {renderMilestoneMarkers(group.milestone.id, group.milestone.due_date)}
+                        </div>
+                      </div>
                     </div>
-                    
+
                     {/* Tasks */}
                     {group.tasks.map((task, taskIndex) => (
                       <div key={task.id} className="grid gap-px hover:bg-muted/20 border-b border-border/10" style={{ gridTemplateColumns: '300px 1fr' }}>
                         {/* Task Info */}
                         <div className="p-3 border-r border-border/20 bg-background">
                           <div className="space-y-1">
-                            <div className="font-medium text-sm truncate" title={task.title}>
-                              {task.title}
+                            <div className="flex items-center gap-2">
+                              <div className="font-medium text-sm truncate" title={task.title}>
+                                {task.title}
+                              </div>
+                              {nodes.get(scheduleKey('task', task.id))?.critical && (
+                                <Badge variant="destructive" className="text-[10px] px-1 py-0">Critical</Badge>
+                              )}
                             </div>
                             <div className="flex items-center gap-2 text-xs text-muted-foreground">
                               <div 
@@ -341,20 +411,28 @@ export function YearlyGanttView({ projectId }: YearlyGanttViewProps) {
                               />
                               <span className="capitalize">{task.status.replace('_', ' ')}</span>
                               <span>•</span>
-                              <span>Start: {format(parseISO(task.created_at), 'MMM d')}</span>
+                              <span>Start: {format(parseISO(taskStartDate(task)), 'MMM d')}</span>
                               {task.due_date && (
                                 <>
                                   <span>•</span>
                                   <span>Due: {format(parseISO(task.due_date), 'MMM d')}</span>
                                 </>
                               )}
+                              {(nodes.get(scheduleKey('task', task.id))?.slipDays ?? 0) > 0 && (
+                                <span className="text-destructive">+{nodes.get(scheduleKey('task', task.id))!.slipDays}d</span>
+                              )}
                             </div>
+                            {pushedBy.has(scheduleKey('task', task.id)) && (
+                              <div className="text-xs text-destructive truncate">
+                                Pushes out: {pushedBy.get(scheduleKey('task', task.id))!.join(', ')}
+                              </div>
+                            )}
                           </div>
                         </div>
                         
                         {/* Timeline */}
                         <div className="relative bg-background overflow-x-auto border-l">
-                          <div className="h-16 relative border-b border-border/20" style={{ minWidth: `${monthsInYear.length * 100}px` }}>
+                          <div data-gantt-track className="h-16 relative border-b border-border/20" style={{ minWidth: `${monthsInYear.length * 100}px` }}>
                             {/* Month Grid Lines */}
                             <div className="absolute inset-0 grid" style={{ gridTemplateColumns: `repeat(${monthsInYear.length}, 1fr)` }}>
                               {monthsInYear.map((_, monthIndex) => (
@@ -364,29 +442,62 @@ export function YearlyGanttView({ projectId }: YearlyGanttViewProps) {
                             
                             {/* Task Bar */}
                             {(() => {
-                              const position = getTaskBarPosition(task);
-                              if (!position) return null;
-                              
+                              const shown = reschedule.displayedDates('task', task.id, taskStartDate(task), task.due_date || taskStartDate(task));
+                              const start = shown.startDate!;
+                              const position = getBarPosition(start, shown.dueDate);
+                              const node = nodes.get(scheduleKey('task', task.id));
+                              const slipped = !!node && node.slipDays > 0;
+                              const projectedPosition = slipped && !shown.dragging ? getBarPosition(node!.start, node!.finish) : null;
+
                               const taskColor = airbusColors[taskIndex % airbusColors.length];
-                              const startDate = parseISO(task.created_at);
-                              const endDate = task.due_date ? parseISO(task.due_date) : startDate;
-                              
+                              const startDate = parseISO(start);
+                              const endDate = task.due_date ? parseISO(shown.dueDate) : startDate;
+                              // Tasks without a due date have nothing to drag the end of
+                              const drag = (event: React.PointerEvent<HTMLElement>, mode: DragMode) => task.due_date &&
+                                reschedule.beginDrag(event, { type: 'task', id: task.id, startDate: taskStartDate(task), dueDate: task.due_date }, mode, trackDays);
+
                               return (
-                                <div
-                                  className="absolute top-1/2 -translate-y-1/2 rounded-sm shadow-sm flex items-center justify-center text-white text-xs font-medium"
-                                  style={{
-                                    left: position.left,
-                                    width: position.width,
-                                    height: '24px',
-                                    backgroundColor: taskColor,
-                                    minWidth: '40px'
-                                  }}
-                                  title={`${task.title} - ${format(startDate, 'MMM d')} to ${format(endDate, 'MMM d')}`}
-                                >
-                                  <div className="truncate px-2">
-                                    {format(startDate, 'MMM d')} - {format(endDate, 'MMM d')}
-                                  </div>
-                                </div>
+                                <>
+                                  {position && (
+                                    <div
+                                      data-gantt-key={slipped ? undefined : scheduleKey('task', task.id)}
+                                      className={`absolute top-1/2 -translate-y-1/2 rounded-sm shadow-sm flex items-center justify-center text-white text-xs font-medium touch-none ${task.due_date ? 'cursor-grab' : ''} ${node?.critical ? 'ring-2 ring-destructive ring-offset-1' : ''}`}
+                                      style={{
+                                        left: position.left,
+                                        width: position.width,
+                                        height: '24px',
+                                        backgroundColor: taskColor,
+                                        minWidth: '40px',
+                                        opacity: slipped && !shown.dragging ? 0.5 : 1
+                                      }}
+                                      title={`${task.title} - ${format(startDate, 'MMM d')} to ${format(endDate, 'MMM d')}`}
+                                      onPointerDown={(event) => drag(event, 'move')}
+                                    >
+                                      {task.due_date && (
+                                        <>
+                                          <div className="absolute left-0 top-0 h-full w-2 cursor-ew-resize" onPointerDown={(event) => drag(event, 'start')} />
+                                          <div className="absolute right-0 top-0 h-full w-2 cursor-ew-resize" onPointerDown={(event) => drag(event, 'end')} />
+                                        </>
+                                      )}
+                                      <div className="truncate px-2">
+                                        {format(startDate, 'MMM d')} - {format(endDate, 'MMM d')}
+                                      </div>
+                                    </div>
+                                  )}
+                                  {projectedPosition && (
+                                    <div
+                                      data-gantt-key={scheduleKey('task', task.id)}
+                                      className={`absolute top-1/2 -translate-y-1/2 rounded-sm border-2 border-dashed ${node!.critical ? 'border-destructive' : 'border-amber-500'}`}
+                                      style={{
+                                        left: projectedPosition.left,
+                                        width: projectedPosition.width,
+                                        height: '24px',
+                                        minWidth: '40px'
+                                      }}
+                                      title={`Projected ${format(parseISO(node!.start), 'MMM d')} to ${format(parseISO(node!.finish), 'MMM d')} (+${node!.slipDays}d)`}
+                                    />
+                                  )}
+                                </>
                               );
                             })()}
                           </div>
@@ -400,6 +511,13 @@ export function YearlyGanttView({ projectId }: YearlyGanttViewProps) {
           </div>
         </CardContent>
       </Card>
+
+      <ReschedulePreviewDialog
+        preview={reschedule.preview}
+        applying={reschedule.applying}
+        onConfirm={reschedule.confirm}
+        onCancel={reschedule.cancel}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -57,7 +57,8 @@ interface WeekData {
   week_start: string;
   week_end: string;
   members: MemberWeekData[];
-  week_capacity: number;
+  week_capacity: number; // effective days
+  week_capacity_percent: number; // effective days against full attendance
   week_availability: number;
 }
 
@@ -103,101 +104,45 @@ export const EnhancedTeamCapacityAnalytics: React.FC<EnhancedTeamCapacityAnalyti
       const analytics: IterationData[] = [];
 
       for (const iteration of iterations) {
+        const team = teams.find(t => t.id === iteration.team_id);
         try {
-          // Get team members for this iteration
-          const membersResponse = await apiClient.getTeamMembers(iteration.team_id);
-          const members = membersResponse.success ? membersResponse.data || [] : [];
-          
-          console.log('Team members response:', { teamId: iteration.team_id, members });
-
-          // Get weekly availability data for this iteration
-          // Weekly availability rows from API
-          const availResp = await apiClient.getWeeklyAvailability(iteration.id);
-
-          let weeks: WeekData[] = [];
-          let totalCapacity = 0;
-          let avgAvailability = 0;
-
-          if (availResp.success && Array.isArray(availResp.data)) {
-            const rows = availResp.data as any[];
-            const maxWeek = rows.reduce((m, r) => Math.max(m, Number(r.week_index || 0)), 0) || iteration.weeks_count || 0;
-
-            // Build week structure 1..maxWeek
-            for (let i = 1; i <= maxWeek; i++) {
-              const weekRows = rows.filter(r => Number(r.week_index) === i);
-              const weekMembers: MemberWeekData[] = members.map(member => {
-                const r = weekRows.find(w => w.team_member_id === member.id) || {};
-                return {
-                  member_id: member.id,
-                  member_name: member.display_name || member.member_name || member.name || `Team Member ${members.indexOf(member) + 1}`,
-                  availability_percent: Number(r.availability_percent ?? 100),
-                  days_present: Number(r.days_present ?? 5),
-                  days_total: Number(r.days_total ?? 5),
-                };
-              });
-
-              const weekCapacity = weekMembers.reduce((sum, m) => sum + m.availability_percent, 0);
-              const weekAvailability = weekMembers.length > 0 ? weekCapacity / weekMembers.length : 100;
-
-              weeks.push({
-                week_index: i,
-                week_start: '',
-                week_end: '',
-                members: weekMembers,
-                week_capacity: weekCapacity,
-                week_availability: weekAvailability,
-              });
-            }
-
-            totalCapacity = weeks.reduce((sum, week) => sum + week.week_capacity, 0);
-            avgAvailability = weeks.length > 0 ? totalCapacity / (weeks.length * members.length) : 100;
-          } else {
-            // Generate default week structure if no data
-            for (let i = 0; i < iteration.weeks_count; i++) {
-              const startDate = new Date(iteration.start_date);
-              startDate.setDate(startDate.getDate() + (i * 7));
-              const endDate = new Date(startDate);
-              endDate.setDate(endDate.getDate() + 6);
-
-              const weekMembers: MemberWeekData[] = members.map(member => ({
-                member_id: member.id,
-                member_name: member.display_name || member.member_name || member.name || `Team Member ${members.indexOf(member) + 1}`,
-                availability_percent: 100,
-                days_present: 5,
-                days_total: 5,
-              }));
-
-              weeks.push({
-                week_index: i + 1,
-                week_start: startDate.toISOString().split('T')[0],
-                week_end: endDate.toISOString().split('T')[0],
-                members: weekMembers,
-                week_capacity: members.length * 100,
-                week_availability: 100,
-              });
-            }
-
-            totalCapacity = weeks.length * members.length * 100;
-            avgAvailability = 100;
+          // Weeks, members and totals all come from the server's capacity engine
+          const response = await apiClient.getIterationCapacity(iteration.id);
+          if (!response.success || !response.data) {
+            throw new Error(response.error || 'Failed to load iteration capacity');
           }
+          const capacity = response.data;
+
+          const weeks: WeekData[] = capacity.weeks.map(week => ({
+            week_index: week.week_index,
+            week_start: week.week_start,
+            week_end: week.week_end,
+            members: week.members.map(member => ({
+              member_id: member.team_member_id,
+              member_name: member.display_name,
+              availability_percent: member.availability_percent,
+              days_present: member.days_present,
+              days_total: member.days_total,
+            })),
+            week_capacity: week.effective_capacity,
+            week_capacity_percent: week.capacity_percent,
+            week_availability: week.availability_percent,
+          }));
 
           analytics.push({
             id: iteration.id,
             name: iteration.name,
-            team_name: iteration.team_name || teams.find(t => t.id === iteration.team_id)?.name || 'Unknown Team',
+            team_name: iteration.team_name || team?.name || 'Unknown Team',
             weeks,
-            total_capacity: totalCapacity,
-            avg_availability: avgAvailability,
-            total_members: members.length,
+            total_capacity: capacity.effective_capacity,
+            avg_availability: capacity.availability_percent,
+            total_members: capacity.members.length,
           });
 
         } catch (error) {
           console.error(`Error fetching data for iteration ${iteration.id}:`, error);
           
           // Create fallback data structure
-          const team = teams.find(t => t.id === iteration.team_id);
-          const memberCount = team?.member_count || 0;
-          
           analytics.push({
             id: iteration.id,
             name: iteration.name,
@@ -205,7 +150,7 @@ export const EnhancedTeamCapacityAnalytics: React.FC<EnhancedTeamCapacityAnalyti
             weeks: [],
             total_capacity: 0,
             avg_availability: 0,
-            total_members: memberCount,
+            total_members: team?.member_count || 0,
           });
         }
       }
@@ -252,7 +197,7 @@ export const EnhancedTeamCapacityAnalytics: React.FC<EnhancedTeamCapacityAnalyti
     ? filteredData[0].weeks.map(week => ({
         week: `Week ${week.week_index}`,
         availability: Math.round(week.week_availability),
-        capacity: Math.round(week.week_capacity / Math.max(week.members.length, 1)),
+        capacity: week.week_capacity_percent,
         date: week.week_start,
       }))
     : [];
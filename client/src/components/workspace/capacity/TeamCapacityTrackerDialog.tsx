@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,7 +10,7 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { CalendarIcon, Target } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { apiClient } from '@/services/api';
-import { format, addWeeks, differenceInWeeks, differenceInBusinessDays } from 'date-fns';
+import { format, addWeeks, differenceInWeeks } from 'date-fns';
 import { cn } from '@/lib/utils';
 
 interface Team {
@@ -59,21 +59,20 @@ export const TeamCapacityTrackerDialog: React.FC<TeamCapacityTrackerDialogProps>
     onOpenChange(false);
   };
 
-  const handleStartDateChange = (date: Date | undefined) => {
-    setStartDate(date);
-    if (date && endDate) {
-      const workingDays = differenceInBusinessDays(endDate, date);
-      setForm({ ...form, working_days: Math.max(1, workingDays) });
-    }
-  };
+  // Working days come from the server so the selected team's holidays are left out
+  useEffect(() => {
+    if (!startDate || !endDate) return;
 
-  const handleEndDateChange = (date: Date | undefined) => {
-    setEndDate(date);
-    if (startDate && date) {
-      const workingDays = differenceInBusinessDays(date, startDate);
-      setForm({ ...form, working_days: Math.max(1, workingDays) });
-    }
-  };
+    let cancelled = false;
+    apiClient.getWorkingDays(format(startDate, 'yyyy-MM-dd'), format(endDate, 'yyyy-MM-dd'), form.team_id || undefined)
+      .then(response => {
+        if (!cancelled && response.success && response.data) {
+          setForm(prev => ({ ...prev, working_days: Math.max(1, response.data!.workingDays) }));
+        }
+      })
+      .catch(error => console.error('Error calculating working days:', error));
+    return () => { cancelled = true; };
+  }, [startDate, endDate, form.team_id]);
 
   const handleCreate = async () => {
     if (!form.name.trim() || !form.team_id || !startDate || !endDate) {
@@ -206,7 +205,7 @@ export const TeamCapacityTrackerDialog: React.FC<TeamCapacityTrackerDialogProps>
                 value={startDate ? format(startDate, 'yyyy-MM-dd') : ''}
                 onChange={(e) => {
                   const date = e.target.value ? new Date(e.target.value) : undefined;
-                  handleStartDateChange(date);
+                  setStartDate(date);
                 }}
                 required
               />
@@ -220,7 +219,7 @@ export const TeamCapacityTrackerDialog: React.FC<TeamCapacityTrackerDialogProps>
                 value={endDate ? format(endDate, 'yyyy-MM-dd') : ''}
                 onChange={(e) => {
                   const date = e.target.value ? new Date(e.target.value) : undefined;
-                  handleEndDateChange(date);
+                  setEndDate(date);
                 }}
                 min={startDate ? format(startDate, 'yyyy-MM-dd') : ''}
                 required
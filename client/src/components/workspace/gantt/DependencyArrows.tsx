@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import type { ScheduleLink } from '@/services/api';
+
+interface DependencyArrowsProps {
+  // Positioned element holding the bars; the arrows are drawn over it
+  containerRef: React.RefObject<HTMLElement>;
+  links: ScheduleLink[];
+  // Changes whenever the bars move, e.g. the month or year on show
+  layoutKey?: string;
+}
+
+interface Arrow {
+  id: string;
+  path: string;
+  critical: boolean;
+}
+
+const GAP = 8;
+
+// Bars opt in with a data-gantt-key attribute; links whose ends aren't on screen are skipped
+const DependencyArrows: React.FC<DependencyArrowsProps> = ({ containerRef, links, layoutKey }) => {
+  const [arrows, setArrows] = useState<Arrow[]>([]);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // A passive effect, so the container's ref is attached by the time it runs
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => {
+      const origin = container.getBoundingClientRect();
+      const box = (key: string) => {
+        const element = container.querySelector(`[data-gantt-key="${key}"]`);
+        if (!element) return null;
+        const rect = element.getBoundingClientRect();
+        return {
+          left: rect.left - origin.left,
+          right: rect.right - origin.left,
+          middle: rect.top - origin.top + rect.height / 2
+        };
+      };
+
+      const next: Arrow[] = [];
+      for (const link of links) {
+        if (link.implicit) continue;
+        const from = box(link.predecessor);
+        const to = box(link.successor);
+        if (!from || !to) continue;
+
+        const exitsRight = link.type === 'finish_to_start' || link.type === 'finish_to_finish';
+        const entersLeft = link.type === 'finish_to_start' || link.type === 'start_to_start';
+        const x1 = exitsRight ? from.right : from.left;
+        const x2 = entersLeft ? to.left : to.right;
+        const exitX = x1 + (exitsRight ? GAP : -GAP);
+        const entryX = x2 + (entersLeft ? -GAP : GAP);
+
+        // Straight elbow when the successor starts after the predecessor; otherwise loop round between the rows
+        const path = exitsRight && entersLeft && exitX <= entryX
+          ? `M ${x1} ${from.middle} H ${entryX} V ${to.middle} H ${x2}`
+          : `M ${x1} ${from.middle} H ${exitX} V ${(from.middle + to.middle) / 2} H ${entryX} V ${to.middle} H ${x2}`;
+        next.push({ id: `${link.predecessor}-${link.successor}`, path, critical: link.critical });
+      }
+
+      // Keep the previous state when nothing moved, so re-measuring doesn't re-render
+      setArrows(current => JSON.stringify(current) === JSON.stringify(next) ? current : next);
+      setSize(current => current.width === container.scrollWidth && current.height === container.scrollHeight
+        ? current
+        : { width: container.scrollWidth, height: container.scrollHeight });
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerRef, links, layoutKey]);
+
+  if (arrows.length === 0) return null;
+
+  return (
+    <svg className="absolute left-0 top-0 pointer-events-none z-10" width={size.width} height={size.height}>
+      <defs>
+        <marker id="gantt-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+          <path d="M 0 0 L 8 4 L 0 8 z" fill="hsl(var(--muted-foreground))" />
+        </marker>
+        <marker id="gantt-arrow-critical" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+          <path d="M 0 0 L 8 4 L 0 8 z" fill="hsl(var(--destructive))" />
+        </marker>
+      </defs>
+      {arrows.map(arrow => (
+        <path
+          key={arrow.id}
+          d={arrow.path}
+          fill="none"
+          stroke={arrow.critical ? 'hsl(var(--destructive))' : 'hsl(var(--muted-foreground))'}
+          strokeWidth={arrow.critical ? 2 : 1.25}
+          strokeOpacity={arrow.critical ? 0.9 : 0.6}
+          markerEnd={`url(#${arrow.critical ? 'gantt-arrow-critical' : 'gantt-arrow'})`}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export { DependencyArrows };
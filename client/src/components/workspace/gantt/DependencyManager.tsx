@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SimpleSelect, SimpleSelectItem } from '@/components/ui/simple-select';
+import { Trash2, ArrowRight } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiClient, type DependencyType, type ScheduleNodeType, type TaskDependency } from '@/services/api';
+import { scheduleKey } from './ganttUtils';
+
+interface DependencyManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  tasks: { id: string; title: string }[];
+  milestones: { id: string; name: string }[];
+  // Called after a link is added or removed so the chart can reload its schedule
+  onChanged: () => void;
+}
+
+const DEPENDENCY_TYPES: { value: DependencyType; label: string }[] = [
+  { value: 'finish_to_start', label: 'Finish to start' },
+  { value: 'start_to_start', label: 'Start to start' },
+  { value: 'finish_to_finish', label: 'Finish to finish' },
+  { value: 'start_to_finish', label: 'Start to finish' }
+];
+
+const EMPTY_FORM = { predecessor: '', successor: '', type: 'finish_to_start' as DependencyType, lagDays: '0' };
+
+export const DependencyManager: React.FC<DependencyManagerProps> = ({
+  open,
+  onOpenChange,
+  projectId,
+  tasks,
+  milestones,
+  onChanged
+}) => {
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const names = new Map<string, string>([
+    ...tasks.map(task => [scheduleKey('task', task.id), task.title] as [string, string]),
+    ...milestones.map(milestone => [scheduleKey('milestone', milestone.id), `◆ ${milestone.name}`] as [string, string])
+  ]);
+  const options = Array.from(names.entries());
+
+  const fetchDependencies = async () => {
+    try {
+      const response = await apiClient.getTaskDependencies(projectId);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to fetch dependencies');
+      }
+      setDependencies(response.data || []);
+    } catch (error) {
+      console.error('Error fetching dependencies:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      fetchDependencies();
+    }
+  }, [open, projectId]);
+
+  const handleAdd = async () => {
+    const [predecessorType, predecessorId] = form.predecessor.split(':') as [ScheduleNodeType, string];
+    const [successorType, successorId] = form.successor.split(':') as [ScheduleNodeType, string];
+
+    setSaving(true);
+    try {
+      const response = await apiClient.createTaskDependency(projectId, {
+        predecessorType,
+        predecessorId,
+        successorType,
+        successorId,
+        type: form.type,
+        lagDays: parseInt(form.lagDays, 10) || 0
+      });
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to add dependency');
+      }
+      setForm(EMPTY_FORM);
+      await fetchDependencies();
+      onChanged();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add dependency',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (dependencyId: string) => {
+    try {
+      const response = await apiClient.deleteTaskDependency(projectId, dependencyId);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to remove dependency');
+      }
+      setDependencies(current => current.filter(dependency => dependency.id !== dependencyId));
+      onChanged();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to remove dependency',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Dependencies</DialogTitle>
+          <DialogDescription>
+            Link tasks and milestones so a late predecessor pushes out the work that waits on it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Predecessor</Label>
+            <SimpleSelect value={form.predecessor} onValueChange={(value) => setForm({ ...form, predecessor: value })} placeholder="Select task or milestone">
+              {options.map(([key, name]) => (
+                <SimpleSelectItem key={key} value={key}>{name}</SimpleSelectItem>
+              ))}
+            </SimpleSelect>
+          </div>
+          <div className="space-y-1">
+            <Label>Successor</Label>
+            <SimpleSelect value={form.successor} onValueChange={(value) => setForm({ ...form, successor: value })} placeholder="Select task or milestone">
+              {options.filter(([key]) => key !== form.predecessor).map(([key, name]) => (
+                <SimpleSelectItem key={key} value={key}>{name}</SimpleSelectItem>
+              ))}
+            </SimpleSelect>
+          </div>
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <SimpleSelect value={form.type} onValueChange={(value) => setForm({ ...form, type: value as DependencyType })}>
+              {DEPENDENCY_TYPES.map(type => (
+                <SimpleSelectItem key={type.value} value={type.value}>{type.label}</SimpleSelectItem>
+              ))}
+            </SimpleSelect>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dependency-lag">Lag (days)</Label>
+            <Input
+              id="dependency-lag"
+              type="number"
+              value={form.lagDays}
+              onChange={(e) => setForm({ ...form, lagDays: e.target.value })}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={handleAdd} disabled={saving || !form.predecessor || !form.successor}>
+            {saving ? 'Adding...' : 'Add dependency'}
+          </Button>
+        </div>
+
+        <div className="border-t pt-4 space-y-2 max-h-64 overflow-y-auto">
+          {dependencies.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No dependencies yet.</p>
+          ) : dependencies.map(dependency => (
+            <div key={dependency.id} className="flex items-center gap-2 text-sm">
+              <span className="truncate">{names.get(scheduleKey(dependency.predecessor_type, dependency.predecessor_id)) || 'Unknown'}</span>
+              <ArrowRight className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+              <span className="truncate">{names.get(scheduleKey(dependency.successor_type, dependency.successor_id)) || 'Unknown'}</span>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {DEPENDENCY_TYPES.find(type => type.value === dependency.type)?.label}
+                {dependency.lag_days !== 0 && `, ${dependency.lag_days > 0 ? '+' : ''}${dependency.lag_days}d`}
+              </span>
+              <Button variant="ghost" size="sm" className="ml-auto" onClick={() => handleRemove(dependency.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import type { MilestoneSlip } from '@/services/api';
+
+interface MilestoneSlipsProps {
+  slips: MilestoneSlip[];
+}
+
+// Milestones projected past their due date, with the chain of late work behind each
+const MilestoneSlips: React.FC<MilestoneSlipsProps> = ({ slips }) => {
+  if (slips.length === 0) return null;
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>{slips.length === 1 ? '1 milestone is' : `${slips.length} milestones are`} projected to slip</AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1 text-sm">
+          {slips.map(slip => (
+            <li key={slip.milestoneId}>
+              <span className="font-medium">{slip.name}</span>
+              {` moves from ${format(parseISO(slip.dueDate), 'MMM d')} to ${format(parseISO(slip.projectedDate), 'MMM d')} (+${slip.delayDays}d)`}
+              {slip.chain.length > 1 && (
+                <span className="text-xs opacity-80">
+                  {' — pushed by '}
+                  {slip.chain.slice(0, -1).map(step => `${step.name} (+${step.slipDays}d)`).join(' → ')}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export { MilestoneSlips };
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import type { ReschedulePreview, RescheduleItem } from '@/services/api';
+
+interface ReschedulePreviewDialogProps {
+  preview: ReschedulePreview | null;
+  applying: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const formatDay = (date: string | null) => date ? format(parseISO(date), 'MMM d, yyyy') : '—';
+
+const formatRange = (dates: RescheduleItem['from']) =>
+  dates.start ? `${formatDay(dates.start)} – ${formatDay(dates.due)}` : formatDay(dates.due);
+
+// Everything a drag would move, confirmed before any of it is saved
+const ReschedulePreviewDialog: React.FC<ReschedulePreviewDialogProps> = ({ preview, applying, onConfirm, onCancel }) => {
+  const dependents = preview?.items.filter(item => item.cause === 'dependency').length ?? 0;
+
+  return (
+    <Dialog open={!!preview} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Confirm new dates</DialogTitle>
+          <DialogDescription>
+            {dependents > 0
+              ? `${dependents} dependent ${dependents === 1 ? 'item moves' : 'items move'} with this change.`
+              : 'No dependent items are affected.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview && (
+          <div className="space-y-4">
+            {preview.warnings.length > 0 && (
+              <div className="space-y-1 text-sm text-amber-700">
+                {preview.warnings.map(warning => (
+                  <div key={warning} className="flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    {warning}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="max-h-80 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Shift</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.items.map(item => (
+                    <TableRow key={item.key}>
+                      <TableCell>
+                        <div className="font-medium">{item.type === 'milestone' ? `◆ ${item.name}` : item.name}</div>
+                        {item.cause === 'dependency' ? (
+                          <div className="text-xs text-muted-foreground">Pushed by {item.drivenBy}</div>
+                        ) : (
+                          <Badge variant="outline" className="text-[10px]">Moved</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{formatRange(item.from)}</TableCell>
+                      <TableCell className="text-sm">{formatRange(item.to)}</TableCell>
+                      <TableCell className={item.shiftDays > 0 ? 'text-destructive' : 'text-emerald-700'}>
+                        {item.shiftDays > 0 ? '+' : ''}{item.shiftDays}d
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={applying}>Cancel</Button>
+          <Button onClick={onConfirm} disabled={applying}>
+            {applying ? 'Saving...' : `Apply ${preview?.items.length ?? 0} ${preview?.items.length === 1 ? 'change' : 'changes'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export { ReschedulePreviewDialog };
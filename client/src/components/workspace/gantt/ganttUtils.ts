@@ -0,0 +1,29 @@
+import type { ProjectSchedule, ScheduleNode } from '@/services/api';
+
+// Tasks created before start dates existed fall back to their creation date, cut to the
+// YYYY-MM-DD day the schedule works in
+export const taskStartDate = (task: { start_date?: string | null; created_at: string }): string =>
+  (task.start_date || task.created_at).slice(0, 10);
+
+export const scheduleKey = (type: 'task' | 'milestone', id: string): string => `${type}:${id}`;
+
+export const scheduleNodes = (schedule: ProjectSchedule | null): Map<string, ScheduleNode> =>
+  new Map((schedule?.nodes || []).map(node => [node.key, node]));
+
+// Milestone names each task or milestone pushes out, through every slip chain it appears in
+export const milestonesPushedBy = (schedule: ProjectSchedule | null): Map<string, string[]> => {
+  const pushed = new Map<string, string[]>();
+  for (const slip of schedule?.milestoneSlips || []) {
+    for (const step of slip.chain) {
+      if (step.key === scheduleKey('milestone', slip.milestoneId)) continue;
+      pushed.set(step.key, [...(pushed.get(step.key) || []), slip.name]);
+    }
+  }
+  return pushed;
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Calendar arithmetic on YYYY-MM-DD strings; timestamps are cut down to their date first
+export const shiftDate = (date: string, days: number): string =>
+  new Date(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) + days * MS_PER_DAY).toISOString().split('T')[0];
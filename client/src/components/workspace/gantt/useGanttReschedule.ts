@@ -0,0 +1,145 @@
+import { useState, useRef, useEffect } from 'react';
+import { apiClient, type RescheduleChange, type ReschedulePreview, type ScheduleNodeType } from '@/services/api';
+import { useToast } from '@/hooks/use-toast';
+import { scheduleKey, shiftDate } from './ganttUtils';
+
+// Whole bar, or just one of its ends
+export type DragMode = 'move' | 'start' | 'end';
+
+export interface DraggableItem {
+  type: ScheduleNodeType;
+  id: string;
+  startDate: string | null; // null for milestones
+  dueDate: string;
+}
+
+interface DragState extends DraggableItem {
+  key: string;
+  mode: DragMode;
+  deltaDays: number;
+}
+
+const changeFor = (drag: DragState): RescheduleChange => {
+  const { type, id, startDate, dueDate, mode, deltaDays } = drag;
+  if (type === 'milestone' || !startDate) {
+    return { type, id, dueDate: shiftDate(dueDate, deltaDays) };
+  }
+  if (mode === 'start') {
+    const start = shiftDate(startDate, deltaDays);
+    return { type, id, startDate: start < dueDate ? start : dueDate, dueDate };
+  }
+  if (mode === 'end') {
+    const due = shiftDate(dueDate, deltaDays);
+    return { type, id, startDate, dueDate: due > startDate ? due : startDate };
+  }
+  return { type, id, startDate: shiftDate(startDate, deltaDays), dueDate: shiftDate(dueDate, deltaDays) };
+};
+
+// Drag handling for the timeline views. Bars sit inside an element marked data-gantt-track,
+// whose width over the days it covers gives the drag scale. Dropping a bar asks the server
+// what else would move; nothing is saved until the preview is confirmed.
+export const useGanttReschedule = (projectId: string, onApplied: () => void) => {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [pending, setPending] = useState<{ changes: RescheduleChange[]; preview: ReschedulePreview } | null>(null);
+  const [applying, setApplying] = useState(false);
+  const stopListening = useRef<(() => void) | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => () => stopListening.current?.(), []);
+
+  const requestPreview = async (changes: RescheduleChange[]) => {
+    try {
+      const response = await apiClient.previewReschedule(projectId, changes);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to preview the new dates');
+      }
+      setPending({ changes, preview: response.data });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to preview the new dates',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const beginDrag = (event: React.PointerEvent<HTMLElement>, item: DraggableItem, mode: DragMode, trackDays: number) => {
+    const track = event.currentTarget.closest('[data-gantt-track]') as HTMLElement | null;
+    if (event.button !== 0 || !track || trackDays <= 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const pixelsPerDay = track.getBoundingClientRect().width / trackDays;
+    const originX = event.clientX;
+    let current: DragState = { ...item, key: scheduleKey(item.type, item.id), mode, deltaDays: 0 };
+    setDrag(current);
+
+    const onMove = (moveEvent: PointerEvent) => {
+      const deltaDays = Math.round((moveEvent.clientX - originX) / pixelsPerDay);
+      if (deltaDays !== current.deltaDays) {
+        current = { ...current, deltaDays };
+        setDrag(current);
+      }
+    };
+    const onUp = () => {
+      stopListening.current?.();
+      setDrag(null);
+      if (current.deltaDays !== 0) {
+        requestPreview([changeFor(current)]);
+      }
+    };
+
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+    stopListening.current = () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      stopListening.current = null;
+    };
+  };
+
+  // Dates to draw an item at, following the pointer while it is being dragged
+  const displayedDates = (type: ScheduleNodeType, id: string, startDate: string | null, dueDate: string) => {
+    if (!drag || drag.key !== scheduleKey(type, id)) {
+      return { startDate, dueDate, dragging: false };
+    }
+    const change = changeFor(drag);
+    return { startDate: change.startDate ?? startDate, dueDate: change.dueDate ?? dueDate, dragging: true };
+  };
+
+  const confirm = async () => {
+    if (!pending) return;
+    setApplying(true);
+    try {
+      const response = await apiClient.applyReschedule(projectId, pending.changes);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to save the new dates');
+      }
+      const count = response.data?.items.length ?? 0;
+      toast({
+        title: 'Schedule updated',
+        description: `${count} ${count === 1 ? 'item' : 'items'} moved.`
+      });
+      setPending(null);
+      onApplied();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save the new dates',
+        variant: 'destructive'
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return {
+    drag,
+    beginDrag,
+    displayedDates,
+    preview: pending?.preview ?? null,
+    applying,
+    confirm,
+    cancel: () => setPending(null)
+  };
+};
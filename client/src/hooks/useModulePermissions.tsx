@@ -54,34 +54,11 @@ export function useModulePermissions(projectId: string) {
       const isOwner = projectResponse.data.created_by === user.id;
       setIsProjectOwner(isOwner);
 
-      // Check if user is admin by getting user profile/role
-      const profileResponse = await apiClient.getProfile(user.id);
-      const isAdminUser = profileResponse.success && profileResponse.data?.role === 'admin';
-      setIsAdmin(isAdminUser);
-
-      // If user is project owner or admin, they have full access
-      if (isOwner || isAdminUser) {
-        const fullPermissions: ModulePermissions = {
-          overview: 'write',
-          tasks_milestones: 'write',
-          roadmap: 'write',
-          kanban: 'write',
-          stakeholders: 'write',
-          risk_register: 'write',
-          discussions: 'write',
-          task_backlog: 'write',
-          team_capacity: 'write',
-          retrospectives: 'write',
-          budget: 'write',
-          access_control: 'write',
-          jira_sync: 'write',
-        };
-        setPermissions(fullPermissions);
-        setLoading(false);
-        return;
-      }
+      // Admin role comes from user_roles on the server
+      const roleResponse = await apiClient.getUserRole(user.id);
+      setIsAdmin(roleResponse.success && roleResponse.data?.role === 'admin');
 
-      // Fetch specific module permissions for this user
+      // The server resolves ownership, roles and explicit grants into the effective module list
       const permissionsResponse = await apiClient.getModulePermissions(projectId);
       
       if (!permissionsResponse.success) {
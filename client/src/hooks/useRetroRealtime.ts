@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from 'react';
+import { apiClient, type RetroEvent, type RetroParticipant, type RetroSocketMessage } from '@/services/api';
+
+const MAX_RETRY_MS = 30 * 1000;
+
+// Live channel for a retrospective board. Events this tab caused are dropped, since it has
+// already applied them; onResync runs after a reconnect because anything sent while the
+// socket was down is lost.
+export const useRetroRealtime = (
+  retrospectiveId: string,
+  onEvent: (event: RetroEvent) => void,
+  onResync: () => void
+) => {
+  const [participants, setParticipants] = useState<RetroParticipant[]>([]);
+  const [connected, setConnected] = useState(false);
+  const handlers = useRef({ onEvent, onResync });
+  handlers.current = { onEvent, onResync };
+
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let failures = 0;
+    let closed = false;
+
+    const retry = () => {
+      failures += 1;
+      retryTimer = setTimeout(connect, Math.min(MAX_RETRY_MS, 1000 * 2 ** failures));
+    };
+
+    // A failed token fetch or socket setup backs off and tries again, like a dropped socket
+    const connect = async () => {
+      try {
+        const url = await apiClient.getRetrospectiveLiveUrl(retrospectiveId);
+        if (closed || !url) return;
+        socket = new WebSocket(url);
+      } catch (error) {
+        console.error('Failed to connect to the retrospective live channel:', error);
+        if (!closed) retry();
+        return;
+      }
+
+      socket.onopen = () => {
+        if (failures > 0) handlers.current.onResync();
+        failures = 0;
+        setConnected(true);
+      };
+      socket.onmessage = (message) => {
+        let data: RetroSocketMessage;
+        try {
+          data = JSON.parse(message.data);
+        } catch {
+          return;
+        }
+        if (data.type === 'presence') {
+          setParticipants(data.participants);
+        } else if (data.origin !== apiClient.clientId) {
+          handlers.current.onEvent(data);
+        }
+      };
+      socket.onclose = () => {
+        setConnected(false);
+        setParticipants([]);
+        if (closed) return;
+        retry();
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [retrospectiveId]);
+
+  return { participants, connected };
+};
@@ -3,7 +3,7 @@ import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend, ComposedChart, Line } from 'recharts';
 import { TrendingUp, Target, Clock, CheckCircle, AlertTriangle, Users, DollarSign } from 'lucide-react';
 import DashboardLayout from '@/components/DashboardLayout';
 import { apiClient } from '@/services/api';
@@ -54,6 +54,11 @@ const PortfolioDashboard = () => {
     queryFn: () => apiClient.getPortfolioProjects(),
   });
 
+  const { data: riskTrendData } = useQuery({
+    queryKey: ['portfolio', 'risk-trend'],
+    queryFn: () => apiClient.getPortfolioRiskTrend(),
+  });
+
   if (isLoading) {
     return (
       <DashboardLayout>
@@ -66,6 +71,10 @@ const PortfolioDashboard = () => {
 
   const portfolio = portfolioData?.data || {};
   const projects = projectsData?.data || [];
+  const riskTrend = (riskTrendData?.data || []).map(point => ({
+    ...point,
+    week: new Date(point.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+  }));
 
   // Project status distribution
   const statusData = [
@@ -182,6 +191,36 @@ const PortfolioDashboard = () => {
           </Card>
         </div>
 
+        {/* Risk exposure over time: summed scores of open risks, and how many of them score high */}
+        <Card className="airbus-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 airbus-text-primary">
+              <AlertTriangle className="h-5 w-5" />
+              Portfolio Risk Trend
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {riskTrend.every(point => point.open === 0) ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">No open risks in the portfolio over the last weeks.</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart data={riskTrend}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="week" />
+                  <YAxis yAxisId="score" />
+                  <YAxis yAxisId="count" orientation="right" allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar yAxisId="count" dataKey="high" fill="hsl(var(--destructive))" name="High & critical risks" />
+                  <Line yAxisId="score" type="monotone" dataKey="inherent" stroke="hsl(var(--chart-1))" strokeWidth={2} name="Inherent exposure" />
+                  <Line yAxisId="score" type="monotone" dataKey="residual" stroke="hsl(var(--chart-2))" strokeWidth={2} name="Residual exposure" />
+                  <Line yAxisId="count" type="monotone" dataKey="open" stroke="hsl(var(--chart-3))" strokeDasharray="4 4" name="Open risks" />
+                </ComposedChart>
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Project List */}
         <Card className="airbus-card">
           <CardHeader>
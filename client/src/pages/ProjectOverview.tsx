@@ -14,6 +14,7 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { ArrowLeft, Edit3, Trash2, Calendar, Users, CheckCircle, Clock, AlertCircle, Plus, ChevronDown, Table, BarChart3 } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import DashboardLayout from '@/components/DashboardLayout';
+import SaveAsTemplateDialog from '@/components/SaveAsTemplateDialog';
 import { RoadmapView } from '@/components/workspace/RoadmapView';
 import { KanbanView } from '@/components/workspace/KanbanView';
 import { StakeholdersManagement } from '@/components/workspace/StakeholdersManagement';
@@ -226,6 +227,7 @@ const ProjectOverview = () => {
                   <Edit3 className="h-4 w-4 mr-2" />
                   Edit Project
                 </Button>
+                <SaveAsTemplateDialog projectId={project.id} projectName={project.name} />
                 <AlertDialog>
                   <AlertDialogTrigger asChild>
                     <Button variant="outline" className="w-full sm:w-auto text-status-error border-status-error hover:bg-status-error hover:text-white">
@@ -5,6 +5,461 @@ export interface ApiResponse<T = any> {
   data?: T;
   error?: string;
   code?: string;
+  details?: any;
+  pagination?: { total: number; limit: number; offset: number };
+}
+
+export interface AuditLogFilters {
+  userId?: string;
+  module?: string;
+  action?: string;
+  accessType?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const toQueryString = (params: Record<string, string | number | undefined>): string => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  });
+  const text = query.toString();
+  return text ? `?${text}` : '';
+};
+
+export interface Department {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  memberCount: number;
+  projectCount: number;
+}
+
+export interface DepartmentMember {
+  id: string;
+  email: string;
+  role: string;
+}
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  source_project_id: string | null;
+  department_id: string | null;
+  duration_days: number | null;
+  content: {
+    milestones: { key: string; name: string; offsetDays: number }[];
+    tasks: { title: string; milestoneKey: string | null }[];
+    risks: { title: string }[];
+    budget: { currency: string; categories: { name: string; allocationPercent: number }[] } | null;
+    retro: { framework: string } | null;
+  };
+  created_by: string;
+  created_at: string;
+}
+
+export interface InstantiateProjectRequest {
+  name: string;
+  description?: string;
+  startDate: string;
+  budgetTotal?: number;
+}
+
+export interface JiraFieldMapping {
+  statusMapping: Record<string, string>;
+  priorityMapping: Record<string, string>;
+  issueType: string;
+  fields: {
+    description: string | null;
+    due_date: string | null;
+    owner: string | null;
+    milestone: 'fixVersion' | 'epic' | null;
+    epicLinkField: string | null;
+  };
+}
+
+export interface JiraProjectMetadata {
+  issueTypes: { id: string; name: string }[];
+  statuses: string[];
+  priorities: string[];
+  fields: { id: string; name: string; custom: boolean; schema?: { type: string; custom?: string } }[];
+}
+
+export type CapacitySource = 'weekly_availability' | 'team_defaults' | 'capacity_members' | 'none';
+
+export interface MemberWeekCapacity {
+  team_member_id: string;
+  display_name: string;
+  work_mode: string;
+  availability_percent: number;
+  leaves: number;
+  holidays: number;
+  days_total: number;
+  days_present: number;
+  available_days: number;
+  effective_capacity: number;
+}
+
+export interface IterationCapacity {
+  iteration_id: string;
+  iteration_name: string;
+  team_id: string | null;
+  start_date: string;
+  end_date: string;
+  focus_factor: number;
+  points_per_day: number;
+  source: CapacitySource;
+  total_days: number;
+  available_days: number;
+  effective_capacity: number;
+  effective_points: number;
+  availability_percent: number;
+  weeks: {
+    id: string | null;
+    week_index: number;
+    week_start: string;
+    week_end: string;
+    working_days: number;
+    available_days: number;
+    effective_capacity: number;
+    availability_percent: number;
+    capacity_percent: number;
+    members: MemberWeekCapacity[];
+  }[];
+  members: (Omit<MemberWeekCapacity, 'days_total' | 'days_present'> & { focus_factor: number; days_total: number; days_present: number })[];
+  work_mode_distribution: Record<string, number>;
+}
+
+export interface SprintBacklogItem {
+  id: string;
+  title: string;
+  priority: string | null;
+  status: string;
+  owner_id: string | null;
+  story_points: number | null;
+  iteration_id: string | null;
+}
+
+export interface SprintPlan {
+  iteration: {
+    id: string;
+    iteration_name: string;
+    start_date: string;
+    end_date: string;
+    team_id: string | null;
+    committed_story_points: number | null;
+    points_per_day: string;
+  };
+  team: { id: string; name: string } | null;
+  capacity: { days: number; points: number; source: CapacitySource };
+  committedPoints: number;
+  remainingPoints: number;
+  loadPercent: number | null;
+  overcommitted: boolean;
+  warning: string | null;
+  items: SprintBacklogItem[];
+  tasks: { id: string; title: string; status: string; story_points: number | null }[];
+  unestimated: number;
+}
+
+export interface HolidayCalendar {
+  id: string;
+  name: string;
+  region: string | null;
+  description: string | null;
+  holidayCount: number;
+  teamCount: number;
+  created_at: string;
+}
+
+export interface Holiday {
+  id: string;
+  calendar_id: string;
+  date: string;
+  name: string;
+  source_uid: string | null;
+}
+
+export interface IcsImportResult {
+  imported: number;
+  updated: number;
+  skipped: { summary: string; reason: string }[];
+}
+
+export type ForecastStatus = 'complete' | 'on_track' | 'at_risk' | 'late' | 'no_target' | 'unknown';
+
+export interface ForecastOutcome {
+  remaining: number;
+  weeks: { p50: number | null; p85: number | null; p95: number | null };
+  dates: { p50: string | null; p85: string | null; p95: string | null };
+  targetDate: string | null;
+  onTimeProbability: number | null;
+  status: ForecastStatus;
+}
+
+export interface DeliveryForecast {
+  unit: 'tasks' | 'points';
+  trials: number;
+  history: { weeks: number; averageThroughput: number; samples: { weekStart: string; throughput: number }[] };
+  unestimatedTasks: number;
+  unassignedRemaining: number;
+  project: ForecastOutcome;
+  milestones: (ForecastOutcome & { milestoneId: string; name: string })[];
+  chart: { week: number; date: string; probability: number; cumulative: number }[];
+  warning: string | null;
+}
+
+export interface CumulativeFlow {
+  statuses: string[];
+  days: { date: string; source: 'snapshot' | 'history'; counts: Record<string, number>; points: Record<string, number> }[];
+}
+
+export interface BurnValue {
+  tasks: number;
+  points: number;
+}
+
+export interface BurnChart {
+  scope: 'iteration' | 'milestone';
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  days: { date: string; source: 'snapshot' | 'history' | null; scope: BurnValue | null; completed: BurnValue | null; remaining: BurnValue | null; ideal: BurnValue }[];
+  scopeChanges: ({ date: string } & BurnValue)[];
+}
+
+export type ScheduleNodeType = 'task' | 'milestone';
+export type DependencyType = 'finish_to_start' | 'start_to_start' | 'finish_to_finish' | 'start_to_finish';
+
+export interface TaskDependency {
+  id: string;
+  project_id: string;
+  predecessor_type: ScheduleNodeType;
+  predecessor_id: string;
+  successor_type: ScheduleNodeType;
+  successor_id: string;
+  type: DependencyType;
+  lag_days: number;
+  created_at: string;
+}
+
+export interface ScheduleNode {
+  key: string;
+  type: ScheduleNodeType;
+  id: string;
+  name: string;
+  status: string;
+  plannedStart: string;
+  plannedFinish: string;
+  start: string;
+  finish: string;
+  slipDays: number;
+  floatDays: number | null;
+  critical: boolean;
+  overdue: boolean;
+}
+
+export interface ScheduleLink {
+  id: string | null;
+  predecessor: string;
+  successor: string;
+  type: DependencyType;
+  lagDays: number;
+  implicit: boolean;
+  critical: boolean;
+}
+
+export interface MilestoneSlip {
+  milestoneId: string;
+  name: string;
+  dueDate: string;
+  projectedDate: string;
+  delayDays: number;
+  chain: { key: string; name: string; slipDays: number }[];
+}
+
+export interface ProjectSchedule {
+  nodes: ScheduleNode[];
+  links: ScheduleLink[];
+  criticalPath: string[];
+  projectedFinish: string | null;
+  projectEndDate: string | null;
+  milestoneSlips: MilestoneSlip[];
+}
+
+export interface RescheduleChange {
+  type: ScheduleNodeType;
+  id: string;
+  startDate?: string;
+  dueDate?: string;
+}
+
+export interface RescheduleItem {
+  key: string;
+  type: ScheduleNodeType;
+  id: string;
+  name: string;
+  from: { start: string | null; due: string | null };
+  to: { start: string | null; due: string };
+  shiftDays: number;
+  cause: 'moved' | 'dependency';
+  drivenBy: string | null;
+}
+
+export interface ReschedulePreview {
+  items: RescheduleItem[];
+  warnings: string[];
+}
+
+export type RetroPhase = 'write' | 'group' | 'vote' | 'discuss' | 'closed';
+
+export interface RetroFacilitation {
+  phase: RetroPhase;
+  facilitatorId: string | null;
+  voteBudget: number;
+  timerEndsAt: string | null;
+  serverTime: string;
+}
+
+export interface RetroVoting {
+  budget: number;
+  used: number;
+  remaining: number;
+  cardIds: string[];
+}
+
+export interface RetroFacilitationUpdate {
+  phase?: RetroPhase;
+  voteBudget?: number;
+  timerSeconds?: number | null;
+  facilitatorId?: string;
+}
+
+export interface RetroParticipant {
+  userId: string;
+  name: string;
+}
+
+export interface RetroFrameworkColumn {
+  title: string;
+  subtitle: string | null;
+  color: string | null;
+  prompts: string[];
+}
+
+export interface RetroFramework {
+  key: string;
+  name: string;
+  description: string | null;
+  scope: 'built_in' | 'organisation' | 'project';
+  columns: RetroFrameworkColumn[];
+  editable: boolean;
+}
+
+export interface RetroFrameworkInput {
+  name: string;
+  description?: string | null;
+  scope?: 'organisation' | 'project';
+  columns: RetroFrameworkColumn[];
+}
+
+export type RetroActionItemStatus = 'open' | 'in_progress' | 'done' | 'carried_over' | 'dropped';
+
+export interface RetroActionItem {
+  id: string;
+  retrospective_id: string;
+  what_task: string;
+  when_sprint: string | null;
+  who_responsible: string | null;
+  how_approach: string | null;
+  from_card_id: string | null;
+  backlog_ref_id: string | null;
+  converted_to_task: boolean | null;
+  status: RetroActionItemStatus;
+  completed_at: string | null;
+  carried_from_id: string | null;
+  created_at: string;
+}
+
+export interface RetroCarryOver {
+  previous: { id: string; iteration_id: string | null; created_at: string } | null;
+  items: (RetroActionItem & { retrospective: { id: string; iteration_id: string | null; created_at: string } })[];
+}
+
+export interface RetroFollowThrough {
+  totals: { raised: number; completed: number; open: number; dropped: number; carriedOver: number; converted: number; completionRate: number };
+  byStatus: Array<{ status: string; count: number; percentage: number }>;
+  retrospectives: Array<{
+    retrospectiveId: string;
+    label: string;
+    createdAt: string;
+    raised: number;
+    carriedIn: number;
+    completed: number;
+    open: number;
+    dropped: number;
+    converted: number;
+    completionRate: number;
+  }>;
+}
+
+// A board column as sent when editing a retro; columns without an id are added
+export interface RetroColumnInput extends RetroFrameworkColumn {
+  id?: string;
+}
+
+// Pushed over a retrospective's live socket; origin is the client id of the tab that made the change
+export type RetroEvent = (
+  | { type: 'card_created'; card: any }
+  | { type: 'card_updated'; card: any }
+  | { type: 'card_moved'; cardId: string; columnId: string }
+  | { type: 'card_deleted'; cardId: string }
+  | { type: 'vote_changed'; cardId: string; votes: number; userId: string; voted: boolean }
+  | { type: 'action_item_created'; actionItem: any }
+  | { type: 'action_item_updated'; actionItem: any }
+  | { type: 'cards_grouped'; cards: any[] }
+  | { type: 'columns_updated'; columns: any[] }
+  | { type: 'retro_updated'; state: RetroFacilitation }
+) & { origin: string | null };
+
+export type RetroSocketMessage = RetroEvent | { type: 'presence'; participants: RetroParticipant[] };
+
+export interface RiskScoreHistoryEntry {
+  id: string;
+  risk_id: string;
+  likelihood: number | null;
+  impact: number | null;
+  risk_score: number | null;
+  residual_likelihood: number | null;
+  residual_impact: number | null;
+  residual_risk_score: number | null;
+  status: string | null;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+export interface RiskTrendPoint {
+  date: string;
+  open: number;
+  high: number; // open risks scoring above 12
+  inherent: number;
+  residual: number;
+}
+
+export interface RoadmapTimeline {
+  start: string | null;
+  end: string | null;
+  currentDate: string;
+  projectedFinish: string | null;
+  projectEndDate: string | null;
+  criticalPath: string[];
+  links: ScheduleLink[];
+  milestoneSlips: MilestoneSlip[];
 }
 
 class ApiClient {
@@ -36,6 +491,11 @@ class ApiClient {
 
   private isLocalBackend: boolean;
 
+  // Identifies this tab to live channels, so it can skip the echo of its own changes
+  readonly clientId: string = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
   private async getAuthToken(): Promise<string | null> {
     try {
       // Always use local storage for Replit backend
@@ -81,6 +541,7 @@ class ApiClient {
         
         const headers = {
           'Content-Type': 'application/json',
+          'X-Client-Id': this.clientId,
           ...(authToken ? { 'Authorization': `Bearer ${authToken}` } : {}),
           ...options.headers,
         } as Record<string, string>;
@@ -404,7 +865,7 @@ class ApiClient {
     return this.makeRequest('/retro-service/stats', { method: 'GET' });
   }
   // Roadmap Service Methods  
-  async getRoadmap(projectId: string): Promise<ApiResponse<{ projectId: string; milestones: any[] }>> {
+  async getRoadmap(projectId: string): Promise<ApiResponse<{ tasks: any[]; milestones: any[]; timeline: RoadmapTimeline }>> {
     return this.makeRequest(`/roadmap-service/projects/${projectId}/roadmap`, { method: 'GET' });
   }
 
@@ -462,6 +923,7 @@ class ApiClient {
     ownerId?: string;
     targetDate?: string;
     sourceType?: string;
+    storyPoints?: number;
   }): Promise<ApiResponse<{ message: string; item: any }>> {
     return this.makeRequest(`/backlog-service/projects/${projectId}/backlog`, {
       method: 'POST',
@@ -476,6 +938,7 @@ class ApiClient {
     status?: 'backlog' | 'in_progress' | 'blocked' | 'done';
     ownerId?: string;
     targetDate?: string;
+    storyPoints?: number | null;
   }): Promise<ApiResponse<{ message: string; item: any }>> {
     return this.makeRequest(`/backlog-service/projects/${projectId}/backlog/${itemId}`, {
       method: 'PUT',
@@ -495,6 +958,25 @@ class ApiClient {
       body: JSON.stringify({ milestoneId }),
     });
   }
+
+  // Sprint Planning Methods
+  async getSprintPlan(projectId: string, iterationId: string): Promise<ApiResponse<SprintPlan>> {
+    return this.makeRequest(`/sprint-planning-service/projects/${projectId}/iterations/${iterationId}/plan`, { method: 'GET' });
+  }
+
+  async planBacklogItems(projectId: string, iterationId: string, itemIds: string[], teamId?: string): Promise<ApiResponse<SprintPlan>> {
+    return this.makeRequest(`/sprint-planning-service/projects/${projectId}/iterations/${iterationId}/items`, {
+      method: 'POST',
+      body: JSON.stringify({ itemIds, teamId }),
+    });
+  }
+
+  async unplanBacklogItem(projectId: string, iterationId: string, itemId: string): Promise<ApiResponse<SprintPlan>> {
+    return this.makeRequest(`/sprint-planning-service/projects/${projectId}/iterations/${iterationId}/items/${itemId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Stakeholders Service Methods
   async getStakeholders(projectId: string): Promise<ApiResponse<any[]>> {
     return this.makeRequest(`/stakeholder-service/projects/${projectId}/stakeholders`, { method: 'GET' });
@@ -521,8 +1003,8 @@ class ApiClient {
   }
 
   // Audit Service Methods
-  async getProjectHistory(projectId: string): Promise<ApiResponse<any[]>> {
-    return this.makeRequest(`/audit-service/projects/${projectId}/history`, { method: 'GET' });
+  async getProjectHistory(projectId: string, filters: AuditLogFilters = {}): Promise<ApiResponse<any[]>> {
+    return this.makeRequest(`/audit-service/projects/${projectId}/history${toQueryString({ ...filters })}`, { method: 'GET' });
   }
 
   async writeAuditLog(data: { projectId: string; module: string; action: string; entity_type?: string; entity_id?: string; old_values?: any; new_values?: any; description?: string; }): Promise<ApiResponse<{ message: string; entry: any }>> {
@@ -557,10 +1039,17 @@ class ApiClient {
     return this.makeRequest(`/department-service/departments`, { method: 'GET' });
   }
 
-  async createDepartment(name: string): Promise<ApiResponse<{ message: string; department: any }>> {
+  async createDepartment(name: string, description?: string): Promise<ApiResponse<{ message: string; department: Department }>> {
     return this.makeRequest(`/department-service/departments`, {
       method: 'POST',
-      body: JSON.stringify({ name }),
+      body: JSON.stringify({ name, description }),
+    });
+  }
+
+  async updateDepartment(departmentId: string, data: { name?: string; description?: string | null }): Promise<ApiResponse<Department>> {
+    return this.makeRequest(`/department-service/departments/${departmentId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
     });
   }
 
@@ -570,6 +1059,23 @@ class ApiClient {
     });
   }
 
+  async getDepartmentMembers(departmentId: string): Promise<ApiResponse<DepartmentMember[]>> {
+    return this.makeRequest(`/department-service/departments/${departmentId}/members`, { method: 'GET' });
+  }
+
+  async addDepartmentMember(departmentId: string, email: string): Promise<ApiResponse<DepartmentMember>> {
+    return this.makeRequest(`/department-service/departments/${departmentId}/members`, {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async removeDepartmentMember(departmentId: string, userId: string): Promise<ApiResponse<{ message: string }>> {
+    return this.makeRequest(`/department-service/departments/${departmentId}/members/${userId}`, {
+      method: 'DELETE'
+    });
+  }
+
   // User Service Methods
   async getUserRole(userId: string): Promise<ApiResponse<{ role: string | null }>> {
     return this.makeRequest(`/auth-service/users/${userId}/role`, { method: 'GET' });
@@ -580,6 +1086,10 @@ class ApiClient {
     return this.makeRequest(`/access-service/projects/${projectId}/access`, { method: 'GET' });
   }
 
+  async getProjectPermissionGrants(projectId: string): Promise<ApiResponse<any[]>> {
+    return this.makeRequest(`/access-service/projects/${projectId}/permissions`, { method: 'GET' });
+  }
+
   async grantModulePermission(data: { projectId: string; userEmail: string; module: string; accessLevel: string }): Promise<ApiResponse<{ message: string; permission: any }>> {
     return this.makeRequest(`/access-service/permissions/grant`, {
       method: 'POST',
@@ -594,8 +1104,24 @@ class ApiClient {
   }
 
   // Audit Service Methods (additional)
-  async getAuditLog(projectId: string): Promise<ApiResponse<any[]>> {
-    return this.makeRequest(`/audit-service/projects/${projectId}/logs`, { method: 'GET' });
+  async getAuditLog(projectId: string, filters: AuditLogFilters = {}): Promise<ApiResponse<any[]>> {
+    return this.makeRequest(`/audit-service/projects/${projectId}/logs${toQueryString({ ...filters })}`, { method: 'GET' });
+  }
+
+  // CSV export is returned as a file, so it bypasses the JSON handling in makeRequest
+  async exportAuditLog(projectId: string, filters: AuditLogFilters = {}): Promise<Blob> {
+    const token = await this.getAuthToken();
+    const { limit, offset, ...exportFilters } = filters;
+    const response = await fetch(`${this.baseUrl}/audit-service/projects/${projectId}/logs/export${toQueryString({ ...exportFilters })}`, {
+      headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+    });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => null);
+      throw new Error(result?.error || 'Failed to export audit log');
+    }
+
+    return response.blob();
   }
 
   // Dashboard & User Methods
@@ -657,9 +1183,13 @@ class ApiClient {
       description: data.description,
       status: data.status,
       priority: data.priority,
+      start_date: data.startDate ?? data.start_date,
       due_date: data.dueDate || data.due_date, // Backend expects snake_case
       owner_id: data.ownerId || data.owner_id,  // Backend expects snake_case
-      milestone_id: data.milestoneId || data.milestone_id // Backend expects snake_case
+      milestone_id: data.milestoneId || data.milestone_id, // Backend expects snake_case
+      story_points: data.storyPoints ?? data.story_points,
+      estimate_hours: data.estimateHours ?? data.estimate_hours,
+      notes: data.notes // Recorded in the status history when the status changes
     };
 
     return this.makeRequest(`/workspace-service/tasks/${taskId}`, {
@@ -668,6 +1198,48 @@ class ApiClient {
     });
   }
 
+  // Task dependencies and the schedule they produce
+  async getTaskDependencies(projectId: string): Promise<ApiResponse<TaskDependency[]>> {
+    return this.makeRequest(`/workspace-service/projects/${projectId}/dependencies`);
+  }
+
+  async createTaskDependency(projectId: string, data: {
+    predecessorType: ScheduleNodeType;
+    predecessorId: string;
+    successorType: ScheduleNodeType;
+    successorId: string;
+    type?: DependencyType;
+    lagDays?: number;
+  }): Promise<ApiResponse<TaskDependency>> {
+    return this.makeRequest(`/workspace-service/projects/${projectId}/dependencies`, {
+      method: 'POST',
+      body: JSON.stringify(data)
+    });
+  }
+
+  async deleteTaskDependency(projectId: string, dependencyId: string): Promise<ApiResponse<{ message: string }>> {
+    return this.makeRequest(`/workspace-service/projects/${projectId}/dependencies/${dependencyId}`, { method: 'DELETE' });
+  }
+
+  async getProjectSchedule(projectId: string): Promise<ApiResponse<ProjectSchedule>> {
+    return this.makeRequest(`/workspace-service/projects/${projectId}/schedule`);
+  }
+
+  // Dragging bars on the timeline: preview the cascade first, then apply it in one go
+  async previewReschedule(projectId: string, changes: RescheduleChange[]): Promise<ApiResponse<ReschedulePreview>> {
+    return this.makeRequest(`/workspace-service/projects/${projectId}/reschedule/preview`, {
+      method: 'POST',
+      body: JSON.stringify({ changes })
+    });
+  }
+
+  async applyReschedule(projectId: string, changes: RescheduleChange[]): Promise<ApiResponse<ReschedulePreview>> {
+    return this.makeRequest(`/workspace-service/projects/${projectId}/reschedule`, {
+      method: 'POST',
+      body: JSON.stringify({ changes })
+    });
+  }
+
   async getTaskStatusHistoryLegacy(taskId: string): Promise<ApiResponse<any[]>> {
     return this.makeRequest(`/workspace-service/tasks/${taskId}/history`);
   }
@@ -737,6 +1309,10 @@ class ApiClient {
     });
   }
 
+  async getRiskHistory(projectId: string, riskId: string): Promise<ApiResponse<RiskScoreHistoryEntry[]>> {
+    return this.makeRequest(`/workspace-service/projects/${projectId}/risks/${riskId}/history`, { method: 'GET' });
+  }
+
   // Action Items Methods (workspace service) - extended
   async updateActionItem(projectId: string, actionItemId: string, actionItemData: any): Promise<ApiResponse<{ message: string; actionItem: any }>> {
     return this.makeRequest(`/workspace-service/projects/${projectId}/action-items/${actionItemId}`, {
@@ -760,9 +1336,12 @@ class ApiClient {
           description: taskData.description ?? null,
           status: taskData.status,
           priority: taskData.priority,
+          startDate: taskData.start_date ?? taskData.startDate ?? null,
           dueDate: taskData.due_date ?? taskData.dueDate ?? null,
           ownerId: taskData.owner_id ?? taskData.ownerId ?? null,
           milestoneId: taskData.milestone_id ?? taskData.milestoneId ?? null,
+          storyPoints: taskData.story_points ?? taskData.storyPoints ?? null,
+          estimateHours: taskData.estimate_hours ?? taskData.estimateHours ?? null,
         }
       : taskData;
 
@@ -903,7 +1482,7 @@ class ApiClient {
     return this.makeRequest(`/retro-service/projects/${projectId}/retrospectives`, { method: 'GET' });
   }
 
-  async createRetrospective(projectId: string, retroData: { framework: string; iterationName?: string }): Promise<ApiResponse<{ message: string; retrospective: any }>> {
+  async createRetrospective(projectId: string, retroData: { framework: string; iterationName?: string; teamId?: string | null }): Promise<ApiResponse<{ message: string; retrospective: any }>> {
     return this.makeRequest(`/retro-service/projects/${projectId}/retrospectives`, {
       method: 'POST',
       body: JSON.stringify(retroData),
@@ -938,13 +1517,13 @@ class ApiClient {
     });
   }
 
-  async voteCard(cardId: string): Promise<ApiResponse<{ message: string; vote: any }>> {
+  async voteCard(cardId: string): Promise<ApiResponse<{ message: string; votes: number; voted: boolean; remaining: number }>> {
     return this.makeRequest(`/retro-service/cards/${cardId}/vote`, {
       method: 'POST',
     });
   }
 
-  async unvoteCard(cardId: string): Promise<ApiResponse<{ message: string }>> {
+  async unvoteCard(cardId: string): Promise<ApiResponse<{ message: string; votes: number; voted: boolean; remaining: number }>> {
     return this.makeRequest(`/retro-service/cards/${cardId}/unvote`, {
       method: 'DELETE',
     });
@@ -961,7 +1540,7 @@ class ApiClient {
   }
 
   // Alias methods for component compatibility
-  async voteOnRetrospectiveCard(cardId: string): Promise<ApiResponse<{ message: string }>> {
+  async voteOnRetrospectiveCard(cardId: string): Promise<ApiResponse<{ message: string; votes: number; voted: boolean; remaining: number }>> {
     return this.voteCard(cardId);
   }
 
@@ -972,24 +1551,103 @@ class ApiClient {
     });
   }
 
-  async getRetrospectiveActionItems(retrospectiveId: string): Promise<ApiResponse<any[]>> {
+  async groupRetrospectiveCard(cardId: string, groupId: string | null): Promise<ApiResponse<{ cards: any[] }>> {
+    return this.makeRequest(`/retro-service/cards/${cardId}/group`, {
+      method: 'PUT',
+      body: JSON.stringify({ group_id: groupId }),
+    });
+  }
+
+  async getMyRetrospectiveVotes(retrospectiveId: string): Promise<ApiResponse<RetroVoting>> {
+    return this.makeRequest(`/retro-service/retrospectives/${retrospectiveId}/votes/mine`, { method: 'GET' });
+  }
+
+  async updateRetrospectiveFacilitation(retrospectiveId: string, update: RetroFacilitationUpdate): Promise<ApiResponse<RetroFacilitation>> {
+    return this.makeRequest(`/retro-service/retrospectives/${retrospectiveId}/facilitation`, {
+      method: 'PUT',
+      body: JSON.stringify(update),
+    });
+  }
+
+  async updateRetrospectiveColumns(retrospectiveId: string, columns: RetroColumnInput[]): Promise<ApiResponse<any[]>> {
+    return this.makeRequest(`/retro-service/retrospectives/${retrospectiveId}/columns`, {
+      method: 'PUT',
+      body: JSON.stringify({ columns }),
+    });
+  }
+
+  async getRetroFrameworks(projectId: string): Promise<ApiResponse<RetroFramework[]>> {
+    return this.makeRequest(`/retro-service/projects/${projectId}/frameworks`, { method: 'GET' });
+  }
+
+  async createRetroFramework(projectId: string, framework: RetroFrameworkInput): Promise<ApiResponse<RetroFramework>> {
+    return this.makeRequest(`/retro-service/projects/${projectId}/frameworks`, {
+      method: 'POST',
+      body: JSON.stringify(framework),
+    });
+  }
+
+  async updateRetroFramework(projectId: string, frameworkId: string, framework: Partial<RetroFrameworkInput>): Promise<ApiResponse<RetroFramework>> {
+    return this.makeRequest(`/retro-service/projects/${projectId}/frameworks/${frameworkId}`, {
+      method: 'PUT',
+      body: JSON.stringify(framework),
+    });
+  }
+
+  async deleteRetroFramework(projectId: string, frameworkId: string): Promise<ApiResponse<{ message: string }>> {
+    return this.makeRequest(`/retro-service/projects/${projectId}/frameworks/${frameworkId}`, { method: 'DELETE' });
+  }
+
+  // WebSocket address of a retrospective's live channel; null when signed out
+  async getRetrospectiveLiveUrl(retrospectiveId: string): Promise<string | null> {
+    const token = await this.getAuthToken();
+    if (!token) return null;
+    const base = new URL(this.baseUrl, window.location.origin);
+    base.protocol = base.protocol === 'https:' ? 'wss:' : 'ws:';
+    const query = toQueryString({ token, clientId: this.clientId });
+    return `${base.toString().replace(/\/$/, '')}/retro-service/retrospectives/${retrospectiveId}/live${query}`;
+  }
+
+  async getRetrospectiveActionItems(retrospectiveId: string): Promise<ApiResponse<RetroActionItem[]>> {
     return this.makeRequest(`/retro-service/retrospectives/${retrospectiveId}/action-items`, { method: 'GET' });
   }
 
-  async createRetrospectiveActionItem(retrospectiveId: string, actionItemData: any): Promise<ApiResponse<{ message: string; actionItem: any }>> {
+  async createRetrospectiveActionItem(retrospectiveId: string, actionItemData: any): Promise<ApiResponse<{ message: string; actionItem: RetroActionItem }>> {
     return this.makeRequest(`/retro-service/retrospectives/${retrospectiveId}/action-items`, {
       method: 'POST',
       body: JSON.stringify(actionItemData),
     });
   }
 
+  async convertRetrospectiveActionItem(actionItemId: string, ownerId?: string | null): Promise<ApiResponse<{ message: string; actionItem: RetroActionItem }>> {
+    return this.makeRequest(`/retro-service/action-items/${actionItemId}/convert`, {
+      method: 'POST',
+      body: JSON.stringify({ ownerId }),
+    });
+  }
+
+  async getRetrospectiveCarryOver(retrospectiveId: string): Promise<ApiResponse<RetroCarryOver>> {
+    return this.makeRequest(`/retro-service/retrospectives/${retrospectiveId}/carry-over`, { method: 'GET' });
+  }
+
+  async carryOverRetrospectiveActions(retrospectiveId: string, actionItemIds: string[]): Promise<ApiResponse<RetroActionItem[]>> {
+    return this.makeRequest(`/retro-service/retrospectives/${retrospectiveId}/carry-over`, {
+      method: 'POST',
+      body: JSON.stringify({ actionItemIds }),
+    });
+  }
+
+  async getRetroActionFollowThrough(projectId: string): Promise<ApiResponse<RetroFollowThrough>> {
+    return this.makeRequest(`/retro-service/projects/${projectId}/action-items/follow-through`, { method: 'GET' });
+  }
+
   async deleteRetrospective(retrospectiveId: string): Promise<ApiResponse<{ message: string }>> {
     return this.makeRequest(`/retro-service/${retrospectiveId}`, {
       method: 'DELETE',
     });
   }
 
-  async updateRetrospectiveActionItem(actionItemId: string, actionItemData: any): Promise<ApiResponse<{ message: string; actionItem: any }>> {
+  async updateRetrospectiveActionItem(actionItemId: string, actionItemData: Partial<Pick<RetroActionItem, 'what_task' | 'when_sprint' | 'who_responsible' | 'how_approach' | 'status'>>): Promise<ApiResponse<{ message: string; actionItem: RetroActionItem }>> {
     return this.makeRequest(`/retro-service/action-items/${actionItemId}`, {
       method: 'PUT',
       body: JSON.stringify(actionItemData),
@@ -1008,10 +1666,11 @@ class ApiClient {
     objective: string;
     startDate: string;
     endDate: string;
+    businessValue?: string;
     tasks: any[];
     milestones: any[];
     inviteEmails: string[];
-  }): Promise<ApiResponse<{ project: any; message: string }>> {
+  }): Promise<ApiResponse<{ project: any; message: string; pendingInvites: string[] }>> {
     // Send both `name` and `projectName` for compatibility with local backend and edge functions
     const payload = {
       name: projectData.projectName,
@@ -1019,6 +1678,7 @@ class ApiClient {
       objective: projectData.objective,
       startDate: projectData.startDate,
       endDate: projectData.endDate,
+      businessValue: projectData.businessValue,
       tasks: projectData.tasks,
       milestones: (projectData.milestones || []).map((m: any) => ({
         ...m,
@@ -1034,6 +1694,110 @@ class ApiClient {
     });
   }
 
+  // ========================
+  // Project Templates
+  // ========================
+
+  async getProjectTemplates(): Promise<ApiResponse<ProjectTemplate[]>> {
+    return this.makeRequest('/template-service/templates', { method: 'GET' });
+  }
+
+  async saveProjectAsTemplate(projectId: string, data: { name: string; description?: string }): Promise<ApiResponse<ProjectTemplate>> {
+    return this.makeRequest(`/template-service/projects/${projectId}/templates`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteProjectTemplate(templateId: string): Promise<ApiResponse<{ message: string }>> {
+    return this.makeRequest(`/template-service/templates/${templateId}`, { method: 'DELETE' });
+  }
+
+  async createProjectFromTemplate(templateId: string, data: InstantiateProjectRequest): Promise<ApiResponse<{ project: any; message: string }>> {
+    return this.makeRequest(`/template-service/templates/${templateId}/projects`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async cloneProject(projectId: string, data: InstantiateProjectRequest): Promise<ApiResponse<{ project: any; message: string }>> {
+    return this.makeRequest(`/projects-service/projects/${projectId}/clone`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // ========================
+  // Holiday Calendars
+  // ========================
+
+  async getHolidayCalendars(): Promise<ApiResponse<HolidayCalendar[]>> {
+    return this.makeRequest('/holiday-service/calendars', { method: 'GET' });
+  }
+
+  async createHolidayCalendar(data: { name: string; region?: string; description?: string }): Promise<ApiResponse<HolidayCalendar>> {
+    return this.makeRequest('/holiday-service/calendars', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteHolidayCalendar(calendarId: string): Promise<ApiResponse<{ message: string }>> {
+    return this.makeRequest(`/holiday-service/calendars/${calendarId}`, { method: 'DELETE' });
+  }
+
+  async getHolidays(calendarId: string, year?: number): Promise<ApiResponse<Holiday[]>> {
+    return this.makeRequest(`/holiday-service/calendars/${calendarId}/holidays${toQueryString({ year })}`, { method: 'GET' });
+  }
+
+  async addHoliday(calendarId: string, data: { date: string; name: string }): Promise<ApiResponse<Holiday>> {
+    return this.makeRequest(`/holiday-service/calendars/${calendarId}/holidays`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async removeHoliday(calendarId: string, holidayId: string): Promise<ApiResponse<{ message: string }>> {
+    return this.makeRequest(`/holiday-service/calendars/${calendarId}/holidays/${holidayId}`, { method: 'DELETE' });
+  }
+
+  // The file is uploaded as multipart form data, so it bypasses the JSON handling in makeRequest
+  async importHolidayCalendar(calendarId: string, file: File): Promise<ApiResponse<IcsImportResult>> {
+    const token = await this.getAuthToken();
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await fetch(`${this.baseUrl}/holiday-service/calendars/${calendarId}/import`, {
+      method: 'POST',
+      headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+      body: formData,
+    });
+
+    const result = await response.json().catch(() => null);
+    if (!response.ok) {
+      return { success: false, error: result?.error || 'Failed to import holidays' };
+    }
+    return result;
+  }
+
+  async assignTeamHolidayCalendar(teamId: string, calendarId: string | null): Promise<ApiResponse<{ message: string }>> {
+    return this.makeRequest(`/capacity-service/teams/${teamId}/holiday-calendar`, {
+      method: 'PUT',
+      body: JSON.stringify({ calendarId }),
+    });
+  }
+
+  async assignMemberHolidayCalendar(teamId: string, memberId: string, calendarId: string | null): Promise<ApiResponse<{ message: string }>> {
+    return this.makeRequest(`/capacity-service/teams/${teamId}/members/${memberId}/holiday-calendar`, {
+      method: 'PUT',
+      body: JSON.stringify({ calendarId }),
+    });
+  }
+
+  // Weekdays between two dates, less the team's holidays when a team is given
+  async getWorkingDays(startDate: string, endDate: string, teamId?: string): Promise<ApiResponse<{ startDate: string; endDate: string; teamId: string | null; workingDays: number }>> {
+    return this.makeRequest(`/capacity-service/working-days${toQueryString({ startDate, endDate, teamId })}`, { method: 'GET' });
+  }
+
   // ========================
   // Team Management
   // ========================
@@ -1093,11 +1857,11 @@ class ApiClient {
   }
 
   // Department service methods
-  async getDepartments(): Promise<ApiResponse<{ departments: any[] }>> {
+  async getDepartments(): Promise<ApiResponse<Department[]>> {
     return this.makeRequest('/department-service/departments', { method: 'GET' });
   }
 
-  async assignUserDepartment(userId: string, departmentId: string): Promise<ApiResponse<{ message: string }>> {
+  async assignUserDepartment(userId: string, departmentId: string | null): Promise<ApiResponse<{ message: string }>> {
     return this.makeRequest(`/auth-service/profiles/${userId}/department`, {
       method: 'PUT',
       body: JSON.stringify({ department_id: departmentId }),
@@ -1182,6 +1946,14 @@ class ApiClient {
     return this.makeRequest(`/capacity-service/iterations/${iterationId}`, { method: 'GET' });
   }
 
+  // Server-calculated capacity; dashboards should read totals from here instead of summing rows
+  async getIterationCapacity(iterationId: string, options: { focusFactor?: number; workModeFactors?: Record<string, number> } = {}): Promise<ApiResponse<IterationCapacity>> {
+    const workModeFactors = options.workModeFactors
+      ? Object.entries(options.workModeFactors).map(([mode, factor]) => `${mode}:${factor}`).join(',')
+      : undefined;
+    return this.makeRequest(`/capacity-service/iterations/${iterationId}${toQueryString({ focusFactor: options.focusFactor, workModeFactors })}`, { method: 'GET' });
+  }
+
   async getWeeklyAvailability(iterationId: string): Promise<ApiResponse<any[]>> {
     // If iterationId is not a UUID (e.g., temp/team identifiers), avoid calling backend
     if (!/^[0-9a-fA-F-]{36}$/.test(iterationId)) {
@@ -1261,6 +2033,11 @@ class ApiClient {
     return this.makeRequest(ep, { method: 'GET' });
   }
 
+  async getPortfolioRiskTrend(weeks?: number): Promise<ApiResponse<RiskTrendPoint[]>> {
+    const query = weeks ? `?weeks=${weeks}` : '';
+    return this.makeRequest(`/analytics/portfolio/risk-trend${query}`, { method: 'GET' });
+  }
+
   async getPortfolioProjects(): Promise<ApiResponse<any>> {
     const ep = this.resolveEndpoint(
       `/projects-service/projects`,
@@ -1338,11 +2115,32 @@ class ApiClient {
     return this.makeRequest(ep, { method: 'GET' });
   }
 
-  // Forecast Engine - Predict completion dates
-  async getForecastAnalytics(projectId: string): Promise<ApiResponse<any>> {
+  // Forecast Engine - Monte Carlo completion dates from historical weekly throughput
+  async getForecastAnalytics(projectId: string, unit: DeliveryForecast['unit'] = 'tasks', weeks?: number): Promise<ApiResponse<DeliveryForecast>> {
+    const query = toQueryString({ projectId, unit, weeks });
+    const ep = this.resolveEndpoint(
+      `/analytics/forecast${query}`,
+      `/analytics/forecast${query}`
+    );
+    return this.makeRequest(ep, { method: 'GET' });
+  }
+
+  // Cumulative Flow - Tasks per status per day
+  async getCumulativeFlow(projectId: string, from?: string, to?: string): Promise<ApiResponse<CumulativeFlow>> {
+    const query = toQueryString({ projectId, from, to });
+    const ep = this.resolveEndpoint(
+      `/analytics/cumulative-flow${query}`,
+      `/analytics/cumulative-flow${query}`
+    );
+    return this.makeRequest(ep, { method: 'GET' });
+  }
+
+  // Burndown / Burnup - For one iteration or milestone
+  async getBurnChart(projectId: string, scope: { iterationId?: string; milestoneId?: string }): Promise<ApiResponse<BurnChart>> {
+    const query = toQueryString({ projectId, ...scope });
     const ep = this.resolveEndpoint(
-      `/analytics/forecast?projectId=${projectId}`,
-      `/analytics/forecast?projectId=${projectId}`
+      `/analytics/burndown${query}`,
+      `/analytics/burndown${query}`
     );
     return this.makeRequest(ep, { method: 'GET' });
   }
@@ -1365,6 +2163,22 @@ class ApiClient {
     return this.makeRequest(ep, { method: 'GET' });
   }
 
+  // Jira field mapping
+  async getJiraMetadata(projectId: string): Promise<ApiResponse<JiraProjectMetadata>> {
+    return this.makeRequest(`/jira-service/projects/${projectId}/metadata`, { method: 'GET' });
+  }
+
+  async getJiraFieldMapping(projectId: string): Promise<ApiResponse<{ mapping: JiraFieldMapping; localStatuses: string[]; localPriorities: string[] }>> {
+    return this.makeRequest(`/jira-service/projects/${projectId}/field-mapping`, { method: 'GET' });
+  }
+
+  async updateJiraFieldMapping(projectId: string, mapping: JiraFieldMapping): Promise<ApiResponse<JiraFieldMapping>> {
+    return this.makeRequest(`/jira-service/projects/${projectId}/field-mapping`, {
+      method: 'PUT',
+      body: JSON.stringify(mapping),
+    });
+  }
+
   // Budget Summary - Burn rate and runway
   async getBudgetSummary(projectId: string): Promise<ApiResponse<any>> {
     const ep = this.resolveEndpoint(
@@ -2,9 +2,17 @@ import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { jiraSyncScheduler } from "./services/jiraSyncScheduler";
+import { flowSnapshotScheduler } from "./services/flowSnapshotScheduler";
+import { riskReviewScheduler } from "./services/riskReviewScheduler";
 
 const app = express();
-app.use(express.json());
+// Keep the raw body around for endpoints that verify payload signatures
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    (req as any).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -57,6 +65,21 @@ app.use((req, res, next) => {
     serveStatic(app);
   }
 
+  // Background Jira sync for integrations with auto_sync enabled
+  if (process.env.JIRA_AUTO_SYNC !== 'false') {
+    jiraSyncScheduler.start();
+  }
+
+  // Daily task counts per status for cumulative flow and burn charts
+  if (process.env.FLOW_SNAPSHOTS !== 'false') {
+    flowSnapshotScheduler.start();
+  }
+
+  // Flags risks past their review date and emails the owners
+  if (process.env.RISK_REVIEW_REMINDERS !== 'false') {
+    riskReviewScheduler.start();
+  }
+
   // ALWAYS serve the app on the port specified in the environment variable PORT
   // Other ports are firewalled. Default to 5000 if not specified.
   // this serves both the API and the client.
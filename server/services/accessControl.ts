@@ -0,0 +1,125 @@
+import { db } from '../db';
+import { projects, projectMembers, users, userRoles, modulePermissions } from '@shared/schema';
+import { eq, and } from 'drizzle-orm';
+
+export type AccessLevel = 'read' | 'write';
+
+export interface ModuleAccess {
+  module: string;
+  access_level: AccessLevel;
+}
+
+export interface ProjectAccess {
+  projectExists: boolean;
+  isOwner: boolean;
+  isAdmin: boolean;
+  permissions: ModuleAccess[];
+}
+
+// Every module a project workspace exposes; mirrors ModuleName on the client
+export const PROJECT_MODULES = [
+  'overview',
+  'tasks_milestones',
+  'roadmap',
+  'kanban',
+  'stakeholders',
+  'risk_register',
+  'discussions',
+  'task_backlog',
+  'team_capacity',
+  'retrospectives',
+  'budget',
+  'access_control',
+  'jira_sync'
+] as const;
+
+// Older access-control screens used shorter module names
+const MODULE_ALIASES: Record<string, string> = {
+  tasks: 'tasks_milestones',
+  risks: 'risk_register',
+  backlog: 'task_backlog',
+  capacity: 'team_capacity',
+  retrospective: 'retrospectives'
+};
+
+export class AccessControlService {
+  // Map a module name (including legacy aliases) to its canonical name, or null if unknown
+  static normalizeModule(module: string): string | null {
+    const canonical = MODULE_ALIASES[module] || module;
+    return (PROJECT_MODULES as readonly string[]).includes(canonical) ? canonical : null;
+  }
+
+  static satisfies(granted: AccessLevel | null | undefined, required: AccessLevel): boolean {
+    if (!granted) return false;
+    return required === 'read' ? true : granted === 'write';
+  }
+
+  // Resolve a user's effective module access for a project.
+  // Admins and the project owner get write on every module, project members and
+  // project coordinators of the project's department get read on every module, and
+  // explicit module_permissions rows raise that level.
+  async resolveProjectAccess(userId: string, projectId: string): Promise<ProjectAccess> {
+    const [project] = await db.select({ created_by: projects.created_by, department_id: projects.department_id })
+      .from(projects)
+      .where(eq(projects.id, projectId))
+      .limit(1);
+
+    if (!project) {
+      return { projectExists: false, isOwner: false, isAdmin: false, permissions: [] };
+    }
+
+    const [user] = await db.select({ role: users.role, department_id: users.department_id }).from(users).where(eq(users.id, userId)).limit(1);
+    const roles = await db.select({ role: userRoles.role }).from(userRoles).where(eq(userRoles.user_id, userId));
+    const roleNames: string[] = roles.map((r: { role: string }) => r.role);
+
+    const isAdmin = user?.role === 'admin' || roleNames.includes('admin');
+    const isOwner = project.created_by === userId;
+
+    if (isAdmin || isOwner) {
+      return {
+        projectExists: true,
+        isOwner,
+        isAdmin,
+        permissions: PROJECT_MODULES.map(module => ({ module, access_level: 'write' as AccessLevel }))
+      };
+    }
+
+    const levels: Record<string, AccessLevel> = {};
+    const sameDepartment = Boolean(project.department_id) && project.department_id === user?.department_id;
+    const [membership] = await db.select({ id: projectMembers.id })
+      .from(projectMembers)
+      .where(and(eq(projectMembers.project_id, projectId), eq(projectMembers.user_id, userId)))
+      .limit(1);
+    if ((roleNames.includes('project_coordinator') && sameDepartment) || membership) {
+      for (const module of PROJECT_MODULES) levels[module] = 'read';
+    }
+
+    const grants = await db.select({ module: modulePermissions.module, access_level: modulePermissions.access_level })
+      .from(modulePermissions)
+      .where(and(eq(modulePermissions.project_id, projectId), eq(modulePermissions.user_id, userId)));
+
+    for (const grant of grants as { module: string; access_level: string }[]) {
+      const module = AccessControlService.normalizeModule(grant.module);
+      if (!module) continue;
+      const level: AccessLevel = grant.access_level === 'write' ? 'write' : 'read';
+      if (level === 'write' || !levels[module]) {
+        levels[module] = level;
+      }
+    }
+
+    return {
+      projectExists: true,
+      isOwner,
+      isAdmin,
+      permissions: Object.entries(levels).map(([module, access_level]) => ({ module, access_level }))
+    };
+  }
+
+  async hasModuleAccess(userId: string, projectId: string, module: string, required: AccessLevel): Promise<boolean> {
+    const access = await this.resolveProjectAccess(userId, projectId);
+    const granted = access.permissions.find(p => p.module === module)?.access_level;
+    return AccessControlService.satisfies(granted, required);
+  }
+}
+
+export const accessControl = new AccessControlService();
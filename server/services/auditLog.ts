@@ -0,0 +1,147 @@
+import { db } from '../db';
+import { moduleAccessAudit, users } from '@shared/schema';
+import { eq, and, gte, lte, desc, count } from 'drizzle-orm';
+
+export type AuditAccessType = 'accessed' | 'denied' | 'mutation';
+export type AuditAction = 'created' | 'updated' | 'deleted';
+
+export interface AccessEvent {
+  userId: string;
+  projectId: string;
+  module: string;
+  accessType: 'accessed' | 'denied';
+  accessLevel: string;
+}
+
+export interface MutationEvent {
+  userId: string;
+  projectId: string | null; // null for the deletion of the project itself
+  module: string;
+  action: AuditAction;
+  entityType: string;
+  entityId?: string | null;
+  description?: string;
+  oldValues?: any;
+  newValues?: any;
+}
+
+export interface AuditQuery {
+  userId?: string;
+  module?: string;
+  action?: string;
+  accessType?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'user_email',
+  'user_id',
+  'module',
+  'access_type',
+  'access_level',
+  'action',
+  'entity_type',
+  'entity_id',
+  'description'
+] as const;
+
+export class AuditLogService {
+  // Audit writes never fail the request that triggered them
+  async logAccess(event: AccessEvent): Promise<void> {
+    try {
+      await db.insert(moduleAccessAudit).values({
+        user_id: event.userId,
+        project_id: event.projectId,
+        module: event.module,
+        access_type: event.accessType,
+        access_level: event.accessLevel
+      });
+    } catch (error) {
+      console.error('Failed to write access audit entry:', error);
+    }
+  }
+
+  async logMutation(event: MutationEvent): Promise<void> {
+    try {
+      await db.insert(moduleAccessAudit).values({
+        user_id: event.userId,
+        project_id: event.projectId,
+        module: event.module,
+        access_type: 'mutation',
+        access_level: 'write',
+        action: event.action,
+        entity_type: event.entityType,
+        entity_id: event.entityId ?? null,
+        description: event.description ?? `${event.action} ${event.entityType.replace(/_/g, ' ')}`,
+        old_values: event.oldValues ?? null,
+        new_values: event.newValues ?? null
+      });
+    } catch (error) {
+      console.error('Failed to write mutation audit entry:', error);
+    }
+  }
+
+  async query(projectId: string, filters: AuditQuery = {}): Promise<{ entries: any[]; total: number; limit: number; offset: number }> {
+    const conditions = [eq(moduleAccessAudit.project_id, projectId)];
+
+    if (filters.userId) conditions.push(eq(moduleAccessAudit.user_id, filters.userId));
+    if (filters.module) conditions.push(eq(moduleAccessAudit.module, filters.module));
+    if (filters.action) conditions.push(eq(moduleAccessAudit.action, filters.action));
+    if (filters.accessType) conditions.push(eq(moduleAccessAudit.access_type, filters.accessType));
+    if (filters.from) conditions.push(gte(moduleAccessAudit.timestamp, filters.from));
+    if (filters.to) conditions.push(lte(moduleAccessAudit.timestamp, filters.to));
+
+    const limit = Math.max(filters.limit ?? 50, 1);
+    const offset = Math.max(filters.offset ?? 0, 0);
+    const where = and(...conditions);
+
+    const [{ total }] = await db.select({ total: count() }).from(moduleAccessAudit).where(where);
+
+    const entries = await db.select({
+      id: moduleAccessAudit.id,
+      user_id: moduleAccessAudit.user_id,
+      user_email: users.email,
+      project_id: moduleAccessAudit.project_id,
+      module: moduleAccessAudit.module,
+      access_type: moduleAccessAudit.access_type,
+      access_level: moduleAccessAudit.access_level,
+      action: moduleAccessAudit.action,
+      entity_type: moduleAccessAudit.entity_type,
+      entity_id: moduleAccessAudit.entity_id,
+      description: moduleAccessAudit.description,
+      old_values: moduleAccessAudit.old_values,
+      new_values: moduleAccessAudit.new_values,
+      created_at: moduleAccessAudit.timestamp
+    })
+      .from(moduleAccessAudit)
+      .leftJoin(users, eq(moduleAccessAudit.user_id, users.id))
+      .where(where)
+      .orderBy(desc(moduleAccessAudit.timestamp))
+      .limit(limit)
+      .offset(offset);
+
+    return { entries, total: Number(total), limit, offset };
+  }
+
+  static toCsv(entries: any[]): string {
+    const escape = (value: unknown): string => {
+      if (value === null || value === undefined) return '';
+      let text = value instanceof Date ? value.toISOString() : String(value);
+      // Keep spreadsheet apps from evaluating cell contents as formulas
+      if (/^[=+\-@]/.test(text)) text = `'${text}`;
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = entries.map(entry =>
+      CSV_COLUMNS.map(column => escape(column === 'timestamp' ? entry.created_at : entry[column])).join(',')
+    );
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+  }
+}
+
+export const auditLog = new AuditLogService();
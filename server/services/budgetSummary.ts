@@ -0,0 +1,173 @@
+import { db } from '../db';
+import { projectBudgets, budgetCategories, budgetSpending, budgetReceipts } from '@shared/schema';
+import { inArray } from 'drizzle-orm';
+
+export interface CategoryVariance {
+  categoryId: string;
+  name: string;
+  budgetTypeCode: string;
+  allocated: number;
+  spent: number;
+  committed: number;
+  variance: number; // allocated minus spent and committed; negative means over budget
+  variancePercent: number;
+  overBudget: boolean;
+}
+
+export interface BudgetSummary {
+  currency: string | null; // null when the projects use different currencies
+  allocated: number;
+  received: number;
+  spent: number;
+  committed: number;
+  remaining: number;
+  burnRate: number; // average paid spend per month over the burn window
+  runwayMonths: number | null; // null when nothing has been spent recently
+  projectedExhaustionDate: string | null;
+  spentPercentage: number;
+  budgetHealth: 'healthy' | 'warning' | 'critical';
+  categories: CategoryVariance[];
+}
+
+// Spending with these statuses has left the budget; anything else except rejected is committed
+const SPENT_STATUSES = ['paid'];
+const EXCLUDED_STATUSES = ['rejected', 'cancelled'];
+
+const BURN_WINDOW_MONTHS = 3;
+const DAYS_PER_MONTH = 30;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const toNumber = (value: unknown): number => {
+  const parsed = parseFloat(String(value ?? '0'));
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export class BudgetSummaryService {
+  async summarizeProject(projectId: string): Promise<BudgetSummary> {
+    return this.summarize([projectId]);
+  }
+
+  // Aggregates budgets, categories, spending and receipts across the given projects
+  async summarize(projectIds: string[], now: Date = new Date()): Promise<BudgetSummary> {
+    const budgets = projectIds.length > 0
+      ? await db.select().from(projectBudgets).where(inArray(projectBudgets.project_id, projectIds))
+      : [];
+    const budgetIds: string[] = budgets.map((b: { id: string }) => b.id);
+
+    const categories = budgetIds.length > 0
+      ? await db.select().from(budgetCategories).where(inArray(budgetCategories.project_budget_id, budgetIds))
+      : [];
+    const categoryIds: string[] = categories.map((c: { id: string }) => c.id);
+
+    const spending = categoryIds.length > 0
+      ? await db.select().from(budgetSpending).where(inArray(budgetSpending.budget_category_id, categoryIds))
+      : [];
+
+    const receipts = budgetIds.length > 0
+      ? await db.select().from(budgetReceipts).where(inArray(budgetReceipts.project_budget_id, budgetIds))
+      : [];
+
+    // Budgets without an explicit total fall back to the sum of their category allocations
+    let allocated = 0;
+    let received = 0;
+    for (const budget of budgets) {
+      const budgetCategoriesAllocated = categories
+        .filter((c: any) => c.project_budget_id === budget.id)
+        .reduce((total: number, c: any) => total + toNumber(c.budget_allocated), 0);
+      const totalAllocated = toNumber(budget.total_budget_allocated);
+      allocated += totalAllocated > 0 ? totalAllocated : budgetCategoriesAllocated;
+
+      // Recorded receipts are authoritative; the budget's running total covers older data
+      const budgetReceiptRows = receipts.filter((r: any) => r.project_budget_id === budget.id);
+      received += budgetReceiptRows.length > 0
+        ? budgetReceiptRows.reduce((total: number, r: any) => total + toNumber(r.amount), 0)
+        : toNumber(budget.total_budget_received);
+    }
+
+    const activeSpending = spending.filter((s: any) => !EXCLUDED_STATUSES.includes(s.status));
+    const paidSpending = activeSpending.filter((s: any) => SPENT_STATUSES.includes(s.status));
+    const spent = paidSpending.reduce((total: number, s: any) => total + toNumber(s.amount), 0);
+    const committed = activeSpending
+      .filter((s: any) => !SPENT_STATUSES.includes(s.status))
+      .reduce((total: number, s: any) => total + toNumber(s.amount), 0);
+
+    const burnRate = this.monthlyBurnRate(paidSpending, now);
+    const remaining = allocated - spent - committed;
+    const runwayMonths = burnRate > 0 ? Math.max(remaining, 0) / burnRate : null;
+    const projectedExhaustionDate = runwayMonths !== null
+      ? new Date(now.getTime() + runwayMonths * DAYS_PER_MONTH * MS_PER_DAY).toISOString().split('T')[0]
+      : null;
+
+    const categoryVariance: CategoryVariance[] = categories.map((category: any) => {
+      const categorySpending = activeSpending.filter((s: any) => s.budget_category_id === category.id);
+      const categorySpent = categorySpending
+        .filter((s: any) => SPENT_STATUSES.includes(s.status))
+        .reduce((total: number, s: any) => total + toNumber(s.amount), 0);
+      const categoryCommitted = categorySpending
+        .filter((s: any) => !SPENT_STATUSES.includes(s.status))
+        .reduce((total: number, s: any) => total + toNumber(s.amount), 0);
+      const categoryAllocated = toNumber(category.budget_allocated);
+      const variance = categoryAllocated - categorySpent - categoryCommitted;
+
+      return {
+        categoryId: category.id,
+        name: category.name,
+        budgetTypeCode: category.budget_type_code,
+        allocated: round(categoryAllocated),
+        spent: round(categorySpent),
+        committed: round(categoryCommitted),
+        variance: round(variance),
+        variancePercent: categoryAllocated > 0 ? round((variance / categoryAllocated) * 100) : 0,
+        overBudget: variance < 0
+      };
+    });
+
+    const currencies = Array.from(new Set(budgets.map((b: { currency: string }) => b.currency)));
+
+    return {
+      currency: currencies.length === 1 ? currencies[0] as string : currencies.length === 0 ? 'INR' : null,
+      allocated: round(allocated),
+      received: round(received),
+      spent: round(spent),
+      committed: round(committed),
+      remaining: round(remaining),
+      burnRate: round(burnRate),
+      runwayMonths: runwayMonths !== null ? round(runwayMonths) : null,
+      projectedExhaustionDate,
+      spentPercentage: allocated > 0 ? round((spent / allocated) * 100) : 0,
+      budgetHealth: this.health(allocated, remaining),
+      categories: categoryVariance
+    };
+  }
+
+  // Paid spend per month over the trailing window, or since the first payment if that is more recent
+  private monthlyBurnRate(paidSpending: any[], now: Date): number {
+    if (paidSpending.length === 0) return 0;
+
+    const windowStart = new Date(now.getTime() - BURN_WINDOW_MONTHS * DAYS_PER_MONTH * MS_PER_DAY);
+    const inWindow = paidSpending.filter((s: any) => {
+      const date = new Date(s.date);
+      return date >= windowStart && date <= now;
+    });
+    if (inWindow.length === 0) return 0;
+
+    const firstPayment = Math.min(...paidSpending.map((s: any) => new Date(s.date).getTime()));
+    const monthsCovered = Math.min(
+      BURN_WINDOW_MONTHS,
+      Math.max(1, (now.getTime() - firstPayment) / (DAYS_PER_MONTH * MS_PER_DAY))
+    );
+
+    return inWindow.reduce((total: number, s: any) => total + toNumber(s.amount), 0) / monthsCovered;
+  }
+
+  private health(allocated: number, remaining: number): BudgetSummary['budgetHealth'] {
+    if (allocated <= 0) return remaining < 0 ? 'critical' : 'healthy';
+    if (remaining > allocated * 0.3) return 'healthy';
+    if (remaining > allocated * 0.1) return 'warning';
+    return 'critical';
+  }
+}
+
+export const budgetSummary = new BudgetSummaryService();
@@ -0,0 +1,379 @@
+import { db } from '../db';
+import {
+  teamMembers, teamCapacityIterations, teamCapacityMembers, iterationWeeks, weeklyAvailability,
+  type TeamCapacityIteration
+} from '@shared/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { holidayCalendarService, workingDays } from './holidayCalendars';
+
+export const WORK_MODES = ['office', 'hybrid', 'wfh'] as const;
+export type WorkMode = typeof WORK_MODES[number];
+
+export interface CapacityOptions {
+  focusFactor?: number; // replaces the iteration's focus factor; member overrides still apply
+  workModeFactors?: Partial<Record<WorkMode, number>>; // e.g. { wfh: 0.9 }, unlisted modes count fully
+}
+
+// Where an iteration's figures came from, best first
+export type CapacitySource = 'weekly_availability' | 'team_defaults' | 'capacity_members' | 'none';
+
+export interface MemberWeekCapacity {
+  team_member_id: string;
+  display_name: string;
+  work_mode: string;
+  availability_percent: number;
+  leaves: number;
+  holidays: number; // weekdays lost to the member's holiday calendar
+  days_total: number;
+  days_present: number;
+  available_days: number; // present days scaled by availability
+  effective_capacity: number; // available days after focus and work mode factors
+}
+
+export interface WeekCapacity {
+  id: string | null; // null when the iteration's weeks haven't been stored yet
+  week_index: number;
+  week_start: string;
+  week_end: string;
+  working_days: number; // after the team's holidays
+  available_days: number;
+  effective_capacity: number;
+  availability_percent: number; // average across members
+  capacity_percent: number; // effective days against every member being fully present
+  members: MemberWeekCapacity[];
+}
+
+export interface MemberCapacity {
+  team_member_id: string;
+  display_name: string;
+  work_mode: string;
+  focus_factor: number;
+  days_total: number;
+  days_present: number;
+  leaves: number;
+  holidays: number;
+  available_days: number;
+  effective_capacity: number;
+  availability_percent: number;
+}
+
+export interface IterationCapacity {
+  iteration_id: string;
+  iteration_name: string;
+  team_id: string | null;
+  start_date: string;
+  end_date: string;
+  focus_factor: number;
+  points_per_day: number;
+  source: CapacitySource;
+  total_days: number;
+  available_days: number;
+  effective_capacity: number; // in days
+  effective_points: number;
+  availability_percent: number;
+  weeks: WeekCapacity[];
+  members: MemberCapacity[];
+  work_mode_distribution: Record<string, number>;
+}
+
+// One member's week as it will be stored in weekly_availability
+export interface AvailabilityInput {
+  iteration_week_id: string;
+  team_member_id: string;
+  availability_percent?: number;
+  leaves?: number;
+  notes?: string | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const toNumber = (value: string | number | null | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value === null || value === undefined || Number.isNaN(parsed) ? fallback : parsed;
+};
+
+// The single formula every dashboard relies on: leaves come off the week's working days,
+// the rest is scaled by availability, then by the focus and work mode factors
+export const memberWeekCapacity = (input: {
+  daysTotal: number;
+  availabilityPercent: number;
+  leaves: number;
+  focusFactor: number;
+  workModeFactor: number;
+}) => {
+  const daysPresent = Math.max(0, input.daysTotal - input.leaves);
+  const availableDays = daysPresent * Math.min(100, Math.max(0, input.availabilityPercent)) / 100;
+  return {
+    days_present: daysPresent,
+    available_days: round(availableDays),
+    effective_capacity: round(availableDays * input.focusFactor * input.workModeFactor)
+  };
+};
+
+type Member = { id: string; display_name: string; work_mode: string; focus_factor: string | null; holiday_calendar_id: string | null };
+type IterationBase = Pick<IterationCapacity, 'iteration_id' | 'iteration_name' | 'team_id' | 'start_date' | 'end_date' | 'focus_factor' | 'points_per_day'>;
+type Week = { id: string | null; week_index: number; week_start: string; week_end: string };
+
+const MEMBER_COLUMNS = {
+  id: teamMembers.id,
+  display_name: teamMembers.display_name,
+  work_mode: teamMembers.work_mode,
+  focus_factor: teamMembers.focus_factor,
+  holiday_calendar_id: teamMembers.holiday_calendar_id
+};
+
+export class CapacityEngine {
+  async iteration(iterationId: string, options: CapacityOptions = {}): Promise<IterationCapacity | null> {
+    const [iteration] = await db.select().from(teamCapacityIterations).where(eq(teamCapacityIterations.id, iterationId)).limit(1);
+    return iteration ? this.calculate(iteration, options) : null;
+  }
+
+  async project(projectId: string, options: CapacityOptions = {}): Promise<IterationCapacity[]> {
+    const iterations: TeamCapacityIteration[] = await db.select().from(teamCapacityIterations)
+      .where(eq(teamCapacityIterations.project_id, projectId))
+      .orderBy(teamCapacityIterations.start_date);
+    return Promise.all(iterations.map(iteration => this.calculate(iteration, options)));
+  }
+
+  async calculate(iteration: TeamCapacityIteration, options: CapacityOptions = {}): Promise<IterationCapacity> {
+    const iterationFocus = options.focusFactor ?? toNumber(iteration.focus_factor, 1);
+    const pointsPerDay = toNumber(iteration.points_per_day, 1);
+
+    const [weeks, rows] = await Promise.all([
+      this.weeks(iteration),
+      db.select().from(weeklyAvailability).where(eq(weeklyAvailability.iteration_id, iteration.id))
+    ]);
+    const members = await this.members(iteration, rows.map((r: { team_member_id: string }) => r.team_member_id));
+
+    const base: IterationBase = {
+      iteration_id: iteration.id,
+      iteration_name: iteration.iteration_name,
+      team_id: iteration.team_id,
+      start_date: iteration.start_date,
+      end_date: iteration.end_date,
+      focus_factor: iterationFocus,
+      points_per_day: pointsPerDay
+    };
+
+    if (members.length === 0) {
+      return this.legacy(iteration, base);
+    }
+
+    const saved = new Map<string, typeof rows[number]>(rows.map((r: any) => [`${r.iteration_week_id}:${r.team_member_id}`, r]));
+    const focusFor = (member: Member) => toNumber(member.focus_factor, iterationFocus);
+    const modeFactor = (member: Member) => options.workModeFactors?.[member.work_mode as WorkMode] ?? 1;
+    const closed = await this.closedDays(iteration, members);
+
+    const weekBreakdown: WeekCapacity[] = weeks.map(week => {
+      const weekdays = workingDays(week.week_start, week.week_end);
+      const memberWeeks = members.map(member => {
+        const row = week.id ? saved.get(`${week.id}:${member.id}`) : undefined;
+        const daysTotal = workingDays(week.week_start, week.week_end, closed.forMember(member));
+        const availabilityPercent = row?.availability_percent ?? 100;
+        const leaves = Math.min(row?.leaves ?? 0, daysTotal);
+        return {
+          team_member_id: member.id,
+          display_name: member.display_name,
+          work_mode: member.work_mode,
+          availability_percent: availabilityPercent,
+          leaves,
+          holidays: weekdays - daysTotal,
+          days_total: daysTotal,
+          ...memberWeekCapacity({ daysTotal, availabilityPercent, leaves, focusFactor: focusFor(member), workModeFactor: modeFactor(member) })
+        };
+      });
+
+      const effective = memberWeeks.reduce((total, m) => total + m.effective_capacity, 0);
+      const fullTime = memberWeeks.reduce((total, m) => total + m.days_total, 0);
+      return {
+        ...week,
+        working_days: workingDays(week.week_start, week.week_end, closed.team),
+        available_days: round(memberWeeks.reduce((total, m) => total + m.available_days, 0)),
+        effective_capacity: round(effective),
+        availability_percent: round(memberWeeks.reduce((total, m) => total + m.availability_percent, 0) / members.length),
+        capacity_percent: fullTime > 0 ? Math.round((effective / fullTime) * 100) : 0,
+        members: memberWeeks
+      };
+    });
+
+    const memberBreakdown: MemberCapacity[] = members.map(member => {
+      const own = weekBreakdown.map(week => week.members.find(m => m.team_member_id === member.id)!);
+      const sumOf = (key: 'days_total' | 'days_present' | 'leaves' | 'holidays' | 'available_days' | 'effective_capacity') =>
+        round(own.reduce((total, m) => total + m[key], 0));
+      return {
+        team_member_id: member.id,
+        display_name: member.display_name,
+        work_mode: member.work_mode,
+        focus_factor: focusFor(member),
+        days_total: sumOf('days_total'),
+        days_present: sumOf('days_present'),
+        leaves: sumOf('leaves'),
+        holidays: sumOf('holidays'),
+        available_days: sumOf('available_days'),
+        effective_capacity: sumOf('effective_capacity'),
+        availability_percent: own.length > 0 ? round(own.reduce((total, m) => total + m.availability_percent, 0) / own.length) : 100
+      };
+    });
+
+    const effective = round(weekBreakdown.reduce((total, week) => total + week.effective_capacity, 0));
+    const distribution: Record<string, number> = Object.fromEntries(WORK_MODES.map(mode => [mode, 0]));
+    members.forEach(member => { distribution[member.work_mode] = (distribution[member.work_mode] ?? 0) + 1; });
+
+    return {
+      ...base,
+      source: rows.length > 0 ? 'weekly_availability' : 'team_defaults',
+      total_days: memberBreakdown.reduce((total, m) => total + m.days_total, 0),
+      available_days: round(weekBreakdown.reduce((total, week) => total + week.available_days, 0)),
+      effective_capacity: effective,
+      effective_points: Math.round(effective * pointsPerDay),
+      availability_percent: memberBreakdown.length > 0
+        ? round(memberBreakdown.reduce((total, m) => total + m.availability_percent, 0) / memberBreakdown.length)
+        : 100,
+      weeks: weekBreakdown,
+      members: memberBreakdown,
+      work_mode_distribution: distribution
+    };
+  }
+
+  // Fill in the derived columns for availability about to be saved, so stored
+  // effective_capacity always matches what the engine reports
+  async prepareAvailability(iterationId: string, inputs: AvailabilityInput[]) {
+    const [iteration] = await db.select().from(teamCapacityIterations).where(eq(teamCapacityIterations.id, iterationId)).limit(1);
+    if (!iteration) {
+      throw new Error('Iteration not found');
+    }
+
+    const weeks = await db.select().from(iterationWeeks).where(eq(iterationWeeks.iteration_id, iterationId));
+    const weekById = new Map<string, Week>(weeks.map((w: Week) => [w.id!, w]));
+    const memberIds = Array.from(new Set(inputs.map(input => input.team_member_id)));
+    const members: Member[] = memberIds.length > 0
+      ? await db.select(MEMBER_COLUMNS).from(teamMembers).where(inArray(teamMembers.id, memberIds))
+      : [];
+    const memberById = new Map(members.map(m => [m.id, m]));
+    const iterationFocus = toNumber(iteration.focus_factor, 1);
+    const closed = await this.closedDays(iteration, members);
+
+    return inputs.map(input => {
+      const week = weekById.get(input.iteration_week_id);
+      if (!week) {
+        throw new Error(`Week ${input.iteration_week_id} does not belong to this iteration`);
+      }
+      const member = memberById.get(input.team_member_id);
+      const daysTotal = workingDays(week.week_start, week.week_end, member ? closed.forMember(member) : closed.team);
+      const availabilityPercent = input.availability_percent ?? 100;
+      const leaves = Math.min(input.leaves ?? 0, daysTotal);
+      const computed = memberWeekCapacity({
+        daysTotal,
+        availabilityPercent,
+        leaves,
+        focusFactor: toNumber(member?.focus_factor, iterationFocus),
+        workModeFactor: 1 // stored values use the team's own settings; work mode factors are a reporting option
+      });
+
+      return {
+        iteration_id: iterationId,
+        iteration_week_id: input.iteration_week_id,
+        team_member_id: input.team_member_id,
+        availability_percent: availabilityPercent,
+        leaves,
+        calculated_days_present: computed.days_present,
+        calculated_days_total: daysTotal,
+        effective_capacity: computed.effective_capacity.toFixed(2),
+        notes: input.notes ?? null
+      };
+    });
+  }
+
+  // Stored weeks, or the same seven-day split createIterationWeeks would store
+  private async weeks(iteration: TeamCapacityIteration): Promise<Week[]> {
+    const stored: Week[] = await db.select({
+      id: iterationWeeks.id,
+      week_index: iterationWeeks.week_index,
+      week_start: iterationWeeks.week_start,
+      week_end: iterationWeeks.week_end
+    }).from(iterationWeeks)
+      .where(eq(iterationWeeks.iteration_id, iteration.id))
+      .orderBy(iterationWeeks.week_index);
+    if (stored.length > 0) return stored;
+
+    const weeks: Week[] = [];
+    const end = new Date(`${iteration.end_date}T00:00:00Z`);
+    const start = new Date(`${iteration.start_date}T00:00:00Z`);
+    for (let index = 1; start <= end; index++) {
+      const weekEnd = new Date(start);
+      weekEnd.setUTCDate(weekEnd.getUTCDate() + 6);
+      if (weekEnd > end) weekEnd.setTime(end.getTime());
+      weeks.push({
+        id: null,
+        week_index: index,
+        week_start: start.toISOString().split('T')[0],
+        week_end: weekEnd.toISOString().split('T')[0]
+      });
+      start.setUTCDate(start.getUTCDate() + 7);
+    }
+    return weeks;
+  }
+
+  // The iteration's team, or whoever has availability recorded when no team is set
+  private async members(iteration: TeamCapacityIteration, recorded: string[]): Promise<Member[]> {
+    if (iteration.team_id) {
+      return db.select(MEMBER_COLUMNS).from(teamMembers).where(eq(teamMembers.team_id, iteration.team_id)).orderBy(teamMembers.display_name);
+    }
+    const ids = Array.from(new Set(recorded));
+    if (ids.length === 0) return [];
+    return db.select(MEMBER_COLUMNS).from(teamMembers).where(inArray(teamMembers.id, ids)).orderBy(teamMembers.display_name);
+  }
+
+  // Holidays inside the iteration: the team's calendar, and each member's own where set
+  private async closedDays(iteration: TeamCapacityIteration, members: Member[]) {
+    const teamCalendar = iteration.team_id ? await holidayCalendarService.teamCalendar(iteration.team_id) : null;
+    const calendarIds = [teamCalendar, ...members.map(m => m.holiday_calendar_id)].filter((id): id is string => Boolean(id));
+    const dates = await holidayCalendarService.datesFor(calendarIds, iteration.start_date, iteration.end_date);
+    const none = new Set<string>();
+    const team = (teamCalendar && dates.get(teamCalendar)) || none;
+
+    return {
+      team,
+      forMember: (member: Member) => (member.holiday_calendar_id && dates.get(member.holiday_calendar_id)) || team
+    };
+  }
+
+  // Iterations from before teams existed only have per-member totals
+  private async legacy(iteration: TeamCapacityIteration, base: IterationBase): Promise<IterationCapacity> {
+    const rows = await db.select().from(teamCapacityMembers).where(eq(teamCapacityMembers.iteration_id, iteration.id));
+    const members: MemberCapacity[] = rows.map((row: any) => {
+      const effective = toNumber(row.effective_capacity_days, 0);
+      return {
+        team_member_id: row.id,
+        display_name: row.member_name,
+        work_mode: row.work_mode,
+        focus_factor: base.focus_factor,
+        days_total: iteration.working_days,
+        days_present: Math.max(0, iteration.working_days - row.leaves),
+        leaves: row.leaves,
+        holidays: 0,
+        available_days: effective,
+        effective_capacity: effective,
+        availability_percent: row.availability_percent
+      };
+    });
+
+    const effective = round(members.reduce((total, m) => total + m.effective_capacity, 0));
+    const distribution: Record<string, number> = Object.fromEntries(WORK_MODES.map(mode => [mode, 0]));
+    members.forEach(member => { distribution[member.work_mode] = (distribution[member.work_mode] ?? 0) + 1; });
+
+    return {
+      ...base,
+      source: members.length > 0 ? 'capacity_members' : 'none',
+      total_days: iteration.working_days * members.length,
+      available_days: effective,
+      effective_capacity: effective,
+      effective_points: Math.round(effective * base.points_per_day),
+      availability_percent: members.length > 0 ? round(members.reduce((total, m) => total + m.availability_percent, 0) / members.length) : 0,
+      weeks: [],
+      members,
+      work_mode_distribution: distribution
+    };
+  }
+}
+
+export const capacityEngine = new CapacityEngine();
@@ -0,0 +1,260 @@
+import { db } from '../db';
+import { projects, milestones, tasks } from '@shared/schema';
+import { eq, and, ne, gte, asc, min } from 'drizzle-orm';
+
+export type ForecastUnit = 'tasks' | 'points';
+export type ForecastStatus = 'complete' | 'on_track' | 'at_risk' | 'late' | 'no_target' | 'unknown';
+
+export interface ForecastOutcome {
+  remaining: number; // open work in the forecast unit
+  weeks: { p50: number | null; p85: number | null; p95: number | null }; // null beyond the horizon
+  dates: { p50: string | null; p85: string | null; p95: string | null };
+  targetDate: string | null;
+  onTimeProbability: number | null; // percentage of trials finished by the target date
+  status: ForecastStatus;
+}
+
+export interface MilestoneForecast extends ForecastOutcome {
+  milestoneId: string;
+  name: string;
+}
+
+export interface ForecastChartPoint {
+  week: number;
+  date: string;
+  probability: number; // share of trials finishing in this week
+  cumulative: number; // share of trials finished by the end of this week
+}
+
+export interface DeliveryForecast {
+  unit: ForecastUnit;
+  trials: number;
+  history: {
+    weeks: number;
+    averageThroughput: number;
+    samples: { weekStart: string; throughput: number }[];
+  };
+  unestimatedTasks: number; // open tasks sized at the average when forecasting points
+  unassignedRemaining: number; // open work outside any milestone, counted in the project only
+  project: ForecastOutcome;
+  milestones: MilestoneForecast[];
+  chart: ForecastChartPoint[];
+  warning: string | null;
+}
+
+export interface ForecastOptions {
+  unit?: ForecastUnit;
+  historyWeeks?: number;
+}
+
+const TRIALS = 10000;
+const DEFAULT_HISTORY_WEEKS = 12;
+const MIN_HISTORY_WEEKS = 4;
+// Trials still running after ten years are reported as beyond the horizon
+const MAX_WEEKS = 520;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MS_PER_WEEK = 7 * MS_PER_DAY;
+
+const isoDate = (date: Date): string => date.toISOString().split('T')[0];
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+// Smallest value with at least the given share of sorted trials at or below it
+const percentile = (sorted: Int32Array, p: number): number => sorted[Math.max(0, Math.ceil(sorted.length * p) - 1)];
+
+export class DeliveryForecastService {
+  // Resamples past weekly throughput to simulate how many weeks the open work takes.
+  // Milestones are worked in due date order, so each one's forecast includes the
+  // open work of milestones due before it; work outside milestones only delays the project.
+  async forecast(projectId: string, options: ForecastOptions = {}, now: Date = new Date()): Promise<DeliveryForecast | null> {
+    const [project] = await db.select({ id: projects.id, end_date: projects.end_date }).from(projects)
+      .where(eq(projects.id, projectId))
+      .limit(1);
+    if (!project) return null;
+
+    const unit: ForecastUnit = options.unit === 'points' ? 'points' : 'tasks';
+    const today = new Date(`${isoDate(now)}T00:00:00Z`);
+
+    const [{ first }] = await db.select({ first: min(tasks.created_at) }).from(tasks).where(eq(tasks.project_id, projectId));
+    const requestedWeeks = Math.min(52, Math.max(MIN_HISTORY_WEEKS, options.historyWeeks ?? DEFAULT_HISTORY_WEEKS));
+    // Weeks before the project had any tasks would read as zero throughput
+    const activeWeeks = first ? Math.ceil((today.getTime() - new Date(first).getTime()) / MS_PER_WEEK) : 0;
+    const historyWeeks = Math.max(1, Math.min(requestedWeeks, activeWeeks));
+    const windowStart = new Date(today.getTime() - historyWeeks * MS_PER_WEEK);
+
+    const [completed, open, projectMilestones] = await Promise.all([
+      db.select({ completed_at: tasks.completed_at, story_points: tasks.story_points }).from(tasks)
+        .where(and(eq(tasks.project_id, projectId), eq(tasks.status, 'completed'), gte(tasks.completed_at, windowStart))),
+      db.select({ milestone_id: tasks.milestone_id, story_points: tasks.story_points }).from(tasks)
+        .where(and(eq(tasks.project_id, projectId), ne(tasks.status, 'completed'))),
+      db.select({ id: milestones.id, name: milestones.name, due_date: milestones.due_date }).from(milestones)
+        .where(eq(milestones.project_id, projectId))
+        .orderBy(asc(milestones.due_date))
+    ]);
+
+    const size = await this.sizer(projectId, unit);
+    const samples = Array.from({ length: historyWeeks }, (_, index) => ({
+      weekStart: isoDate(new Date(windowStart.getTime() + index * MS_PER_WEEK)),
+      throughput: 0
+    }));
+    for (const task of completed as { completed_at: Date; story_points: number | null }[]) {
+      const index = Math.floor((new Date(task.completed_at).getTime() - windowStart.getTime()) / MS_PER_WEEK);
+      if (index >= 0 && index < samples.length) samples[index].throughput += size(task.story_points);
+    }
+
+    const remainingBy = new Map<string | null, number>();
+    for (const task of open as { milestone_id: string | null; story_points: number | null }[]) {
+      remainingBy.set(task.milestone_id, (remainingBy.get(task.milestone_id) ?? 0) + size(task.story_points));
+    }
+    const total = Array.from(remainingBy.values()).reduce((sum, value) => sum + value, 0);
+
+    // Cumulative thresholds: each milestone plus everything due before it, then the whole project
+    let cumulative = 0;
+    const thresholds = (projectMilestones as { id: string; name: string; due_date: string }[]).map(milestone => {
+      cumulative += remainingBy.get(milestone.id) ?? 0;
+      return { milestone, own: remainingBy.get(milestone.id) ?? 0, target: cumulative };
+    });
+
+    const throughput = samples.map(sample => sample.throughput);
+    const results = this.simulate(throughput, [...thresholds.map(t => t.target), total]);
+
+    const outcome = (remaining: number, weeks: Int32Array, targetDate: string | null): ForecastOutcome =>
+      this.outcome(remaining, weeks, targetDate, today, throughput);
+
+    const projectWeeks = results[results.length - 1];
+    const averageThroughput = throughput.reduce((sum, value) => sum + value, 0) / throughput.length;
+
+    let warning: string | null = null;
+    if (total > 0 && averageThroughput === 0) {
+      warning = `Nothing was completed in the last ${historyWeeks} weeks, so no completion date can be forecast`;
+    } else if (historyWeeks < MIN_HISTORY_WEEKS) {
+      warning = `Only ${historyWeeks} week${historyWeeks === 1 ? '' : 's'} of history; the forecast will firm up as more work is completed`;
+    }
+
+    return {
+      unit,
+      trials: TRIALS,
+      history: { weeks: historyWeeks, averageThroughput: round(averageThroughput), samples },
+      unestimatedTasks: unit === 'points' ? (open as { story_points: number | null }[]).filter(task => task.story_points === null).length : 0,
+      unassignedRemaining: round(remainingBy.get(null) ?? 0),
+      project: outcome(total, projectWeeks, project.end_date ?? null),
+      milestones: thresholds.map(({ milestone, own }, index) => ({
+        milestoneId: milestone.id,
+        name: milestone.name,
+        ...outcome(own, results[index], milestone.due_date)
+      })),
+      chart: total > 0 && averageThroughput > 0 ? this.chart(projectWeeks, today) : [],
+      warning
+    };
+  }
+
+  // Weeks each trial needed to reach every threshold, sorted ascending per threshold
+  private simulate(throughput: number[], thresholds: number[]): Int32Array[] {
+    const results = thresholds.map(() => new Int32Array(TRIALS));
+    const order = thresholds.map((_, index) => index).sort((a, b) => thresholds[a] - thresholds[b]);
+    const goal = Math.max(0, ...thresholds);
+
+    if (throughput.every(value => value === 0)) {
+      thresholds.forEach((threshold, index) => results[index].fill(threshold > 0 ? MAX_WEEKS + 1 : 0));
+      return results;
+    }
+
+    for (let trial = 0; trial < TRIALS; trial++) {
+      let done = 0;
+      let week = 0;
+      let next = 0;
+      while (next < order.length && thresholds[order[next]] <= 0) results[order[next++]][trial] = 0;
+      while (done < goal && week < MAX_WEEKS) {
+        week++;
+        done += throughput[Math.floor(Math.random() * throughput.length)];
+        while (next < order.length && thresholds[order[next]] <= done) results[order[next++]][trial] = week;
+      }
+      while (next < order.length) results[order[next++]][trial] = MAX_WEEKS + 1;
+    }
+
+    results.forEach(weeks => weeks.sort());
+    return results;
+  }
+
+  private outcome(remaining: number, weeks: Int32Array, targetDate: string | null, today: Date, throughput: number[]): ForecastOutcome {
+    if (remaining <= 0) {
+      const done = isoDate(today);
+      return {
+        remaining: 0,
+        weeks: { p50: 0, p85: 0, p95: 0 },
+        dates: { p50: done, p85: done, p95: done },
+        targetDate,
+        onTimeProbability: targetDate ? 100 : null,
+        status: 'complete'
+      };
+    }
+
+    const weekOf = (p: number) => {
+      const value = percentile(weeks, p);
+      return value > MAX_WEEKS ? null : value;
+    };
+    const dateOf = (value: number | null) => value === null ? null : isoDate(new Date(today.getTime() + value * MS_PER_WEEK));
+    const p50 = weekOf(0.5);
+    const p85 = weekOf(0.85);
+    const p95 = weekOf(0.95);
+    const dates = { p50: dateOf(p50), p85: dateOf(p85), p95: dateOf(p95) };
+
+    let onTimeProbability: number | null = null;
+    if (targetDate) {
+      const available = Math.floor((new Date(`${targetDate}T00:00:00Z`).getTime() - today.getTime()) / MS_PER_WEEK);
+      onTimeProbability = available < 0 ? 0 : round((weeks.filter(value => value <= available).length / weeks.length) * 100);
+    }
+
+    let status: ForecastStatus;
+    if (throughput.every(value => value === 0)) {
+      status = 'unknown';
+    } else if (!targetDate) {
+      status = 'no_target';
+    } else if (dates.p85 && dates.p85 <= targetDate) {
+      status = 'on_track';
+    } else if (dates.p50 && dates.p50 <= targetDate) {
+      status = 'at_risk';
+    } else {
+      status = 'late';
+    }
+
+    return { remaining: round(remaining), weeks: { p50, p85, p95 }, dates, targetDate, onTimeProbability, status };
+  }
+
+  // Distribution of project completion weeks, for the histogram and its cumulative line
+  private chart(weeks: Int32Array, today: Date): ForecastChartPoint[] {
+    const finite = weeks.filter(value => value <= MAX_WEEKS);
+    if (finite.length === 0) return [];
+
+    const counts = new Map<number, number>();
+    finite.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+
+    const points: ForecastChartPoint[] = [];
+    let running = 0;
+    for (let week = finite[0]; week <= finite[finite.length - 1]; week++) {
+      const count = counts.get(week) ?? 0;
+      running += count;
+      points.push({
+        week,
+        date: isoDate(new Date(today.getTime() + week * MS_PER_WEEK)),
+        probability: round((count / weeks.length) * 100),
+        cumulative: round((running / weeks.length) * 100)
+      });
+    }
+    return points;
+  }
+
+  // Tasks count as one each; unestimated tasks take the average size of estimated completed work
+  private async sizer(projectId: string, unit: ForecastUnit): Promise<(points: number | null) => number> {
+    if (unit === 'tasks') return () => 1;
+
+    const estimated = await db.select({ story_points: tasks.story_points }).from(tasks)
+      .where(and(eq(tasks.project_id, projectId), eq(tasks.status, 'completed')));
+    const sizes = (estimated as { story_points: number | null }[])
+      .map(task => task.story_points)
+      .filter((points): points is number => points !== null && points > 0);
+    const fallback = sizes.length > 0 ? sizes.reduce((sum, points) => sum + points, 0) / sizes.length : 1;
+    return (points: number | null) => points ?? fallback;
+  }
+}
+
+export const deliveryForecast = new DeliveryForecastService();
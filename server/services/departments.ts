@@ -0,0 +1,155 @@
+import { db } from '../db';
+import { departments, projects, projectMembers, users, userRoles, type Department } from '@shared/schema';
+import { eq, and, or, ne, inArray, count, sql, type SQL } from 'drizzle-orm';
+
+export interface DepartmentSummary extends Department {
+  memberCount: number;
+  projectCount: number;
+}
+
+export interface DepartmentMember {
+  id: string;
+  email: string;
+  role: string;
+}
+
+// Who a user is for visibility purposes
+export interface DepartmentScope {
+  userId: string;
+  isAdmin: boolean;
+  isCoordinator: boolean;
+  departmentId: string | null;
+}
+
+export class DepartmentService {
+  async list(): Promise<DepartmentSummary[]> {
+    const rows: Department[] = await db.select().from(departments).orderBy(departments.name);
+
+    const members = await db.select({ department_id: users.department_id, count: count() })
+      .from(users)
+      .groupBy(users.department_id);
+    const owned = await db.select({ department_id: projects.department_id, count: count() })
+      .from(projects)
+      .groupBy(projects.department_id);
+
+    const counts = (entries: { department_id: string | null; count: number }[]) =>
+      new Map(entries.map(e => [e.department_id, Number(e.count)]));
+    const memberCounts = counts(members);
+    const projectCounts = counts(owned);
+
+    return rows.map(department => ({
+      ...department,
+      memberCount: memberCounts.get(department.id) ?? 0,
+      projectCount: projectCounts.get(department.id) ?? 0
+    }));
+  }
+
+  async get(departmentId: string): Promise<Department | null> {
+    const [department] = await db.select().from(departments).where(eq(departments.id, departmentId)).limit(1);
+    return department ?? null;
+  }
+
+  // Names are unique regardless of case
+  async findByName(name: string, excludeId?: string): Promise<Department | null> {
+    const [department] = await db.select().from(departments)
+      .where(and(
+        sql`lower(${departments.name}) = ${name.trim().toLowerCase()}`,
+        excludeId ? ne(departments.id, excludeId) : undefined
+      ))
+      .limit(1);
+    return department ?? null;
+  }
+
+  async create(data: { name: string; description?: string | null }, createdBy: string): Promise<Department> {
+    const [department] = await db.insert(departments).values({
+      name: data.name.trim(),
+      description: data.description ?? null,
+      created_by: createdBy
+    }).returning();
+    return department;
+  }
+
+  async update(departmentId: string, data: { name?: string; description?: string | null }): Promise<Department | null> {
+    const [department] = await db.update(departments)
+      .set({
+        ...(data.name !== undefined ? { name: data.name.trim() } : {}),
+        ...(data.description !== undefined ? { description: data.description } : {}),
+        updated_at: new Date()
+      })
+      .where(eq(departments.id, departmentId))
+      .returning();
+    return department ?? null;
+  }
+
+  async projectCount(departmentId: string): Promise<number> {
+    const [result] = await db.select({ count: count() }).from(projects).where(eq(projects.department_id, departmentId));
+    return Number(result?.count ?? 0);
+  }
+
+  // Members are unassigned by the foreign key; callers must move projects out first
+  async remove(departmentId: string): Promise<boolean> {
+    const deleted = await db.delete(departments).where(eq(departments.id, departmentId)).returning({ id: departments.id });
+    return deleted.length > 0;
+  }
+
+  async members(departmentId: string): Promise<DepartmentMember[]> {
+    return db.select({ id: users.id, email: users.email, role: users.role })
+      .from(users)
+      .where(eq(users.department_id, departmentId))
+      .orderBy(users.email);
+  }
+
+  async assignUser(userId: string, departmentId: string | null): Promise<boolean> {
+    const updated = await db.update(users)
+      .set({ department_id: departmentId, updated_at: new Date() })
+      .where(eq(users.id, userId))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async scopeFor(userId: string): Promise<DepartmentScope> {
+    const [user] = await db.select({ role: users.role, department_id: users.department_id })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    const roles = await db.select({ role: userRoles.role }).from(userRoles).where(eq(userRoles.user_id, userId));
+    const roleNames: string[] = roles.map((r: { role: string }) => r.role);
+
+    return {
+      userId,
+      isAdmin: user?.role === 'admin' || roleNames.includes('admin'),
+      isCoordinator: roleNames.includes('project_coordinator'),
+      departmentId: user?.department_id ?? null
+    };
+  }
+
+  // Condition on projects for what the user may see: admins see everything, everyone
+  // else sees their department's projects plus the ones they created or are members of.
+  // Returns undefined when no filter applies.
+  visibleProjectsCondition(scope: DepartmentScope, departmentFilter?: string): SQL | undefined {
+    if (scope.isAdmin) {
+      return departmentFilter ? eq(projects.department_id, departmentFilter) : undefined;
+    }
+
+    const memberOf = db.select({ project_id: projectMembers.project_id })
+      .from(projectMembers)
+      .where(eq(projectMembers.user_id, scope.userId));
+
+    const visible = or(
+      scope.departmentId ? eq(projects.department_id, scope.departmentId) : undefined,
+      eq(projects.created_by, scope.userId),
+      inArray(projects.id, memberOf)
+    );
+    return departmentFilter ? and(visible, eq(projects.department_id, departmentFilter)) : visible;
+  }
+
+  async visibleProjectIds(userId: string, departmentFilter?: string): Promise<string[]> {
+    const scope = await this.scopeFor(userId);
+    const rows = await db.select({ id: projects.id })
+      .from(projects)
+      .where(this.visibleProjectsCondition(scope, departmentFilter));
+    return rows.map((p: { id: string }) => p.id);
+  }
+}
+
+export const departmentService = new DepartmentService();
@@ -0,0 +1,321 @@
+import { db } from '../db';
+import { projects, tasks, taskStatusHistory, milestones, teamCapacityIterations, flowSnapshots, type FlowSnapshot } from '@shared/schema';
+import { eq, and, gte, lte, inArray, asc } from 'drizzle-orm';
+
+export type FlowScope = 'project' | 'iteration' | 'milestone';
+export type FlowSource = 'snapshot' | 'history';
+
+export interface FlowDay {
+  date: string;
+  source: FlowSource;
+  counts: Record<string, number>; // tasks in each status at the end of the day
+  points: Record<string, number>;
+}
+
+export interface CumulativeFlow {
+  statuses: string[]; // done first, so bands stack from finished work upwards
+  days: FlowDay[];
+}
+
+export interface BurnValue {
+  tasks: number;
+  points: number;
+}
+
+export interface BurnDay {
+  date: string;
+  source: FlowSource | null; // null for days still to come
+  scope: BurnValue | null;
+  completed: BurnValue | null;
+  remaining: BurnValue | null;
+  ideal: BurnValue; // straight line from the first day's scope to zero on the last day
+}
+
+export interface ScopeChange {
+  date: string;
+  tasks: number; // positive when work was added
+  points: number;
+}
+
+export interface BurnChart {
+  scope: Exclude<FlowScope, 'project'>;
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  days: BurnDay[];
+  scopeChanges: ScopeChange[];
+}
+
+export class FlowMetricsError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'FlowMetricsError';
+  }
+}
+
+type TaskRow = { id: string; status: string; created_at: Date; story_points: number | null; iteration_id: string | null; milestone_id: string | null };
+type StatusChange = { task_id: string; old_status: string | null; new_status: string; changed_at: Date };
+
+const DONE_STATUS = 'completed';
+// Bottom to top of the cumulative flow; statuses not listed go just below 'todo'
+const STATUS_ORDER = ['completed', 'in_progress', 'blocked', 'on_hold', 'todo'];
+const DEFAULT_FLOW_DAYS = 30;
+const MAX_DAYS = 366;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const isoDate = (date: Date): string => date.toISOString().split('T')[0];
+const endOfDay = (day: string): number => Date.parse(`${day}T00:00:00Z`) + MS_PER_DAY;
+
+const dateRange = (from: string, to: string): string[] => {
+  const days: string[] = [];
+  for (let time = Date.parse(`${from}T00:00:00Z`); time <= Date.parse(`${to}T00:00:00Z`) && days.length < MAX_DAYS; time += MS_PER_DAY) {
+    days.push(isoDate(new Date(time)));
+  }
+  return days;
+};
+
+const TASK_COLUMNS = {
+  id: tasks.id,
+  status: tasks.status,
+  created_at: tasks.created_at,
+  story_points: tasks.story_points,
+  iteration_id: tasks.iteration_id,
+  milestone_id: tasks.milestone_id
+};
+
+export class FlowMetricsService {
+  // Record today's counts for every scope in the project. Re-running on the same day replaces
+  // the earlier snapshot, so the last run of the day is what the charts see.
+  async snapshotProject(projectId: string, now: Date = new Date()): Promise<number> {
+    const date = isoDate(now);
+    const projectTasks: TaskRow[] = await db.select(TASK_COLUMNS).from(tasks).where(eq(tasks.project_id, projectId));
+
+    const rows = new Map<string, { scope: FlowScope; scope_id: string; status: string; task_count: number; story_points: number }>();
+    const add = (scope: FlowScope, scopeId: string, task: TaskRow) => {
+      const key = `${scope}:${scopeId}:${task.status}`;
+      const row = rows.get(key) ?? { scope, scope_id: scopeId, status: task.status, task_count: 0, story_points: 0 };
+      row.task_count++;
+      row.story_points += task.story_points ?? 0;
+      rows.set(key, row);
+    };
+    for (const task of projectTasks) {
+      add('project', projectId, task);
+      if (task.iteration_id) add('iteration', task.iteration_id, task);
+      if (task.milestone_id) add('milestone', task.milestone_id, task);
+    }
+
+    await db.transaction(async (tx: any) => {
+      await tx.delete(flowSnapshots).where(and(eq(flowSnapshots.project_id, projectId), eq(flowSnapshots.snapshot_date, date)));
+      if (rows.size > 0) {
+        await tx.insert(flowSnapshots).values(Array.from(rows.values()).map(row => ({ ...row, project_id: projectId, snapshot_date: date })));
+      }
+    });
+    return rows.size;
+  }
+
+  async snapshotAll(now: Date = new Date()): Promise<number> {
+    const allProjects: { id: string }[] = await db.select({ id: projects.id }).from(projects);
+    for (const project of allProjects) {
+      await this.snapshotProject(project.id, now);
+    }
+    return allProjects.length;
+  }
+
+  // Past days come from stored snapshots; today and any day without one are replayed from
+  // status history, which can't see tasks that have since been deleted
+  async cumulativeFlow(projectId: string, from?: string, to?: string, now: Date = new Date()): Promise<CumulativeFlow> {
+    const today = isoDate(now);
+    const end = to && to < today ? to : today;
+    const earliest = isoDate(new Date(Date.parse(`${end}T00:00:00Z`) - (MAX_DAYS - 1) * MS_PER_DAY));
+    const start = from
+      ? [from, earliest].sort()[1]
+      : isoDate(new Date(Date.parse(`${end}T00:00:00Z`) - (DEFAULT_FLOW_DAYS - 1) * MS_PER_DAY));
+    const days = dateRange(start, end);
+
+    const stored = await this.storedDays(projectId, 'project', projectId, days, today);
+    const missing = days.filter(day => !stored.has(day));
+    const replayed = missing.length > 0
+      ? this.countByDay(await this.replay(await this.scopeTasks('project', projectId), missing), missing)
+      : new Map<string, Omit<FlowDay, 'date' | 'source'>>();
+
+    const flowDays: FlowDay[] = days.map(day => stored.has(day)
+      ? { date: day, source: 'snapshot', ...stored.get(day)! }
+      : { date: day, source: 'history', ...replayed.get(day)! });
+
+    const seen = new Set<string>();
+    flowDays.forEach(day => Object.keys(day.counts).forEach(status => seen.add(status)));
+    const statuses = [
+      ...STATUS_ORDER.slice(0, -1).filter(status => seen.has(status)),
+      ...Array.from(seen).filter(status => !STATUS_ORDER.includes(status)).sort(),
+      ...(seen.has('todo') ? ['todo'] : [])
+    ];
+
+    return { statuses, days: flowDays };
+  }
+
+  async burn(projectId: string, scope: Exclude<FlowScope, 'project'>, scopeId: string, now: Date = new Date()): Promise<BurnChart> {
+    const today = isoDate(now);
+    const { name, startDate, endDate } = await this.scopeRange(projectId, scope, scopeId);
+    const days = dateRange(startDate, endDate);
+    const elapsed = days.filter(day => day <= today);
+
+    const stored = await this.storedDays(projectId, scope, scopeId, elapsed, today);
+    const missing = elapsed.filter(day => !stored.has(day));
+    const replayed = missing.length > 0
+      ? this.countByDay(await this.replay(await this.scopeTasks(scope, scopeId), missing), missing)
+      : new Map<string, Omit<FlowDay, 'date' | 'source'>>();
+
+    const actual = new Map<string, { source: FlowSource; scope: BurnValue; completed: BurnValue }>();
+    for (const day of elapsed) {
+      const source: FlowSource = stored.has(day) ? 'snapshot' : 'history';
+      const { counts, points } = stored.get(day) ?? replayed.get(day)!;
+      const sum = (values: Record<string, number>) => Object.values(values).reduce((total, value) => total + value, 0);
+      actual.set(day, {
+        source,
+        scope: { tasks: sum(counts), points: sum(points) },
+        completed: { tasks: counts[DONE_STATUS] ?? 0, points: points[DONE_STATUS] ?? 0 }
+      });
+    }
+
+    const initial = actual.get(days[0])?.scope ?? { tasks: 0, points: 0 };
+    const span = Math.max(1, days.length - 1);
+    const burnDays: BurnDay[] = days.map((day, index) => {
+      const known = actual.get(day);
+      const ideal = {
+        tasks: Math.round(initial.tasks * (1 - index / span) * 10) / 10,
+        points: Math.round(initial.points * (1 - index / span) * 10) / 10
+      };
+      if (!known) {
+        return { date: day, source: null, scope: null, completed: null, remaining: null, ideal };
+      }
+      return {
+        date: day,
+        source: known.source,
+        scope: known.scope,
+        completed: known.completed,
+        remaining: { tasks: known.scope.tasks - known.completed.tasks, points: known.scope.points - known.completed.points },
+        ideal
+      };
+    });
+
+    const scopeChanges: ScopeChange[] = [];
+    for (let index = 1; index < elapsed.length; index++) {
+      const before = actual.get(elapsed[index - 1])!.scope;
+      const after = actual.get(elapsed[index])!.scope;
+      if (before.tasks !== after.tasks || before.points !== after.points) {
+        scopeChanges.push({ date: elapsed[index], tasks: after.tasks - before.tasks, points: after.points - before.points });
+      }
+    }
+
+    return { scope, id: scopeId, name, startDate, endDate, days: burnDays, scopeChanges };
+  }
+
+  // Iterations run from start to end date; milestones from when they were created to their due date
+  private async scopeRange(projectId: string, scope: Exclude<FlowScope, 'project'>, scopeId: string) {
+    if (scope === 'iteration') {
+      const [iteration] = await db.select().from(teamCapacityIterations)
+        .where(and(eq(teamCapacityIterations.id, scopeId), eq(teamCapacityIterations.project_id, projectId)))
+        .limit(1);
+      if (!iteration) {
+        throw new FlowMetricsError('Iteration not found', 404);
+      }
+      return { name: iteration.iteration_name as string, startDate: iteration.start_date as string, endDate: iteration.end_date as string };
+    }
+
+    const [milestone] = await db.select().from(milestones)
+      .where(and(eq(milestones.id, scopeId), eq(milestones.project_id, projectId)))
+      .limit(1);
+    if (!milestone) {
+      throw new FlowMetricsError('Milestone not found', 404);
+    }
+    // Capped to a year before the due date so a long-lived milestone stays readable
+    const created = isoDate(new Date(milestone.created_at));
+    const earliest = isoDate(new Date(Date.parse(`${milestone.due_date}T00:00:00Z`) - (MAX_DAYS - 1) * MS_PER_DAY));
+    const startDate = [created < milestone.due_date ? created : milestone.due_date, earliest].sort()[1];
+    return { name: milestone.name as string, startDate, endDate: milestone.due_date as string };
+  }
+
+  // Stored snapshots by day. A day counts as snapshotted when the project has any rows for it,
+  // so a scope with no rows on that day was empty rather than unrecorded. Today is left out.
+  private async storedDays(projectId: string, scope: FlowScope, scopeId: string, days: string[], today: string) {
+    const past = days.filter(day => day < today);
+    const result = new Map<string, Omit<FlowDay, 'date' | 'source'>>();
+    if (past.length === 0) return result;
+
+    const range = and(eq(flowSnapshots.project_id, projectId), gte(flowSnapshots.snapshot_date, past[0]), lte(flowSnapshots.snapshot_date, past[past.length - 1]));
+    const [recorded, rows] = await Promise.all([
+      db.selectDistinct({ snapshot_date: flowSnapshots.snapshot_date }).from(flowSnapshots).where(range),
+      db.select().from(flowSnapshots).where(and(range, eq(flowSnapshots.scope, scope), eq(flowSnapshots.scope_id, scopeId)))
+    ]);
+
+    for (const { snapshot_date } of recorded as { snapshot_date: string }[]) {
+      result.set(snapshot_date, { counts: {}, points: {} });
+    }
+    for (const row of rows as FlowSnapshot[]) {
+      const day = result.get(row.snapshot_date)!;
+      day.counts[row.status] = row.task_count;
+      day.points[row.status] = row.story_points;
+    }
+    return result;
+  }
+
+  private async scopeTasks(scope: FlowScope, scopeId: string): Promise<TaskRow[]> {
+    const column = scope === 'project' ? tasks.project_id : scope === 'iteration' ? tasks.iteration_id : tasks.milestone_id;
+    return db.select(TASK_COLUMNS).from(tasks).where(eq(column, scopeId));
+  }
+
+  // Each task's status at the end of each day, or null before it was created
+  private async replay(scopeTasks: TaskRow[], days: string[]): Promise<{ task: TaskRow; statuses: (string | null)[] }[]> {
+    const changes: StatusChange[] = scopeTasks.length > 0
+      ? await db.select({
+        task_id: taskStatusHistory.task_id,
+        old_status: taskStatusHistory.old_status,
+        new_status: taskStatusHistory.new_status,
+        changed_at: taskStatusHistory.changed_at
+      }).from(taskStatusHistory)
+        .where(inArray(taskStatusHistory.task_id, scopeTasks.map(task => task.id)))
+        .orderBy(asc(taskStatusHistory.changed_at))
+      : [];
+
+    const byTask = new Map<string, StatusChange[]>();
+    for (const change of changes) {
+      byTask.set(change.task_id, [...(byTask.get(change.task_id) ?? []), change]);
+    }
+
+    return scopeTasks.map(task => {
+      const history = byTask.get(task.id) ?? [];
+      // Tasks from before history was kept start in the status of their first recorded change
+      let status = history.length > 0 ? (history[0].old_status ?? history[0].new_status) : task.status;
+      let next = 0;
+      const created = new Date(task.created_at).getTime();
+      const statuses = days.map(day => {
+        const end = endOfDay(day);
+        if (created >= end) return null;
+        while (next < history.length && new Date(history[next].changed_at).getTime() < end) {
+          status = history[next++].new_status;
+        }
+        return status;
+      });
+      return { task, statuses };
+    });
+  }
+
+  private countByDay(replayed: { task: TaskRow; statuses: (string | null)[] }[], days: string[]) {
+    const result = new Map<string, Omit<FlowDay, 'date' | 'source'>>();
+    days.forEach((day, index) => {
+      const counts: Record<string, number> = {};
+      const points: Record<string, number> = {};
+      for (const { task, statuses } of replayed) {
+        const status = statuses[index];
+        if (status === null) continue;
+        counts[status] = (counts[status] ?? 0) + 1;
+        points[status] = (points[status] ?? 0) + (task.story_points ?? 0);
+      }
+      result.set(day, { counts, points });
+    });
+    return result;
+  }
+}
+
+export const flowMetrics = new FlowMetricsService();
@@ -0,0 +1,51 @@
+import { flowMetrics, type FlowMetricsService } from './flowMetrics';
+
+const DEFAULT_TICK_MS = 60 * 60 * 1000;
+
+// Snapshots every project's task counts once an hour. Each run replaces the day's
+// snapshot, so whatever the last run before midnight saw is kept for that day.
+export class FlowSnapshotScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  lastRunAt: Date | null = null;
+  lastError: string | null = null;
+
+  constructor(private metrics: FlowMetricsService = flowMetrics, private tickMs: number = DEFAULT_TICK_MS) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Flow snapshot tick failed:', error));
+    }, this.tickMs);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+    // Take today's snapshot straight away rather than an hour after a restart
+    this.tick().catch(error => console.error('Flow snapshot tick failed:', error));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Overlapping ticks are dropped rather than queued
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      await this.metrics.snapshotAll(now);
+      this.lastRunAt = now;
+      this.lastError = null;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
+
+export const flowSnapshotScheduler = new FlowSnapshotScheduler();
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseIcs, workingDays } from './holidayCalendars';
+
+const calendar = (...events: string[][]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+
+const dates = (content: string) => parseIcs(content).holidays.map(h => h.date);
+
+test('reads an all-day event as one holiday', () => {
+  const { holidays, skipped } = parseIcs(calendar(['UID:1', 'SUMMARY:New Year\\, Day', 'DTSTART;VALUE=DATE:20250101', 'DTEND;VALUE=DATE:20250102']));
+  assert.deepEqual(holidays, [{ date: '2025-01-01', name: 'New Year, Day', uid: '1' }]);
+  assert.deepEqual(skipped, []);
+});
+
+test('treats DTEND as exclusive for multi-day events', () => {
+  assert.deepEqual(dates(calendar(['SUMMARY:Break', 'DTSTART;VALUE=DATE:20251224', 'DTEND;VALUE=DATE:20251227'])),
+    ['2025-12-24', '2025-12-25', '2025-12-26']);
+});
+
+test('expands a yearly rule without an end over the horizon', () => {
+  assert.deepEqual(dates(calendar(['SUMMARY:Labour Day', 'DTSTART;VALUE=DATE:20250501', 'RRULE:FREQ=YEARLY'])),
+    ['2025-05-01', '2026-05-01', '2027-05-01', '2028-05-01', '2029-05-01']);
+});
+
+test('stops a yearly rule at its COUNT or UNTIL', () => {
+  assert.deepEqual(dates(calendar(['SUMMARY:A', 'DTSTART;VALUE=DATE:20250704', 'RRULE:FREQ=YEARLY;COUNT=2'])),
+    ['2025-07-04', '2026-07-04']);
+  assert.deepEqual(dates(calendar(['SUMMARY:B', 'DTSTART;VALUE=DATE:20250704', 'RRULE:FREQ=YEARLY;UNTIL=20270703'])),
+    ['2025-07-04', '2026-07-04']);
+});
+
+test('skips common years for a rule anchored on Feb 29', () => {
+  assert.deepEqual(dates(calendar(['SUMMARY:Leap', 'DTSTART;VALUE=DATE:20240229', 'RRULE:FREQ=YEARLY;COUNT=2'])),
+    ['2024-02-29', '2028-02-29']);
+});
+
+test('imports the first years of a long recurrence and reports the rest', () => {
+  const { holidays, skipped } = parseIcs(calendar(['SUMMARY:Forever', 'DTSTART;VALUE=DATE:20250101', 'RRULE:FREQ=YEARLY;COUNT=500']));
+  assert.equal(holidays.length, 20);
+  assert.equal(holidays[19].date, '2044-01-01');
+  assert.equal(skipped.length, 1);
+  assert.equal(skipped[0].summary, 'Forever');
+});
+
+test('does not report a recurrence that ends within the cap', () => {
+  const { holidays, skipped } = parseIcs(calendar(['SUMMARY:Twenty', 'DTSTART;VALUE=DATE:20250101', 'RRULE:FREQ=YEARLY;COUNT=20']));
+  assert.equal(holidays.length, 20);
+  assert.deepEqual(skipped, []);
+});
+
+test('accepts BY parts that repeat the start date and skips any other', () => {
+  assert.deepEqual(dates(calendar(['SUMMARY:Same', 'DTSTART;VALUE=DATE:20250501', 'RRULE:FREQ=YEARLY;COUNT=2;BYMONTH=5;BYMONTHDAY=1'])),
+    ['2025-05-01', '2026-05-01']);
+
+  const { holidays, skipped } = parseIcs(calendar(
+    ['SUMMARY:Other day', 'DTSTART;VALUE=DATE:20250501', 'RRULE:FREQ=YEARLY;BYMONTHDAY=2'],
+    ['SUMMARY:Two months', 'DTSTART;VALUE=DATE:20250501', 'RRULE:FREQ=YEARLY;BYMONTH=5,11'],
+    ['SUMMARY:Thanksgiving', 'DTSTART;VALUE=DATE:20251127', 'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=4TH']
+  ));
+  assert.deepEqual(holidays, []);
+  assert.deepEqual(skipped.map(s => s.summary), ['Other day', 'Two months', 'Thanksgiving']);
+});
+
+test('skips cancelled events and events without a start', () => {
+  const { holidays, skipped } = parseIcs(calendar(['SUMMARY:Off', 'STATUS:CANCELLED', 'DTSTART;VALUE=DATE:20250101'], ['SUMMARY:Nowhen']));
+  assert.deepEqual(holidays, []);
+  assert.equal(skipped.length, 2);
+});
+
+test('counts weekdays between two dates less holidays', () => {
+  assert.equal(workingDays('2025-05-01', '2025-05-07'), 5);
+  assert.equal(workingDays('2025-05-01', '2025-05-07', new Set(['2025-05-01'])), 4);
+});
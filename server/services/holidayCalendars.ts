@@ -0,0 +1,324 @@
+import { db } from '../db';
+import { holidayCalendars, holidays, teams, teamMembers, type HolidayCalendar, type Holiday } from '@shared/schema';
+import { eq, and, ne, gte, lte, inArray, count, sql } from 'drizzle-orm';
+
+export interface HolidayCalendarSummary extends HolidayCalendar {
+  holidayCount: number;
+  teamCount: number;
+}
+
+export interface ParsedHoliday {
+  date: string;
+  name: string;
+  uid: string | null;
+}
+
+export interface SkippedEvent {
+  summary: string;
+  reason: string;
+}
+
+export interface IcsImportResult {
+  imported: number;
+  updated: number;
+  skipped: SkippedEvent[];
+}
+
+// Recurring holidays without an end are expanded this many years from their first date
+const YEARLY_HORIZON = 5;
+// Recurrences with a COUNT or UNTIL are cut off after this many years
+const MAX_RECURRENCE_YEARS = 20;
+// Longer events are closures or leave blocks, not public holidays
+const MAX_EVENT_DAYS = 31;
+
+const toIsoDate = (value: string) => `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+
+const shiftDate = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+// Monday to Friday between two YYYY-MM-DD dates, both included, less any holidays
+export const workingDays = (start: string, end: string, closed: Set<string> = new Set()): number => {
+  const day = new Date(`${start}T00:00:00Z`);
+  const last = new Date(`${end}T00:00:00Z`);
+  let total = 0;
+  while (day <= last) {
+    const weekday = day.getUTCDay();
+    if (weekday !== 0 && weekday !== 6 && !closed.has(day.toISOString().split('T')[0])) total++;
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return total;
+};
+
+// Reads the all-day and timed VEVENTs of an iCalendar file into one entry per date.
+// Yearly recurrences are expanded; anything more elaborate is reported as skipped.
+export function parseIcs(content: string): { holidays: ParsedHoliday[]; skipped: SkippedEvent[] } {
+  // RFC 5545 folds long lines by starting the continuation with a space or tab
+  const lines = content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const parsed: ParsedHoliday[] = [];
+  const skipped: SkippedEvent[] = [];
+
+  let event: Record<string, { params: string; value: string }> | null = null;
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+    if (line === 'END:VEVENT' && event) {
+      const result = readEvent(event);
+      if ('reason' in result) {
+        skipped.push(result);
+      } else {
+        parsed.push(...result.holidays);
+        if (result.skipped) skipped.push(result.skipped);
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    const [name, ...params] = line.slice(0, colon).split(';');
+    event[name.toUpperCase()] = { params: params.join(';').toUpperCase(), value: line.slice(colon + 1).trim() };
+  }
+
+  // Later events win when two land on the same date
+  const byDate = new Map(parsed.map(h => [h.date, h]));
+  return { holidays: Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date)), skipped };
+}
+
+// A recurrence cut short still imports its first years and reports the rest as skipped
+function readEvent(event: Record<string, { params: string; value: string }>): { holidays: ParsedHoliday[]; skipped?: SkippedEvent } | SkippedEvent {
+  const summary = event.SUMMARY ? unescapeText(event.SUMMARY.value) : 'Untitled event';
+  const uid = event.UID?.value || null;
+
+  if (event.STATUS?.value.toUpperCase() === 'CANCELLED') {
+    return { summary, reason: 'Event is cancelled' };
+  }
+  if (!event.DTSTART || !/^\d{8}/.test(event.DTSTART.value)) {
+    return { summary, reason: 'Missing or unreadable start date' };
+  }
+
+  const start = toIsoDate(event.DTSTART.value);
+  const allDay = event.DTSTART.params.includes('VALUE=DATE') || event.DTSTART.value.length === 8;
+
+  // DTEND is exclusive for all-day events and for timed events ending at midnight
+  let days = 1;
+  if (event.DTEND && /^\d{8}/.test(event.DTEND.value)) {
+    const end = toIsoDate(event.DTEND.value);
+    const endsAtMidnight = allDay || /T0{6}/.test(event.DTEND.value);
+    days = Math.round((Date.parse(end) - Date.parse(start)) / 86400000) + (endsAtMidnight ? 0 : 1);
+  }
+  if (days < 1) days = 1;
+  if (days > MAX_EVENT_DAYS) {
+    return { summary, reason: `Spans ${days} days; only events up to ${MAX_EVENT_DAYS} days are imported` };
+  }
+
+  // Occurrences wanted and the years the rule runs for; a plain event is one occurrence
+  let occurrences = 1;
+  let span = Infinity;
+  let until: string | null = null;
+  if (event.RRULE) {
+    const rule = Object.fromEntries(event.RRULE.value.split(';').map(part => part.split('=') as [string, string]));
+    const unsupported = Object.keys(rule).filter(key => !['FREQ', 'COUNT', 'UNTIL', 'INTERVAL', 'BYMONTH', 'BYMONTHDAY'].includes(key));
+    // BYMONTH and BYMONTHDAY are only understood when they repeat the start date
+    const otherDays = (rule.BYMONTH && Number(rule.BYMONTH) !== Number(start.slice(5, 7)))
+      || (rule.BYMONTHDAY && Number(rule.BYMONTHDAY) !== Number(start.slice(8, 10)));
+    if (rule.FREQ !== 'YEARLY' || (rule.INTERVAL && rule.INTERVAL !== '1') || unsupported.length > 0 || otherDays) {
+      return { summary, reason: `Recurrence "${event.RRULE.value}" is not supported; only simple yearly rules are` };
+    }
+    occurrences = Infinity;
+    if (rule.COUNT) {
+      occurrences = Math.max(1, Number(rule.COUNT) || 1);
+    } else if (rule.UNTIL && /^\d{8}/.test(rule.UNTIL)) {
+      until = toIsoDate(rule.UNTIL);
+    } else {
+      span = YEARLY_HORIZON;
+    }
+  }
+
+  // A Feb 29 date has no occurrence in common years, as RFC 5545 specifies
+  const firstYear = Number(start.slice(0, 4));
+  const dateIn = (offset: number) => `${firstYear + offset}${start.slice(4)}`;
+  const starts: string[] = [];
+  let offset = 0;
+  for (; offset < Math.min(span, MAX_RECURRENCE_YEARS) && starts.length < occurrences; offset++) {
+    const date = dateIn(offset);
+    if (until && date > until) break;
+    if (shiftDate(date, 0) === date) starts.push(date);
+  }
+
+  const result: ParsedHoliday[] = [];
+  for (const first of starts) {
+    for (let day = 0; day < days; day++) {
+      result.push({ date: shiftDate(first, day), name: summary, uid });
+    }
+  }
+  const cutShort = offset === MAX_RECURRENCE_YEARS && span > MAX_RECURRENCE_YEARS
+    && starts.length < occurrences && !(until && dateIn(offset) > until);
+  if (cutShort) {
+    return {
+      holidays: result,
+      skipped: { summary, reason: `Recurs for more than ${MAX_RECURRENCE_YEARS} years; only the first ${MAX_RECURRENCE_YEARS} were imported` }
+    };
+  }
+  return { holidays: result };
+}
+
+export class HolidayCalendarService {
+  async list(): Promise<HolidayCalendarSummary[]> {
+    const rows: HolidayCalendar[] = await db.select().from(holidayCalendars).orderBy(holidayCalendars.name);
+
+    const holidayCounts = await db.select({ calendar_id: holidays.calendar_id, count: count() })
+      .from(holidays)
+      .groupBy(holidays.calendar_id);
+    const teamCounts = await db.select({ calendar_id: teams.holiday_calendar_id, count: count() })
+      .from(teams)
+      .groupBy(teams.holiday_calendar_id);
+
+    const counts = (entries: { calendar_id: string | null; count: number }[]) =>
+      new Map(entries.map(e => [e.calendar_id, Number(e.count)]));
+    const byHolidays = counts(holidayCounts);
+    const byTeams = counts(teamCounts);
+
+    return rows.map(calendar => ({
+      ...calendar,
+      holidayCount: byHolidays.get(calendar.id) ?? 0,
+      teamCount: byTeams.get(calendar.id) ?? 0
+    }));
+  }
+
+  async get(calendarId: string): Promise<HolidayCalendar | null> {
+    const [calendar] = await db.select().from(holidayCalendars).where(eq(holidayCalendars.id, calendarId)).limit(1);
+    return calendar ?? null;
+  }
+
+  // Names are unique regardless of case
+  async findByName(name: string, excludeId?: string): Promise<HolidayCalendar | null> {
+    const [calendar] = await db.select().from(holidayCalendars)
+      .where(and(
+        sql`lower(${holidayCalendars.name}) = ${name.trim().toLowerCase()}`,
+        excludeId ? ne(holidayCalendars.id, excludeId) : undefined
+      ))
+      .limit(1);
+    return calendar ?? null;
+  }
+
+  async create(data: { name: string; region?: string | null; description?: string | null }, createdBy: string): Promise<HolidayCalendar> {
+    const [calendar] = await db.insert(holidayCalendars).values({
+      name: data.name.trim(),
+      region: data.region ?? null,
+      description: data.description ?? null,
+      created_by: createdBy
+    }).returning();
+    return calendar;
+  }
+
+  // Teams and members using the calendar fall back to weekends only
+  async remove(calendarId: string): Promise<boolean> {
+    const deleted = await db.delete(holidayCalendars).where(eq(holidayCalendars.id, calendarId)).returning({ id: holidayCalendars.id });
+    return deleted.length > 0;
+  }
+
+  async holidays(calendarId: string, from?: string, to?: string): Promise<Holiday[]> {
+    return db.select().from(holidays)
+      .where(and(
+        eq(holidays.calendar_id, calendarId),
+        from ? gte(holidays.date, from) : undefined,
+        to ? lte(holidays.date, to) : undefined
+      ))
+      .orderBy(holidays.date);
+  }
+
+  async addHoliday(calendarId: string, date: string, name: string): Promise<Holiday> {
+    const [holiday] = await db.insert(holidays)
+      .values({ calendar_id: calendarId, date, name: name.trim() })
+      .onConflictDoUpdate({ target: [holidays.calendar_id, holidays.date], set: { name: name.trim() } })
+      .returning();
+    return holiday;
+  }
+
+  async removeHoliday(calendarId: string, holidayId: string): Promise<boolean> {
+    const deleted = await db.delete(holidays)
+      .where(and(eq(holidays.id, holidayId), eq(holidays.calendar_id, calendarId)))
+      .returning({ id: holidays.id });
+    return deleted.length > 0;
+  }
+
+  // Re-importing the same file is safe: dates already in the calendar are renamed, not duplicated
+  async importIcs(calendarId: string, content: string): Promise<IcsImportResult> {
+    const { holidays: parsed, skipped } = parseIcs(content);
+    if (parsed.length === 0) {
+      return { imported: 0, updated: 0, skipped };
+    }
+
+    return db.transaction(async (tx: any) => {
+      const existing = await tx.select({ date: holidays.date }).from(holidays)
+        .where(and(eq(holidays.calendar_id, calendarId), inArray(holidays.date, parsed.map(h => h.date))));
+      const known = new Set(existing.map((h: { date: string }) => h.date));
+
+      await tx.insert(holidays)
+        .values(parsed.map(h => ({ calendar_id: calendarId, date: h.date, name: h.name, source_uid: h.uid })))
+        .onConflictDoUpdate({
+          target: [holidays.calendar_id, holidays.date],
+          set: { name: sql`excluded.name`, source_uid: sql`excluded.source_uid` }
+        });
+
+      return {
+        imported: parsed.filter(h => !known.has(h.date)).length,
+        updated: parsed.filter(h => known.has(h.date)).length,
+        skipped
+      };
+    });
+  }
+
+  // Holiday dates per calendar within a range
+  async datesFor(calendarIds: string[], from: string, to: string): Promise<Map<string, Set<string>>> {
+    const ids = Array.from(new Set(calendarIds));
+    const result = new Map<string, Set<string>>(ids.map(id => [id, new Set<string>()]));
+    if (ids.length === 0) return result;
+
+    const rows = await db.select({ calendar_id: holidays.calendar_id, date: holidays.date })
+      .from(holidays)
+      .where(and(inArray(holidays.calendar_id, ids), gte(holidays.date, from), lte(holidays.date, to)));
+    rows.forEach((row: { calendar_id: string; date: string }) => result.get(row.calendar_id)!.add(row.date));
+    return result;
+  }
+
+  // Working days for a team, or weekends only when there's no team or calendar
+  async teamWorkingDays(start: string, end: string, teamId?: string | null): Promise<number> {
+    const calendarId = teamId ? await this.teamCalendar(teamId) : null;
+    if (!calendarId) return workingDays(start, end);
+    const dates = await this.datesFor([calendarId], start, end);
+    return workingDays(start, end, dates.get(calendarId));
+  }
+
+  async teamCalendar(teamId: string): Promise<string | null> {
+    const [team] = await db.select({ holiday_calendar_id: teams.holiday_calendar_id }).from(teams).where(eq(teams.id, teamId)).limit(1);
+    return team?.holiday_calendar_id ?? null;
+  }
+
+  async assignToTeam(teamId: string, calendarId: string | null): Promise<boolean> {
+    const updated = await db.update(teams)
+      .set({ holiday_calendar_id: calendarId, updated_at: new Date() })
+      .where(eq(teams.id, teamId))
+      .returning({ id: teams.id });
+    return updated.length > 0;
+  }
+
+  async assignToMember(teamId: string, memberId: string, calendarId: string | null): Promise<boolean> {
+    const updated = await db.update(teamMembers)
+      .set({ holiday_calendar_id: calendarId, updated_at: new Date() })
+      .where(and(eq(teamMembers.id, memberId), eq(teamMembers.team_id, teamId)))
+      .returning({ id: teamMembers.id });
+    return updated.length > 0;
+  }
+}
+
+export const holidayCalendarService = new HolidayCalendarService();
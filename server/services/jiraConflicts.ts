@@ -0,0 +1,181 @@
+import { db } from '../db';
+import { jiraSyncConflicts, jiraSyncHistory, type JiraSyncConflict } from '@shared/schema';
+import { eq, and, desc } from 'drizzle-orm';
+
+export const CONFLICT_POLICIES = ['local_wins', 'remote_wins', 'manual'] as const;
+export type ConflictPolicy = typeof CONFLICT_POLICIES[number];
+
+// Fields kept in step between a local item and its Jira issue, in local terms
+export const SYNC_FIELDS = ['title', 'description', 'status', 'priority'] as const;
+export type SyncField = typeof SYNC_FIELDS[number];
+export type SyncFields = Record<SyncField, string>;
+
+export interface FieldDifference {
+  field: SyncField;
+  base: string | null;
+  local: string;
+  remote: string;
+  conflicting: boolean; // changed on both sides since the last sync
+}
+
+export interface FieldChoice {
+  choice: 'local' | 'remote' | 'merged';
+  value?: string; // required for 'merged'
+}
+
+export interface MergeResult {
+  merged: SyncFields;
+  differences: FieldDifference[];
+  conflicts: number;
+}
+
+// How many recent history rows to search for the last synced snapshot
+const SNAPSHOT_LOOKBACK = 20;
+
+// Three-way merge of one item. A side changed a field when it differs from the last
+// synced snapshot; without a snapshot, differences are attributed to whichever side
+// was edited since the last sync, and are conflicts when both were.
+export function mergeFields(
+  base: SyncFields | null,
+  local: SyncFields,
+  remote: SyncFields,
+  policy: ConflictPolicy,
+  edited: { local: boolean; remote: boolean }
+): MergeResult {
+  const merged = { ...local };
+  const differences: FieldDifference[] = [];
+
+  for (const field of SYNC_FIELDS) {
+    if (local[field] === remote[field]) continue;
+
+    const localChanged = base ? local[field] !== base[field] : edited.local;
+    const remoteChanged = base ? remote[field] !== base[field] : edited.remote;
+    const conflicting = localChanged && remoteChanged;
+
+    if (conflicting) {
+      merged[field] = policy === 'remote_wins' ? remote[field] : local[field];
+    } else {
+      merged[field] = localChanged ? local[field] : remote[field];
+    }
+
+    differences.push({ field, base: base ? base[field] : null, local: local[field], remote: remote[field], conflicting });
+  }
+
+  return { merged, differences, conflicts: differences.filter(d => d.conflicting).length };
+}
+
+// Apply the user's per-field choices to a stored conflict
+export function resolveFields(differences: FieldDifference[], local: SyncFields, choices: Partial<Record<SyncField, FieldChoice>>): SyncFields {
+  const resolved = { ...local };
+
+  for (const difference of differences) {
+    const choice = choices[difference.field];
+    if (!choice) {
+      if (difference.conflicting) {
+        throw new Error(`A resolution is required for ${difference.field}`);
+      }
+      // Fields only one side changed keep that side's value
+      resolved[difference.field] = difference.local !== difference.base ? difference.local : difference.remote;
+      continue;
+    }
+
+    if (choice.choice === 'merged') {
+      if (choice.value === undefined) {
+        throw new Error(`A merged value is required for ${difference.field}`);
+      }
+      resolved[difference.field] = choice.value;
+    } else {
+      resolved[difference.field] = choice.choice === 'local' ? difference.local : difference.remote;
+    }
+  }
+
+  return resolved;
+}
+
+export class JiraConflictService {
+  // The field values both sides agreed on at the last successful item sync
+  async lastSnapshot(projectId: string, jiraIssueKey: string): Promise<SyncFields | null> {
+    const entries = await db.select({ sync_data: jiraSyncHistory.sync_data })
+      .from(jiraSyncHistory)
+      .where(and(
+        eq(jiraSyncHistory.project_id, projectId),
+        eq(jiraSyncHistory.jira_issue_key, jiraIssueKey),
+        eq(jiraSyncHistory.status, 'success')
+      ))
+      .orderBy(desc(jiraSyncHistory.created_at))
+      .limit(SNAPSHOT_LOOKBACK);
+
+    for (const entry of entries as { sync_data: string | null }[]) {
+      try {
+        const snapshot = entry.sync_data ? JSON.parse(entry.sync_data).snapshot : null;
+        if (snapshot) return snapshot;
+      } catch {
+        // Older rows may hold free-form data
+      }
+    }
+    return null;
+  }
+
+  // Keep one open conflict per item, refreshed with the latest values from both sides
+  async recordOpen(conflict: {
+    projectId: string;
+    itemType: 'task' | 'backlog';
+    itemId: string;
+    jiraIssueKey: string;
+    differences: FieldDifference[];
+    localUpdatedAt: Date | null;
+    remoteUpdatedAt: Date | null;
+  }): Promise<JiraSyncConflict> {
+    const values = {
+      fields: conflict.differences,
+      jira_issue_key: conflict.jiraIssueKey,
+      local_updated_at: conflict.localUpdatedAt,
+      remote_updated_at: conflict.remoteUpdatedAt,
+      updated_at: new Date()
+    };
+
+    const [existing] = await db.select({ id: jiraSyncConflicts.id })
+      .from(jiraSyncConflicts)
+      .where(and(eq(jiraSyncConflicts.item_id, conflict.itemId), eq(jiraSyncConflicts.status, 'open')))
+      .limit(1);
+
+    if (existing) {
+      const [updated] = await db.update(jiraSyncConflicts).set(values).where(eq(jiraSyncConflicts.id, existing.id)).returning();
+      return updated;
+    }
+
+    const [created] = await db.insert(jiraSyncConflicts).values({
+      ...values,
+      project_id: conflict.projectId,
+      item_type: conflict.itemType,
+      item_id: conflict.itemId
+    }).returning();
+    return created;
+  }
+
+  async list(projectId: string, status: string = 'open'): Promise<JiraSyncConflict[]> {
+    return db.select().from(jiraSyncConflicts)
+      .where(and(eq(jiraSyncConflicts.project_id, projectId), eq(jiraSyncConflicts.status, status)))
+      .orderBy(desc(jiraSyncConflicts.updated_at));
+  }
+
+  async get(conflictId: string): Promise<JiraSyncConflict | null> {
+    const [conflict] = await db.select().from(jiraSyncConflicts).where(eq(jiraSyncConflicts.id, conflictId)).limit(1);
+    return conflict ?? null;
+  }
+
+  async openItemIds(projectId: string): Promise<Set<string>> {
+    const open = await db.select({ item_id: jiraSyncConflicts.item_id })
+      .from(jiraSyncConflicts)
+      .where(and(eq(jiraSyncConflicts.project_id, projectId), eq(jiraSyncConflicts.status, 'open')));
+    return new Set(open.map((c: { item_id: string }) => c.item_id));
+  }
+
+  async markResolved(conflictId: string, resolution: Partial<Record<SyncField, FieldChoice>>, resolvedBy: string): Promise<void> {
+    await db.update(jiraSyncConflicts)
+      .set({ status: 'resolved', resolution, resolved_by: resolvedBy, resolved_at: new Date(), updated_at: new Date() })
+      .where(eq(jiraSyncConflicts.id, conflictId));
+  }
+}
+
+export const jiraConflicts = new JiraConflictService();
@@ -21,6 +21,8 @@ export interface JiraIssue {
     };
     updated: string;
     created: string;
+    duedate?: string | null;
+    [field: string]: any; // custom fields, keyed by id
   };
 }
 
@@ -40,6 +42,7 @@ export interface JiraCreateIssuePayload {
     assignee?: {
       emailAddress: string;
     };
+    [field: string]: any; // mapped system and custom fields
   };
 }
 
@@ -53,20 +56,100 @@ export interface JiraUpdateIssuePayload {
     assignee?: {
       emailAddress: string;
     };
+    [field: string]: any;
   };
 }
 
+// A field as described by Jira's /field endpoint
+export interface JiraFieldInfo {
+  id: string;
+  name: string;
+  custom: boolean;
+  schema?: {
+    type: string;
+    custom?: string;
+  };
+}
+
+// What a Jira project offers to map onto
+export interface JiraProjectMetadata {
+  issueTypes: { id: string; name: string }[];
+  statuses: string[];
+  priorities: string[];
+  fields: JiraFieldInfo[];
+}
+
+// Values resolved in Jira for the local fields that need a lookup
+export interface JiraFieldContext {
+  assigneeAccountId?: string | null;
+  fixVersionId?: string | null;
+  epicKey?: string | null;
+}
+
 export interface JiraTransitionPayload {
   transition: {
     id: string;
   };
 }
 
+// Jira fields that receive local task fields; null leaves the field out of the sync
+export interface JiraFieldTargets {
+  description: string | null; // 'description' or a text custom field
+  due_date: string | null; // 'duedate' or a date custom field
+  owner: string | null; // 'assignee' or a user picker custom field
+  milestone: 'fixVersion' | 'epic' | null;
+  epicLinkField: string | null; // Epic Link custom field; team-managed projects use parent instead
+}
+
 // Field mapping configuration
 export interface JiraFieldMapping {
   statusMapping: Record<string, string>; // local status -> jira status
   priorityMapping: Record<string, string>; // local priority -> jira priority
   issueType: string; // default issue type for synced tasks
+  fields: JiraFieldTargets;
+}
+
+export const LOCAL_TASK_STATUSES = ['todo', 'in_progress', 'completed', 'blocked', 'on_hold'] as const;
+export const LOCAL_TASK_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+
+const fieldId = z.string().trim().min(1);
+
+export const jiraFieldMappingSchema = z.object({
+  statusMapping: z.record(z.enum(LOCAL_TASK_STATUSES), fieldId),
+  priorityMapping: z.record(z.enum(LOCAL_TASK_PRIORITIES), fieldId),
+  issueType: fieldId,
+  fields: z.object({
+    description: fieldId.nullable(),
+    due_date: fieldId.nullable(),
+    owner: fieldId.nullable(),
+    milestone: z.enum(['fixVersion', 'epic']).nullable(),
+    epicLinkField: fieldId.nullable()
+  })
+});
+
+// Custom field schema types that can hold each local field
+const COMPATIBLE_FIELD_TYPES: Record<'description' | 'due_date' | 'owner' | 'epicLinkField', string[]> = {
+  description: ['string'],
+  due_date: ['date', 'datetime'],
+  owner: ['user'],
+  epicLinkField: ['any', 'string']
+};
+
+// Raised for any non-2xx response; status and Retry-After let callers back off on 429s
+export class JiraApiError extends Error {
+  status: number;
+  retryAfterSeconds: number | null;
+
+  constructor(status: number, statusText: string, body: string, retryAfterSeconds: number | null = null) {
+    super(`Jira API error: ${status} ${statusText} - ${body}`);
+    this.name = 'JiraApiError';
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+
+  get isRateLimited(): boolean {
+    return this.status === 429;
+  }
 }
 
 export class JiraService {
@@ -82,6 +165,14 @@ export class JiraService {
     this.projectKey = projectKey;
   }
 
+  static fromIntegration(integration: { jira_base_url: string; jira_email: string; jira_api_token: string; jira_project_key: string }): JiraService {
+    return new JiraService(integration.jira_base_url, integration.jira_email, integration.jira_api_token, integration.jira_project_key);
+  }
+
+  get key(): string {
+    return this.projectKey;
+  }
+
   private getAuthHeaders(): Record<string, string> {
     const auth = Buffer.from(`${this.email}:${this.apiToken}`).toString('base64');
     return {
@@ -111,7 +202,8 @@ export class JiraService {
     if (!response.ok) {
       const errorText = await response.text();
       console.error('Jira API error response:', errorText);
-      throw new Error(`Jira API error: ${response.status} ${response.statusText} - ${errorText}`);
+      const retryAfter = parseInt(response.headers.get('Retry-After') || '', 10);
+      throw new JiraApiError(response.status, response.statusText, errorText, isNaN(retryAfter) ? null : retryAfter);
     }
 
     return response.json();
@@ -148,6 +240,77 @@ export class JiraService {
     return project.issueTypes || [];
   }
 
+  // Status names used by any of the project's issue types
+  async getStatuses(): Promise<string[]> {
+    const issueTypes: { statuses: { name: string }[] }[] = await this.makeRequest(`/project/${this.projectKey}/statuses`);
+    const names = issueTypes.flatMap(issueType => issueType.statuses.map(status => status.name));
+    return Array.from(new Set(names));
+  }
+
+  async getPriorities(): Promise<string[]> {
+    const priorities: { name: string }[] = await this.makeRequest('/priority');
+    return priorities.map(priority => priority.name);
+  }
+
+  // All system and custom fields on the Jira site
+  async getFields(): Promise<JiraFieldInfo[]> {
+    return this.makeRequest('/field');
+  }
+
+  async getMetadata(): Promise<JiraProjectMetadata> {
+    const [issueTypes, statuses, priorities, fields] = await Promise.all([
+      this.getIssueTypes(),
+      this.getStatuses(),
+      this.getPriorities(),
+      this.getFields()
+    ]);
+
+    return {
+      issueTypes: issueTypes.map((type: any) => ({ id: type.id, name: type.name })),
+      statuses,
+      priorities,
+      fields: fields.map(field => ({ id: field.id, name: field.name, custom: field.custom, schema: field.schema }))
+    };
+  }
+
+  // Jira Cloud identifies users by account id; look one up from an email address
+  async findUserAccountId(email: string): Promise<string | null> {
+    const users: { accountId: string; emailAddress?: string }[] = await this.makeRequest(`/user/search?${new URLSearchParams({ query: email })}`);
+    const match = users.find(user => user.emailAddress?.toLowerCase() === email.toLowerCase()) || users[0];
+    return match?.accountId ?? null;
+  }
+
+  // Find a project version by name, creating it if needed
+  async ensureVersion(name: string): Promise<string> {
+    const versions: { id: string; name: string }[] = await this.makeRequest(`/project/${this.projectKey}/versions`);
+    const existing = versions.find(version => version.name === name);
+    if (existing) return existing.id;
+
+    const project = await this.getProject();
+    const created = await this.makeRequest('/version', {
+      method: 'POST',
+      body: JSON.stringify({ name, projectId: Number(project.id) })
+    });
+    return created.id;
+  }
+
+  // Find an epic by summary, creating it if needed
+  async ensureEpic(summary: string): Promise<string> {
+    const escaped = summary.replace(/(["\\])/g, '\\$1');
+    const result = await this.searchIssues(`project = ${this.projectKey} AND issuetype = Epic AND summary ~ "${escaped}"`, 50, 0, ['summary']);
+    const existing = result.issues.find(issue => issue.fields.summary === summary);
+    if (existing) return existing.key;
+
+    const created = await this.createIssue({
+      fields: {
+        project: { key: this.projectKey },
+        summary,
+        issuetype: { name: 'Epic' }
+      }
+    });
+    return created.key;
+  }
+
   // Get available transitions for an issue
   async getTransitions(issueKey: string): Promise<any[]> {
     const response = await this.makeRequest(`/issue/${issueKey}/transitions`);
@@ -186,15 +349,35 @@ export class JiraService {
   }
 
   // Search for issues
-  async searchIssues(jql: string, maxResults: number = 50): Promise<{ issues: JiraIssue[] }> {
+  async searchIssues(jql: string, maxResults: number = 50, startAt: number = 0, fields?: string[]): Promise<{ issues: JiraIssue[]; total?: number; startAt?: number }> {
     const params = new URLSearchParams({
       jql,
-      maxResults: maxResults.toString()
+      maxResults: maxResults.toString(),
+      startAt: startAt.toString()
     });
+    if (fields) {
+      params.set('fields', fields.join(','));
+    }
     
     return this.makeRequest(`/search?${params}`);
   }
 
+  // Collect every issue key matching a query, paging through the results
+  async listIssueKeys(jql: string = `project = ${this.projectKey}`, pageSize: number = 100): Promise<string[]> {
+    const keys: string[] = [];
+    let startAt = 0;
+
+    while (true) {
+      const page = await this.searchIssues(jql, pageSize, startAt, ['key']);
+      keys.push(...page.issues.map(issue => issue.key));
+      startAt += page.issues.length;
+
+      if (page.issues.length === 0 || startAt >= (page.total ?? 0)) {
+        return keys;
+      }
+    }
+  }
+
   // Add comment to issue
   async addComment(issueKey: string, comment: string): Promise<void> {
     await this.makeRequest(`/issue/${issueKey}/comment`, {
@@ -227,18 +410,133 @@ export class JiraService {
   }
 
   // Convert local task to Jira issue payload
-  static taskToJiraPayload(task: any, projectKey: string, mapping: JiraFieldMapping): JiraCreateIssuePayload {
-    return {
+  static taskToJiraPayload(task: any, projectKey: string, mapping: JiraFieldMapping, context: JiraFieldContext = {}): JiraCreateIssuePayload {
+    const payload: JiraCreateIssuePayload = {
       fields: {
         project: { key: projectKey },
         summary: task.title,
-        description: task.description || '',
         issuetype: { name: mapping.issueType },
         priority: task.priority && mapping.priorityMapping[task.priority] 
           ? { name: mapping.priorityMapping[task.priority] }
           : undefined
       }
     };
+
+    const targets = mapping.fields ?? defaultJiraFieldMapping.fields;
+    if (targets.description) {
+      payload.fields[targets.description] = task.description || '';
+    }
+    if (targets.due_date && task.due_date !== undefined) {
+      payload.fields[targets.due_date] = task.due_date || null;
+    }
+    if (targets.owner && context.assigneeAccountId !== undefined) {
+      payload.fields[targets.owner] = context.assigneeAccountId ? { accountId: context.assigneeAccountId } : null;
+    }
+    if (targets.milestone === 'fixVersion' && context.fixVersionId) {
+      payload.fields.fixVersions = [{ id: context.fixVersionId }];
+    }
+    if (targets.milestone === 'epic' && context.epicKey) {
+      if (targets.epicLinkField) {
+        payload.fields[targets.epicLinkField] = context.epicKey;
+      } else {
+        payload.fields.parent = { key: context.epicKey };
+      }
+    }
+
+    return payload;
+  }
+
+  // Map a Jira status name onto the closest local task status
+  static jiraStatusToLocal(jiraStatusName: string): string {
+    const jiraStatus = jiraStatusName.toLowerCase();
+    if (jiraStatus.includes('progress') || jiraStatus.includes('doing')) {
+      return 'in_progress';
+    } else if (jiraStatus.includes('done') || jiraStatus.includes('complete')) {
+      return 'completed';
+    } else if (jiraStatus.includes('block') || jiraStatus.includes('stop')) {
+      return 'blocked';
+    }
+    return 'todo';
+  }
+
+  // Reverse of statusMapping; statuses the mapping doesn't cover are matched by name
+  static localStatusFor(jiraStatusName: string, mapping: JiraFieldMapping): string {
+    const local = Object.entries(mapping.statusMapping)
+      .find(([, name]) => name.toLowerCase() === jiraStatusName.toLowerCase());
+    return local ? local[0] : JiraService.jiraStatusToLocal(jiraStatusName);
+  }
+
+  // Reverse of priorityMapping; unmapped priorities keep their Jira name
+  static localPriorityFor(jiraPriorityName: string | undefined, mapping: JiraFieldMapping): string {
+    if (!jiraPriorityName) return 'medium';
+    const local = Object.entries(mapping.priorityMapping)
+      .find(([, name]) => name.toLowerCase() === jiraPriorityName.toLowerCase());
+    return local ? local[0] : jiraPriorityName.toLowerCase();
+  }
+
+  // Read the field mapping stored on an integration, falling back to the defaults
+  // for anything missing or invalid
+  static parseFieldMapping(raw: string | null | undefined): JiraFieldMapping {
+    if (!raw) return defaultJiraFieldMapping;
+    try {
+      const parsed = JSON.parse(raw);
+      const mapping = {
+        statusMapping: { ...defaultJiraFieldMapping.statusMapping, ...parsed.statusMapping },
+        priorityMapping: { ...defaultJiraFieldMapping.priorityMapping, ...parsed.priorityMapping },
+        issueType: parsed.issueType || defaultJiraFieldMapping.issueType,
+        fields: { ...defaultJiraFieldMapping.fields, ...parsed.fields }
+      };
+      return jiraFieldMappingSchema.safeParse(mapping).success ? mapping : defaultJiraFieldMapping;
+    } catch {
+      return defaultJiraFieldMapping;
+    }
+  }
+
+  // Check a mapping against what the Jira project actually offers; returns one message per problem
+  static validateFieldMapping(mapping: JiraFieldMapping, metadata: JiraProjectMetadata): string[] {
+    const errors: string[] = [];
+    const has = (names: string[], name: string) => names.some(n => n.toLowerCase() === name.toLowerCase());
+
+    if (!has(metadata.issueTypes.map(t => t.name), mapping.issueType)) {
+      errors.push(`Issue type "${mapping.issueType}" does not exist in this Jira project`);
+    }
+    for (const [local, jiraStatus] of Object.entries(mapping.statusMapping)) {
+      if (!has(metadata.statuses, jiraStatus)) {
+        errors.push(`Status "${jiraStatus}" mapped from ${local} does not exist in this Jira project`);
+      }
+    }
+    for (const [local, jiraPriority] of Object.entries(mapping.priorityMapping)) {
+      if (!has(metadata.priorities, jiraPriority)) {
+        errors.push(`Priority "${jiraPriority}" mapped from ${local} does not exist in Jira`);
+      }
+    }
+
+    const targets = mapping.fields;
+    const standardTargets: Record<keyof typeof COMPATIBLE_FIELD_TYPES, string | null> = {
+      description: 'description',
+      due_date: 'duedate',
+      owner: 'assignee',
+      epicLinkField: null
+    };
+    for (const local of Object.keys(COMPATIBLE_FIELD_TYPES) as (keyof typeof COMPATIBLE_FIELD_TYPES)[]) {
+      const target = targets[local];
+      if (!target || target === standardTargets[local]) continue;
+
+      const field = metadata.fields.find(f => f.id === target);
+      if (!field) {
+        errors.push(`Field ${target} mapped from ${local} does not exist in Jira`);
+      } else if (!field.schema || !COMPATIBLE_FIELD_TYPES[local].includes(field.schema.type)) {
+        errors.push(`Field "${field.name}" can't hold ${local.replace('_', ' ')} values (type ${field.schema?.type ?? 'unknown'})`);
+      }
+    }
+
+    // Keep duplicate targets from overwriting each other
+    const used = [targets.description, targets.due_date, targets.owner, targets.epicLinkField].filter(Boolean);
+    if (new Set(used).size !== used.length) {
+      errors.push('Each Jira field can only receive one local field');
+    }
+
+    return errors;
   }
 
   // Convert Jira issue to local task format
@@ -268,5 +566,12 @@ export const defaultJiraFieldMapping: JiraFieldMapping = {
     'high': 'High',
     'urgent': 'Highest'
   },
-  issueType: 'Task'
+  issueType: 'Task',
+  fields: {
+    description: 'description',
+    due_date: null,
+    owner: null,
+    milestone: null,
+    epicLinkField: null
+  }
 };
\ No newline at end of file
@@ -0,0 +1,741 @@
+import { db } from '../db';
+import {
+  tasks,
+  taskBacklog,
+  milestones,
+  users,
+  taskStatusHistory,
+  jiraIntegrations,
+  jiraSyncHistory,
+  insertTaskBacklogSchema,
+  insertJiraSyncHistorySchema,
+  type JiraIntegration
+} from '@shared/schema';
+import { eq, and, or, isNull, isNotNull } from 'drizzle-orm';
+import { JiraService, JiraApiError, type JiraIssue, type JiraFieldMapping, type JiraFieldContext } from './jiraService';
+import { taskLifecycleStamps } from './taskLifecycle';
+import { retroActionItems } from './retroActionItems';
+import { sprintPlanning } from './sprintPlanning';
+import {
+  jiraConflicts,
+  mergeFields,
+  resolveFields,
+  type ConflictPolicy,
+  type FieldChoice,
+  type FieldDifference,
+  type SyncField,
+  type SyncFields
+} from './jiraConflicts';
+
+export type SyncTrigger = 'manual' | 'scheduled';
+
+export interface ImportOptions {
+  performedBy: string | null;
+  since?: Date | null; // only fetch issues updated after this time
+  updateExisting?: boolean; // refresh linked items from Jira instead of skipping them
+}
+
+export interface ImportResult {
+  imported: number;
+  updated: number;
+  conflicts: number;
+  skipped: number;
+  total: number;
+  results: any[];
+}
+
+export interface ExportOptions {
+  performedBy: string | null;
+  pushChanges?: boolean; // also push local edits on linked tasks back to Jira
+  skipKeys?: Set<string>; // issues already refreshed from Jira in this run
+}
+
+export interface ExportResult {
+  exported: number;
+  pushed: number;
+  total: number;
+  results: any[];
+}
+
+// A task or backlog item linked to a Jira issue through jira_issue_key
+export interface LinkedItem {
+  type: 'task' | 'backlog';
+  item: any;
+}
+
+// Outcome of reconciling an item that changed on both sides since its last sync
+export type ReconcileOutcome =
+  | { status: 'merged'; snapshot: SyncFields; differences: FieldDifference[] }
+  | { status: 'conflict'; conflictId: string; differences: FieldDifference[] };
+
+// Jira lookups made while building payloads, shared across the tasks of one run
+export interface FieldContextCache {
+  accounts: Map<string, string | null>; // local user id -> Jira account id
+  milestones: Map<string, string | null>; // milestone id -> fix version id or epic key
+}
+
+export const newContextCache = (): FieldContextCache => ({ accounts: new Map(), milestones: new Map() });
+
+export interface SyncRunResult {
+  startedAt: Date;
+  incremental: boolean;
+  import: ImportResult;
+  export: ExportResult;
+}
+
+const SEARCH_PAGE_SIZE = 100;
+
+// A sync stamps updated_at and jira_last_sync in the same write; allow for the gap between them
+const CHANGE_TOLERANCE_MS = 1000;
+
+// Re-fetch a minute either side of the last sync so clock skew can't drop an update
+const INCREMENTAL_OVERLAP_MINUTES = 1;
+
+const errorMessage = (error: unknown): string => error instanceof Error ? error.message : 'Unknown error';
+
+// Results whose items were already settled with Jira during the import phase
+const IMPORT_SETTLED_STATUSES = ['updated', 'merged', 'conflict'];
+
+const itemFields = (item: any): SyncFields => ({
+  title: item.title,
+  description: item.description || '',
+  status: item.status,
+  priority: item.priority || 'medium'
+});
+
+const issueFields = (issue: JiraIssue, mapping: JiraFieldMapping): SyncFields => ({
+  title: issue.fields.summary,
+  description: issue.fields.description || '',
+  status: JiraService.localStatusFor(issue.fields.status.name, mapping),
+  priority: JiraService.localPriorityFor(issue.fields.priority?.name, mapping)
+});
+
+const sameFields = (a: SyncFields, b: SyncFields): boolean =>
+  a.title === b.title && a.description === b.description && a.status === b.status && a.priority === b.priority;
+
+// Rate limiting ends the whole run; the scheduler decides when to try again
+const isRateLimited = (error: unknown): boolean => error instanceof JiraApiError && error.isRateLimited;
+
+export class JiraSyncService {
+  // Run an import followed by an export for one integration and record the run in jiraSyncHistory.
+  // Incremental runs only ask Jira for issues updated since the integration's last_sync.
+  async runSync(
+    integration: JiraIntegration,
+    options: { performedBy: string | null; trigger: SyncTrigger; incremental: boolean }
+  ): Promise<SyncRunResult> {
+    const startedAt = new Date();
+    const incremental = options.incremental && Boolean(integration.last_sync);
+    const operation = options.trigger === 'scheduled' ? 'auto_sync' : 'full_sync';
+
+    try {
+      const importResult = await this.importIssues(integration, {
+        performedBy: options.performedBy,
+        since: incremental ? integration.last_sync : null,
+        updateExisting: true
+      });
+
+      const refreshedKeys = new Set<string>(
+        importResult.results.filter(r => IMPORT_SETTLED_STATUSES.includes(r.status)).map(r => r.jira_issue_key)
+      );
+      const exportResult = await this.exportTasks(integration, {
+        performedBy: options.performedBy,
+        pushChanges: true,
+        skipKeys: refreshedKeys
+      });
+
+      // Use the start time so issues edited while this run was in flight are picked up next time
+      await db.update(jiraIntegrations)
+        .set({ last_sync: startedAt, updated_at: new Date() })
+        .where(eq(jiraIntegrations.id, integration.id));
+
+      await this.recordHistory({
+        project_id: integration.project_id,
+        sync_direction: 'bidirectional',
+        operation,
+        status: 'success',
+        sync_data: JSON.stringify({
+          incremental,
+          imported: importResult.imported,
+          updated: importResult.updated,
+          conflicts: importResult.conflicts,
+          skipped: importResult.skipped,
+          exported: exportResult.exported,
+          pushed: exportResult.pushed
+        }),
+        performed_by: options.performedBy
+      });
+
+      return { startedAt, incremental, import: importResult, export: exportResult };
+    } catch (error) {
+      await this.recordHistory({
+        project_id: integration.project_id,
+        sync_direction: 'bidirectional',
+        operation,
+        status: 'error',
+        error_message: errorMessage(error),
+        sync_data: JSON.stringify({ incremental }),
+        performed_by: options.performedBy
+      });
+      throw error;
+    }
+  }
+
+  async importIssues(integration: JiraIntegration, options: ImportOptions): Promise<ImportResult> {
+    const jiraService = JiraService.fromIntegration(integration);
+    const mapping = JiraService.parseFieldMapping(integration.field_mapping);
+    const projectId = integration.project_id;
+
+    let jql = `project = ${integration.jira_project_key}`;
+    if (options.since) {
+      // Relative dates avoid depending on the Jira user's time zone
+      const minutes = Math.ceil((Date.now() - new Date(options.since).getTime()) / 60000) + INCREMENTAL_OVERLAP_MINUTES;
+      jql += ` AND updated >= "-${minutes}m" ORDER BY updated ASC`;
+    } else {
+      jql += ' ORDER BY created DESC';
+    }
+
+    const issues = await this.searchAll(jiraService, jql);
+    const result: ImportResult = { imported: 0, updated: 0, conflicts: 0, skipped: 0, total: issues.length, results: [] };
+
+    for (const issue of issues) {
+      try {
+        const linked = await this.findLinkedItem(projectId, issue.key);
+
+        if (linked) {
+          if (!options.updateExisting || !this.changedInJira(issue, linked)) {
+            result.skipped++;
+            result.results.push({
+              jira_issue_key: issue.key,
+              status: 'skipped',
+              reason: options.updateExisting ? 'Already up to date' : 'Task already exists'
+            });
+            continue;
+          }
+
+          const changedBy = options.performedBy ?? integration.created_by;
+
+          if (this.changedLocally(linked)) {
+            const outcome = await this.reconcile(integration, jiraService, issue, linked, mapping, changedBy);
+            await this.recordHistory({
+              project_id: projectId,
+              task_id: linked.type === 'task' ? linked.item.id : null,
+              jira_issue_key: issue.key,
+              sync_direction: 'bidirectional',
+              operation: outcome.status === 'merged' ? 'merge' : 'conflict',
+              status: outcome.status === 'merged' ? 'success' : 'pending',
+              sync_data: JSON.stringify(outcome.status === 'merged'
+                ? { snapshot: outcome.snapshot, differences: outcome.differences }
+                : { conflict_id: outcome.conflictId, differences: outcome.differences }),
+              performed_by: options.performedBy
+            });
+
+            if (outcome.status === 'merged') {
+              result.updated++;
+            } else {
+              result.conflicts++;
+            }
+            result.results.push({ jira_issue_key: issue.key, task_id: linked.item.id, status: outcome.status });
+            continue;
+          }
+
+          await this.applyIssue(issue, linked, mapping, changedBy);
+          await this.recordHistory({
+            project_id: projectId,
+            task_id: linked.type === 'task' ? linked.item.id : null,
+            jira_issue_key: issue.key,
+            sync_direction: 'from_jira',
+            operation: 'update',
+            status: 'success',
+            sync_data: JSON.stringify({
+              jira_summary: issue.fields.summary,
+              jira_status: issue.fields.status.name,
+              jira_updated: issue.fields.updated,
+              snapshot: issueFields(issue, mapping)
+            }),
+            performed_by: options.performedBy
+          });
+
+          result.updated++;
+          result.results.push({ jira_issue_key: issue.key, task_id: linked.item.id, status: 'updated' });
+          continue;
+        }
+
+        const newItem = await this.createBacklogItem(integration, issue, mapping, options.performedBy ?? integration.created_by);
+
+        await this.recordHistory({
+          project_id: projectId,
+          jira_issue_key: issue.key,
+          sync_direction: 'from_jira',
+          operation: 'import',
+          status: 'success',
+          sync_data: JSON.stringify({
+            jira_issue_id: issue.id,
+            jira_summary: issue.fields.summary,
+            jira_status: issue.fields.status.name,
+            snapshot: issueFields(issue, mapping)
+          }),
+          performed_by: options.performedBy
+        });
+
+        result.imported++;
+        result.results.push({ jira_issue_key: issue.key, task_id: newItem.id, status: 'imported' });
+      } catch (error) {
+        if (isRateLimited(error)) throw error;
+        console.error(`Failed to import ${issue.key}:`, error);
+
+        await this.recordHistory({
+          project_id: projectId,
+          jira_issue_key: issue.key,
+          sync_direction: 'from_jira',
+          operation: 'import',
+          status: 'error',
+          error_message: errorMessage(error),
+          performed_by: options.performedBy
+        });
+
+        result.results.push({ jira_issue_key: issue.key, status: 'error', error: errorMessage(error) });
+      }
+    }
+
+    return result;
+  }
+
+  async exportTasks(integration: JiraIntegration, options: ExportOptions): Promise<ExportResult> {
+    const jiraService = JiraService.fromIntegration(integration);
+    const mapping = JiraService.parseFieldMapping(integration.field_mapping);
+    const projectId = integration.project_id;
+
+    const tasksToExport = await db.select().from(tasks)
+      .where(and(
+        eq(tasks.project_id, projectId),
+        or(eq(tasks.jira_synced, false), isNull(tasks.jira_issue_key)),
+        // Tasks whose issue was deleted in Jira are only exported again by hand
+        isNull(tasks.jira_deleted_at)
+      ));
+
+    const result: ExportResult = { exported: 0, pushed: 0, total: tasksToExport.length, results: [] };
+    const cache = newContextCache();
+
+    for (const task of tasksToExport) {
+      try {
+        const createdIssue = await this.createIssueForTask(jiraService, task, mapping, cache);
+        const syncedAt = new Date();
+
+        await db.update(tasks)
+          .set({
+            jira_synced: true,
+            jira_issue_key: createdIssue.key,
+            jira_issue_id: createdIssue.id,
+            jira_sync_enabled: true,
+            jira_last_sync: syncedAt,
+            updated_at: syncedAt
+          })
+          .where(eq(tasks.id, task.id));
+
+        await this.recordHistory({
+          project_id: projectId,
+          task_id: task.id,
+          jira_issue_key: createdIssue.key,
+          sync_direction: 'to_jira',
+          operation: 'export',
+          status: 'success',
+          sync_data: JSON.stringify({
+            jira_issue_id: createdIssue.id,
+            local_title: task.title,
+            local_status: task.status,
+            snapshot: itemFields(task)
+          }),
+          performed_by: options.performedBy
+        });
+
+        result.exported++;
+        result.results.push({ task_id: task.id, jira_issue_key: createdIssue.key, status: 'exported' });
+      } catch (error) {
+        if (isRateLimited(error)) throw error;
+        console.error(`Failed to export task ${task.id}:`, error);
+
+        await this.recordHistory({
+          project_id: projectId,
+          task_id: task.id,
+          sync_direction: 'to_jira',
+          operation: 'export',
+          status: 'error',
+          error_message: errorMessage(error),
+          performed_by: options.performedBy
+        });
+
+        result.results.push({ task_id: task.id, status: 'error', error: errorMessage(error) });
+      }
+    }
+
+    if (options.pushChanges) {
+      await this.pushLocalChanges(integration, jiraService, mapping, options, result, cache);
+    }
+
+    return result;
+  }
+
+  // Push edits made locally since the last sync on tasks that are already linked to Jira
+  private async pushLocalChanges(
+    integration: JiraIntegration,
+    jiraService: JiraService,
+    mapping: JiraFieldMapping,
+    options: ExportOptions,
+    result: ExportResult,
+    cache: FieldContextCache
+  ): Promise<void> {
+    const linkedTasks = await db.select().from(tasks)
+      .where(and(
+        eq(tasks.project_id, integration.project_id),
+        eq(tasks.jira_sync_enabled, true),
+        isNotNull(tasks.jira_issue_key)
+      ));
+    // Items waiting on a conflict resolution stay as they are on both sides
+    const conflicted = await jiraConflicts.openItemIds(integration.project_id);
+
+    const changed = linkedTasks.filter((task: any) => !options.skipKeys?.has(task.jira_issue_key)
+      && !conflicted.has(task.id)
+      && this.changedLocally({ type: 'task', item: task }));
+
+    for (const task of changed) {
+      try {
+        const context = await this.fieldContext(jiraService, task, mapping, cache);
+        await this.pushFields(jiraService, task.jira_issue_key, task, mapping, context);
+
+        const syncedAt = new Date();
+        await db.update(tasks)
+          .set({ jira_last_sync: syncedAt, updated_at: syncedAt })
+          .where(eq(tasks.id, task.id));
+
+        await this.recordHistory({
+          project_id: integration.project_id,
+          task_id: task.id,
+          jira_issue_key: task.jira_issue_key,
+          sync_direction: 'to_jira',
+          operation: 'update',
+          status: 'success',
+          sync_data: JSON.stringify({ local_title: task.title, local_status: task.status, snapshot: itemFields(task) }),
+          performed_by: options.performedBy
+        });
+
+        result.pushed++;
+        result.results.push({ task_id: task.id, jira_issue_key: task.jira_issue_key, status: 'pushed' });
+      } catch (error) {
+        if (isRateLimited(error)) throw error;
+        console.error(`Failed to push task ${task.id} to ${task.jira_issue_key}:`, error);
+
+        await this.recordHistory({
+          project_id: integration.project_id,
+          task_id: task.id,
+          jira_issue_key: task.jira_issue_key,
+          sync_direction: 'to_jira',
+          operation: 'update',
+          status: 'error',
+          error_message: errorMessage(error),
+          performed_by: options.performedBy
+        });
+
+        result.results.push({ task_id: task.id, jira_issue_key: task.jira_issue_key, status: 'error', error: errorMessage(error) });
+      }
+    }
+  }
+
+  // Tasks take precedence over backlog items that share a key
+  async findLinkedItem(projectId: string, jiraIssueKey: string): Promise<LinkedItem | null> {
+    const [task] = await db.select().from(tasks)
+      .where(and(eq(tasks.project_id, projectId), eq(tasks.jira_issue_key, jiraIssueKey)))
+      .limit(1);
+    if (task) return { type: 'task', item: task };
+
+    const [backlogItem] = await db.select().from(taskBacklog)
+      .where(and(eq(taskBacklog.project_id, projectId), eq(taskBacklog.jira_issue_key, jiraIssueKey)))
+      .limit(1);
+    return backlogItem ? { type: 'backlog', item: backlogItem } : null;
+  }
+
+  // True when Jira has a newer version of the issue than the linked item last saw
+  changedInJira(issue: JiraIssue, linked: LinkedItem): boolean {
+    return !linked.item.jira_last_sync
+      || new Date(issue.fields.updated).getTime() > new Date(linked.item.jira_last_sync).getTime() + CHANGE_TOLERANCE_MS;
+  }
+
+  issueFields(issue: JiraIssue, mapping: JiraFieldMapping): SyncFields {
+    return issueFields(issue, mapping);
+  }
+
+  // True when the item was edited locally after its last sync
+  changedLocally(linked: LinkedItem): boolean {
+    return Boolean(linked.item.jira_last_sync)
+      && new Date(linked.item.updated_at).getTime() - new Date(linked.item.jira_last_sync).getTime() > CHANGE_TOLERANCE_MS;
+  }
+
+  // Merge an item that changed on both sides since its last sync. Fields changed on one side
+  // only are merged; fields changed on both are settled by the integration's conflict policy,
+  // or, under 'manual', left untouched on both sides and recorded as an open conflict.
+  async reconcile(
+    integration: JiraIntegration,
+    jiraService: JiraService,
+    issue: JiraIssue,
+    linked: LinkedItem,
+    mapping: JiraFieldMapping,
+    changedBy: string
+  ): Promise<ReconcileOutcome> {
+    const base = await jiraConflicts.lastSnapshot(integration.project_id, issue.key);
+    const local = itemFields(linked.item);
+    const remote = issueFields(issue, mapping);
+    const policy = integration.conflict_policy as ConflictPolicy;
+
+    const { merged, differences, conflicts } = mergeFields(base, local, remote, policy, {
+      local: this.changedLocally(linked),
+      remote: this.changedInJira(issue, linked)
+    });
+
+    if (conflicts > 0 && policy === 'manual') {
+      const conflict = await jiraConflicts.recordOpen({
+        projectId: integration.project_id,
+        itemType: linked.type,
+        itemId: linked.item.id,
+        jiraIssueKey: issue.key,
+        differences,
+        localUpdatedAt: linked.item.updated_at,
+        remoteUpdatedAt: new Date(issue.fields.updated)
+      });
+      return { status: 'conflict', conflictId: conflict.id, differences };
+    }
+
+    if (!sameFields(merged, remote)) {
+      await this.pushFields(jiraService, issue.key, merged, mapping);
+    }
+    await this.applyFields(linked, merged, changedBy, `Merged with Jira ${issue.key}`);
+
+    return { status: 'merged', snapshot: merged, differences };
+  }
+
+  // Settle an open conflict with the user's per-field choices and push the result to both sides
+  async resolveConflict(conflictId: string, choices: Partial<Record<SyncField, FieldChoice>>, resolvedBy: string): Promise<SyncFields> {
+    const conflict = await jiraConflicts.get(conflictId);
+    if (!conflict || conflict.status !== 'open') {
+      throw new Error('Conflict not found or already resolved');
+    }
+
+    const [integration] = await db.select().from(jiraIntegrations)
+      .where(eq(jiraIntegrations.project_id, conflict.project_id))
+      .limit(1);
+    if (!integration) {
+      throw new Error('Jira integration not configured for this project');
+    }
+
+    const linked = await this.findLinkedItem(conflict.project_id, conflict.jira_issue_key);
+    if (!linked || linked.item.id !== conflict.item_id) {
+      throw new Error(`Item is no longer linked to ${conflict.jira_issue_key}`);
+    }
+
+    // 'local' means the item as it is now, which may have been edited since the conflict was found
+    const local = itemFields(linked.item);
+    const differences = (conflict.fields as FieldDifference[]).map(d => ({ ...d, local: local[d.field] }));
+    const resolved = resolveFields(differences, local, choices);
+    const mapping = JiraService.parseFieldMapping(integration.field_mapping);
+
+    await this.pushFields(JiraService.fromIntegration(integration), conflict.jira_issue_key, resolved, mapping);
+    await this.applyFields(linked, resolved, resolvedBy, `Resolved Jira conflict on ${conflict.jira_issue_key}`);
+    await jiraConflicts.markResolved(conflictId, choices, resolvedBy);
+
+    await this.recordHistory({
+      project_id: conflict.project_id,
+      task_id: linked.type === 'task' ? linked.item.id : null,
+      jira_issue_key: conflict.jira_issue_key,
+      sync_direction: 'bidirectional',
+      operation: 'resolve_conflict',
+      status: 'success',
+      sync_data: JSON.stringify({ conflict_id: conflictId, choices, snapshot: resolved }),
+      performed_by: resolvedBy
+    });
+
+    return resolved;
+  }
+
+  async createBacklogItem(integration: JiraIntegration, issue: JiraIssue, mapping: JiraFieldMapping, createdBy: string): Promise<any> {
+    const targets = mapping.fields;
+    const dueDate = targets.due_date ? issue.fields[targets.due_date] : null;
+    const assignee = targets.owner ? issue.fields[targets.owner] : null;
+    const [owner] = assignee?.emailAddress
+      ? await db.select({ id: users.id }).from(users).where(eq(users.email, assignee.emailAddress)).limit(1)
+      : [];
+
+    const taskBacklogData = insertTaskBacklogSchema.parse({
+      project_id: integration.project_id,
+      title: issue.fields.summary,
+      description: issue.fields.description || '',
+      status: JiraService.localStatusFor(issue.fields.status.name, mapping),
+      priority: JiraService.localPriorityFor(issue.fields.priority?.name, mapping),
+      source_type: 'jira',
+      target_date: typeof dueDate === 'string' ? dueDate.slice(0, 10) : null,
+      owner_id: owner?.id ?? null,
+      jira_synced: true,
+      jira_issue_key: issue.key,
+      jira_issue_id: issue.id,
+      jira_sync_enabled: true,
+      jira_last_sync: new Date(),
+      created_by: createdBy
+    });
+
+    const [newItem] = await db.insert(taskBacklog).values(taskBacklogData).returning();
+    return newItem;
+  }
+
+  // Copy an issue's fields onto the linked task or backlog item
+  async applyIssue(issue: JiraIssue, linked: LinkedItem, mapping: JiraFieldMapping, changedBy: string): Promise<void> {
+    await this.applyFields(linked, issueFields(issue, mapping), changedBy, `Synced from Jira ${issue.key}`, { jira_issue_id: issue.id });
+  }
+
+  // Write synced field values to the local item and mark it as in step with Jira
+  private async applyFields(linked: LinkedItem, fields: SyncFields, changedBy: string, note: string, extra: Record<string, any> = {}): Promise<void> {
+    const existing = linked.item;
+    const syncedAt = new Date();
+    const status = fields.status;
+    const updateData: Record<string, any> = {
+      ...fields,
+      ...extra,
+      jira_synced: true,
+      jira_last_sync: syncedAt,
+      updated_at: syncedAt
+    };
+
+    if (linked.type === 'backlog') {
+      await db.update(taskBacklog).set(updateData).where(eq(taskBacklog.id, existing.id));
+      // Finishing or reopening planned work changes the iteration's commitment
+      if (existing.iteration_id && status !== existing.status) {
+        await sprintPlanning.recalculate(existing.iteration_id);
+      }
+      return;
+    }
+
+    await db.transaction(async (tx: any) => {
+      if (status !== existing.status) {
+        Object.assign(updateData, taskLifecycleStamps(existing.status, status, existing.started_at));
+        await tx.insert(taskStatusHistory).values({
+          task_id: existing.id,
+          old_status: existing.status,
+          new_status: status,
+          changed_by: changedBy,
+          notes: note
+        });
+      }
+      await tx.update(tasks).set(updateData).where(eq(tasks.id, existing.id));
+    });
+    if (status !== existing.status) {
+      await retroActionItems.syncFromTask({ id: existing.id, status });
+    }
+  }
+
+  async createIssueForTask(jiraService: JiraService, task: any, mapping: JiraFieldMapping, cache: FieldContextCache = newContextCache()): Promise<JiraIssue> {
+    const context = await this.fieldContext(jiraService, task, mapping, cache);
+    const payload = JiraService.taskToJiraPayload(task, jiraService.key, mapping, context);
+    payload.fields.priority = payload.fields.priority || { name: 'Medium' };
+    return jiraService.createIssue(payload);
+  }
+
+  // Push an already-linked item's mapped fields and status onto its issue
+  async updateIssueForTask(jiraService: JiraService, task: any, mapping: JiraFieldMapping, cache: FieldContextCache = newContextCache()): Promise<void> {
+    const context = await this.fieldContext(jiraService, task, mapping, cache);
+    await this.pushFields(jiraService, task.jira_issue_key, task, mapping, context);
+  }
+
+  // Resolve the Jira values for mapped fields that need a lookup: the owner's account
+  // and the milestone's fix version or epic
+  private async fieldContext(jiraService: JiraService, task: any, mapping: JiraFieldMapping, cache: FieldContextCache): Promise<JiraFieldContext> {
+    const context: JiraFieldContext = {};
+
+    if (mapping.fields.owner) {
+      if (!task.owner_id) {
+        context.assigneeAccountId = null;
+      } else {
+        if (!cache.accounts.has(task.owner_id)) {
+          const [owner] = await db.select({ email: users.email }).from(users).where(eq(users.id, task.owner_id)).limit(1);
+          cache.accounts.set(task.owner_id, owner ? await jiraService.findUserAccountId(owner.email) : null);
+        }
+        context.assigneeAccountId = cache.accounts.get(task.owner_id);
+      }
+    }
+
+    if (mapping.fields.milestone && task.milestone_id) {
+      if (!cache.milestones.has(task.milestone_id)) {
+        const [milestone] = await db.select({ name: milestones.name }).from(milestones).where(eq(milestones.id, task.milestone_id)).limit(1);
+        let target: string | null = null;
+        if (milestone) {
+          target = mapping.fields.milestone === 'fixVersion'
+            ? await jiraService.ensureVersion(milestone.name)
+            : await jiraService.ensureEpic(milestone.name);
+        }
+        cache.milestones.set(task.milestone_id, target);
+      }
+      const target = cache.milestones.get(task.milestone_id);
+      if (mapping.fields.milestone === 'fixVersion') {
+        context.fixVersionId = target;
+      } else {
+        context.epicKey = target;
+      }
+    }
+
+    return context;
+  }
+
+  private async pushFields(jiraService: JiraService, issueKey: string, fields: SyncFields & Record<string, any>, mapping: JiraFieldMapping, context: JiraFieldContext = {}): Promise<void> {
+    const payload = JiraService.taskToJiraPayload(fields, jiraService.key, mapping, context);
+    // Project and issue type are fixed once the issue exists
+    const { project, issuetype, ...updatable } = payload.fields;
+    await jiraService.updateIssue(issueKey, { fields: updatable });
+
+    const transitionId = await jiraService.mapStatusToTransition(issueKey, fields.status, mapping);
+    if (transitionId) {
+      await jiraService.transitionIssue(issueKey, transitionId);
+    }
+  }
+
+  // The issue is gone from Jira; keep the local work but drop the link, and mark it so the
+  // next automatic export doesn't create the issue again
+  async unlinkItem(linked: LinkedItem): Promise<void> {
+    const unlinkedAt = new Date();
+    const unlinked = {
+      jira_synced: false,
+      jira_issue_key: null,
+      jira_issue_id: null,
+      jira_sync_enabled: false,
+      jira_last_sync: null,
+      jira_deleted_at: unlinkedAt,
+      updated_at: unlinkedAt
+    };
+
+    if (linked.type === 'task') {
+      await db.update(tasks).set(unlinked).where(eq(tasks.id, linked.item.id));
+    } else {
+      await db.update(taskBacklog).set(unlinked).where(eq(taskBacklog.id, linked.item.id));
+    }
+  }
+
+  private async searchAll(jiraService: JiraService, jql: string): Promise<JiraIssue[]> {
+    const issues: JiraIssue[] = [];
+    let startAt = 0;
+
+    while (true) {
+      const page = await jiraService.searchIssues(jql, SEARCH_PAGE_SIZE, startAt);
+      issues.push(...page.issues);
+      startAt += page.issues.length;
+
+      if (page.issues.length === 0 || startAt >= (page.total ?? 0)) {
+        return issues;
+      }
+    }
+  }
+
+  // History writes never abort a sync
+  async recordHistory(entry: Record<string, any>): Promise<void> {
+    try {
+      await db.insert(jiraSyncHistory).values(insertJiraSyncHistorySchema.parse(entry));
+    } catch (error) {
+      console.error('Failed to record Jira sync history:', error);
+    }
+  }
+}
+
+export const jiraSync = new JiraSyncService();
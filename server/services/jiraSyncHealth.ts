@@ -0,0 +1,220 @@
+import { db } from '../db';
+import { tasks, taskBacklog, jiraIntegrations, jiraSyncHistory } from '@shared/schema';
+import { eq, and, gte, desc, isNotNull } from 'drizzle-orm';
+import { JiraService } from './jiraService';
+
+export type SyncHealthStatus = 'healthy' | 'warning' | 'error' | 'not_configured';
+
+export interface SyncFailure {
+  id: string;
+  taskId: string | null;
+  jiraIssueKey: string | null;
+  operation: string;
+  syncDirection: string;
+  errorMessage: string | null;
+  createdAt: Date;
+}
+
+export interface DriftedItem {
+  id: string;
+  type: 'task' | 'backlog';
+  title: string;
+  jiraIssueKey: string;
+  updatedAt: Date;
+  jiraLastSync: Date | null;
+}
+
+export interface OrphanedKey {
+  jiraIssueKey: string;
+  itemIds: string[];
+  reason: 'foreign_project' | 'duplicate' | 'missing_in_jira';
+}
+
+export interface SyncHealthOptions {
+  windowHours?: number;
+  failureLimit?: number;
+  checkRemote?: boolean; // ask Jira which linked issues still exist
+}
+
+export interface SyncHealthReport {
+  syncHealth: SyncHealthStatus;
+  integrationEnabled: boolean;
+  lastSuccessfulSync: Date | null;
+  lastAttempt: Date | null;
+  window: { hours: number; total: number; errors: number; errorRate: number };
+  recentFailures: SyncFailure[];
+  drift: DriftedItem[];
+  orphans: OrphanedKey[];
+  remoteCheckError: string | null;
+  totalTasks: number;
+  syncedTasks: number;
+  syncPercentage: number;
+}
+
+const DEFAULT_WINDOW_HOURS = 24;
+const DEFAULT_FAILURE_LIMIT = 10;
+const ERROR_RATE_WARNING = 10;
+const ERROR_RATE_CRITICAL = 50;
+const STALE_AFTER_HOURS = 72;
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+// A sync stamps updated_at and jira_last_sync in the same write; allow for the gap between them
+const DRIFT_TOLERANCE_MS = 1000;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+interface LinkedItem {
+  id: string;
+  type: 'task' | 'backlog';
+  title: string;
+  jira_issue_key: string;
+  jira_last_sync: Date | null;
+  updated_at: Date;
+}
+
+export class JiraSyncHealthService {
+  async getHealth(projectId: string, options: SyncHealthOptions = {}, now: Date = new Date()): Promise<SyncHealthReport> {
+    const windowHours = options.windowHours ?? DEFAULT_WINDOW_HOURS;
+    const failureLimit = options.failureLimit ?? DEFAULT_FAILURE_LIMIT;
+
+    const [integration] = await db.select().from(jiraIntegrations)
+      .where(eq(jiraIntegrations.project_id, projectId))
+      .limit(1);
+
+    const [lastSuccess] = await db.select({ created_at: jiraSyncHistory.created_at })
+      .from(jiraSyncHistory)
+      .where(and(eq(jiraSyncHistory.project_id, projectId), eq(jiraSyncHistory.status, 'success')))
+      .orderBy(desc(jiraSyncHistory.created_at))
+      .limit(1);
+
+    const [lastAttempt] = await db.select({ created_at: jiraSyncHistory.created_at })
+      .from(jiraSyncHistory)
+      .where(eq(jiraSyncHistory.project_id, projectId))
+      .orderBy(desc(jiraSyncHistory.created_at))
+      .limit(1);
+
+    const windowStart = new Date(now.getTime() - windowHours * MS_PER_HOUR);
+    const windowEntries = await db.select({ status: jiraSyncHistory.status })
+      .from(jiraSyncHistory)
+      .where(and(eq(jiraSyncHistory.project_id, projectId), gte(jiraSyncHistory.created_at, windowStart)));
+    // Pending entries have no outcome yet, so they don't count towards the error rate
+    const settled = windowEntries.filter((e: { status: string }) => e.status !== 'pending');
+    const errors = settled.filter((e: { status: string }) => e.status === 'error').length;
+    const errorRate = settled.length > 0 ? round((errors / settled.length) * 100) : 0;
+
+    const failures = await db.select().from(jiraSyncHistory)
+      .where(and(eq(jiraSyncHistory.project_id, projectId), eq(jiraSyncHistory.status, 'error')))
+      .orderBy(desc(jiraSyncHistory.created_at))
+      .limit(failureLimit);
+
+    const projectTasks = await db.select({
+      id: tasks.id,
+      title: tasks.title,
+      jira_issue_key: tasks.jira_issue_key,
+      jira_last_sync: tasks.jira_last_sync,
+      updated_at: tasks.updated_at
+    }).from(tasks).where(eq(tasks.project_id, projectId));
+
+    const backlogItems = await db.select({
+      id: taskBacklog.id,
+      title: taskBacklog.title,
+      jira_issue_key: taskBacklog.jira_issue_key,
+      jira_last_sync: taskBacklog.jira_last_sync,
+      updated_at: taskBacklog.updated_at
+    }).from(taskBacklog).where(and(eq(taskBacklog.project_id, projectId), isNotNull(taskBacklog.jira_issue_key)));
+
+    const linked: LinkedItem[] = [
+      ...projectTasks.filter((t: any) => t.jira_issue_key).map((t: any) => ({ ...t, type: 'task' as const })),
+      ...backlogItems.map((b: any) => ({ ...b, type: 'backlog' as const }))
+    ];
+
+    const drift: DriftedItem[] = linked
+      .filter(item => !item.jira_last_sync
+        || new Date(item.updated_at).getTime() - new Date(item.jira_last_sync).getTime() > DRIFT_TOLERANCE_MS)
+      .map(item => ({
+        id: item.id,
+        type: item.type,
+        title: item.title,
+        jiraIssueKey: item.jira_issue_key,
+        updatedAt: item.updated_at,
+        jiraLastSync: item.jira_last_sync
+      }));
+
+    const { orphans, remoteCheckError } = await this.findOrphans(linked, integration, options.checkRemote ?? false);
+
+    const totalTasks = projectTasks.length;
+    const syncedTasks = projectTasks.filter((t: any) => t.jira_issue_key).length;
+
+    return {
+      syncHealth: this.status(integration, lastSuccess?.created_at ?? null, errorRate, drift.length + orphans.length, now),
+      integrationEnabled: Boolean(integration?.enabled),
+      lastSuccessfulSync: lastSuccess?.created_at ?? null,
+      lastAttempt: lastAttempt?.created_at ?? null,
+      window: { hours: windowHours, total: settled.length, errors, errorRate },
+      recentFailures: failures.map((f: any) => ({
+        id: f.id,
+        taskId: f.task_id,
+        jiraIssueKey: f.jira_issue_key,
+        operation: f.operation,
+        syncDirection: f.sync_direction,
+        errorMessage: f.error_message,
+        createdAt: f.created_at
+      })),
+      drift,
+      orphans,
+      remoteCheckError,
+      totalTasks,
+      syncedTasks,
+      syncPercentage: totalTasks > 0 ? round((syncedTasks / totalTasks) * 100) : 0
+    };
+  }
+
+  // A key is orphaned when it belongs to another Jira project, is linked to more than
+  // one item, or (when checking remotely) no longer exists in Jira
+  private async findOrphans(linked: LinkedItem[], integration: any, checkRemote: boolean): Promise<{ orphans: OrphanedKey[]; remoteCheckError: string | null }> {
+    const byKey = new Map<string, string[]>();
+    for (const item of linked) {
+      byKey.set(item.jira_issue_key, [...(byKey.get(item.jira_issue_key) || []), item.id]);
+    }
+
+    const orphans: OrphanedKey[] = [];
+    const projectKey: string | undefined = integration?.jira_project_key;
+
+    for (const [key, itemIds] of Array.from(byKey.entries())) {
+      if (projectKey && !key.startsWith(`${projectKey}-`)) {
+        orphans.push({ jiraIssueKey: key, itemIds, reason: 'foreign_project' });
+      } else if (itemIds.length > 1) {
+        orphans.push({ jiraIssueKey: key, itemIds, reason: 'duplicate' });
+      }
+    }
+
+    if (!checkRemote || !integration?.enabled || byKey.size === 0) {
+      return { orphans, remoteCheckError: null };
+    }
+
+    try {
+      const remoteKeys = new Set(await JiraService.fromIntegration(integration).listIssueKeys());
+      for (const [key, itemIds] of Array.from(byKey.entries())) {
+        const flagged = orphans.some(o => o.jiraIssueKey === key);
+        if (!flagged && !remoteKeys.has(key)) {
+          orphans.push({ jiraIssueKey: key, itemIds, reason: 'missing_in_jira' });
+        }
+      }
+      return { orphans, remoteCheckError: null };
+    } catch (error) {
+      return { orphans, remoteCheckError: error instanceof Error ? error.message : 'Failed to reach Jira' };
+    }
+  }
+
+  private status(integration: any, lastSuccess: Date | null, errorRate: number, issues: number, now: Date): SyncHealthStatus {
+    if (!integration) return 'not_configured';
+    if (errorRate >= ERROR_RATE_CRITICAL) return 'error';
+    if (integration.sync_enabled && lastSuccess && now.getTime() - new Date(lastSuccess).getTime() > STALE_AFTER_HOURS * MS_PER_HOUR) {
+      return 'error';
+    }
+    if (errorRate > ERROR_RATE_WARNING || issues > 0) return 'warning';
+    return 'healthy';
+  }
+}
+
+export const jiraSyncHealth = new JiraSyncHealthService();
@@ -0,0 +1,162 @@
+import { test, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { JiraIntegration } from '@shared/schema';
+import { JiraApiError, JiraService } from './jiraService';
+import { JiraSyncScheduler } from './jiraSyncScheduler';
+import { JiraSyncService } from './jiraSync';
+
+const MINUTE = 60 * 1000;
+
+const integration = (overrides: Partial<JiraIntegration> = {}) => ({
+  id: 'integration-1',
+  project_id: 'project-1',
+  jira_base_url: 'https://jira.example.test',
+  jira_email: 'sync@example.test',
+  jira_api_token: 'token',
+  jira_project_key: 'APH',
+  field_mapping: null,
+  enabled: true,
+  auto_sync: true,
+  sync_interval_minutes: 15,
+  last_sync: null,
+  ...overrides
+}) as unknown as JiraIntegration;
+
+// Stands in for the sync service; each run resolves or throws the next outcome given
+const stubSync = (...outcomes: (Error | null)[]) => {
+  const calls: Parameters<JiraSyncService['runSync']>[1][] = [];
+  const sync = {
+    runSync: async (_integration: JiraIntegration, options: Parameters<JiraSyncService['runSync']>[1]) => {
+      calls.push(options);
+      const outcome = outcomes.shift();
+      if (outcome) throw outcome;
+    }
+  } as unknown as JiraSyncService;
+  return { sync, calls };
+};
+
+// A Jira that answers every request with the given status, headers and body
+const stubJira = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+  const requests: string[] = [];
+  mock.method(globalThis, 'fetch', async (url: string) => {
+    requests.push(url);
+    return new Response(typeof body === 'string' ? body : JSON.stringify(body), {
+      status,
+      statusText: status === 429 ? 'Too Many Requests' : 'OK',
+      headers: { 'Content-Type': 'application/json', ...headers }
+    });
+  });
+  return requests;
+};
+
+const rateLimited = (retryAfterSeconds: number | null) => new JiraApiError(429, 'Too Many Requests', 'slow down', retryAfterSeconds);
+
+// The scheduler and client log every request and failure
+beforeEach(() => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'error', () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  mock.timers.reset();
+});
+
+test('scheduled runs ask for an incremental sync', async () => {
+  const { sync, calls } = stubSync(null);
+  await new JiraSyncScheduler(sync).runIntegration(integration());
+
+  assert.deepEqual(calls, [{ performedBy: null, trigger: 'scheduled', incremental: true }]);
+});
+
+test('an incremental import only asks Jira for issues updated since the last sync', async () => {
+  const requests = stubJira(200, { issues: [], total: 0 });
+  const since = new Date(Date.now() - 30 * MINUTE);
+
+  await new JiraSyncService().importIssues(integration(), { performedBy: null, since, updateExisting: true });
+  await new JiraSyncService().importIssues(integration(), { performedBy: null, since: null, updateExisting: true });
+
+  const [incremental, full] = requests.map(url => new URL(url).searchParams.get('jql'));
+  assert.match(incremental!, /^project = APH AND updated >= "-\d+m" ORDER BY updated ASC$/);
+  assert.ok(Number(incremental!.match(/-(\d+)m/)![1]) >= 30);
+  assert.equal(full, 'project = APH ORDER BY created DESC');
+});
+
+test('a 429 from Jira carries its Retry-After', async () => {
+  stubJira(429, 'rate limited', { 'Retry-After': '120' });
+  const jira = JiraService.fromIntegration(integration());
+
+  await assert.rejects(jira.searchIssues('project = APH'), (error: unknown) =>
+    error instanceof JiraApiError && error.isRateLimited && error.retryAfterSeconds === 120);
+});
+
+test('rate limits back off exponentially up to the maximum', async () => {
+  mock.timers.enable({ apis: ['Date'], now: 0 });
+  const { sync } = stubSync(rateLimited(null), rateLimited(null), rateLimited(null), rateLimited(null));
+  const scheduler = new JiraSyncScheduler(sync, { baseBackoffMs: MINUTE, maxBackoffMs: 5 * MINUTE });
+  const linked = integration({ sync_interval_minutes: 0 });
+
+  const backoffs: number[] = [];
+  for (let run = 0; run < 4; run++) {
+    await scheduler.runIntegration(linked);
+    backoffs.push(scheduler.getStatus(linked).backoffUntil!.getTime() - Date.now());
+  }
+
+  assert.deepEqual(backoffs, [MINUTE, 2 * MINUTE, 4 * MINUTE, 5 * MINUTE]);
+  assert.equal(scheduler.getStatus(linked).consecutiveFailures, 4);
+});
+
+test('never retries sooner than Retry-After asks', async () => {
+  mock.timers.enable({ apis: ['Date'], now: 0 });
+  const { sync } = stubSync(rateLimited(600));
+  const scheduler = new JiraSyncScheduler(sync, { baseBackoffMs: MINUTE });
+  const linked = integration();
+
+  await scheduler.runIntegration(linked);
+
+  const status = scheduler.getStatus(linked);
+  assert.equal(status.backoffUntil!.getTime(), 10 * MINUTE);
+  // The 15 minute interval is later than the backoff, so it still decides the next run
+  assert.equal(status.nextRunAt!.getTime(), 15 * MINUTE);
+});
+
+test('the backoff pushes the next run past the sync interval', async () => {
+  mock.timers.enable({ apis: ['Date'], now: 0 });
+  const { sync } = stubSync(rateLimited(3600));
+  const scheduler = new JiraSyncScheduler(sync);
+  const linked = integration();
+
+  await scheduler.runIntegration(linked);
+
+  assert.equal(scheduler.getStatus(linked).nextRunAt!.getTime(), 60 * MINUTE);
+});
+
+test('a successful run clears the backoff', async () => {
+  mock.timers.enable({ apis: ['Date'], now: 0 });
+  const { sync } = stubSync(rateLimited(600), null);
+  const scheduler = new JiraSyncScheduler(sync);
+  const linked = integration();
+
+  await scheduler.runIntegration(linked);
+  await scheduler.runIntegration(linked);
+
+  const status = scheduler.getStatus(linked);
+  assert.equal(status.backoffUntil, null);
+  assert.equal(status.lastError, null);
+  assert.equal(status.consecutiveFailures, 0);
+});
+
+test('other failures are recorded without backing off', async () => {
+  mock.timers.enable({ apis: ['Date'], now: 0 });
+  const { sync } = stubSync(new JiraApiError(500, 'Internal Server Error', 'boom'));
+  const scheduler = new JiraSyncScheduler(sync);
+  const linked = integration();
+
+  await scheduler.runIntegration(linked);
+
+  const status = scheduler.getStatus(linked);
+  assert.equal(status.backoffUntil, null);
+  assert.equal(status.consecutiveFailures, 1);
+  assert.match(status.lastError!, /500/);
+});
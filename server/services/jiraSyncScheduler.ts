@@ -0,0 +1,163 @@
+import { db } from '../db';
+import { jiraIntegrations, type JiraIntegration } from '@shared/schema';
+import { eq, and } from 'drizzle-orm';
+import { JiraApiError } from './jiraService';
+import { jiraSync, type JiraSyncService } from './jiraSync';
+
+export interface SchedulerOptions {
+  tickMs?: number; // how often to look for integrations that are due
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+export interface AutoSyncStatus {
+  running: boolean;
+  lastRunAt: Date | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  backoffUntil: Date | null;
+  nextRunAt: Date | null;
+}
+
+interface IntegrationState {
+  running: boolean;
+  lastRunAt: Date | null;
+  lastError: string | null;
+  rateLimitHits: number;
+  consecutiveFailures: number;
+  backoffUntil: Date | null;
+}
+
+const DEFAULT_TICK_MS = 60 * 1000;
+const DEFAULT_BASE_BACKOFF_MS = 60 * 1000;
+const DEFAULT_MAX_BACKOFF_MS = 60 * 60 * 1000;
+const MS_PER_MINUTE = 60 * 1000;
+
+// Runs incremental syncs for every integration with auto_sync on, each on its own
+// sync_interval_minutes. Integrations are synced one at a time so a single process
+// never has more than one conversation with Jira in flight. Everything goes through
+// JiraService with the integration's base URL, so pointing an integration at a local
+// mock Jira server and calling tick() exercises the whole path.
+export class JiraSyncScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private states = new Map<string, IntegrationState>();
+  private tickMs: number;
+  private baseBackoffMs: number;
+  private maxBackoffMs: number;
+
+  constructor(private sync: JiraSyncService = jiraSync, options: SchedulerOptions = {}) {
+    this.tickMs = options.tickMs ?? DEFAULT_TICK_MS;
+    this.baseBackoffMs = options.baseBackoffMs ?? DEFAULT_BASE_BACKOFF_MS;
+    this.maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Jira auto-sync tick failed:', error));
+    }, this.tickMs);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Sync every integration that is due. Overlapping ticks are dropped rather than queued.
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const integrations: JiraIntegration[] = await db.select().from(jiraIntegrations)
+        .where(and(eq(jiraIntegrations.enabled, true), eq(jiraIntegrations.auto_sync, true)));
+
+      for (const integration of integrations) {
+        if (this.isDue(integration, now)) {
+          await this.runIntegration(integration);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  async runIntegration(integration: JiraIntegration): Promise<void> {
+    const state = this.state(integration.id);
+    if (state.running) return;
+
+    state.running = true;
+    state.lastRunAt = new Date();
+
+    try {
+      await this.sync.runSync(integration, { performedBy: null, trigger: 'scheduled', incremental: true });
+      state.lastError = null;
+      state.rateLimitHits = 0;
+      state.consecutiveFailures = 0;
+      state.backoffUntil = null;
+    } catch (error) {
+      state.lastError = error instanceof Error ? error.message : 'Unknown error';
+      state.consecutiveFailures++;
+
+      if (error instanceof JiraApiError && error.isRateLimited) {
+        // Exponential backoff, but never retry sooner than Jira asked us to
+        state.rateLimitHits++;
+        const exponential = Math.min(this.baseBackoffMs * 2 ** (state.rateLimitHits - 1), this.maxBackoffMs);
+        const requested = (error.retryAfterSeconds ?? 0) * 1000;
+        state.backoffUntil = new Date(Date.now() + Math.max(exponential, requested));
+        console.warn(`Jira rate limited project ${integration.project_id}; retrying after ${state.backoffUntil.toISOString()}`);
+      } else {
+        console.error(`Jira auto-sync failed for project ${integration.project_id}:`, error);
+      }
+    } finally {
+      state.running = false;
+    }
+  }
+
+  getStatus(integration: JiraIntegration): AutoSyncStatus {
+    const state = this.state(integration.id);
+    return {
+      running: state.running,
+      lastRunAt: state.lastRunAt,
+      lastError: state.lastError,
+      consecutiveFailures: state.consecutiveFailures,
+      backoffUntil: state.backoffUntil,
+      nextRunAt: integration.enabled && integration.auto_sync ? this.nextRunAt(integration) : null
+    };
+  }
+
+  private isDue(integration: JiraIntegration, now: Date): boolean {
+    const state = this.state(integration.id);
+    if (state.running) return false;
+    return this.nextRunAt(integration).getTime() <= now.getTime();
+  }
+
+  private nextRunAt(integration: JiraIntegration): Date {
+    const state = this.state(integration.id);
+    // Failed runs don't move last_sync, so measure from the last attempt as well
+    const lastRun = Math.max(
+      integration.last_sync ? new Date(integration.last_sync).getTime() : 0,
+      state.lastRunAt?.getTime() ?? 0
+    );
+    const scheduled = lastRun + integration.sync_interval_minutes * MS_PER_MINUTE;
+    return new Date(Math.max(scheduled, state.backoffUntil?.getTime() ?? 0));
+  }
+
+  private state(integrationId: string): IntegrationState {
+    let state = this.states.get(integrationId);
+    if (!state) {
+      state = { running: false, lastRunAt: null, lastError: null, rateLimitHits: 0, consecutiveFailures: 0, backoffUntil: null };
+      this.states.set(integrationId, state);
+    }
+    return state;
+  }
+}
+
+export const jiraSyncScheduler = new JiraSyncScheduler(jiraSync, {
+  tickMs: process.env.JIRA_SYNC_TICK_SECONDS ? parseInt(process.env.JIRA_SYNC_TICK_SECONDS, 10) * 1000 : undefined
+});
@@ -0,0 +1,122 @@
+import { test, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import type { JiraIntegration } from '@shared/schema';
+import { db } from '../db';
+import { jiraSync } from './jiraSync';
+import { JiraWebhookService, type JiraWebhookPayload } from './jiraWebhook';
+
+const SECRET = 'webhook-secret';
+
+const sign = (body: Buffer, secret = SECRET) => `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+
+const integration = { id: 'integration-1', project_id: 'project-1', jira_project_key: 'APH', created_by: 'user-1' } as unknown as JiraIntegration;
+
+const deleted: JiraWebhookPayload = {
+  webhookEvent: 'jira:issue_deleted',
+  timestamp: 1735689600000,
+  issue: { id: '10001', key: 'APH-1', fields: { summary: 'Gone' } } as JiraWebhookPayload['issue']
+};
+
+// A drizzle query builder that resolves to the given rows however it is chained
+const query = (rows: unknown[]): any => new Proxy(() => {}, {
+  get: (_target, property) => property === 'then'
+    ? (resolve: (value: unknown) => void, reject: (reason: unknown) => void) => Promise.resolve(rows).then(resolve, reject)
+    : () => query(rows)
+});
+
+// Delivery history as the claim sees it: inserts conflict on event ids already recorded,
+// and only failed deliveries can be claimed again
+const stubHistory = () => {
+  const recorded = new Map<string, string>();
+  let lastEventId: string | null = null;
+
+  mock.method(db, 'insert', () => ({
+    values: (row: { event_id: string }) => {
+      lastEventId = row.event_id;
+      if (recorded.has(row.event_id)) return query([]);
+      recorded.set(row.event_id, 'pending');
+      return query([{ id: row.event_id }]);
+    }
+  }));
+  mock.method(db, 'update', () => ({
+    set: (changes: { status?: string }) => {
+      if (changes.status === 'pending') {
+        // Claiming again after a failure
+        const failed = lastEventId !== null && recorded.get(lastEventId) === 'error';
+        if (failed) recorded.set(lastEventId!, 'pending');
+        return query(failed ? [{ id: lastEventId }] : []);
+      }
+      if (lastEventId !== null && changes.status) recorded.set(lastEventId, changes.status);
+      return query([]);
+    }
+  }));
+  return recorded;
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+test('accepts a body signed with the secret', () => {
+  const body = Buffer.from(JSON.stringify(deleted));
+  assert.equal(JiraWebhookService.verifySignature(SECRET, body, sign(body)), true);
+});
+
+test('rejects missing, malformed and mismatched signatures', () => {
+  const body = Buffer.from(JSON.stringify(deleted));
+  const tampered = Buffer.from(JSON.stringify({ ...deleted, webhookEvent: 'jira:issue_updated' }));
+
+  assert.equal(JiraWebhookService.verifySignature(SECRET, body, undefined), false);
+  assert.equal(JiraWebhookService.verifySignature(SECRET, undefined, sign(body)), false);
+  assert.equal(JiraWebhookService.verifySignature(SECRET, body, sign(body, 'other-secret')), false);
+  assert.equal(JiraWebhookService.verifySignature(SECRET, tampered, sign(body)), false);
+  assert.equal(JiraWebhookService.verifySignature(SECRET, body, sign(body).replace('sha256', 'sha1')), false);
+  assert.equal(JiraWebhookService.verifySignature(SECRET, body, 'sha256=abcd'), false);
+});
+
+test('identifies a delivery by its webhook id, or else by the change it carries', () => {
+  assert.equal(JiraWebhookService.eventId(deleted, 'delivery-1'), 'delivery-1');
+  assert.equal(JiraWebhookService.eventId(deleted), JiraWebhookService.eventId({ ...deleted }));
+  assert.notEqual(JiraWebhookService.eventId(deleted), JiraWebhookService.eventId({ ...deleted, timestamp: deleted.timestamp! + 1 }));
+});
+
+test('handles a delivery once and reports retries of it as duplicates', async () => {
+  stubHistory();
+  const unlink = mock.method(jiraSync, 'unlinkItem', async () => {});
+  mock.method(jiraSync, 'findLinkedItem', async () => ({ type: 'task', item: { id: 'task-1' } }));
+  const webhook = new JiraWebhookService();
+
+  assert.deepEqual(await webhook.handle(integration, deleted, 'delivery-1'), { outcome: 'processed', jiraIssueKey: 'APH-1', action: 'unlinked' });
+  assert.deepEqual(await webhook.handle(integration, deleted, 'delivery-1'), { outcome: 'duplicate', jiraIssueKey: 'APH-1' });
+  assert.equal(unlink.mock.callCount(), 1);
+
+  assert.equal((await webhook.handle(integration, deleted, 'delivery-2')).outcome, 'processed');
+  assert.equal(unlink.mock.callCount(), 2);
+});
+
+test('a delivery that failed is handled again when Jira retries it', async () => {
+  const recorded = stubHistory();
+  let attempts = 0;
+  mock.method(jiraSync, 'findLinkedItem', async () => {
+    attempts++;
+    if (attempts === 1) throw new Error('database unavailable');
+    return null;
+  });
+  const webhook = new JiraWebhookService();
+
+  await assert.rejects(webhook.handle(integration, deleted, 'delivery-1'), /database unavailable/);
+  assert.equal(recorded.get('delivery-1'), 'error');
+
+  assert.deepEqual(await webhook.handle(integration, deleted, 'delivery-1'), { outcome: 'processed', jiraIssueKey: 'APH-1', action: 'not_linked' });
+  assert.equal(recorded.get('delivery-1'), 'success');
+});
+
+test('ignores events it does not handle and issues from other projects', async () => {
+  const insert = mock.method(db, 'insert', () => query([]));
+  const webhook = new JiraWebhookService();
+
+  assert.equal((await webhook.handle(integration, { ...deleted, webhookEvent: 'comment_created' })).outcome, 'ignored');
+  assert.equal((await webhook.handle(integration, { ...deleted, issue: { ...deleted.issue!, key: 'OTHER-1' } })).outcome, 'ignored');
+  assert.equal(insert.mock.callCount(), 0);
+});
@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { jiraSyncHistory, type JiraIntegration } from '@shared/schema';
+import { eq, and } from 'drizzle-orm';
+import { JiraService, type JiraIssue } from './jiraService';
+import { jiraSync } from './jiraSync';
+import type { SyncFields } from './jiraConflicts';
+
+export type WebhookOutcome = 'processed' | 'duplicate' | 'ignored';
+
+export interface JiraWebhookPayload {
+  webhookEvent?: string;
+  timestamp?: number;
+  issue?: JiraIssue;
+}
+
+export interface WebhookResult {
+  outcome: WebhookOutcome;
+  reason?: string;
+  jiraIssueKey?: string;
+  action?: 'created' | 'updated' | 'merged' | 'conflict' | 'unlinked' | 'stale' | 'not_linked';
+}
+
+export const JIRA_WEBHOOK_EVENTS = ['jira:issue_created', 'jira:issue_updated', 'jira:issue_deleted'] as const;
+
+const EVENT_OPERATIONS: Record<string, string> = {
+  'jira:issue_created': 'create',
+  'jira:issue_updated': 'update',
+  'jira:issue_deleted': 'delete'
+};
+
+export class JiraWebhookService {
+  static generateSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  // Jira signs deliveries with X-Hub-Signature: sha256=<hex HMAC of the raw body>
+  static verifySignature(secret: string, rawBody: Buffer | undefined, header: string | undefined): boolean {
+    if (!rawBody || !header) return false;
+    const [algorithm, signature] = header.split('=');
+    if (algorithm !== 'sha256' || !signature) return false;
+
+    const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+    const received = Buffer.from(signature, 'hex');
+    const wanted = Buffer.from(expected, 'hex');
+    return received.length === wanted.length && crypto.timingSafeEqual(received, wanted);
+  }
+
+  // Jira keeps X-Atlassian-Webhook-Identifier stable across retries of the same delivery;
+  // without it, fall back to what identifies the change itself
+  static eventId(payload: JiraWebhookPayload, deliveryId?: string): string {
+    return deliveryId || `${payload.webhookEvent}:${payload.issue?.key}:${payload.timestamp ?? payload.issue?.fields?.updated}`;
+  }
+
+  async handle(integration: JiraIntegration, payload: JiraWebhookPayload, deliveryId?: string): Promise<WebhookResult> {
+    const event = payload.webhookEvent || '';
+    const issue = payload.issue;
+
+    if (!(JIRA_WEBHOOK_EVENTS as readonly string[]).includes(event)) {
+      return { outcome: 'ignored', reason: `Unsupported event ${event || '(none)'}` };
+    }
+    if (!issue?.key) {
+      return { outcome: 'ignored', reason: 'Event has no issue' };
+    }
+    if (!issue.key.startsWith(`${integration.jira_project_key}-`)) {
+      return { outcome: 'ignored', reason: `Issue ${issue.key} is not in project ${integration.jira_project_key}`, jiraIssueKey: issue.key };
+    }
+
+    const claimId = await this.claim(integration, payload, JiraWebhookService.eventId(payload, deliveryId));
+    if (!claimId) {
+      return { outcome: 'duplicate', jiraIssueKey: issue.key };
+    }
+
+    try {
+      const { action, taskId, snapshot } = await this.apply(integration, event, issue, payload.timestamp);
+
+      await db.update(jiraSyncHistory)
+        .set({
+          // An open conflict still needs someone to settle it
+          status: action === 'conflict' ? 'pending' : 'success',
+          task_id: taskId,
+          sync_data: JSON.stringify({
+            webhookEvent: event,
+            action,
+            jira_summary: issue.fields?.summary,
+            jira_status: issue.fields?.status?.name,
+            snapshot
+          })
+        })
+        .where(eq(jiraSyncHistory.id, claimId));
+
+      return { outcome: 'processed', jiraIssueKey: issue.key, action };
+    } catch (error) {
+      await db.update(jiraSyncHistory)
+        .set({ status: 'error', error_message: error instanceof Error ? error.message : 'Unknown error' })
+        .where(eq(jiraSyncHistory.id, claimId));
+      throw error;
+    }
+  }
+
+  // Record the delivery as pending, or return null if it was already handled.
+  // Failed deliveries can be claimed again so Jira's retries get another chance.
+  private async claim(integration: JiraIntegration, payload: JiraWebhookPayload, eventId: string): Promise<string | null> {
+    const [inserted] = await db.insert(jiraSyncHistory)
+      .values({
+        project_id: integration.project_id,
+        jira_issue_key: payload.issue?.key,
+        sync_direction: 'from_jira',
+        operation: EVENT_OPERATIONS[payload.webhookEvent || ''],
+        status: 'pending',
+        event_id: eventId,
+        sync_data: JSON.stringify({ webhookEvent: payload.webhookEvent, timestamp: payload.timestamp })
+      })
+      .onConflictDoNothing()
+      .returning({ id: jiraSyncHistory.id });
+    if (inserted) return inserted.id;
+
+    const [retried] = await db.update(jiraSyncHistory)
+      .set({ status: 'pending', error_message: null })
+      .where(and(
+        eq(jiraSyncHistory.project_id, integration.project_id),
+        eq(jiraSyncHistory.event_id, eventId),
+        eq(jiraSyncHistory.status, 'error')
+      ))
+      .returning({ id: jiraSyncHistory.id });
+    return retried?.id ?? null;
+  }
+
+  private async apply(
+    integration: JiraIntegration,
+    event: string,
+    issue: JiraIssue,
+    timestamp?: number
+  ): Promise<{ action: NonNullable<WebhookResult['action']>; taskId: string | null; snapshot?: SyncFields }> {
+    const linked = await jiraSync.findLinkedItem(integration.project_id, issue.key);
+    const taskId = linked?.type === 'task' ? linked.item.id : null;
+
+    if (event === 'jira:issue_deleted') {
+      if (!linked) return { action: 'not_linked', taskId: null };
+      await jiraSync.unlinkItem(linked);
+      return { action: 'unlinked', taskId };
+    }
+
+    const mapping = JiraService.parseFieldMapping(integration.field_mapping);
+    const versioned: JiraIssue = {
+      ...issue,
+      fields: { ...issue.fields, updated: issue.fields.updated || new Date(timestamp ?? Date.now()).toISOString() }
+    };
+
+    if (!linked) {
+      await jiraSync.createBacklogItem(integration, versioned, mapping, integration.created_by);
+      return { action: 'created', taskId: null, snapshot: jiraSync.issueFields(versioned, mapping) };
+    }
+
+    // Deliveries can arrive out of order, and our own pushes echo back as updates
+    if (!jiraSync.changedInJira(versioned, linked)) {
+      return { action: 'stale', taskId };
+    }
+
+    if (jiraSync.changedLocally(linked)) {
+      const outcome = await jiraSync.reconcile(
+        integration, JiraService.fromIntegration(integration), versioned, linked, mapping, integration.created_by
+      );
+      return outcome.status === 'merged'
+        ? { action: 'merged', taskId, snapshot: outcome.snapshot }
+        : { action: 'conflict', taskId };
+    }
+
+    await jiraSync.applyIssue(versioned, linked, mapping, integration.created_by);
+    return { action: 'updated', taskId, snapshot: jiraSync.issueFields(versioned, mapping) };
+  }
+}
+
+export const jiraWebhook = new JiraWebhookService();
@@ -0,0 +1,16 @@
+import nodemailer from 'nodemailer';
+
+// SMTP settings come from EMAIL_HOST, EMAIL_PORT, EMAIL_USER and EMAIL_PASS
+export const emailConfigured = (): boolean => !!process.env.EMAIL_HOST;
+
+export const createEmailTransporter = () => {
+  return nodemailer.createTransport({
+    host: process.env.EMAIL_HOST,
+    port: parseInt(process.env.EMAIL_PORT || '587'),
+    secure: false, // true for 465, false for other ports
+    auth: {
+      user: process.env.EMAIL_USER,
+      pass: process.env.EMAIL_PASS,
+    },
+  });
+};
@@ -0,0 +1,401 @@
+import { z } from 'zod';
+import { db } from '../db';
+import {
+  projects, milestones, tasks, taskStatusHistory, riskRegister, projectBudgets, budgetCategories, budgetTypeConfig,
+  retrospectives, projectMembers, projectTemplates, type Project, type ProjectTemplate
+} from '@shared/schema';
+import { eq, and, or, isNull, desc, inArray } from 'drizzle-orm';
+import { taskLifecycleStamps } from './taskLifecycle';
+import type { DepartmentScope } from './departments';
+
+export interface TemplateMilestone {
+  key: string; // links tasks to their milestone inside the template
+  name: string;
+  description: string | null;
+  offsetDays: number; // due date, in days from the project start
+}
+
+export interface TemplateTask {
+  title: string;
+  description: string | null;
+  priority: string | null;
+  storyPoints: number | null;
+  milestoneKey: string | null;
+  dueOffsetDays: number | null;
+  ownerId: string | null; // kept when cloning a live project, dropped in saved templates
+}
+
+export interface TemplateRisk {
+  riskCode: string;
+  title: string;
+  description: string | null;
+  category: string | null;
+  cause: string | null;
+  consequence: string | null;
+  likelihood: number | null;
+  impact: number | null;
+  responseStrategy: string | null;
+  mitigationPlan: string[] | null;
+  contingencyPlan: string | null;
+  reviewOffsetDays: number | null;
+}
+
+export interface TemplateBudgetCategory {
+  budgetTypeCode: string;
+  name: string;
+  allocationPercent: number; // share of the total budget
+}
+
+export interface TemplateContent {
+  durationDays: number | null;
+  priority: string | null;
+  milestones: TemplateMilestone[];
+  tasks: TemplateTask[];
+  risks: TemplateRisk[];
+  budget: { currency: string; categories: TemplateBudgetCategory[] } | null;
+  retro: { framework: string } | null;
+}
+
+export const saveTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(120),
+  description: z.string().trim().max(500).optional().nullable()
+});
+
+export const instantiateProjectSchema = z.object({
+  name: z.string().trim().min(1, 'Project name is required').max(120, 'Project name must be 120 characters or fewer'),
+  description: z.string().trim().max(500).optional().nullable(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be a date in YYYY-MM-DD format'),
+  budgetTotal: z.number().nonnegative().optional(),
+  departmentId: z.string().uuid().optional().nullable()
+});
+
+export type InstantiateProjectInput = z.infer<typeof instantiateProjectSchema>;
+
+export interface InstantiateResult {
+  project: Project;
+  milestones: number;
+  tasks: number;
+  risks: number;
+  budgetCategories: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Whole days from one YYYY-MM-DD date to another
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+
+const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(date) + days * MS_PER_DAY).toISOString().split('T')[0];
+
+const toDateString = (value: unknown): string | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Modules copied only when the caller can read them on the source project, so a template
+// or clone never exposes a risk register or budget its author couldn't see
+export interface SnapshotModules {
+  risks: boolean;
+  budget: boolean;
+}
+
+export class ProjectTemplateService {
+  // Capture a project's structure with every date relative to its start
+  async snapshot(projectId: string, options: { keepOwners: boolean; modules: SnapshotModules }): Promise<{ project: Project; content: TemplateContent }> {
+    const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const projectMilestones = await db.select().from(milestones).where(eq(milestones.project_id, projectId)).orderBy(milestones.due_date);
+    const projectTasks = await db.select().from(tasks).where(eq(tasks.project_id, projectId)).orderBy(tasks.created_at);
+    const risks = options.modules.risks
+      ? await db.select().from(riskRegister).where(eq(riskRegister.project_id, projectId)).orderBy(riskRegister.risk_code)
+      : [];
+
+    // Without a start date, anchor on the earliest date the project has
+    const candidates = [
+      toDateString(project.start_date),
+      ...projectMilestones.map((m: any) => toDateString(m.due_date)),
+      ...projectTasks.map((t: any) => toDateString(t.due_date)),
+      toDateString(project.created_at)
+    ].filter((d): d is string => Boolean(d));
+    const anchor = toDateString(project.start_date) || candidates.sort()[0];
+    const offset = (value: unknown): number | null => {
+      const date = toDateString(value);
+      return date && anchor ? daysBetween(anchor, date) : null;
+    };
+
+    const milestoneKeys = new Map<string, string>();
+    const templateMilestones: TemplateMilestone[] = projectMilestones.map((m: any, index: number) => {
+      const key = `m${index + 1}`;
+      milestoneKeys.set(m.id, key);
+      return { key, name: m.name, description: m.description, offsetDays: offset(m.due_date) ?? 0 };
+    });
+
+    return {
+      project,
+      content: {
+        durationDays: anchor && project.end_date ? daysBetween(anchor, toDateString(project.end_date)!) : null,
+        priority: project.priority,
+        milestones: templateMilestones,
+        tasks: projectTasks.map((t: any) => ({
+          title: t.title,
+          description: t.description,
+          priority: t.priority,
+          storyPoints: t.story_points,
+          milestoneKey: t.milestone_id ? milestoneKeys.get(t.milestone_id) ?? null : null,
+          dueOffsetDays: offset(t.due_date),
+          ownerId: options.keepOwners ? t.owner_id : null
+        })),
+        risks: risks.map((r: any) => ({
+          riskCode: r.risk_code,
+          title: r.title,
+          description: r.description,
+          category: r.category,
+          cause: r.cause,
+          consequence: r.consequence,
+          likelihood: r.likelihood,
+          impact: r.impact,
+          responseStrategy: r.response_strategy,
+          mitigationPlan: r.mitigation_plan,
+          contingencyPlan: r.contingency_plan,
+          reviewOffsetDays: offset(r.next_review_date)
+        })),
+        budget: options.modules.budget ? await this.budgetSkeleton(projectId) : null,
+        retro: await this.retroDefaults(project)
+      }
+    };
+  }
+
+  async save(projectId: string, data: z.infer<typeof saveTemplateSchema>, scope: DepartmentScope, modules: SnapshotModules): Promise<ProjectTemplate> {
+    const { project, content } = await this.snapshot(projectId, { keepOwners: false, modules });
+
+    const [template] = await db.insert(projectTemplates).values({
+      name: data.name,
+      description: data.description ?? null,
+      source_project_id: project.id,
+      department_id: project.department_id ?? scope.departmentId,
+      content,
+      duration_days: content.durationDays,
+      created_by: scope.userId
+    }).returning();
+    return template;
+  }
+
+  // Admins see every template; others see their department's, their own and shared ones
+  async list(scope: DepartmentScope): Promise<ProjectTemplate[]> {
+    const visible = scope.isAdmin
+      ? undefined
+      : or(
+          isNull(projectTemplates.department_id),
+          eq(projectTemplates.created_by, scope.userId),
+          scope.departmentId ? eq(projectTemplates.department_id, scope.departmentId) : undefined
+        );
+    return db.select().from(projectTemplates).where(visible).orderBy(desc(projectTemplates.created_at));
+  }
+
+  async get(templateId: string): Promise<ProjectTemplate | null> {
+    const [template] = await db.select().from(projectTemplates).where(eq(projectTemplates.id, templateId)).limit(1);
+    return template ?? null;
+  }
+
+  canUse(template: ProjectTemplate, scope: DepartmentScope): boolean {
+    return scope.isAdmin
+      || !template.department_id
+      || template.created_by === scope.userId
+      || template.department_id === scope.departmentId;
+  }
+
+  async remove(templateId: string): Promise<void> {
+    await db.delete(projectTemplates).where(eq(projectTemplates.id, templateId));
+  }
+
+  async createFromTemplate(template: ProjectTemplate, input: InstantiateProjectInput, scope: DepartmentScope): Promise<InstantiateResult> {
+    return this.instantiate(template.content as TemplateContent, input, scope);
+  }
+
+  // Copy a live project's structure, keeping task owners, with every date moved to the new start
+  async clone(projectId: string, input: InstantiateProjectInput, scope: DepartmentScope, modules: SnapshotModules): Promise<InstantiateResult> {
+    const { project, content } = await this.snapshot(projectId, { keepOwners: true, modules });
+    return this.instantiate(content, {
+      ...input,
+      description: input.description ?? project.description,
+      departmentId: input.departmentId ?? project.department_id
+    }, scope);
+  }
+
+  // Build a new project from template content in one transaction; work starts over, so
+  // tasks come in as todo and risks as open
+  async instantiate(content: TemplateContent, input: InstantiateProjectInput, scope: DepartmentScope): Promise<InstantiateResult> {
+    const departmentId = scope.isAdmin && input.departmentId ? input.departmentId : scope.departmentId;
+    const at = (days: number | null) => days === null ? null : addDays(input.startDate, days);
+    const categories = await this.enabledCategories(content);
+
+    return db.transaction(async (tx: any) => {
+      const [project] = await tx.insert(projects).values({
+        name: input.name,
+        description: input.description ?? null,
+        status: 'planning',
+        priority: content.priority || 'medium',
+        start_date: input.startDate,
+        end_date: at(content.durationDays),
+        created_by: scope.userId,
+        department_id: departmentId,
+        default_retro_framework: content.retro?.framework ?? null
+      }).returning();
+
+      await tx.insert(projectMembers).values({
+        project_id: project.id,
+        user_id: scope.userId,
+        role: 'owner',
+        department_id: departmentId
+      });
+
+      const milestoneIds = new Map<string, string>();
+      for (const milestone of content.milestones) {
+        const [created] = await tx.insert(milestones).values({
+          project_id: project.id,
+          name: milestone.name,
+          description: milestone.description,
+          due_date: at(milestone.offsetDays),
+          status: 'planning',
+          created_by: scope.userId,
+          department_id: departmentId
+        }).returning({ id: milestones.id });
+        milestoneIds.set(milestone.key, created.id);
+      }
+
+      if (content.tasks.length > 0) {
+        const created: { id: string; status: string }[] = await tx.insert(tasks).values(content.tasks.map(task => ({
+          project_id: project.id,
+          milestone_id: task.milestoneKey ? milestoneIds.get(task.milestoneKey) ?? null : null,
+          title: task.title,
+          description: task.description,
+          status: 'todo',
+          priority: task.priority || 'medium',
+          story_points: task.storyPoints,
+          owner_id: task.ownerId,
+          due_date: at(task.dueOffsetDays),
+          created_by: scope.userId,
+          changed_by: scope.userId,
+          department_id: departmentId,
+          ...taskLifecycleStamps(null, 'todo')
+        }))).returning({ id: tasks.id, status: tasks.status });
+
+        await tx.insert(taskStatusHistory).values(created.map(task => ({
+          task_id: task.id,
+          old_status: null,
+          new_status: task.status,
+          changed_by: scope.userId,
+          notes: 'Created from template'
+        })));
+      }
+
+      if (content.risks.length > 0) {
+        await tx.insert(riskRegister).values(content.risks.map(risk => ({
+          project_id: project.id,
+          created_by: scope.userId,
+          department_id: departmentId,
+          risk_code: risk.riskCode,
+          title: risk.title,
+          description: risk.description,
+          category: risk.category,
+          cause: risk.cause,
+          consequence: risk.consequence,
+          likelihood: risk.likelihood,
+          impact: risk.impact,
+          risk_score: risk.likelihood && risk.impact ? risk.likelihood * risk.impact : null,
+          response_strategy: risk.responseStrategy,
+          mitigation_plan: risk.mitigationPlan,
+          contingency_plan: risk.contingencyPlan,
+          status: 'open',
+          identified_date: input.startDate,
+          last_updated: input.startDate,
+          next_review_date: at(risk.reviewOffsetDays)
+        })));
+      }
+
+      if (content.budget && categories.length > 0) {
+        const total = input.budgetTotal ?? 0;
+        const [budget] = await tx.insert(projectBudgets).values({
+          project_id: project.id,
+          currency: content.budget.currency,
+          total_budget_allocated: String(total),
+          start_date: input.startDate,
+          end_date: at(content.durationDays),
+          created_by: scope.userId,
+          department_id: departmentId
+        }).returning({ id: projectBudgets.id });
+
+        await tx.insert(budgetCategories).values(categories.map(category => ({
+          project_budget_id: budget.id,
+          budget_type_code: category.budgetTypeCode,
+          name: category.name,
+          budget_allocated: String(round(total * category.allocationPercent / 100)),
+          created_by: scope.userId
+        })));
+      }
+
+      return {
+        project,
+        milestones: content.milestones.length,
+        tasks: content.tasks.length,
+        risks: content.risks.length,
+        budgetCategories: content.budget ? categories.length : 0
+      };
+    });
+  }
+
+  // Each category's share of the allocated budget; with nothing allocated yet, fall back
+  // to the budget type's default share
+  private async budgetSkeleton(projectId: string): Promise<TemplateContent['budget']> {
+    const [budget] = await db.select().from(projectBudgets).where(eq(projectBudgets.project_id, projectId)).limit(1);
+    if (!budget) return null;
+
+    const categories = await db.select().from(budgetCategories).where(eq(budgetCategories.project_budget_id, budget.id));
+    const types = await db.select().from(budgetTypeConfig);
+    const defaults = new Map<string, number>(types.map((t: any) => [t.code, Number(t.default_allocation_percent)]));
+    const total = categories.reduce((sum: number, c: any) => sum + Number(c.budget_allocated), 0);
+
+    return {
+      currency: budget.currency,
+      categories: categories.map((c: any) => ({
+        budgetTypeCode: c.budget_type_code,
+        name: c.name,
+        allocationPercent: total > 0 ? round(Number(c.budget_allocated) / total * 100) : defaults.get(c.budget_type_code) ?? 0
+      }))
+    };
+  }
+
+  // Budget types can be switched off after a template is saved; skip those
+  private async enabledCategories(content: TemplateContent): Promise<TemplateBudgetCategory[]> {
+    const codes = content.budget?.categories.map(c => c.budgetTypeCode) ?? [];
+    if (codes.length === 0) return [];
+
+    const enabled = await db.select({ code: budgetTypeConfig.code })
+      .from(budgetTypeConfig)
+      .where(and(inArray(budgetTypeConfig.code, codes), eq(budgetTypeConfig.enabled, true)));
+    const enabledCodes = new Set(enabled.map((t: { code: string }) => t.code));
+    return content.budget!.categories.filter(c => enabledCodes.has(c.budgetTypeCode));
+  }
+
+  // The project's own default, else the framework of its latest retrospective
+  private async retroDefaults(project: Project): Promise<TemplateContent['retro']> {
+    if (project.default_retro_framework) {
+      return { framework: project.default_retro_framework };
+    }
+    const [latest] = await db.select({ framework: retrospectives.framework })
+      .from(retrospectives)
+      .where(eq(retrospectives.project_id, project.id))
+      .orderBy(desc(retrospectives.created_at))
+      .limit(1);
+    return latest ? { framework: latest.framework } : null;
+  }
+}
+
+export const projectTemplateService = new ProjectTemplateService();
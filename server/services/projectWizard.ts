@@ -0,0 +1,223 @@
+import { z } from 'zod';
+import { db } from '../db';
+import { projects, milestones, tasks, taskStatusHistory, projectMembers, teams, teamMembers, users, type Project } from '@shared/schema';
+import { inArray } from 'drizzle-orm';
+import { LOCAL_TASK_STATUSES, LOCAL_TASK_PRIORITIES } from './jiraService';
+import { taskLifecycleStamps } from './taskLifecycle';
+import type { DepartmentScope } from './departments';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be a date in YYYY-MM-DD format');
+const optionalText = z.string().trim().optional().nullable().transform(value => value || null);
+
+const wizardTaskSchema = z.object({
+  id: z.string().min(1), // the wizard's own id, used to find a task inside its milestone
+  title: z.string().trim().min(1, 'Task title is required').max(255),
+  description: optionalText,
+  dueDate: isoDate.optional().nullable().or(z.literal('')).transform(value => value || null),
+  status: z.enum(LOCAL_TASK_STATUSES).default('todo'),
+  priority: z.enum(LOCAL_TASK_PRIORITIES).default('medium'),
+  ownerId: z.string().uuid('Owner must be a user id').optional().nullable().or(z.literal('')).transform(value => value || null)
+});
+
+const wizardMilestoneSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, 'Milestone name is required').max(255),
+  dueDate: isoDate,
+  status: z.string().trim().min(1).default('planning'),
+  tasks: z.array(wizardTaskSchema).default([])
+});
+
+export const projectWizardSchema = z.object({
+  projectName: z.string().trim().min(1, 'Project name is required').max(120, 'Project name must be 120 characters or fewer'),
+  objective: z.string().trim().min(1, 'Objective is required').max(500, 'Objective must be 500 characters or fewer'),
+  businessValue: optionalText,
+  startDate: isoDate,
+  endDate: isoDate,
+  priority: z.enum(LOCAL_TASK_PRIORITIES).default('medium'),
+  departmentId: z.string().uuid().optional().nullable(),
+  tasks: z.array(wizardTaskSchema).default([]),
+  milestones: z.array(wizardMilestoneSchema).default([]),
+  inviteEmails: z.array(z.string().trim().toLowerCase().email('Must be a valid email address')).default([])
+}).superRefine((data, ctx) => {
+  if (data.endDate < data.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endDate'], message: 'End date must be on or after the start date' });
+  }
+
+  if (data.tasks.length === 0 && data.milestones.every(m => m.tasks.length === 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tasks'], message: 'Add at least one task' });
+  }
+
+  const grouped = new Map<string, number>();
+  data.milestones.forEach((milestone, m) => {
+    milestone.tasks.forEach((task, t) => {
+      if (grouped.has(task.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['milestones', m, 'tasks', t],
+          message: `"${task.title}" is already in milestone "${data.milestones[grouped.get(task.id)!].name}"`
+        });
+      }
+      grouped.set(task.id, m);
+    });
+  });
+
+  data.inviteEmails.forEach((email, i) => {
+    if (data.inviteEmails.indexOf(email) !== i) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['inviteEmails', i], message: `${email} is listed more than once` });
+    }
+  });
+});
+
+export type ProjectWizardInput = z.infer<typeof projectWizardSchema>;
+
+export interface WizardIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+// Thrown for problems only the database can reveal, shaped like a ZodError so
+// routes report both kinds the same way
+export class WizardValidationError extends Error {
+  constructor(public issues: WizardIssue[]) {
+    super(issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+    this.name = 'WizardValidationError';
+  }
+}
+
+export interface WizardResult {
+  project: Project;
+  milestones: number;
+  tasks: number;
+  members: number;
+  pendingInvites: string[]; // invited emails with no account yet; they're on the team but not project members
+}
+
+type WizardTask = ProjectWizardInput['tasks'][number];
+
+export class ProjectWizardService {
+  // Create the project and everything captured in the wizard in one transaction, owned by the
+  // creator. Nothing is written unless every row is.
+  async create(input: ProjectWizardInput, scope: DepartmentScope): Promise<WizardResult> {
+    // Only admins can file a project under a department other than their own
+    const departmentId = scope.isAdmin && input.departmentId ? input.departmentId : scope.departmentId;
+
+    // Milestones hold the latest copy of a grouped task; the rest stay unscheduled
+    const placed = new Map<string, { task: WizardTask; milestoneIndex: number | null }>();
+    input.milestones.forEach((milestone, m) => milestone.tasks.forEach(task => placed.set(task.id, { task, milestoneIndex: m })));
+    input.tasks.forEach(task => {
+      if (!placed.has(task.id)) placed.set(task.id, { task, milestoneIndex: null });
+    });
+    const entries = Array.from(placed.values());
+
+    const invitees = await this.resolveUsers(input.inviteEmails);
+    await this.checkOwners(input, entries.map(e => e.task.ownerId).filter((id): id is string => Boolean(id)));
+
+    return db.transaction(async (tx: any) => {
+      const [project] = await tx.insert(projects).values({
+        name: input.projectName,
+        description: input.businessValue ? `${input.objective}\n\nBusiness value: ${input.businessValue}` : input.objective,
+        status: 'planning',
+        priority: input.priority,
+        start_date: input.startDate,
+        end_date: input.endDate,
+        created_by: scope.userId,
+        department_id: departmentId
+      }).returning();
+
+      const milestoneIds: string[] = [];
+      for (const milestone of input.milestones) {
+        const [created] = await tx.insert(milestones).values({
+          project_id: project.id,
+          name: milestone.name,
+          due_date: milestone.dueDate,
+          status: milestone.status,
+          created_by: scope.userId,
+          department_id: departmentId
+        }).returning({ id: milestones.id });
+        milestoneIds.push(created.id);
+      }
+
+      if (entries.length > 0) {
+        const created: { id: string; status: string }[] = await tx.insert(tasks).values(entries.map(({ task, milestoneIndex }) => ({
+          project_id: project.id,
+          milestone_id: milestoneIndex === null ? null : milestoneIds[milestoneIndex],
+          title: task.title,
+          description: task.description,
+          status: task.status,
+          priority: task.priority,
+          owner_id: task.ownerId,
+          due_date: task.dueDate,
+          created_by: scope.userId,
+          department_id: departmentId,
+          ...taskLifecycleStamps(null, task.status)
+        }))).returning({ id: tasks.id, status: tasks.status });
+
+        await tx.insert(taskStatusHistory).values(created.map(task => ({
+          task_id: task.id,
+          old_status: null,
+          new_status: task.status,
+          changed_by: scope.userId,
+          notes: 'Created by project wizard'
+        })));
+      }
+
+      const memberIds = [scope.userId, ...Array.from(invitees.values()).filter(id => id !== scope.userId)];
+      await tx.insert(projectMembers).values(memberIds.map(userId => ({
+        project_id: project.id,
+        user_id: userId,
+        role: userId === scope.userId ? 'owner' : 'member',
+        department_id: departmentId
+      })));
+
+      if (input.inviteEmails.length > 0) {
+        const [team] = await tx.insert(teams).values({
+          project_id: project.id,
+          name: `${input.projectName} Team`,
+          created_by: scope.userId
+        }).returning({ id: teams.id });
+
+        await tx.insert(teamMembers).values(input.inviteEmails.map(email => ({
+          team_id: team.id,
+          display_name: email.split('@')[0],
+          email
+        })));
+      }
+
+      return {
+        project,
+        milestones: milestoneIds.length,
+        tasks: entries.length,
+        members: memberIds.length,
+        pendingInvites: input.inviteEmails.filter(email => !invitees.has(email))
+      };
+    });
+  }
+
+  private async resolveUsers(emails: string[]): Promise<Map<string, string>> {
+    if (emails.length === 0) return new Map();
+    const found = await db.select({ id: users.id, email: users.email }).from(users).where(inArray(users.email, emails));
+    return new Map(found.map((u: { id: string; email: string }) => [u.email, u.id]));
+  }
+
+  private async checkOwners(input: ProjectWizardInput, ownerIds: string[]): Promise<void> {
+    if (ownerIds.length === 0) return;
+
+    const found = await db.select({ id: users.id }).from(users).where(inArray(users.id, Array.from(new Set(ownerIds))));
+    const known = new Set(found.map((u: { id: string }) => u.id));
+    const issues: WizardIssue[] = [];
+
+    const check = (task: WizardTask, path: (string | number)[]) => {
+      if (task.ownerId && !known.has(task.ownerId)) {
+        issues.push({ path: [...path, 'ownerId'], message: 'Owner is not a registered user' });
+      }
+    };
+    input.tasks.forEach((task, t) => check(task, ['tasks', t]));
+    input.milestones.forEach((milestone, m) => milestone.tasks.forEach((task, t) => check(task, ['milestones', m, 'tasks', t])));
+
+    if (issues.length > 0) {
+      throw new WizardValidationError(issues);
+    }
+  }
+}
+
+export const projectWizard = new ProjectWizardService();
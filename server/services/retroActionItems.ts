@@ -0,0 +1,410 @@
+import { z } from 'zod';
+import { db } from '../db';
+import { projects, retrospectives, retrospectiveActionItems, taskBacklog, type Retrospective, type RetrospectiveActionItem } from '@shared/schema';
+import { eq, and, lt, isNull, inArray, desc, asc } from 'drizzle-orm';
+import { sprintPlanning } from './sprintPlanning';
+
+export const ACTION_ITEM_STATUSES = ['open', 'in_progress', 'done', 'carried_over', 'dropped'] as const;
+export type ActionItemStatus = typeof ACTION_ITEM_STATUSES[number];
+
+// Statuses that still need someone to act on them
+const OPEN_STATUSES: ActionItemStatus[] = ['open', 'in_progress'];
+// Task statuses that finish the work an action item was moved into
+const FINISHED_TASK_STATUSES = ['completed', 'done'];
+
+export const createActionItemSchema = z.object({
+  what_task: z.string().trim().min(1, 'Describe the action'),
+  when_sprint: z.string().trim().optional().nullable(),
+  who_responsible: z.string().trim().optional().nullable(),
+  how_approach: z.string().trim().optional().nullable(),
+  from_card_id: z.string().uuid().optional().nullable(),
+  owner_id: z.string().uuid().optional().nullable(),
+  // Adds a linked task_backlog entry; on by default so actions don't get lost
+  convert: z.boolean().default(true)
+});
+
+export const updateActionItemSchema = z.object({
+  what_task: z.string().trim().min(1).optional(),
+  when_sprint: z.string().trim().optional().nullable(),
+  who_responsible: z.string().trim().optional().nullable(),
+  how_approach: z.string().trim().optional().nullable(),
+  // carried_over is only reached through carryOver
+  status: z.enum(['open', 'in_progress', 'done', 'dropped']).optional()
+});
+
+export type CreateActionItemInput = z.infer<typeof createActionItemSchema>;
+export type UpdateActionItemInput = z.infer<typeof updateActionItemSchema>;
+
+export class RetroActionItemError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RetroActionItemError';
+  }
+}
+
+export interface CarryOverCandidate extends RetrospectiveActionItem {
+  retrospective: { id: string; iteration_id: string | null; created_at: Date };
+}
+
+export interface CarryOverCandidates {
+  previous: { id: string; iteration_id: string | null; created_at: Date } | null;
+  items: CarryOverCandidate[];
+}
+
+export interface RetroFollowThrough {
+  retrospectiveId: string;
+  label: string;
+  createdAt: string;
+  raised: number; // new actions agreed in this retro
+  carriedIn: number; // actions brought forward from earlier retros
+  completed: number;
+  open: number;
+  dropped: number;
+  converted: number;
+  completionRate: number; // % of the actions raised here that were eventually done
+}
+
+export interface FollowThroughReport {
+  totals: { raised: number; completed: number; open: number; dropped: number; carriedOver: number; converted: number; completionRate: number };
+  byStatus: Array<{ status: string; count: number; percentage: number }>;
+  retrospectives: RetroFollowThrough[];
+}
+
+// Backlog statuses an action item's status maps onto, and back. A carried-over action is
+// continued by its copy, so its entry stays queued; dropped actions close theirs.
+const BACKLOG_STATUS: Record<ActionItemStatus, string> = {
+  open: 'backlog',
+  in_progress: 'in_progress',
+  done: 'done',
+  carried_over: 'backlog',
+  dropped: 'closed'
+};
+
+const ACTION_STATUS: Record<string, ActionItemStatus> = {
+  backlog: 'open',
+  in_progress: 'in_progress',
+  done: 'done',
+  closed: 'dropped'
+};
+
+const percent = (part: number, whole: number) => whole > 0 ? Math.round((part / whole) * 100) : 0;
+
+// Action items agreed in a retro move through open → in progress → done (or dropped). An item
+// that isn't finished by the team's next retro is carried over: the new retro gets a copy that
+// continues it, and the linked backlog entry follows the copy.
+export class RetroActionItemService {
+  async retrospective(retrospectiveId: string): Promise<Retrospective> {
+    const [retro] = await db.select().from(retrospectives).where(eq(retrospectives.id, retrospectiveId)).limit(1);
+    if (!retro) {
+      throw new RetroActionItemError('Retrospective not found', 404);
+    }
+    return retro;
+  }
+
+  async item(actionItemId: string): Promise<RetrospectiveActionItem> {
+    const [item] = await db.select().from(retrospectiveActionItems).where(eq(retrospectiveActionItems.id, actionItemId)).limit(1);
+    if (!item) {
+      throw new RetroActionItemError('Action item not found', 404);
+    }
+    return item;
+  }
+
+  async list(retrospectiveId: string): Promise<RetrospectiveActionItem[]> {
+    return db.select().from(retrospectiveActionItems)
+      .where(eq(retrospectiveActionItems.retrospective_id, retrospectiveId))
+      .orderBy(asc(retrospectiveActionItems.created_at));
+  }
+
+  async create(retrospectiveId: string, input: CreateActionItemInput, userId: string): Promise<RetrospectiveActionItem> {
+    const retro = await this.retrospective(retrospectiveId);
+
+    return db.transaction(async (tx: any) => {
+      const [item] = await tx.insert(retrospectiveActionItems).values({
+        retrospective_id: retrospectiveId,
+        what_task: input.what_task,
+        when_sprint: input.when_sprint ?? null,
+        who_responsible: input.who_responsible ?? null,
+        how_approach: input.how_approach ?? null,
+        from_card_id: input.from_card_id ?? null,
+        status: 'open',
+        created_by: userId
+      }).returning();
+
+      if (!input.convert) return item;
+      return this.convertWith(tx, item, retro, userId, input.owner_id ?? null);
+    });
+  }
+
+  // Adds the backlog entry for an action item that was saved without one
+  async convert(actionItemId: string, userId: string, ownerId: string | null = null): Promise<RetrospectiveActionItem> {
+    const item = await this.item(actionItemId);
+    if (item.backlog_ref_id) {
+      throw new RetroActionItemError('This action item is already on the backlog', 409);
+    }
+    const retro = await this.retrospective(item.retrospective_id);
+    return db.transaction((tx: any) => this.convertWith(tx, item, retro, userId, ownerId));
+  }
+
+  async update(actionItemId: string, input: UpdateActionItemInput): Promise<RetrospectiveActionItem> {
+    const item = await this.item(actionItemId);
+    if (item.status === 'carried_over') {
+      throw new RetroActionItemError('This action was carried over; update it in the later retrospective', 409);
+    }
+
+    const changes: Partial<RetrospectiveActionItem> = { updated_at: new Date() };
+    if (input.what_task !== undefined) changes.what_task = input.what_task;
+    if (input.when_sprint !== undefined) changes.when_sprint = input.when_sprint;
+    if (input.who_responsible !== undefined) changes.who_responsible = input.who_responsible;
+    if (input.how_approach !== undefined) changes.how_approach = input.how_approach;
+    if (input.status !== undefined && input.status !== item.status) {
+      changes.status = input.status;
+      changes.completed_at = input.status === 'done' ? new Date() : null;
+    }
+
+    return db.transaction(async (tx: any) => {
+      const [updated] = await tx.update(retrospectiveActionItems)
+        .set(changes)
+        .where(eq(retrospectiveActionItems.id, actionItemId))
+        .returning();
+
+      if (changes.status && updated.backlog_ref_id) {
+        const [backlogItem] = await tx.update(taskBacklog)
+          .set({ status: BACKLOG_STATUS[changes.status as ActionItemStatus], updated_at: new Date() })
+          .where(eq(taskBacklog.id, updated.backlog_ref_id))
+          .returning({ iteration_id: taskBacklog.iteration_id });
+        // Finishing or reopening planned work changes the iteration's commitment
+        if (backlogItem?.iteration_id) {
+          await sprintPlanning.recalculate(backlogItem.iteration_id, tx);
+        }
+      }
+      return updated;
+    });
+  }
+
+  // Called when a backlog entry changes so the action follows it. Blocked work has no action
+  // status and leaves the action as it is.
+  async syncFromBacklog(backlogItem: { id: string; status: string; source_type: string | null; source_id: string | null }): Promise<void> {
+    if (backlogItem.source_type !== 'retrospective' || !backlogItem.source_id) return;
+    const [item] = await db.select().from(retrospectiveActionItems)
+      .where(eq(retrospectiveActionItems.id, backlogItem.source_id))
+      .limit(1);
+    if (!item || item.status === 'carried_over') return;
+
+    const status = ACTION_STATUS[backlogItem.status];
+    if (!status || status === item.status) return;
+
+    await db.update(retrospectiveActionItems)
+      .set({ status, completed_at: status === 'done' ? new Date() : null, updated_at: new Date() })
+      .where(eq(retrospectiveActionItems.id, item.id));
+  }
+
+  // Called when a backlog entry is moved into a task: the action is under way and follows
+  // the task from now on
+  async linkTask(backlogItem: { source_type: string | null; source_id: string | null }, taskId: string): Promise<void> {
+    if (backlogItem.source_type !== 'retrospective' || !backlogItem.source_id) return;
+    const [item] = await db.select().from(retrospectiveActionItems)
+      .where(eq(retrospectiveActionItems.id, backlogItem.source_id))
+      .limit(1);
+    if (!item || item.status === 'carried_over') return;
+
+    await db.update(retrospectiveActionItems)
+      .set({
+        task_ref_id: taskId,
+        ...(item.status === 'open' ? { status: 'in_progress' } : {}),
+        updated_at: new Date()
+      })
+      .where(eq(retrospectiveActionItems.id, item.id));
+  }
+
+  // Called when a task's status changes so that finishing it finishes the action, and
+  // reopening it reopens the action
+  async syncFromTask(task: { id: string; status: string }): Promise<void> {
+    const [item] = await db.select().from(retrospectiveActionItems)
+      .where(eq(retrospectiveActionItems.task_ref_id, task.id))
+      .limit(1);
+    if (!item || item.status === 'carried_over' || item.status === 'dropped') return;
+
+    const status: ActionItemStatus = FINISHED_TASK_STATUSES.includes(task.status) ? 'done' : 'in_progress';
+    if (status === item.status) return;
+
+    await db.update(retrospectiveActionItems)
+      .set({ status, completed_at: status === 'done' ? new Date() : null, updated_at: new Date() })
+      .where(eq(retrospectiveActionItems.id, item.id));
+  }
+
+  // Unfinished actions from the team's earlier retros, with the retro just before this one.
+  // Older retros are included too, so actions nobody triaged last time aren't forgotten.
+  async carryOverCandidates(retrospectiveId: string): Promise<CarryOverCandidates> {
+    const retro = await this.retrospective(retrospectiveId);
+    const earlier = await db.select({
+      id: retrospectives.id,
+      iteration_id: retrospectives.iteration_id,
+      created_at: retrospectives.created_at
+    })
+      .from(retrospectives)
+      .where(and(
+        eq(retrospectives.project_id, retro.project_id),
+        retro.team_id ? eq(retrospectives.team_id, retro.team_id) : isNull(retrospectives.team_id),
+        lt(retrospectives.created_at, retro.created_at)
+      ))
+      .orderBy(desc(retrospectives.created_at));
+
+    if (earlier.length === 0) {
+      return { previous: null, items: [] };
+    }
+
+    const items = await db.select().from(retrospectiveActionItems)
+      .where(and(
+        inArray(retrospectiveActionItems.retrospective_id, earlier.map((r: { id: string }) => r.id)),
+        inArray(retrospectiveActionItems.status, OPEN_STATUSES)
+      ))
+      .orderBy(asc(retrospectiveActionItems.created_at));
+
+    return {
+      previous: earlier[0],
+      items: items.map((item: RetrospectiveActionItem) => ({
+        ...item,
+        retrospective: earlier.find((r: { id: string }) => r.id === item.retrospective_id)
+      }))
+    };
+  }
+
+  // Brings an unfinished action into a later retro of the same team
+  async carryOver(actionItemId: string, toRetrospectiveId: string, userId: string): Promise<RetrospectiveActionItem> {
+    const item = await this.item(actionItemId);
+    if (!OPEN_STATUSES.includes(item.status as ActionItemStatus)) {
+      throw new RetroActionItemError('Only open actions can be carried over', 409);
+    }
+    const [from, to] = await Promise.all([this.retrospective(item.retrospective_id), this.retrospective(toRetrospectiveId)]);
+    if (from.project_id !== to.project_id || (from.team_id || null) !== (to.team_id || null) || from.created_at >= to.created_at) {
+      throw new RetroActionItemError('Actions can only be carried over to a later retrospective of the same team');
+    }
+
+    return db.transaction(async (tx: any) => {
+      const [copy] = await tx.insert(retrospectiveActionItems).values({
+        retrospective_id: toRetrospectiveId,
+        what_task: item.what_task,
+        when_sprint: item.when_sprint,
+        who_responsible: item.who_responsible,
+        how_approach: item.how_approach,
+        from_card_id: item.from_card_id,
+        backlog_ref_id: item.backlog_ref_id,
+        task_ref_id: item.task_ref_id,
+        converted_to_task: item.converted_to_task,
+        status: item.status,
+        carried_from_id: item.id,
+        created_by: userId
+      }).returning();
+
+      await tx.update(retrospectiveActionItems)
+        .set({ status: 'carried_over', updated_at: new Date() })
+        .where(eq(retrospectiveActionItems.id, item.id));
+
+      if (item.backlog_ref_id) {
+        await tx.update(taskBacklog)
+          .set({ source_id: copy.id, updated_at: new Date() })
+          .where(eq(taskBacklog.id, item.backlog_ref_id));
+      }
+      return copy;
+    });
+  }
+
+  // Each action is counted once, in the retro that raised it, with the outcome of the last
+  // retro it was carried into
+  async followThrough(projectId: string): Promise<FollowThroughReport> {
+    const retros = await db.select().from(retrospectives)
+      .where(eq(retrospectives.project_id, projectId))
+      .orderBy(asc(retrospectives.created_at));
+    const items: RetrospectiveActionItem[] = retros.length === 0 ? [] : await db.select().from(retrospectiveActionItems)
+      .where(inArray(retrospectiveActionItems.retrospective_id, retros.map((r: Retrospective) => r.id)));
+
+    const continuedBy = new Map<string, RetrospectiveActionItem>();
+    items.forEach(item => {
+      if (item.carried_from_id) continuedBy.set(item.carried_from_id, item);
+    });
+    const outcome = (item: RetrospectiveActionItem): RetrospectiveActionItem => {
+      let current = item;
+      const seen = new Set<string>();
+      while (current.status === 'carried_over' && continuedBy.has(current.id) && !seen.has(current.id)) {
+        seen.add(current.id);
+        current = continuedBy.get(current.id)!;
+      }
+      return current;
+    };
+
+    const raised = items.filter(item => !item.carried_from_id);
+    const outcomes = raised.map(item => ({ item, final: outcome(item) }));
+    const isOpen = (status: string) => OPEN_STATUSES.includes(status as ActionItemStatus) || status === 'carried_over';
+
+    const retrospectiveRows = retros.map((retro: Retrospective): RetroFollowThrough => {
+      const own = outcomes.filter(({ item }) => item.retrospective_id === retro.id);
+      const completed = own.filter(({ final }) => final.status === 'done').length;
+      return {
+        retrospectiveId: retro.id,
+        label: retro.iteration_id || new Date(retro.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+        createdAt: new Date(retro.created_at).toISOString(),
+        raised: own.length,
+        carriedIn: items.filter(item => item.retrospective_id === retro.id && item.carried_from_id).length,
+        completed,
+        open: own.filter(({ final }) => isOpen(final.status)).length,
+        dropped: own.filter(({ final }) => final.status === 'dropped').length,
+        converted: own.filter(({ item }) => !!item.backlog_ref_id).length,
+        completionRate: percent(completed, own.length)
+      };
+    });
+
+    const totals = {
+      raised: raised.length,
+      completed: outcomes.filter(({ final }) => final.status === 'done').length,
+      open: outcomes.filter(({ final }) => isOpen(final.status)).length,
+      dropped: outcomes.filter(({ final }) => final.status === 'dropped').length,
+      carriedOver: raised.filter(item => continuedBy.has(item.id)).length,
+      converted: raised.filter(item => !!item.backlog_ref_id).length,
+      completionRate: 0
+    };
+    totals.completionRate = percent(totals.completed, totals.raised);
+
+    const byStatus = [
+      { status: 'Open', count: totals.open },
+      { status: 'Done', count: totals.completed },
+      { status: 'Dropped', count: totals.dropped }
+    ].map(row => ({ ...row, percentage: percent(row.count, totals.raised) }));
+
+    return { totals, byStatus, retrospectives: retrospectiveRows };
+  }
+
+  // The backlog entry and the action item point at each other
+  private async convertWith(tx: any, item: RetrospectiveActionItem, retro: Retrospective, userId: string, ownerId: string | null): Promise<RetrospectiveActionItem> {
+    const [project] = await tx.select({ department_id: projects.department_id })
+      .from(projects)
+      .where(eq(projects.id, retro.project_id))
+      .limit(1);
+
+    const details = [
+      item.how_approach,
+      item.when_sprint ? `When: ${item.when_sprint}` : null,
+      item.who_responsible ? `Who: ${item.who_responsible}` : null
+    ].filter(Boolean).join('\n');
+
+    const [backlogItem] = await tx.insert(taskBacklog).values({
+      title: item.what_task,
+      description: details ? `${details}\n\nCreated from a retrospective action item.` : 'Created from a retrospective action item.',
+      project_id: retro.project_id,
+      created_by: userId,
+      priority: 'medium',
+      status: BACKLOG_STATUS[item.status as ActionItemStatus] || 'backlog',
+      owner_id: ownerId,
+      source_type: 'retrospective',
+      source_id: item.id,
+      department_id: project?.department_id ?? null
+    }).returning();
+
+    const [linked] = await tx.update(retrospectiveActionItems)
+      .set({ backlog_ref_id: backlogItem.id, converted_to_task: true, updated_at: new Date() })
+      .where(eq(retrospectiveActionItems.id, item.id))
+      .returning();
+    return linked;
+  }
+}
+
+export const retroActionItems = new RetroActionItemService();
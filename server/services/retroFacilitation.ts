@@ -0,0 +1,284 @@
+import { db } from '../db';
+import { retrospectives, retrospectiveColumns, retrospectiveCards, retrospectiveCardVotes, type Retrospective, type RetrospectiveCard } from '@shared/schema';
+import { eq, and, count } from 'drizzle-orm';
+import { z } from 'zod';
+
+export const RETRO_PHASES = ['write', 'group', 'vote', 'discuss', 'closed'] as const;
+export type RetroPhase = typeof RETRO_PHASES[number];
+
+// Statuses used before boards had phases
+const LEGACY_STATUSES: Record<string, RetroPhase> = {
+  active: 'write',
+  completed: 'closed'
+};
+
+// Boards created before sign-in was required carry this in created_by
+const PLACEHOLDER_USER_ID = '00000000-0000-0000-0000-000000000000';
+
+export const phaseOf = (status: string): RetroPhase =>
+  (RETRO_PHASES as readonly string[]).includes(status) ? status as RetroPhase : LEGACY_STATUSES[status] || 'write';
+
+export const facilitationSchema = z.object({
+  phase: z.enum(RETRO_PHASES).optional(),
+  voteBudget: z.number().int().min(1).max(20).optional(),
+  // Starts a shared countdown of this many seconds; null stops it
+  timerSeconds: z.number().int().min(1).max(4 * 60 * 60).nullable().optional(),
+  facilitatorId: z.string().uuid().optional()
+});
+
+export type FacilitationUpdate = z.infer<typeof facilitationSchema>;
+
+export class RetroPhaseError extends Error {
+  constructor(message: string, public status: number = 409) {
+    super(message);
+    this.name = 'RetroPhaseError';
+  }
+}
+
+export interface FacilitationState {
+  phase: RetroPhase;
+  facilitatorId: string | null;
+  voteBudget: number;
+  timerEndsAt: string | null;
+  // Lets clients run the countdown against the server's clock rather than their own
+  serverTime: string;
+}
+
+export interface VotingState {
+  budget: number;
+  used: number;
+  remaining: number;
+  cardIds: string[];
+}
+
+export interface VoteResult {
+  votes: number;
+  voted: boolean;
+  remaining: number;
+}
+
+export type CardAction = 'edit' | 'move' | 'delete';
+
+const CARD_ACTION_PHASES: Record<CardAction, RetroPhase[]> = {
+  edit: ['write', 'group'],
+  move: ['write', 'group'],
+  delete: ['write', 'group', 'vote', 'discuss']
+};
+
+const ACTION_NAMES: Record<CardAction, string> = {
+  edit: 'Editing cards',
+  move: 'Moving cards',
+  delete: 'Deleting cards'
+};
+
+// Rules for a facilitated retrospective: cards are private while the team writes, grouping
+// and voting only happen in their own phases, and each person has a fixed number of votes.
+// Checks run against the signed-in user, never an id taken from the request body.
+export class RetroFacilitationService {
+  async retrospective(retrospectiveId: string): Promise<Retrospective> {
+    const [retro] = await db.select().from(retrospectives).where(eq(retrospectives.id, retrospectiveId)).limit(1);
+    if (!retro) {
+      throw new RetroPhaseError('Retrospective not found', 404);
+    }
+    return retro;
+  }
+
+  async retrospectiveForColumn(columnId: string): Promise<Retrospective> {
+    const [row] = await db.select({ retro: retrospectives })
+      .from(retrospectiveColumns)
+      .innerJoin(retrospectives, eq(retrospectiveColumns.retrospective_id, retrospectives.id))
+      .where(eq(retrospectiveColumns.id, columnId))
+      .limit(1);
+    if (!row) {
+      throw new RetroPhaseError('Column not found', 404);
+    }
+    return row.retro;
+  }
+
+  async cardWithRetrospective(cardId: string): Promise<{ card: RetrospectiveCard; retro: Retrospective }> {
+    const [row] = await db.select({ card: retrospectiveCards, retro: retrospectives })
+      .from(retrospectiveCards)
+      .innerJoin(retrospectiveColumns, eq(retrospectiveCards.column_id, retrospectiveColumns.id))
+      .innerJoin(retrospectives, eq(retrospectiveColumns.retrospective_id, retrospectives.id))
+      .where(eq(retrospectiveCards.id, cardId))
+      .limit(1);
+    if (!row) {
+      throw new RetroPhaseError('Card not found', 404);
+    }
+    return row;
+  }
+
+  // Null when nobody has taken the board on yet; anyone with write access may then facilitate
+  facilitatorOf(retro: Retrospective): string | null {
+    if (retro.facilitator_id) return retro.facilitator_id;
+    return retro.created_by === PLACEHOLDER_USER_ID ? null : retro.created_by;
+  }
+
+  isFacilitator(retro: Retrospective, userId: string): boolean {
+    const facilitator = this.facilitatorOf(retro);
+    return !facilitator || facilitator === userId;
+  }
+
+  state(retro: Retrospective, now: Date = new Date()): FacilitationState {
+    return {
+      phase: phaseOf(retro.status),
+      facilitatorId: this.facilitatorOf(retro),
+      voteBudget: retro.vote_budget,
+      timerEndsAt: retro.timer_ends_at ? new Date(retro.timer_ends_at).toISOString() : null,
+      serverTime: now.toISOString()
+    };
+  }
+
+  requirePhase(retro: Retrospective, allowed: RetroPhase[], action: string): void {
+    const phase = phaseOf(retro.status);
+    if (!allowed.includes(phase)) {
+      throw new RetroPhaseError(`${action} isn't possible during the ${phase} phase`);
+    }
+  }
+
+  // Other people's cards are blanked until the facilitator moves past writing
+  redactCard<T extends { created_by: string; text: string }>(card: T, phase: RetroPhase, viewerId: string): T & { hidden: boolean } {
+    const hidden = phase === 'write' && card.created_by !== viewerId;
+    return hidden ? { ...card, text: '', hidden } : { ...card, hidden };
+  }
+
+  async assertCanAddCard(columnId: string): Promise<Retrospective> {
+    const retro = await this.retrospectiveForColumn(columnId);
+    this.requirePhase(retro, ['write'], 'Adding cards');
+    return retro;
+  }
+
+  async assertCanChangeCard(cardId: string, userId: string, action: CardAction): Promise<{ card: RetrospectiveCard; retro: Retrospective }> {
+    const found = await this.cardWithRetrospective(cardId);
+    this.requirePhase(found.retro, CARD_ACTION_PHASES[action], ACTION_NAMES[action]);
+    if (found.card.created_by !== userId && !this.isFacilitator(found.retro, userId)) {
+      throw new RetroPhaseError('Only the card author or the facilitator can change this card', 403);
+    }
+    return found;
+  }
+
+  async voting(retrospectiveId: string, userId: string): Promise<VotingState> {
+    const retro = await this.retrospective(retrospectiveId);
+    const rows = await db.select({ card_id: retrospectiveCardVotes.card_id })
+      .from(retrospectiveCardVotes)
+      .innerJoin(retrospectiveCards, eq(retrospectiveCardVotes.card_id, retrospectiveCards.id))
+      .innerJoin(retrospectiveColumns, eq(retrospectiveCards.column_id, retrospectiveColumns.id))
+      .where(and(
+        eq(retrospectiveColumns.retrospective_id, retrospectiveId),
+        eq(retrospectiveCardVotes.user_id, userId)
+      ));
+
+    const used = rows.length;
+    return {
+      budget: retro.vote_budget,
+      used,
+      remaining: Math.max(0, retro.vote_budget - used),
+      cardIds: rows.map((row: { card_id: string }) => row.card_id)
+    };
+  }
+
+  // Adds the user's vote, or takes it back if they'd already voted for the card
+  async toggleVote(cardId: string, userId: string): Promise<VoteResult> {
+    const { retro } = await this.cardWithRetrospective(cardId);
+    this.requirePhase(retro, ['vote'], 'Voting');
+
+    const [existing] = await db.select({ id: retrospectiveCardVotes.id })
+      .from(retrospectiveCardVotes)
+      .where(and(eq(retrospectiveCardVotes.card_id, cardId), eq(retrospectiveCardVotes.user_id, userId)))
+      .limit(1);
+
+    if (existing) {
+      return this.removeVote(cardId, userId);
+    }
+
+    const voting = await this.voting(retro.id, userId);
+    if (voting.remaining === 0) {
+      throw new RetroPhaseError(`You've used all ${voting.budget} of your votes`);
+    }
+
+    await db.insert(retrospectiveCardVotes).values({ card_id: cardId, user_id: userId });
+    return { votes: await this.syncVoteCount(cardId), voted: true, remaining: voting.remaining - 1 };
+  }
+
+  async removeVote(cardId: string, userId: string): Promise<VoteResult> {
+    const { retro } = await this.cardWithRetrospective(cardId);
+    this.requirePhase(retro, ['vote'], 'Voting');
+
+    await db.delete(retrospectiveCardVotes)
+      .where(and(eq(retrospectiveCardVotes.card_id, cardId), eq(retrospectiveCardVotes.user_id, userId)));
+
+    const voting = await this.voting(retro.id, userId);
+    return { votes: await this.syncVoteCount(cardId), voted: false, remaining: voting.remaining };
+  }
+
+  // Stacks a card under another one, or lifts it out of its group when leadId is null.
+  // Groups are one level deep, so cards already led by this one follow it to the new lead.
+  async groupCard(cardId: string, leadId: string | null, userId: string): Promise<RetrospectiveCard[]> {
+    const { card, retro } = await this.cardWithRetrospective(cardId);
+    this.requirePhase(retro, ['group'], 'Grouping cards');
+
+    if (!leadId) {
+      const [updated] = await db.update(retrospectiveCards)
+        .set({ group_id: null, updated_at: new Date() })
+        .where(eq(retrospectiveCards.id, card.id))
+        .returning();
+      return [updated];
+    }
+
+    const lead = await this.cardWithRetrospective(leadId);
+    if (lead.retro.id !== retro.id) {
+      throw new RetroPhaseError('Cards can only be grouped within the same retrospective', 400);
+    }
+    const targetId = lead.card.group_id || lead.card.id;
+    if (targetId === card.id) {
+      throw new RetroPhaseError('A card cannot be grouped under itself', 400);
+    }
+
+    return db.transaction(async (tx: any) => {
+      const followers = await tx.update(retrospectiveCards)
+        .set({ group_id: targetId, updated_at: new Date() })
+        .where(eq(retrospectiveCards.group_id, card.id))
+        .returning();
+      const [updated] = await tx.update(retrospectiveCards)
+        .set({ group_id: targetId, updated_at: new Date() })
+        .where(eq(retrospectiveCards.id, card.id))
+        .returning();
+      return [updated, ...followers];
+    });
+  }
+
+  async updateFacilitation(retrospectiveId: string, userId: string, update: FacilitationUpdate, now: Date = new Date()): Promise<Retrospective> {
+    const retro = await this.retrospective(retrospectiveId);
+    if (!this.isFacilitator(retro, userId)) {
+      throw new RetroPhaseError('Only the facilitator can run this retrospective', 403);
+    }
+
+    const changes: Partial<Retrospective> = {
+      updated_at: now,
+      // Whoever runs an unclaimed board becomes its facilitator
+      facilitator_id: update.facilitatorId || this.facilitatorOf(retro) || userId
+    };
+    if (update.phase) changes.status = update.phase;
+    if (update.voteBudget !== undefined) changes.vote_budget = update.voteBudget;
+    if (update.timerSeconds !== undefined) {
+      changes.timer_ends_at = update.timerSeconds === null ? null : new Date(now.getTime() + update.timerSeconds * 1000);
+    }
+
+    const [updated] = await db.update(retrospectives)
+      .set(changes)
+      .where(eq(retrospectives.id, retrospectiveId))
+      .returning();
+    return updated;
+  }
+
+  // The stored count is recomputed from the vote rows, so concurrent votes can't drift it
+  private async syncVoteCount(cardId: string): Promise<number> {
+    const [{ votes }] = await db.select({ votes: count() })
+      .from(retrospectiveCardVotes)
+      .where(eq(retrospectiveCardVotes.card_id, cardId));
+    await db.update(retrospectiveCards).set({ votes }).where(eq(retrospectiveCards.id, cardId));
+    return votes;
+  }
+}
+
+export const retroFacilitation = new RetroFacilitationService();
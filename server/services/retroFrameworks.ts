@@ -0,0 +1,295 @@
+import { z } from 'zod';
+import { db } from '../db';
+import { projects, retroFrameworks, retrospectiveColumns, retrospectiveCards, type RetroFramework, type RetrospectiveColumn } from '@shared/schema';
+import { eq, and, or, isNull, inArray, count, asc } from 'drizzle-orm';
+import type { DepartmentScope } from './departments';
+import { retroFacilitation, RetroPhaseError } from './retroFacilitation';
+
+export interface FrameworkColumn {
+  title: string;
+  subtitle: string | null;
+  color: string | null;
+  prompts: string[];
+}
+
+export type FrameworkScope = 'built_in' | 'organisation' | 'project';
+
+export interface FrameworkDefinition {
+  key: string; // built-in name, or the id of a stored framework
+  name: string;
+  description: string | null;
+  scope: FrameworkScope;
+  columns: FrameworkColumn[];
+  editable: boolean;
+}
+
+const column = (title: string, subtitle: string, color: string, prompts: string[] = []): FrameworkColumn =>
+  ({ title, subtitle, color, prompts });
+
+export const BUILT_IN_FRAMEWORKS: Record<string, { name: string; description: string; columns: FrameworkColumn[] }> = {
+  classic: {
+    name: 'Classic',
+    description: "A structured reflection on what worked, what didn't, and what to change.",
+    columns: [
+      column('What went well?', 'Things that worked successfully', '#22c55e', ['What are you proud of?', 'What helped you most?']),
+      column('What could have been better?', 'Areas for improvement', '#f59e0b', ['What slowed you down?', 'What surprised you?']),
+      column('What will we do differently?', 'Actions to take next time', '#3b82f6', ['What one change would help most?'])
+    ]
+  },
+  '4ls': {
+    name: '4Ls',
+    description: 'Captures knowledge and improvement areas: liked, learned, lacked, longed for.',
+    columns: [
+      column('Liked', 'What did we like?', '#22c55e'),
+      column('Learned', 'What did we learn?', '#3b82f6'),
+      column('Lacked', 'What was missing or lacking?', '#f59e0b'),
+      column('Longed For', 'What did we long for?', '#a855f7')
+    ]
+  },
+  kiss: {
+    name: 'KISS',
+    description: 'Keep, Improve, Start, Stop — a straightforward way to analyze team practices.',
+    columns: [
+      column('Keep', 'What should we continue doing?', '#22c55e'),
+      column('Improve', 'What could be improved?', '#3b82f6'),
+      column('Start', 'What should we try next?', '#a855f7'),
+      column('Stop', 'What should we avoid?', '#ef4444')
+    ]
+  },
+  sailboat: {
+    name: 'Sailboat',
+    description: 'Visualizes team journey with metaphorical elements: wind, anchors, rocks, and island.',
+    columns: [
+      column('Wind', 'Things pushing the team forward', '#3b82f6'),
+      column('Anchor', 'Things holding the team back', '#64748b'),
+      column('Rocks', 'Risks or obstacles ahead', '#ef4444'),
+      column('Island', 'Goals or desired state', '#22c55e')
+    ]
+  },
+  mad_sad_glad: {
+    name: 'Mad / Sad / Glad',
+    description: 'Focuses on emotional reflections of the sprint.',
+    columns: [
+      column('Mad', 'What frustrated us?', '#ef4444'),
+      column('Sad', 'What disappointed us?', '#3b82f6'),
+      column('Glad', 'What made us happy?', '#22c55e')
+    ]
+  }
+};
+
+export const DEFAULT_FRAMEWORK = 'classic';
+
+export const frameworkColumnSchema = z.object({
+  title: z.string().trim().min(1, 'Column title is required').max(80),
+  subtitle: z.string().trim().max(200).optional().nullable(),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, 'Must be a hex colour such as #22c55e').optional().nullable(),
+  prompts: z.array(z.string().trim().min(1).max(200)).max(10).default([])
+});
+
+export const frameworkSchema = z.object({
+  name: z.string().trim().min(1, 'Framework name is required').max(80),
+  description: z.string().trim().max(500).optional().nullable(),
+  scope: z.enum(['organisation', 'project']).default('project'),
+  columns: z.array(frameworkColumnSchema).min(1, 'Add at least one column').max(8)
+});
+
+export const frameworkUpdateSchema = frameworkSchema.omit({ scope: true }).partial();
+
+// The whole column set of a board; existing columns keep their id and cards, order is array order
+export const retroColumnsSchema = z.object({
+  columns: z.array(frameworkColumnSchema.extend({ id: z.string().uuid().optional() })).min(1, 'Add at least one column').max(8)
+});
+
+export type FrameworkInput = z.infer<typeof frameworkSchema>;
+export type FrameworkUpdate = z.infer<typeof frameworkUpdateSchema>;
+export type RetroColumnsInput = z.infer<typeof retroColumnsSchema>;
+
+export class RetroFrameworkError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RetroFrameworkError';
+  }
+}
+
+const normalizeColumns = (columns: z.infer<typeof frameworkColumnSchema>[]): FrameworkColumn[] =>
+  columns.map(col => ({
+    title: col.title,
+    subtitle: col.subtitle || null,
+    color: col.color || null,
+    prompts: col.prompts || []
+  }));
+
+// Built-in frameworks plus the ones teams design themselves. Boards copy their framework's
+// columns when they're created, so editing or deleting a framework never changes existing
+// boards; a board's own columns are edited through replaceColumns instead.
+export class RetroFrameworkService {
+  async list(projectId: string, scope: DepartmentScope): Promise<FrameworkDefinition[]> {
+    const builtIn = Object.entries(BUILT_IN_FRAMEWORKS).map(([key, framework]): FrameworkDefinition => ({
+      key,
+      name: framework.name,
+      description: framework.description,
+      scope: 'built_in',
+      columns: framework.columns,
+      editable: false
+    }));
+    const stored = await this.visibleTo(projectId);
+    return [...builtIn, ...stored.map(framework => this.toDefinition(framework, scope))];
+  }
+
+  // The columns a new board gets; unknown keys are rejected rather than silently swapped
+  async resolve(key: string, projectId: string): Promise<FrameworkDefinition> {
+    const builtIn = BUILT_IN_FRAMEWORKS[key];
+    if (builtIn) {
+      return { key, name: builtIn.name, description: builtIn.description, scope: 'built_in', columns: builtIn.columns, editable: false };
+    }
+    const framework = (await this.visibleTo(projectId)).find(candidate => candidate.id === key);
+    if (!framework) {
+      throw new RetroFrameworkError(`Unknown retrospective framework "${key}"`);
+    }
+    return this.toDefinition(framework, null);
+  }
+
+  async create(projectId: string, input: FrameworkInput, scope: DepartmentScope): Promise<FrameworkDefinition> {
+    const project = await this.project(projectId);
+    if (input.scope === 'organisation' && !scope.isAdmin && !scope.isCoordinator) {
+      throw new RetroFrameworkError('Only admins and project coordinators can share frameworks across the organisation', 403);
+    }
+
+    const [framework] = await db.insert(retroFrameworks).values({
+      name: input.name,
+      description: input.description ?? null,
+      project_id: input.scope === 'project' ? projectId : null,
+      // Admins share with everyone; coordinators share with their department
+      department_id: input.scope === 'organisation' && !scope.isAdmin ? project.department_id ?? scope.departmentId : null,
+      columns: normalizeColumns(input.columns),
+      created_by: scope.userId
+    }).returning();
+    return this.toDefinition(framework, scope);
+  }
+
+  async update(projectId: string, frameworkId: string, input: FrameworkUpdate, scope: DepartmentScope): Promise<FrameworkDefinition> {
+    await this.editable(projectId, frameworkId, scope);
+
+    const changes: Partial<RetroFramework> = { updated_at: new Date() };
+    if (input.name !== undefined) changes.name = input.name;
+    if (input.description !== undefined) changes.description = input.description ?? null;
+    if (input.columns !== undefined) changes.columns = normalizeColumns(input.columns);
+
+    const [updated] = await db.update(retroFrameworks)
+      .set(changes)
+      .where(eq(retroFrameworks.id, frameworkId))
+      .returning();
+    return this.toDefinition(updated, scope);
+  }
+
+  async remove(projectId: string, frameworkId: string, scope: DepartmentScope): Promise<void> {
+    await this.editable(projectId, frameworkId, scope);
+    await db.delete(retroFrameworks).where(eq(retroFrameworks.id, frameworkId));
+  }
+
+  // Project frameworks can be changed by anyone who can run the project's retros;
+  // shared ones only by their author, or an admin
+  canEdit(framework: RetroFramework, scope: DepartmentScope): boolean {
+    return scope.isAdmin || framework.created_by === scope.userId || framework.project_id !== null;
+  }
+
+  // Adds, edits, reorders and removes a board's columns in one go. Only the facilitator
+  // may reshape a live board, and a column can't be dropped while it still holds cards.
+  async replaceColumns(retrospectiveId: string, userId: string, input: RetroColumnsInput): Promise<RetrospectiveColumn[]> {
+    const retro = await retroFacilitation.retrospective(retrospectiveId);
+    retroFacilitation.requirePhase(retro, ['write', 'group', 'vote', 'discuss'], 'Editing columns');
+    if (!retroFacilitation.isFacilitator(retro, userId)) {
+      throw new RetroPhaseError('Only the facilitator can change the columns', 403);
+    }
+
+    const existing = await db.select({ id: retrospectiveColumns.id })
+      .from(retrospectiveColumns)
+      .where(eq(retrospectiveColumns.retrospective_id, retrospectiveId));
+    const existingIds = new Set(existing.map((col: { id: string }) => col.id));
+    const unknown = input.columns.find(col => col.id && !existingIds.has(col.id));
+    if (unknown) {
+      throw new RetroFrameworkError('A column does not belong to this retrospective');
+    }
+
+    const keptIds = new Set(input.columns.map(col => col.id).filter(Boolean));
+    const removedIds = existing.map((col: { id: string }) => col.id).filter((id: string) => !keptIds.has(id));
+    if (removedIds.length > 0) {
+      const [{ cards }] = await db.select({ cards: count() })
+        .from(retrospectiveCards)
+        .where(inArray(retrospectiveCards.column_id, removedIds));
+      if (cards > 0) {
+        throw new RetroFrameworkError('Move or delete the cards in a column before removing it', 409);
+      }
+    }
+
+    await db.transaction(async (tx: any) => {
+      if (removedIds.length > 0) {
+        await tx.delete(retrospectiveColumns).where(inArray(retrospectiveColumns.id, removedIds));
+      }
+      const columns = normalizeColumns(input.columns);
+      for (let index = 0; index < columns.length; index++) {
+        const id = input.columns[index].id;
+        const values = { ...columns[index], column_order: index, updated_at: new Date() };
+        if (id) {
+          await tx.update(retrospectiveColumns).set(values).where(eq(retrospectiveColumns.id, id));
+        } else {
+          await tx.insert(retrospectiveColumns).values({ ...values, retrospective_id: retrospectiveId });
+        }
+      }
+    });
+
+    return db.select()
+      .from(retrospectiveColumns)
+      .where(eq(retrospectiveColumns.retrospective_id, retrospectiveId))
+      .orderBy(asc(retrospectiveColumns.column_order));
+  }
+
+  private async project(projectId: string) {
+    const [project] = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+    if (!project) {
+      throw new RetroFrameworkError('Project not found', 404);
+    }
+    return project;
+  }
+
+  // The project's own frameworks, plus shared ones meant for everyone or for its department
+  private async visibleTo(projectId: string): Promise<RetroFramework[]> {
+    const project = await this.project(projectId);
+    return db.select().from(retroFrameworks)
+      .where(or(
+        eq(retroFrameworks.project_id, projectId),
+        and(
+          isNull(retroFrameworks.project_id),
+          or(
+            isNull(retroFrameworks.department_id),
+            project.department_id ? eq(retroFrameworks.department_id, project.department_id) : undefined
+          )
+        )
+      ))
+      .orderBy(asc(retroFrameworks.name));
+  }
+
+  private async editable(projectId: string, frameworkId: string, scope: DepartmentScope): Promise<RetroFramework> {
+    const framework = (await this.visibleTo(projectId)).find(candidate => candidate.id === frameworkId);
+    if (!framework) {
+      throw new RetroFrameworkError('Framework not found', 404);
+    }
+    if (!this.canEdit(framework, scope)) {
+      throw new RetroFrameworkError('Only the author or an admin can change a shared framework', 403);
+    }
+    return framework;
+  }
+
+  private toDefinition(framework: RetroFramework, scope: DepartmentScope | null): FrameworkDefinition {
+    return {
+      key: framework.id,
+      name: framework.name,
+      description: framework.description,
+      scope: framework.project_id ? 'project' : 'organisation',
+      columns: framework.columns as FrameworkColumn[],
+      editable: scope ? this.canEdit(framework, scope) : false
+    };
+  }
+}
+
+export const retroFrameworkService = new RetroFrameworkService();
@@ -0,0 +1,170 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { db } from '../db';
+import { retrospectiveColumns, retrospectiveCards } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import type { FacilitationState } from './retroFacilitation';
+
+// Board changes pushed to everyone viewing a retrospective. Entities are sent whole
+// so clients can apply them without refetching the board.
+export type RetroEvent =
+  | { type: 'card_created'; card: any }
+  | { type: 'card_updated'; card: any }
+  | { type: 'card_moved'; cardId: string; columnId: string }
+  | { type: 'card_deleted'; cardId: string }
+  | { type: 'vote_changed'; cardId: string; votes: number; userId: string; voted: boolean }
+  | { type: 'action_item_created'; actionItem: any }
+  | { type: 'action_item_updated'; actionItem: any }
+  | { type: 'cards_grouped'; cards: any[] }
+  | { type: 'columns_updated'; columns: any[] }
+  | { type: 'retro_updated'; state: FacilitationState };
+
+// Gives one user's connections the full event and everyone else a redacted copy
+export interface RetroAudience {
+  userId: string;
+  others: RetroEvent;
+}
+
+export interface RetroParticipant {
+  userId: string;
+  name: string;
+}
+
+// Decides who may join a board; resolves to null to turn the connection away
+export type RetroAuthorizer = (token: string, retrospectiveId: string) => Promise<RetroParticipant | null>;
+
+interface Connection {
+  socket: WebSocket;
+  clientId: string;
+  participant: RetroParticipant;
+  alive: boolean;
+}
+
+const LIVE_PATH = /^\/api\/retro-service\/retrospectives\/([0-9a-f-]{36})\/live$/i;
+const HEARTBEAT_MS = 30 * 1000;
+
+// One room per retrospective. Browsers can't set headers on a WebSocket, so the token
+// and the tab's client id come in the query string. Mutations still go through the REST
+// routes, which publish here once they've been saved; the client id on each event lets
+// a tab skip the changes it already applied optimistically.
+export class RetroRealtimeService {
+  private rooms = new Map<string, Set<Connection>>();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  attach(server: Server, authorize: RetroAuthorizer): void {
+    const wss = new WebSocketServer({ noServer: true });
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const match = url.pathname.match(LIVE_PATH);
+      // Other upgrades, such as Vite's HMR socket, are left to their own handlers
+      if (!match) return;
+
+      const retrospectiveId = match[1];
+      const token = url.searchParams.get('token') || '';
+      const clientId = url.searchParams.get('clientId') || '';
+
+      authorize(token, retrospectiveId)
+        .catch(() => null)
+        .then(participant => {
+          if (!participant || !clientId) {
+            socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+            socket.destroy();
+            return;
+          }
+          wss.handleUpgrade(req, socket, head, (ws) => this.join(retrospectiveId, { socket: ws, clientId, participant, alive: true }));
+        });
+    });
+
+    if (!this.heartbeat) {
+      // Drops connections that stopped answering pings, e.g. a laptop lid closed mid-retro
+      this.heartbeat = setInterval(() => this.sweep(), HEARTBEAT_MS);
+      this.heartbeat.unref();
+    }
+  }
+
+  publish(retrospectiveId: string | null | undefined, event: RetroEvent, origin?: string, audience?: RetroAudience): void {
+    if (!retrospectiveId) return;
+    const message = { ...event, origin: origin || null };
+    if (!audience) {
+      this.broadcast(retrospectiveId, message);
+      return;
+    }
+    this.broadcast(retrospectiveId, message, connection => connection.participant.userId === audience.userId);
+    this.broadcast(retrospectiveId, { ...audience.others, origin: origin || null }, connection => connection.participant.userId !== audience.userId);
+  }
+
+  participants(retrospectiveId: string): RetroParticipant[] {
+    const unique = new Map<string, RetroParticipant>();
+    this.rooms.get(retrospectiveId)?.forEach(connection => {
+      unique.set(connection.participant.userId, connection.participant);
+    });
+    return Array.from(unique.values());
+  }
+
+  async retrospectiveOfColumn(columnId: string): Promise<string | null> {
+    const [column] = await db.select({ retrospective_id: retrospectiveColumns.retrospective_id })
+      .from(retrospectiveColumns)
+      .where(eq(retrospectiveColumns.id, columnId))
+      .limit(1);
+    return column?.retrospective_id || null;
+  }
+
+  async retrospectiveOfCard(cardId: string): Promise<string | null> {
+    const [card] = await db.select({ retrospective_id: retrospectiveColumns.retrospective_id })
+      .from(retrospectiveCards)
+      .innerJoin(retrospectiveColumns, eq(retrospectiveCards.column_id, retrospectiveColumns.id))
+      .where(eq(retrospectiveCards.id, cardId))
+      .limit(1);
+    return card?.retrospective_id || null;
+  }
+
+  private join(retrospectiveId: string, connection: Connection): void {
+    const room = this.rooms.get(retrospectiveId) || new Set<Connection>();
+    room.add(connection);
+    this.rooms.set(retrospectiveId, room);
+
+    connection.socket.on('pong', () => { connection.alive = true; });
+    connection.socket.on('close', () => this.leave(retrospectiveId, connection));
+    connection.socket.on('error', () => connection.socket.terminate());
+
+    this.broadcastPresence(retrospectiveId);
+  }
+
+  private leave(retrospectiveId: string, connection: Connection): void {
+    const room = this.rooms.get(retrospectiveId);
+    if (!room?.delete(connection)) return;
+    if (room.size === 0) {
+      this.rooms.delete(retrospectiveId);
+    } else {
+      this.broadcastPresence(retrospectiveId);
+    }
+  }
+
+  private broadcastPresence(retrospectiveId: string): void {
+    this.broadcast(retrospectiveId, { type: 'presence', participants: this.participants(retrospectiveId) });
+  }
+
+  private broadcast(retrospectiveId: string, message: object, include: (connection: Connection) => boolean = () => true): void {
+    const payload = JSON.stringify(message);
+    this.rooms.get(retrospectiveId)?.forEach(connection => {
+      if (connection.socket.readyState === WebSocket.OPEN && include(connection)) {
+        connection.socket.send(payload);
+      }
+    });
+  }
+
+  private sweep(): void {
+    this.rooms.forEach(room => room.forEach(connection => {
+      if (!connection.alive) {
+        connection.socket.terminate();
+        return;
+      }
+      connection.alive = false;
+      connection.socket.ping();
+    }));
+  }
+}
+
+export const retroRealtime = new RetroRealtimeService();
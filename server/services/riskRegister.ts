@@ -0,0 +1,239 @@
+import { z } from 'zod';
+import { db } from '../db';
+import { riskRegister, riskScoreHistory, stakeholders, teams, teamMembers, insertRiskSchema, type Risk, type RiskScoreHistory, type InsertRisk } from '@shared/schema';
+import { eq, and, lt, isNull, isNotNull, inArray, asc } from 'drizzle-orm';
+
+const rating = z.number().int().min(1, 'Ratings run from 1 to 5').max(5, 'Ratings run from 1 to 5').nullable().optional();
+
+// Scores are always derived from the ratings, so they aren't accepted from the client
+export const updateRiskSchema = insertRiskSchema.omit({
+  project_id: true,
+  created_by: true,
+  risk_score: true,
+  residual_risk_score: true
+}).partial().extend({
+  likelihood: rating,
+  impact: rating,
+  residual_likelihood: rating,
+  residual_impact: rating
+});
+
+export type UpdateRiskInput = z.infer<typeof updateRiskSchema>;
+
+export class RiskRegisterError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RiskRegisterError';
+  }
+}
+
+export interface RiskTrendPoint {
+  date: string; // end of the week the values were read at
+  open: number;
+  high: number; // open risks scoring above 12 (high or critical)
+  inherent: number; // summed inherent score of open risks
+  residual: number; // summed residual score, using the inherent score where none is assessed
+}
+
+export interface OverdueReview {
+  risk: Risk;
+  email: string | null;
+}
+
+const SCORED_FIELDS = ['likelihood', 'impact', 'residual_likelihood', 'residual_impact', 'status'] as const;
+const HIGH_SCORE = 12;
+const DEFAULT_TREND_WEEKS = 12;
+const MAX_TREND_WEEKS = 52;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const isoDate = (date: Date): string => date.toISOString().split('T')[0];
+const scoreOf = (likelihood: number | null | undefined, impact: number | null | undefined): number | null =>
+  likelihood && impact ? likelihood * impact : null;
+const isClosed = (status: string | null | undefined) => (status || '').toLowerCase() === 'closed';
+const looksLikeEmail = (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+type Assessment = Pick<Risk, 'likelihood' | 'impact' | 'risk_score' | 'residual_likelihood' | 'residual_impact' | 'residual_risk_score' | 'status'>;
+
+const assessmentOf = (risk: Assessment): Assessment => ({
+  likelihood: risk.likelihood,
+  impact: risk.impact,
+  risk_score: risk.risk_score,
+  residual_likelihood: risk.residual_likelihood,
+  residual_impact: risk.residual_impact,
+  residual_risk_score: risk.residual_risk_score,
+  status: risk.status
+});
+
+// Risk scores are likelihood × impact on 1–5 scales, before (inherent) and after (residual)
+// mitigation. Updates used to overwrite them in place; now every change is also appended to
+// risk_score_history, which the portfolio trend reads back week by week.
+export class RiskRegisterService {
+  async get(projectId: string, riskId: string): Promise<Risk> {
+    const [risk] = await db.select().from(riskRegister)
+      .where(and(eq(riskRegister.id, riskId), eq(riskRegister.project_id, projectId)))
+      .limit(1);
+    if (!risk) {
+      throw new RiskRegisterError('Risk not found', 404);
+    }
+    return risk;
+  }
+
+  async create(data: InsertRisk, userId: string): Promise<Risk> {
+    const values = {
+      ...data,
+      risk_score: scoreOf(data.likelihood, data.impact),
+      residual_risk_score: scoreOf(data.residual_likelihood, data.residual_impact)
+    };
+
+    return db.transaction(async (tx: any) => {
+      const [risk] = await tx.insert(riskRegister).values(values).returning();
+      await tx.insert(riskScoreHistory).values({ ...assessmentOf(risk), risk_id: risk.id, project_id: risk.project_id, changed_by: userId });
+      return risk;
+    });
+  }
+
+  async update(projectId: string, riskId: string, input: UpdateRiskInput, userId: string): Promise<Risk> {
+    const existing = await this.get(projectId, riskId);
+    const merged = { ...existing, ...input };
+    const changes: Partial<Risk> = {
+      ...input,
+      risk_score: scoreOf(merged.likelihood, merged.impact),
+      residual_risk_score: scoreOf(merged.residual_likelihood, merged.residual_impact),
+      updated_at: new Date()
+    };
+    // A new review date clears the overdue flag so the owner is reminded again when it passes
+    if (input.next_review_date !== undefined && input.next_review_date !== existing.next_review_date) {
+      changes.review_flagged_at = null;
+    }
+
+    const rescored = SCORED_FIELDS.some(field => input[field] !== undefined && input[field] !== existing[field]);
+
+    return db.transaction(async (tx: any) => {
+      if (rescored) {
+        const [previous] = await tx.select({ id: riskScoreHistory.id }).from(riskScoreHistory)
+          .where(eq(riskScoreHistory.risk_id, riskId))
+          .limit(1);
+        // Risks from before the history existed keep their original assessment as the first entry
+        if (!previous) {
+          await tx.insert(riskScoreHistory).values({
+            ...assessmentOf(existing),
+            risk_id: riskId,
+            project_id: projectId,
+            changed_by: existing.created_by,
+            changed_at: existing.created_at
+          });
+        }
+      }
+
+      const [risk] = await tx.update(riskRegister).set(changes).where(eq(riskRegister.id, riskId)).returning();
+      if (rescored) {
+        await tx.insert(riskScoreHistory).values({ ...assessmentOf(risk), risk_id: riskId, project_id: projectId, changed_by: userId });
+      }
+      return risk;
+    });
+  }
+
+  async history(projectId: string, riskId: string): Promise<RiskScoreHistory[]> {
+    await this.get(projectId, riskId);
+    return db.select().from(riskScoreHistory)
+      .where(eq(riskScoreHistory.risk_id, riskId))
+      .orderBy(asc(riskScoreHistory.changed_at));
+  }
+
+  // Open risk exposure across the given projects at the end of each of the last `weeks` weeks.
+  // Each risk counts with its latest history entry at that point; risks with no history yet
+  // count with their current values from the day they were created.
+  async portfolioTrend(projectIds: string[], weeks: number = DEFAULT_TREND_WEEKS, now: Date = new Date()): Promise<RiskTrendPoint[]> {
+    const span = Math.min(Math.max(Math.floor(weeks) || DEFAULT_TREND_WEEKS, 1), MAX_TREND_WEEKS);
+    const today = Date.parse(`${isoDate(now)}T00:00:00Z`);
+    const points: number[] = [];
+    for (let week = span - 1; week >= 0; week--) {
+      points.push(today - week * 7 * MS_PER_DAY + MS_PER_DAY);
+    }
+    if (projectIds.length === 0) {
+      return points.map(point => ({ date: isoDate(new Date(point - MS_PER_DAY)), open: 0, high: 0, inherent: 0, residual: 0 }));
+    }
+
+    const risks: Risk[] = await db.select().from(riskRegister).where(inArray(riskRegister.project_id, projectIds));
+    const entries: RiskScoreHistory[] = await db.select().from(riskScoreHistory)
+      .where(inArray(riskScoreHistory.project_id, projectIds))
+      .orderBy(asc(riskScoreHistory.changed_at));
+
+    const historyByRisk = new Map<string, RiskScoreHistory[]>();
+    entries.forEach(entry => {
+      const list = historyByRisk.get(entry.risk_id) || [];
+      list.push(entry);
+      historyByRisk.set(entry.risk_id, list);
+    });
+
+    return points.map(point => {
+      const value: RiskTrendPoint = { date: isoDate(new Date(point - MS_PER_DAY)), open: 0, high: 0, inherent: 0, residual: 0 };
+
+      risks.forEach(risk => {
+        const history = historyByRisk.get(risk.id);
+        let state: Assessment | null = null;
+        if (history) {
+          for (let i = 0; i < history.length && new Date(history[i].changed_at).getTime() < point; i++) {
+            state = history[i];
+          }
+        } else if (new Date(risk.created_at).getTime() < point) {
+          state = risk;
+        }
+        if (!state || isClosed(state.status)) return;
+
+        const inherent = state.risk_score ?? scoreOf(state.likelihood, state.impact) ?? 0;
+        const residual = state.residual_risk_score ?? scoreOf(state.residual_likelihood, state.residual_impact) ?? inherent;
+        value.open += 1;
+        value.inherent += inherent;
+        value.residual += residual;
+        if (inherent > HIGH_SCORE) value.high += 1;
+      });
+
+      return value;
+    });
+  }
+
+  // Open risks whose review date has passed and that haven't been flagged for it yet
+  async overdueReviews(now: Date = new Date()): Promise<OverdueReview[]> {
+    const due: Risk[] = await db.select().from(riskRegister)
+      .where(and(
+        isNotNull(riskRegister.next_review_date),
+        lt(riskRegister.next_review_date, isoDate(now)),
+        isNull(riskRegister.review_flagged_at)
+      ));
+
+    const open = due.filter(risk => !isClosed(risk.status));
+    const reviews: OverdueReview[] = [];
+    for (let i = 0; i < open.length; i++) {
+      reviews.push({ risk: open[i], email: await this.ownerEmail(open[i]) });
+    }
+    return reviews;
+  }
+
+  async flagReview(riskId: string, now: Date = new Date()): Promise<void> {
+    await db.update(riskRegister).set({ review_flagged_at: now }).where(eq(riskRegister.id, riskId));
+  }
+
+  // Owners are free text: an email address, or the name of a project stakeholder or team member
+  private async ownerEmail(risk: Risk): Promise<string | null> {
+    const owner = risk.owner?.trim();
+    if (!owner) return null;
+    if (looksLikeEmail(owner)) return owner;
+
+    const name = owner.toLowerCase();
+    const projectStakeholders = await db.select({ name: stakeholders.name, email: stakeholders.email })
+      .from(stakeholders)
+      .where(and(eq(stakeholders.project_id, risk.project_id), isNotNull(stakeholders.email)));
+    const stakeholder = projectStakeholders.find((s: { name: string; email: string | null }) => s.name.trim().toLowerCase() === name);
+    if (stakeholder) return stakeholder.email;
+
+    const members = await db.select({ name: teamMembers.display_name, email: teamMembers.email })
+      .from(teamMembers)
+      .innerJoin(teams, eq(teams.id, teamMembers.team_id))
+      .where(and(eq(teams.project_id, risk.project_id), isNotNull(teamMembers.email)));
+    const member = members.find((m: { name: string; email: string | null }) => m.name.trim().toLowerCase() === name);
+    return member?.email ?? null;
+  }
+}
+
+export const riskRegisterService = new RiskRegisterService();
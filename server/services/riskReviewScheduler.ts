@@ -0,0 +1,105 @@
+import { riskRegisterService, type RiskRegisterService, type OverdueReview } from './riskRegister';
+import { createEmailTransporter, emailConfigured } from './mailer';
+
+const DEFAULT_TICK_MS = 60 * 60 * 1000;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Checks hourly for open risks whose next_review_date has passed, flags them and emails
+// the owner once per missed date. A risk whose reminder can't be sent stays unflagged and
+// is retried on the next run; without SMTP settings risks are only flagged.
+export class RiskReviewScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  lastRunAt: Date | null = null;
+  lastError: string | null = null;
+  lastFlagged = 0;
+
+  constructor(private risks: RiskRegisterService = riskRegisterService, private tickMs: number = DEFAULT_TICK_MS) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Risk review tick failed:', error));
+    }, this.tickMs);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+    this.tick().catch(error => console.error('Risk review tick failed:', error));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Overlapping ticks are dropped rather than queued
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const reviews = await this.risks.overdueReviews(now);
+      const transporter = emailConfigured() ? createEmailTransporter() : null;
+      let flagged = 0;
+
+      for (let i = 0; i < reviews.length; i++) {
+        const review = reviews[i];
+        if (transporter && review.email) {
+          try {
+            await transporter.sendMail({
+              from: process.env.EMAIL_USER,
+              to: review.email,
+              subject: `Risk review overdue: ${review.risk.risk_code} ${review.risk.title}`,
+              html: this.reminderBody(review, now)
+            });
+          } catch (error) {
+            console.error(`Failed to send review reminder for risk ${review.risk.id}:`, error);
+            continue;
+          }
+        }
+        await this.risks.flagReview(review.risk.id, now);
+        flagged++;
+      }
+
+      this.lastFlagged = flagged;
+      this.lastRunAt = now;
+      this.lastError = null;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private reminderBody({ risk }: OverdueReview, now: Date): string {
+    const dueDate = new Date(`${risk.next_review_date}T00:00:00Z`);
+    const daysOverdue = Math.floor((now.getTime() - dueDate.getTime()) / (24 * 60 * 60 * 1000));
+
+    return `
+      <h2>Risk Review Overdue</h2>
+      <p>Hello${risk.owner ? ` ${escapeHtml(risk.owner)}` : ''},</p>
+      <p>The following risk was due for review and hasn't been reassessed:</p>
+
+      <div style="background-color: #f9f9f9; padding: 15px; border-left: 4px solid #f59e0b; margin: 20px 0;">
+        <h3 style="margin-top: 0; color: #f59e0b;">${escapeHtml(risk.risk_code)}: ${escapeHtml(risk.title)}</h3>
+        <p><strong>Review Date:</strong> ${dueDate.toDateString()}</p>
+        <p><strong>Days Overdue:</strong> ${daysOverdue} days</p>
+        <p><strong>Inherent Score:</strong> ${risk.risk_score ?? 'Not assessed'}</p>
+        <p><strong>Residual Score:</strong> ${risk.residual_risk_score ?? 'Not assessed'}</p>
+      </div>
+
+      <p>Please review the likelihood, impact and mitigation plan, and set the next review date.</p>
+
+      <hr style="margin: 20px 0;">
+      <p style="font-size: 12px; color: #666;">
+        This is an automated reminder from the Airbus Project Hub.
+      </p>
+    `;
+  }
+}
+
+export const riskReviewScheduler = new RiskReviewScheduler();
@@ -0,0 +1,192 @@
+import { db } from '../db';
+import { taskBacklog, tasks, teams, teamCapacityIterations, type TaskBacklog, type Task, type TeamCapacityIteration } from '@shared/schema';
+import { eq, and, inArray, notInArray, sum } from 'drizzle-orm';
+import { capacityEngine, type CapacitySource } from './capacityEngine';
+
+// Backlog items that are finished or closed no longer count towards a sprint; items
+// synced from Jira finish as 'completed'
+const FINISHED_STATUSES = ['done', 'completed', 'closed'];
+
+export interface SprintCapacity {
+  days: number;
+  points: number; // days converted with the iteration's points_per_day
+  source: CapacitySource;
+}
+
+export interface SprintPlan {
+  iteration: TeamCapacityIteration;
+  team: { id: string; name: string } | null;
+  capacity: SprintCapacity;
+  committedPoints: number;
+  remainingPoints: number; // negative when overcommitted
+  loadPercent: number | null; // null when the team has no capacity recorded
+  overcommitted: boolean;
+  warning: string | null;
+  items: TaskBacklog[]; // backlog items planned into the iteration
+  tasks: Task[]; // work already turned into tasks for the iteration
+  unestimated: number; // planned items without story points, not counted in the commitment
+}
+
+export class SprintPlanningError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'SprintPlanningError';
+  }
+}
+
+const toNumber = (value: string | number | null | undefined) => Number(value ?? 0) || 0;
+
+export class SprintPlanningService {
+  async getIteration(projectId: string, iterationId: string): Promise<TeamCapacityIteration> {
+    const [iteration] = await db.select().from(teamCapacityIterations)
+      .where(and(eq(teamCapacityIterations.id, iterationId), eq(teamCapacityIterations.project_id, projectId)))
+      .limit(1);
+    if (!iteration) {
+      throw new SprintPlanningError('Iteration not found or not accessible', 404);
+    }
+    return iteration;
+  }
+
+  async capacity(iteration: TeamCapacityIteration): Promise<SprintCapacity> {
+    const capacity = await capacityEngine.calculate(iteration);
+    return { days: capacity.effective_capacity, points: capacity.effective_points, source: capacity.source };
+  }
+
+  async plan(projectId: string, iterationId: string): Promise<SprintPlan> {
+    const iteration = await this.getIteration(projectId, iterationId);
+
+    const [items, iterationTasks, capacity] = await Promise.all([
+      db.select().from(taskBacklog)
+        .where(and(eq(taskBacklog.iteration_id, iterationId), notInArray(taskBacklog.status, FINISHED_STATUSES)))
+        .orderBy(taskBacklog.created_at),
+      db.select().from(tasks).where(eq(tasks.iteration_id, iterationId)).orderBy(tasks.created_at),
+      this.capacity(iteration)
+    ]);
+
+    let team: SprintPlan['team'] = null;
+    if (iteration.team_id) {
+      const [found] = await db.select({ id: teams.id, name: teams.name }).from(teams).where(eq(teams.id, iteration.team_id)).limit(1);
+      team = found ?? null;
+    }
+
+    const committedPoints = iteration.committed_story_points ?? 0;
+    const overcommitted = committedPoints > capacity.points;
+
+    let warning: string | null = null;
+    if (capacity.source === 'none' && committedPoints > 0) {
+      warning = 'No team or availability has been recorded for this iteration, so the commitment cannot be checked against capacity';
+    } else if (overcommitted) {
+      warning = `Committed ${committedPoints} points against a capacity of ${capacity.points} (${capacity.days} days); ${committedPoints - capacity.points} points over`;
+    }
+
+    return {
+      iteration,
+      team,
+      capacity,
+      committedPoints,
+      remainingPoints: capacity.points - committedPoints,
+      loadPercent: capacity.points > 0 ? Math.round((committedPoints / capacity.points) * 100) : null,
+      overcommitted,
+      warning,
+      items,
+      tasks: iterationTasks,
+      unestimated: items.filter((item: TaskBacklog) => item.story_points === null).length
+    };
+  }
+
+  // Plan estimated backlog items into an iteration. Items already in another iteration
+  // move, and both iterations' commitments are refreshed. Overcommitting is allowed; the
+  // returned plan carries the warning. A team can be given for an iteration that has none.
+  async assign(projectId: string, iterationId: string, itemIds: string[], teamId?: string | null): Promise<SprintPlan> {
+    const iteration = await this.getIteration(projectId, iterationId);
+
+    if (teamId && iteration.team_id && iteration.team_id !== teamId) {
+      throw new SprintPlanningError('This iteration is already planned for another team', 409);
+    }
+    if (teamId && !iteration.team_id) {
+      const [team] = await db.select({ id: teams.id }).from(teams)
+        .where(and(eq(teams.id, teamId), eq(teams.project_id, projectId)))
+        .limit(1);
+      if (!team) {
+        throw new SprintPlanningError('Team not found in this project', 404);
+      }
+    }
+
+    const ids = Array.from(new Set(itemIds));
+    const items: TaskBacklog[] = await db.select().from(taskBacklog)
+      .where(and(inArray(taskBacklog.id, ids), eq(taskBacklog.project_id, projectId)));
+
+    if (items.length !== ids.length) {
+      throw new SprintPlanningError('One or more backlog items were not found in this project', 404);
+    }
+    const done = items.filter(item => FINISHED_STATUSES.includes(item.status));
+    if (done.length > 0) {
+      throw new SprintPlanningError(`Finished items cannot be planned: ${done.map(item => item.title).join(', ')}`);
+    }
+    const unestimated = items.filter(item => item.story_points === null);
+    if (unestimated.length > 0) {
+      throw new SprintPlanningError(`Estimate these items before planning them: ${unestimated.map(item => item.title).join(', ')}`);
+    }
+
+    const previous = new Set(items.map(item => item.iteration_id).filter((id): id is string => Boolean(id) && id !== iterationId));
+
+    await db.transaction(async (tx: any) => {
+      if (teamId && !iteration.team_id) {
+        await tx.update(teamCapacityIterations).set({ team_id: teamId }).where(eq(teamCapacityIterations.id, iterationId));
+      }
+      await tx.update(taskBacklog)
+        .set({ iteration_id: iterationId, updated_at: new Date() })
+        .where(inArray(taskBacklog.id, ids));
+
+      for (const id of [iterationId, ...Array.from(previous)]) {
+        await this.recalculate(id, tx);
+      }
+    });
+
+    return this.plan(projectId, iterationId);
+  }
+
+  async unassign(projectId: string, iterationId: string, itemId: string): Promise<SprintPlan> {
+    await this.getIteration(projectId, iterationId);
+
+    await db.transaction(async (tx: any) => {
+      const updated = await tx.update(taskBacklog)
+        .set({ iteration_id: null, updated_at: new Date() })
+        .where(and(eq(taskBacklog.id, itemId), eq(taskBacklog.project_id, projectId), eq(taskBacklog.iteration_id, iterationId)))
+        .returning({ id: taskBacklog.id });
+      if (updated.length === 0) {
+        throw new SprintPlanningError('Backlog item is not planned into this iteration', 404);
+      }
+      await this.recalculate(iterationId, tx);
+    });
+
+    return this.plan(projectId, iterationId);
+  }
+
+  // committed_story_points is the sum of open planned backlog items plus the tasks
+  // committed to the iteration. Pass a transaction to recalculate inside it.
+  async recalculate(iterationId: string, tx: any = db): Promise<number> {
+    const [planned] = await tx.select({ total: sum(taskBacklog.story_points) })
+      .from(taskBacklog)
+      .where(and(eq(taskBacklog.iteration_id, iterationId), notInArray(taskBacklog.status, FINISHED_STATUSES)));
+    const [committed] = await tx.select({ total: sum(tasks.story_points) })
+      .from(tasks)
+      .where(eq(tasks.iteration_id, iterationId));
+
+    const total = toNumber(planned?.total) + toNumber(committed?.total);
+    await tx.update(teamCapacityIterations)
+      .set({ committed_story_points: total, updated_at: new Date() })
+      .where(eq(teamCapacityIterations.id, iterationId));
+    return total;
+  }
+
+  // True once any work has been planned, after which the commitment is no longer hand-edited
+  async hasPlannedWork(iterationId: string): Promise<boolean> {
+    const [item] = await db.select({ id: taskBacklog.id }).from(taskBacklog).where(eq(taskBacklog.iteration_id, iterationId)).limit(1);
+    if (item) return true;
+    const [task] = await db.select({ id: tasks.id }).from(tasks).where(eq(tasks.iteration_id, iterationId)).limit(1);
+    return Boolean(task);
+  }
+}
+
+export const sprintPlanning = new SprintPlanningService();
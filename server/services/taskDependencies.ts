@@ -0,0 +1,553 @@
+import { db } from '../db';
+import { projects, tasks, milestones, taskDependencies, type TaskDependency, type InsertTaskDependency } from '@shared/schema';
+import { eq, and, or, asc } from 'drizzle-orm';
+import { z } from 'zod';
+
+export type ScheduleNodeType = 'task' | 'milestone';
+export type DependencyType = 'finish_to_start' | 'start_to_start' | 'finish_to_finish' | 'start_to_finish';
+
+export interface ScheduleNode {
+  key: string; // `${type}:${id}`, used by the links and the critical path
+  type: ScheduleNodeType;
+  id: string;
+  name: string;
+  status: string;
+  plannedStart: string;
+  plannedFinish: string; // the due date; a milestone starts and finishes on it
+  start: string; // projected from predecessors, today and completion dates
+  finish: string;
+  slipDays: number; // projected finish minus planned finish, never negative
+  floatDays: number | null; // null once the work is complete
+  critical: boolean;
+  overdue: boolean; // still open after its due date, so projected to finish no earlier than today
+}
+
+export interface ScheduleLink {
+  id: string | null; // null for the implicit link from a task to its milestone
+  predecessor: string;
+  successor: string;
+  type: DependencyType;
+  lagDays: number;
+  implicit: boolean;
+  critical: boolean;
+}
+
+export interface MilestoneSlip {
+  milestoneId: string;
+  name: string;
+  dueDate: string;
+  projectedDate: string;
+  delayDays: number;
+  // From the work that slipped on its own to the milestone it pushes out
+  chain: { key: string; name: string; slipDays: number }[];
+}
+
+export interface ProjectSchedule {
+  nodes: ScheduleNode[];
+  links: ScheduleLink[];
+  criticalPath: string[];
+  projectedFinish: string | null;
+  projectEndDate: string | null;
+  milestoneSlips: MilestoneSlip[];
+}
+
+export interface RescheduleItem {
+  key: string;
+  type: ScheduleNodeType;
+  id: string;
+  name: string;
+  from: { start: string | null; due: string | null }; // start is null for milestones
+  to: { start: string | null; due: string };
+  shiftDays: number; // how far the due date moves
+  cause: 'moved' | 'dependency';
+  drivenBy: string | null; // name of the predecessor that pushed a dependent item
+}
+
+export interface ReschedulePreview {
+  items: RescheduleItem[];
+  warnings: string[]; // moved items that now start before their predecessors allow
+}
+
+const isoDay = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+export const rescheduleSchema = z.object({
+  changes: z.array(z.object({
+    type: z.enum(['task', 'milestone']),
+    id: z.string().uuid(),
+    startDate: isoDay.optional(),
+    dueDate: isoDay.optional()
+  })).min(1).max(100)
+});
+
+export type RescheduleRequest = z.infer<typeof rescheduleSchema>;
+
+export class DependencyError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'DependencyError';
+  }
+}
+
+const DONE_STATUS = 'completed';
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const isoDate = (date: Date): string => date.toISOString().split('T')[0];
+const dayNumber = (date: string): number => Math.floor(Date.parse(`${date}T00:00:00Z`) / MS_PER_DAY);
+const fromDayNumber = (day: number): string => isoDate(new Date(day * MS_PER_DAY));
+const nodeKey = (type: string, id: string): string => `${type}:${id}`;
+
+type Edge = { from: string; to: string };
+
+// Path from `from` to `to` over the given edges, or null when there is none
+export const findPath = (edges: Edge[], from: string, to: string): string[] | null => {
+  const next = new Map<string, string[]>();
+  for (const edge of edges) {
+    next.set(edge.from, [...(next.get(edge.from) ?? []), edge.to]);
+  }
+
+  const previous = new Map<string, string>([[from, from]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === to) {
+      const path = [to];
+      while (path[0] !== from) path.unshift(previous.get(path[0])!);
+      return path;
+    }
+    for (const neighbour of next.get(current) ?? []) {
+      if (!previous.has(neighbour)) {
+        previous.set(neighbour, current);
+        queue.push(neighbour);
+      }
+    }
+  }
+  return null;
+};
+
+type TaskRow = { id: string; title: string; status: string; milestone_id: string | null; start_date: string | null; due_date: string | null; created_at: Date; completed_at: Date | null };
+type MilestoneRow = { id: string; name: string; status: string; due_date: string };
+
+// Work is tracked in whole days: a node occupies [start, end), so a task due on day d ends
+// at d + 1 and a milestone is a zero-length point at the end of its due date.
+interface Span {
+  start: number;
+  end: number;
+  duration: number;
+}
+
+interface WorkingNode extends Span {
+  node: ScheduleNode;
+  plannedStart: number;
+  plannedEnd: number;
+  done: boolean;
+  latestEnd: number;
+  driver: ScheduleLink | null; // the link that set the projected start, when one did
+}
+
+// Earliest start a link allows its successor
+const earliestStart = (link: ScheduleLink, spans: Map<string, Span>): number => {
+  const predecessor = spans.get(link.predecessor)!;
+  const successor = spans.get(link.successor)!;
+  switch (link.type) {
+    case 'start_to_start': return predecessor.start + link.lagDays;
+    case 'finish_to_finish': return predecessor.end + link.lagDays - successor.duration;
+    case 'start_to_finish': return predecessor.start + link.lagDays - successor.duration;
+    default: return predecessor.end + link.lagDays;
+  }
+};
+
+// Stored links plus the implicit one from each task to its milestone, limited to nodes that exist
+const scheduleLinks = (dependencies: TaskDependency[], taskRows: TaskRow[], exists: (key: string) => boolean): ScheduleLink[] => [
+  ...dependencies.map((link): ScheduleLink => ({
+    id: link.id,
+    predecessor: nodeKey(link.predecessor_type, link.predecessor_id),
+    successor: nodeKey(link.successor_type, link.successor_id),
+    type: link.type as DependencyType,
+    lagDays: link.lag_days,
+    implicit: false,
+    critical: false
+  })),
+  ...taskRows.filter(task => task.milestone_id).map((task): ScheduleLink => ({
+    id: null,
+    predecessor: nodeKey('task', task.id),
+    successor: nodeKey('milestone', task.milestone_id!),
+    type: 'finish_to_finish',
+    lagDays: 0,
+    implicit: true,
+    critical: false
+  }))
+].filter(link => exists(link.predecessor) && exists(link.successor));
+
+const taskStart = (task: TaskRow): number => dayNumber(task.start_date ?? isoDate(new Date(task.created_at)));
+const taskEnd = (task: TaskRow): number => Math.max(task.due_date ? dayNumber(task.due_date) : taskStart(task), taskStart(task)) + 1;
+
+
+export class TaskDependencyService {
+  async list(projectId: string): Promise<TaskDependency[]> {
+    return db.select().from(taskDependencies)
+      .where(eq(taskDependencies.project_id, projectId))
+      .orderBy(asc(taskDependencies.created_at));
+  }
+
+  async create(projectId: string, data: InsertTaskDependency, createdBy: string): Promise<TaskDependency> {
+    const predecessor = nodeKey(data.predecessor_type, data.predecessor_id);
+    const successor = nodeKey(data.successor_type, data.successor_id);
+    if (predecessor === successor) {
+      throw new DependencyError('A task cannot depend on itself');
+    }
+
+    const { taskRows, milestoneRows } = await this.projectWork(projectId);
+    const names = new Map<string, string>([
+      ...taskRows.map(task => [nodeKey('task', task.id), task.title] as [string, string]),
+      ...milestoneRows.map(milestone => [nodeKey('milestone', milestone.id), milestone.name] as [string, string])
+    ]);
+    for (const key of [predecessor, successor]) {
+      if (!names.has(key)) {
+        throw new DependencyError(`${key.startsWith('task') ? 'Task' : 'Milestone'} not found in this project`, 404);
+      }
+    }
+
+    const existing = await this.list(projectId);
+    if (existing.some(link => link.predecessor_id === data.predecessor_id && link.successor_id === data.successor_id)) {
+      throw new DependencyError('These items are already linked', 409);
+    }
+
+    // Tasks already lead into their milestone, so those links count towards cycles as well
+    const edges: Edge[] = [
+      ...existing.map(link => ({ from: nodeKey(link.predecessor_type, link.predecessor_id), to: nodeKey(link.successor_type, link.successor_id) })),
+      ...taskRows.filter(task => task.milestone_id).map(task => ({ from: nodeKey('task', task.id), to: nodeKey('milestone', task.milestone_id!) }))
+    ];
+    const cycle = findPath(edges, successor, predecessor);
+    if (cycle) {
+      throw new DependencyError(`This link would create a cycle: ${[...cycle, successor].map(key => names.get(key)).join(' → ')}`, 409);
+    }
+
+    const [created] = await db.insert(taskDependencies).values({
+      ...data,
+      project_id: projectId,
+      created_by: createdBy
+    }).returning();
+    return created;
+  }
+
+  async remove(projectId: string, dependencyId: string): Promise<boolean> {
+    const removed = await db.delete(taskDependencies)
+      .where(and(eq(taskDependencies.id, dependencyId), eq(taskDependencies.project_id, projectId)))
+      .returning();
+    return removed.length > 0;
+  }
+
+  // Called when a task or milestone is deleted, since the links have no foreign keys
+  async removeFor(type: ScheduleNodeType, id: string): Promise<void> {
+    await db.delete(taskDependencies).where(or(
+      and(eq(taskDependencies.predecessor_type, type), eq(taskDependencies.predecessor_id, id)),
+      and(eq(taskDependencies.successor_type, type), eq(taskDependencies.successor_id, id))
+    ));
+  }
+
+  // Projects every task and milestone forward from its planned dates, pushing it out when a
+  // predecessor finishes late, then walks back from the projected finish to find the float.
+  // Anything with no float left is on the critical path.
+  async schedule(projectId: string, now: Date = new Date()): Promise<ProjectSchedule> {
+    const [project] = await db.select({ end_date: projects.end_date }).from(projects).where(eq(projects.id, projectId)).limit(1);
+    if (!project) {
+      throw new DependencyError('Project not found', 404);
+    }
+
+    const { taskRows, milestoneRows } = await this.projectWork(projectId);
+    const dependencies = await this.list(projectId);
+    const today = dayNumber(isoDate(now));
+
+    const working = new Map<string, WorkingNode>();
+    const add = (type: ScheduleNodeType, id: string, name: string, status: string, plannedStart: number, plannedEnd: number, actualEnd: number | null) => {
+      const done = status === DONE_STATUS;
+      working.set(nodeKey(type, id), {
+        node: {
+          key: nodeKey(type, id), type, id, name, status,
+          plannedStart: '', plannedFinish: '', start: '', finish: '',
+          slipDays: 0, floatDays: null, critical: false, overdue: false
+        },
+        plannedStart,
+        plannedEnd,
+        duration: plannedEnd - plannedStart,
+        done,
+        start: plannedStart,
+        end: done && actualEnd !== null ? Math.max(actualEnd, plannedStart) : plannedEnd,
+        latestEnd: 0,
+        driver: null
+      });
+    };
+
+    for (const task of taskRows) {
+      add('task', task.id, task.title, task.status, taskStart(task), taskEnd(task),
+        task.completed_at ? dayNumber(isoDate(new Date(task.completed_at))) + 1 : null);
+    }
+    for (const milestone of milestoneRows) {
+      const due = dayNumber(milestone.due_date) + 1;
+      add('milestone', milestone.id, milestone.name, milestone.status, due, due, null);
+    }
+
+    const links = scheduleLinks(dependencies, taskRows, key => working.has(key));
+
+    const order = this.topologicalOrder(Array.from(working.keys()), links);
+    const incoming = new Map<string, ScheduleLink[]>();
+    const outgoing = new Map<string, ScheduleLink[]>();
+    for (const link of links) {
+      incoming.set(link.successor, [...(incoming.get(link.successor) ?? []), link]);
+      outgoing.set(link.predecessor, [...(outgoing.get(link.predecessor) ?? []), link]);
+    }
+
+    // Forward pass. Finished work stays where it happened; open work can't start before its
+    // planned start and, once overdue, can't finish before the end of today.
+    for (const key of order) {
+      const current = working.get(key)!;
+      if (current.done) continue;
+
+      for (const link of incoming.get(key) ?? []) {
+        const start = earliestStart(link, working);
+        if (start > current.start) {
+          current.start = start;
+          current.driver = link;
+        }
+      }
+      current.end = current.start + current.duration;
+      if (current.node.type === 'task' && current.end <= today) {
+        current.end = today + 1;
+        current.node.overdue = true;
+        current.driver = null;
+      }
+    }
+
+    // Backward pass from the latest projected finish
+    const open = Array.from(working.values()).filter(current => !current.done);
+    const finish = open.length > 0 ? Math.max(...open.map(current => current.end)) : null;
+    for (const key of order.slice().reverse()) {
+      const current = working.get(key)!;
+      if (current.done) continue;
+
+      const span = current.end - current.start;
+      current.latestEnd = finish!;
+      for (const link of outgoing.get(key) ?? []) {
+        const successor = working.get(link.successor)!;
+        if (successor.done) continue;
+        const latestStart = successor.latestEnd - (successor.end - successor.start);
+        const bound = link.type === 'start_to_start' ? latestStart - link.lagDays + span
+          : link.type === 'finish_to_finish' ? successor.latestEnd - link.lagDays
+          : link.type === 'start_to_finish' ? successor.latestEnd - link.lagDays + span
+          : latestStart - link.lagDays;
+        current.latestEnd = Math.min(current.latestEnd, bound);
+      }
+    }
+
+    for (const current of Array.from(working.values())) {
+      const milestone = current.node.type === 'milestone';
+      Object.assign(current.node, {
+        plannedStart: fromDayNumber(milestone ? current.plannedEnd - 1 : current.plannedStart),
+        plannedFinish: fromDayNumber(current.plannedEnd - 1),
+        start: fromDayNumber(milestone ? current.end - 1 : current.start),
+        finish: fromDayNumber(current.end - 1),
+        slipDays: current.done ? 0 : Math.max(0, current.end - current.plannedEnd),
+        floatDays: current.done ? null : current.latestEnd - current.end,
+        critical: !current.done && current.latestEnd - current.end <= 0
+      });
+    }
+
+    for (const link of links) {
+      const predecessor = working.get(link.predecessor)!;
+      const successor = working.get(link.successor)!;
+      link.critical = predecessor.node.critical && successor.node.critical && earliestStart(link, working) === successor.start;
+    }
+
+    const milestoneSlips: MilestoneSlip[] = [];
+    for (const milestone of milestoneRows) {
+      const current = working.get(nodeKey('milestone', milestone.id))!;
+      if (current.node.slipDays <= 0) continue;
+
+      const chain: MilestoneSlip['chain'] = [];
+      const seen = new Set<string>();
+      for (let step: WorkingNode | undefined = current; step && !seen.has(step.node.key); step = step.driver ? working.get(step.driver.predecessor) : undefined) {
+        seen.add(step.node.key);
+        chain.unshift({ key: step.node.key, name: step.node.name, slipDays: step.node.slipDays });
+      }
+
+      milestoneSlips.push({
+        milestoneId: milestone.id,
+        name: milestone.name,
+        dueDate: milestone.due_date,
+        projectedDate: current.node.finish,
+        delayDays: current.node.slipDays,
+        chain
+      });
+    }
+
+    const nodes = order.map(key => working.get(key)!.node);
+    return {
+      nodes,
+      links,
+      criticalPath: nodes
+        .filter(node => node.critical)
+        .sort((a, b) => a.start.localeCompare(b.start) || a.finish.localeCompare(b.finish))
+        .map(node => node.key),
+      projectedFinish: finish !== null ? fromDayNumber(finish - 1) : null,
+      projectEndDate: project.end_date ?? null,
+      milestoneSlips
+    };
+  }
+
+  // Applies the requested dates and pushes every open dependent item out far enough to keep
+  // its links satisfied, keeping durations. Dependents are only ever pushed later, never pulled in.
+  async previewReschedule(projectId: string, request: RescheduleRequest): Promise<ReschedulePreview> {
+    const { taskRows, milestoneRows } = await this.projectWork(projectId);
+    const dependencies = await this.list(projectId);
+
+    type PlanNode = Span & { type: ScheduleNodeType; id: string; name: string; done: boolean; hadStart: boolean; original: Span; driver: ScheduleLink | null };
+    const plan = new Map<string, PlanNode>();
+    for (const task of taskRows) {
+      const span = { start: taskStart(task), end: taskEnd(task), duration: taskEnd(task) - taskStart(task) };
+      plan.set(nodeKey('task', task.id), {
+        ...span, type: 'task', id: task.id, name: task.title, done: task.status === DONE_STATUS,
+        hadStart: task.start_date !== null, original: { ...span }, driver: null
+      });
+    }
+    for (const milestone of milestoneRows) {
+      const due = dayNumber(milestone.due_date) + 1;
+      plan.set(nodeKey('milestone', milestone.id), {
+        start: due, end: due, duration: 0, type: 'milestone', id: milestone.id, name: milestone.name,
+        done: milestone.status === DONE_STATUS, hadStart: false, original: { start: due, end: due, duration: 0 }, driver: null
+      });
+    }
+
+    const moved = new Set<string>();
+    for (const change of request.changes) {
+      const key = nodeKey(change.type, change.id);
+      const current = plan.get(key);
+      if (!current) {
+        throw new DependencyError(`${change.type === 'task' ? 'Task' : 'Milestone'} not found in this project`, 404);
+      }
+
+      if (change.type === 'milestone') {
+        if (!change.dueDate) throw new DependencyError(`A new due date is needed to move ${current.name}`);
+        current.start = current.end = dayNumber(change.dueDate) + 1;
+      } else {
+        const start = change.startDate ? dayNumber(change.startDate) : current.start;
+        const end = change.dueDate ? dayNumber(change.dueDate) + 1 : current.end;
+        if (end <= start) {
+          throw new DependencyError(`${current.name} can't be due before it starts`);
+        }
+        Object.assign(current, { start, end, duration: end - start });
+      }
+      moved.add(key);
+    }
+
+    const links = scheduleLinks(dependencies, taskRows, key => plan.has(key));
+    const warnings: string[] = [];
+    // Only links out of something that changed can push; links already broken before the move are left alone
+    const changed = new Set(moved);
+    for (const key of this.topologicalOrder(Array.from(plan.keys()), links)) {
+      const current = plan.get(key)!;
+      for (const link of links) {
+        if (link.successor !== key || (!changed.has(link.predecessor) && !moved.has(key))) continue;
+        const required = earliestStart(link, plan);
+        if (required <= current.start) continue;
+
+        // What the user placed stays where they put it, but they should know it breaks a link
+        if (moved.has(key) || current.done) {
+          if (moved.has(key)) warnings.push(`${current.name} starts before ${plan.get(link.predecessor)!.name} allows`);
+          continue;
+        }
+        current.end += required - current.start;
+        current.start = required;
+        current.driver = link;
+        changed.add(key);
+      }
+    }
+
+    const day = (value: number) => fromDayNumber(value);
+    const items: RescheduleItem[] = [];
+    for (const [key, current] of Array.from(plan.entries())) {
+      if (current.start === current.original.start && current.end === current.original.end) continue;
+      const milestone = current.type === 'milestone';
+      items.push({
+        key,
+        type: current.type,
+        id: current.id,
+        name: current.name,
+        from: { start: milestone ? null : (current.hadStart ? day(current.original.start) : null), due: day(current.original.end - 1) },
+        to: { start: milestone ? null : day(current.start), due: day(current.end - 1) },
+        shiftDays: current.end - current.original.end,
+        cause: moved.has(key) ? 'moved' : 'dependency',
+        drivenBy: current.driver ? plan.get(current.driver.predecessor)!.name : null
+      });
+    }
+    items.sort((a, b) => Number(b.cause === 'moved') - Number(a.cause === 'moved') || a.to.due.localeCompare(b.to.due));
+
+    return { items, warnings: Array.from(new Set(warnings)) };
+  }
+
+  // Works out the cascade again rather than trusting a preview, then writes every date in one transaction
+  async applyReschedule(projectId: string, request: RescheduleRequest): Promise<ReschedulePreview> {
+    const preview = await this.previewReschedule(projectId, request);
+
+    await db.transaction(async (tx: any) => {
+      for (const item of preview.items) {
+        if (item.type === 'task') {
+          await tx.update(tasks)
+            .set({ start_date: item.to.start, due_date: item.to.due, updated_at: new Date() })
+            .where(and(eq(tasks.id, item.id), eq(tasks.project_id, projectId)));
+        } else {
+          await tx.update(milestones)
+            .set({ due_date: item.to.due, updated_at: new Date() })
+            .where(and(eq(milestones.id, item.id), eq(milestones.project_id, projectId)));
+        }
+      }
+    });
+
+    return preview;
+  }
+
+  private async projectWork(projectId: string): Promise<{ taskRows: TaskRow[]; milestoneRows: MilestoneRow[] }> {
+    const taskRows: TaskRow[] = await db.select({
+      id: tasks.id,
+      title: tasks.title,
+      status: tasks.status,
+      milestone_id: tasks.milestone_id,
+      start_date: tasks.start_date,
+      due_date: tasks.due_date,
+      created_at: tasks.created_at,
+      completed_at: tasks.completed_at
+    }).from(tasks).where(eq(tasks.project_id, projectId));
+    const milestoneRows: MilestoneRow[] = await db.select({
+      id: milestones.id,
+      name: milestones.name,
+      status: milestones.status,
+      due_date: milestones.due_date
+    }).from(milestones).where(eq(milestones.project_id, projectId)).orderBy(asc(milestones.due_date));
+    return { taskRows, milestoneRows };
+  }
+
+  // Kahn's algorithm. Links are checked for cycles when added, but a task moved into a milestone
+  // it already depends on can still close one; whatever is left in a cycle goes last, unscheduled.
+  private topologicalOrder(keys: string[], links: ScheduleLink[]): string[] {
+    const inDegree = new Map(keys.map(key => [key, 0]));
+    for (const link of links) {
+      inDegree.set(link.successor, inDegree.get(link.successor)! + 1);
+    }
+
+    const queue = keys.filter(key => inDegree.get(key) === 0);
+    const order: string[] = [];
+    while (queue.length > 0) {
+      const key = queue.shift()!;
+      order.push(key);
+      for (const link of links) {
+        if (link.predecessor !== key) continue;
+        inDegree.set(link.successor, inDegree.get(link.successor)! - 1);
+        if (inDegree.get(link.successor) === 0) queue.push(link.successor);
+      }
+    }
+
+    const placed = new Set(order);
+    return [...order, ...keys.filter(key => !placed.has(key))];
+  }
+}
+
+export const dependencyService = new TaskDependencyService();
@@ -0,0 +1,18 @@
+// Lifecycle timestamps for a task moving between statuses. started_at is set the
+// first time work begins; completed_at follows the task in and out of 'completed'.
+export const taskLifecycleStamps = (fromStatus: string | null, toStatus: string, startedAt: Date | null = null) => {
+  const now = new Date();
+  const stamps: { started_at?: Date; completed_at?: Date | null } = {};
+
+  if (!startedAt && (toStatus === 'in_progress' || toStatus === 'completed')) {
+    stamps.started_at = now;
+  }
+
+  if (toStatus === 'completed' && fromStatus !== 'completed') {
+    stamps.completed_at = now;
+  } else if (fromStatus === 'completed' && toStatus !== 'completed') {
+    stamps.completed_at = null;
+  }
+
+  return stamps;
+};
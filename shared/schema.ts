@@ -71,6 +71,7 @@ export const projects = pgTable("projects", {
   created_at: timestamp("created_at").default(sql`now()`),
   updated_at: timestamp("updated_at").default(sql`now()`),
   department_id: uuid("department_id"),
+  default_retro_framework: text("default_retro_framework"), // used when a retrospective doesn't name one
 });
 
 export const insertProjectSchema = createInsertSchema(projects).omit({
@@ -82,12 +83,50 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
 
+// Reusable project skeletons; content holds milestones, tasks, risks, budget
+// categories and retro defaults with dates as day offsets from the project start
+export const projectTemplates = pgTable("project_templates", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  source_project_id: uuid("source_project_id"),
+  department_id: uuid("department_id"),
+  content: jsonb("content").notNull(),
+  duration_days: integer("duration_days"),
+  created_by: uuid("created_by").notNull(),
+  created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`)
+});
+
+export type ProjectTemplate = typeof projectTemplates.$inferSelect;
+
+// Departments; each department's coordinators see that department's portfolio
+export const departments = pgTable("departments", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  created_by: uuid("created_by"),
+  created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`)
+});
+
+export const insertDepartmentSchema = createInsertSchema(departments).omit({
+  id: true,
+  created_by: true,
+  created_at: true,
+  updated_at: true,
+});
+
+export type InsertDepartment = z.infer<typeof insertDepartmentSchema>;
+export type Department = typeof departments.$inferSelect;
+
 // Users table for authentication
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   email: text("email").notNull().unique(),
   password_hash: text("password_hash").notNull(),
   role: text("role").notNull().default("user"),
+  department_id: uuid("department_id").references(() => departments.id, { onDelete: "set null" }),
   created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
   updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`)
 });
@@ -211,18 +250,74 @@ export const tasks = pgTable("tasks", {
   priority: text("priority").default("medium"),
   owner_id: uuid("owner_id"),
   created_by: uuid("created_by").notNull(),
+  // Planned start; the Gantt views fall back to created_at when it is empty
+  start_date: date("start_date"),
   due_date: date("due_date"),
   department_id: uuid("department_id"),
+  // Lifecycle fields, stamped on status transitions
+  started_at: timestamp("started_at", { withTimezone: true }),
+  completed_at: timestamp("completed_at", { withTimezone: true }),
+  story_points: integer("story_points"),
+  estimate_hours: numeric("estimate_hours", { precision: 8, scale: 2 }),
+  // Sprint the task is committed to; counts toward the iteration's committed story points
+  iteration_id: uuid("iteration_id"),
   // Jira sync fields
   jira_synced: boolean("jira_synced").default(false),
   jira_issue_key: text("jira_issue_key"),
   jira_issue_id: text("jira_issue_id"),
   jira_sync_enabled: boolean("jira_sync_enabled").default(false),
   jira_last_sync: timestamp("jira_last_sync", { withTimezone: true }),
+  // Set when the linked issue was deleted in Jira, so automatic export doesn't recreate it
+  jira_deleted_at: timestamp("jira_deleted_at", { withTimezone: true }),
   created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
   updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`)
 });
 
+// Task status history table
+export const taskStatusHistory = pgTable("task_status_history", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  task_id: uuid("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  old_status: text("old_status"), // null for the entry written when the task is created
+  new_status: text("new_status").notNull(),
+  changed_by: uuid("changed_by").notNull().references(() => users.id),
+  notes: text("notes"),
+  changed_at: timestamp("changed_at", { withTimezone: true }).notNull().default(sql`now()`)
+});
+
+// Daily task counts per status, for cumulative flow and burn charts. The project scope
+// uses the project id as scope_id; iteration and milestone scopes record their membership
+// on the day, so work moved in or out shows up as a scope change.
+export const flowSnapshots = pgTable("flow_snapshots", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  project_id: uuid("project_id").notNull(),
+  snapshot_date: date("snapshot_date").notNull(),
+  scope: text("scope").notNull(), // project, iteration or milestone
+  scope_id: uuid("scope_id").notNull(),
+  status: text("status").notNull(),
+  task_count: integer("task_count").notNull().default(0),
+  story_points: integer("story_points").notNull().default(0),
+  created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`)
+}, (table) => ({
+  uniqueScopeDayStatus: unique().on(table.scope, table.scope_id, table.snapshot_date, table.status)
+}));
+
+// Links between tasks and milestones. Either end can be a task or a milestone, so the
+// ids are not foreign keys; rows are removed when the task or milestone is deleted.
+export const taskDependencies = pgTable("task_dependencies", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  project_id: uuid("project_id").notNull(),
+  predecessor_type: text("predecessor_type").notNull(), // task or milestone
+  predecessor_id: uuid("predecessor_id").notNull(),
+  successor_type: text("successor_type").notNull(),
+  successor_id: uuid("successor_id").notNull(),
+  type: text("type").notNull().default("finish_to_start"), // finish_to_start, start_to_start, finish_to_finish, start_to_finish
+  lag_days: integer("lag_days").notNull().default(0),
+  created_by: uuid("created_by").references(() => users.id),
+  created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`)
+}, (table) => ({
+  uniquePredecessorSuccessor: unique().on(table.predecessor_id, table.successor_id)
+}));
+
 // Milestones table
 export const milestones = pgTable("milestones", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -279,10 +374,28 @@ export const riskRegister = pgTable("risk_register", {
   residual_impact: integer("residual_impact"),
   residual_risk_score: integer("residual_risk_score"),
   notes: text("notes"),
+  review_flagged_at: timestamp("review_flagged_at", { withTimezone: true }), // set once next_review_date passes; cleared when it moves
   created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
   updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`)
 });
 
+// Each assessment a risk has had, newest last. A row is written when a risk is created
+// and whenever an update changes its scores or status, so earlier values aren't lost.
+export const riskScoreHistory = pgTable("risk_score_history", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  risk_id: uuid("risk_id").notNull().references(() => riskRegister.id, { onDelete: "cascade" }),
+  project_id: uuid("project_id").notNull(),
+  likelihood: integer("likelihood"),
+  impact: integer("impact"),
+  risk_score: integer("risk_score"),
+  residual_likelihood: integer("residual_likelihood"),
+  residual_impact: integer("residual_impact"),
+  residual_risk_score: integer("residual_risk_score"),
+  status: text("status"),
+  changed_by: uuid("changed_by"),
+  changed_at: timestamp("changed_at", { withTimezone: true }).notNull().default(sql`now()`)
+});
+
 // Insert schemas for new tables
 export const insertTaskSchema = createInsertSchema(tasks).omit({
   id: true,
@@ -290,6 +403,23 @@ export const insertTaskSchema = createInsertSchema(tasks).omit({
   updated_at: true,
 });
 
+export const insertTaskStatusHistorySchema = createInsertSchema(taskStatusHistory).omit({
+  id: true,
+  changed_at: true,
+});
+
+export const insertTaskDependencySchema = createInsertSchema(taskDependencies).omit({
+  id: true,
+  project_id: true,
+  created_by: true,
+  created_at: true,
+}).extend({
+  predecessor_type: z.enum(["task", "milestone"]),
+  successor_type: z.enum(["task", "milestone"]),
+  type: z.enum(["finish_to_start", "start_to_start", "finish_to_finish", "start_to_finish"]).default("finish_to_start"),
+  lag_days: z.number().int().min(-365).max(365).default(0),
+});
+
 export const insertMilestoneSchema = createInsertSchema(milestones).omit({
   id: true,
   created_at: true,
@@ -304,6 +434,7 @@ export const insertStakeholderSchema = createInsertSchema(stakeholders).omit({
 
 export const insertRiskSchema = createInsertSchema(riskRegister).omit({
   id: true,
+  review_flagged_at: true,
   created_at: true,
   updated_at: true,
 });
@@ -313,7 +444,13 @@ export type Task = typeof tasks.$inferSelect;
 export type Milestone = typeof milestones.$inferSelect;
 export type Stakeholder = typeof stakeholders.$inferSelect;
 export type Risk = typeof riskRegister.$inferSelect;
+export type RiskScoreHistory = typeof riskScoreHistory.$inferSelect;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
+export type TaskStatusHistory = typeof taskStatusHistory.$inferSelect;
+export type InsertTaskStatusHistory = z.infer<typeof insertTaskStatusHistorySchema>;
+export type FlowSnapshot = typeof flowSnapshots.$inferSelect;
+export type TaskDependency = typeof taskDependencies.$inferSelect;
+export type InsertTaskDependency = z.infer<typeof insertTaskDependencySchema>;
 export type InsertMilestone = z.infer<typeof insertMilestoneSchema>;
 export type InsertStakeholder = z.infer<typeof insertStakeholderSchema>;
 export type InsertRisk = z.infer<typeof insertRiskSchema>;
@@ -381,21 +518,48 @@ export const taskBacklog = pgTable("task_backlog", {
   source_type: text("source_type").default("manual"),
   source_id: uuid("source_id"),
   department_id: uuid("department_id"),
+  // Sprint planning: the estimate and the iteration the item is planned into
+  story_points: integer("story_points"),
+  iteration_id: uuid("iteration_id"),
   jira_synced: boolean("jira_synced").notNull().default(false),
   jira_issue_key: text("jira_issue_key"),
   jira_issue_id: text("jira_issue_id"),
   jira_sync_enabled: boolean("jira_sync_enabled").notNull().default(false),
   jira_last_sync: timestamp("jira_last_sync", { withTimezone: true }),
+  jira_deleted_at: timestamp("jira_deleted_at", { withTimezone: true }),
   created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
   updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`)
 });
 
+// Public holiday calendars, one per site or region, assigned to teams and members
+export const holidayCalendars = pgTable("holiday_calendars", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  region: text("region"),
+  description: text("description"),
+  created_by: uuid("created_by").notNull(),
+  created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`)
+});
+
+export const holidays = pgTable("holidays", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  calendar_id: uuid("calendar_id").notNull().references(() => holidayCalendars.id, { onDelete: "cascade" }),
+  date: date("date").notNull(),
+  name: text("name").notNull(),
+  source_uid: text("source_uid"), // UID of the imported iCalendar event
+  created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`)
+}, (table) => ({
+  uniqueCalendarDate: unique().on(table.calendar_id, table.date)
+}));
+
 // Teams and Team Capacity Tables
 export const teams = pgTable("teams", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   project_id: uuid("project_id").notNull(),
   name: text("name").notNull(),
   description: text("description"),
+  holiday_calendar_id: uuid("holiday_calendar_id").references(() => holidayCalendars.id, { onDelete: "set null" }),
   created_by: uuid("created_by").notNull(),
   created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
   updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`)
@@ -408,6 +572,8 @@ export const teamMembers = pgTable("team_members", {
   role: text("role"),
   email: text("email"),
   work_mode: text("work_mode").notNull().default("office"),
+  focus_factor: numeric("focus_factor", { precision: 3, scale: 2 }), // share of present time spent on sprint work; null uses the iteration's
+  holiday_calendar_id: uuid("holiday_calendar_id").references(() => holidayCalendars.id, { onDelete: "set null" }), // overrides the team's calendar
   created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
   updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`)
 });
@@ -419,7 +585,9 @@ export const teamCapacityIterations = pgTable("team_capacity_iterations", {
   start_date: date("start_date").notNull(),
   end_date: date("end_date").notNull(),
   working_days: integer("working_days").notNull(),
-  committed_story_points: integer("committed_story_points"),
+  committed_story_points: integer("committed_story_points"), // kept in step with planned work by sprint planning
+  points_per_day: numeric("points_per_day", { precision: 5, scale: 2 }).notNull().default("1.00"), // story points delivered per effective capacity day
+  focus_factor: numeric("focus_factor", { precision: 3, scale: 2 }).notNull().default("1.00"), // default share of present time spent on sprint work
   created_by: uuid("created_by").notNull(),
   created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
   updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`),
@@ -502,6 +670,13 @@ export const insertTeamSchema = createInsertSchema(teams).omit({
   updated_at: true,
 });
 
+export const insertHolidayCalendarSchema = createInsertSchema(holidayCalendars).omit({
+  id: true,
+  created_by: true,
+  created_at: true,
+  updated_at: true,
+});
+
 export const insertTeamMemberSchema = createInsertSchema(teamMembers).omit({
   id: true,
   created_at: true,
@@ -539,6 +714,8 @@ export type DiscussionChangeLog = typeof discussionChangeLog.$inferSelect;
 export type ProjectMember = typeof projectMembers.$inferSelect;
 export type TaskBacklog = typeof taskBacklog.$inferSelect;
 export type Team = typeof teams.$inferSelect;
+export type HolidayCalendar = typeof holidayCalendars.$inferSelect;
+export type Holiday = typeof holidays.$inferSelect;
 export type TeamMember = typeof teamMembers.$inferSelect;
 export type TeamCapacityIteration = typeof teamCapacityIterations.$inferSelect;
 export type TeamCapacityMember = typeof teamCapacityMembers.$inferSelect;
@@ -560,8 +737,14 @@ export const retrospectives = pgTable("retrospectives", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   project_id: uuid("project_id").notNull(),
   iteration_id: uuid("iteration_id"),
+  // Retros of the same team follow up each other's action items; null is the whole project
+  team_id: uuid("team_id"),
   framework: text("framework").notNull().default("classic"),
-  status: text("status").notNull().default("active"),
+  // Facilitated phase: write, group, vote, discuss or closed. Older boards say "active"
+  status: text("status").notNull().default("write"),
+  facilitator_id: uuid("facilitator_id"),
+  vote_budget: integer("vote_budget").notNull().default(3),
+  timer_ends_at: timestamp("timer_ends_at", { withTimezone: true }),
   created_by: uuid("created_by").notNull(),
   created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
   updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`)
@@ -572,6 +755,8 @@ export const retrospectiveColumns = pgTable("retrospective_columns", {
   retrospective_id: uuid("retrospective_id").notNull(),
   title: text("title").notNull(),
   subtitle: text("subtitle"),
+  color: text("color"), // hex accent for the column header
+  prompts: jsonb("prompts").notNull().default(sql`'[]'::jsonb`), // questions to get people writing
   column_order: integer("column_order").notNull().default(0),
   created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
   updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`)
@@ -583,6 +768,8 @@ export const retrospectiveCards = pgTable("retrospective_cards", {
   text: text("text").notNull(),
   votes: integer("votes").notNull().default(0),
   card_order: integer("card_order").notNull().default(0),
+  // Lead card of the group this card was stacked under
+  group_id: uuid("group_id"),
   created_by: uuid("created_by").notNull(),
   created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
   updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`)
@@ -596,8 +783,14 @@ export const retrospectiveActionItems = pgTable("retrospective_action_items", {
   who_responsible: text("who_responsible"),
   how_approach: text("how_approach"),
   from_card_id: uuid("from_card_id"),
-  backlog_ref_id: uuid("backlog_ref_id"),
+  backlog_ref_id: uuid("backlog_ref_id"), // the task_backlog entry, whose source_id points back here
+  task_ref_id: uuid("task_ref_id"), // the task the backlog entry was moved into, which now tracks the work
   converted_to_task: boolean("converted_to_task").default(false),
+  // open, in_progress, done, carried_over or dropped
+  status: text("status").notNull().default("open"),
+  completed_at: timestamp("completed_at", { withTimezone: true }),
+  // The item in an earlier retro that this one continues
+  carried_from_id: uuid("carried_from_id"),
   created_by: uuid("created_by").notNull(),
   created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
   updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`)
@@ -612,6 +805,23 @@ export const retrospectiveCardVotes = pgTable("retrospective_card_votes", {
   uniqueVote: unique().on(table.card_id, table.user_id)
 }));
 
+// Custom retrospective formats. A null project_id shares one across the organisation,
+// limited to department_id when that's set; columns is the ordered list of
+// { title, subtitle, color, prompts } copied onto each new board
+export const retroFrameworks = pgTable("retro_frameworks", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  project_id: uuid("project_id"),
+  department_id: uuid("department_id"),
+  columns: jsonb("columns").notNull(),
+  created_by: uuid("created_by").notNull(),
+  created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`)
+});
+
+export type RetroFramework = typeof retroFrameworks.$inferSelect;
+
 // Insert schemas for retrospective tables
 export const insertRetrospectiveSchema = createInsertSchema(retrospectives).omit({
   id: true,
@@ -681,10 +891,17 @@ export const modulePermissions = pgTable("module_permissions", {
 export const moduleAccessAudit = pgTable("module_access_audit", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   user_id: uuid("user_id").notNull().references(() => users.id),
-  project_id: uuid("project_id").notNull().references(() => projects.id),
+  // Cleared when the project is deleted; its entries stay for the compliance trail
+  project_id: uuid("project_id").references(() => projects.id, { onDelete: "set null" }),
   module: text("module").notNull(),
-  access_type: text("access_type").notNull(), // accessed, denied
+  access_type: text("access_type").notNull(), // accessed, denied, mutation
   access_level: text("access_level").notNull(), // read, write
+  action: text("action"), // created, updated, deleted (mutations only)
+  entity_type: text("entity_type"),
+  entity_id: text("entity_id"),
+  description: text("description"),
+  old_values: jsonb("old_values"),
+  new_values: jsonb("new_values"),
   timestamp: timestamp("timestamp", { withTimezone: true }).notNull().default(sql`now()`)
 });
 
@@ -700,6 +917,9 @@ export const jiraIntegrations = pgTable("jira_integrations", {
   enabled: boolean("enabled").default(true),
   sync_enabled: boolean("sync_enabled").default(false),
   auto_sync: boolean("auto_sync").default(false),
+  sync_interval_minutes: integer("sync_interval_minutes").notNull().default(15), // how often auto_sync runs
+  webhook_secret: text("webhook_secret"), // shared secret Jira signs webhook deliveries with
+  conflict_policy: text("conflict_policy").notNull().default("manual"), // 'local_wins', 'remote_wins', 'manual'
   field_mapping: text("field_mapping"), // JSON string for field mappings
   last_sync: timestamp("last_sync", { withTimezone: true }),
   created_by: uuid("created_by").notNull().references(() => users.id),
@@ -719,7 +939,28 @@ export const jiraSyncHistory = pgTable("jira_sync_history", {
   error_message: text("error_message"),
   sync_data: text("sync_data"), // JSON string of synced data
   performed_by: uuid("performed_by").references(() => users.id),
+  event_id: text("event_id"), // webhook delivery id, used to drop redelivered events
   created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`)
+}, (table) => ({
+  uniqueProjectEvent: unique().on(table.project_id, table.event_id)
+}));
+
+// Jira Sync Conflicts table - items edited on both sides since their last sync
+export const jiraSyncConflicts = pgTable("jira_sync_conflicts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  project_id: uuid("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  item_type: text("item_type").notNull(), // 'task', 'backlog'
+  item_id: uuid("item_id").notNull(),
+  jira_issue_key: text("jira_issue_key").notNull(),
+  fields: jsonb("fields").notNull(), // [{ field, base, local, remote, conflicting }]
+  local_updated_at: timestamp("local_updated_at", { withTimezone: true }),
+  remote_updated_at: timestamp("remote_updated_at", { withTimezone: true }),
+  status: text("status").notNull().default("open"), // 'open', 'resolved'
+  resolution: jsonb("resolution"), // field -> { choice, value }
+  resolved_by: uuid("resolved_by").references(() => users.id),
+  resolved_at: timestamp("resolved_at", { withTimezone: true }),
+  created_at: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  updated_at: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`)
 });
 
 // Insert schemas for Jira integration
@@ -739,6 +980,7 @@ export type JiraIntegration = typeof jiraIntegrations.$inferSelect;
 export type JiraSyncHistory = typeof jiraSyncHistory.$inferSelect;
 export type InsertJiraIntegration = z.infer<typeof insertJiraIntegrationSchema>;
 export type InsertJiraSyncHistory = z.infer<typeof insertJiraSyncHistorySchema>;
+export type JiraSyncConflict = typeof jiraSyncConflicts.$inferSelect;
 
 // Insert schemas for access control tables
 export const insertUserRoleSchema = createInsertSchema(userRoles).omit({